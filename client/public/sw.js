@@ -0,0 +1,113 @@
+// Service worker for the organizer PWA. Registered as /sw.js?v=<build id>, so every deploy
+// installs a new worker that waits until the page asks it to take over (update prompt).
+
+const BUILD_ID = new URL(self.location.href).searchParams.get("v") || "dev";
+const SHELL_CACHE = `shell-${BUILD_ID}`;
+const FONT_CACHE = "fonts";
+const API_CACHE = "organizer-api";
+
+const SHELL_URLS = ["/", "/manifest.json", "/favicon.png", "/icon-192.png", "/icon-512.png"];
+
+// Organizer reads that must keep working at the door without a connection
+const CACHED_API_PATTERNS = [
+  /^\/api\/auth\/me$/,
+  /^\/api\/auth\/permissions$/,
+  /^\/api\/organizer\/events$/,
+  /^\/api\/events\/[^/]+\/guests$/,
+  /^\/api\/events\/[^/]+\/qr-keys$/,
+  /^\/api\/events\/[^/]+\/my-gate$/,
+  /^\/api\/events\/[^/]+\/categories$/,
+];
+
+// Cache the shell and the hashed bundles it references
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const html = await (await cache.match("/")).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (m) => m[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, FONT_CACHE, API_CACHE];
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skip-waiting") {
+    self.skipWaiting();
+  }
+  // Sent on logout so the next user on a shared device never sees cached data
+  if (event.data?.type === "clear-api-cache") {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname === "fonts.googleapis.com" || url.hostname === "fonts.gstatic.com") {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    if (CACHED_API_PATTERNS.some((pattern) => pattern.test(url.pathname))) {
+      event.respondWith(networkFirst(request, API_CACHE));
+    }
+    return;
+  }
+
+  // Client-side routes all load the same shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match("/", { cacheName: SHELL_CACHE })) || Response.error())
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth";
 import { Layout } from "@/components/layout";
+import { UpdatePrompt } from "@/components/update-prompt";
 import { Loader2 } from "lucide-react";
 
 import LoginPage from "@/pages/login";
@@ -15,6 +16,7 @@ import NewEventPage from "@/pages/new-event";
 import EditEventPage from "@/pages/edit-event";
 import AssignOrganizersPage from "@/pages/assign-organizers";
 import AddGuestPage from "@/pages/add-guest";
+import ImportGuestsPage from "@/pages/import-guests";
 import EditGuestPage from "@/pages/edit-guest";
 import AdminsPage from "@/pages/admins";
 import EventManagersPage from "@/pages/event-managers";
@@ -24,10 +26,17 @@ import ReportsPage from "@/pages/reports";
 import SettingsPage from "@/pages/settings";
 import CapacityTiersPage from "@/pages/capacity-tiers";
 import SubscriptionsPage from "@/pages/subscriptions";
+import TwoFactorPage from "@/pages/two-factor";
+import SessionsPage from "@/pages/sessions";
+import PermissionsPage from "@/pages/permissions";
+import AccountPage from "@/pages/account";
+import ApiKeysPage from "@/pages/api-keys";
+import ChangePasswordRequiredPage from "@/pages/change-password-required";
+import ResetPasswordPage from "@/pages/reset-password";
 import NotFound from "@/pages/not-found";
 
 function ProtectedRoutes() {
-  const { user, isLoading } = useAuth();
+  const { user, impersonation, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -41,6 +50,10 @@ function ProtectedRoutes() {
     return <LoginPage />;
   }
 
+  if (user.mustChangePassword && !impersonation) {
+    return <ChangePasswordRequiredPage />;
+  }
+
   return (
     <Layout>
       <Switch>
@@ -50,6 +63,7 @@ function ProtectedRoutes() {
         <Route path="/events/:id/edit" component={EditEventPage} />
         <Route path="/events/:id/assign-organizers" component={AssignOrganizersPage} />
         <Route path="/events/:id/add-guest" component={AddGuestPage} />
+        <Route path="/events/:id/import" component={ImportGuestsPage} />
         <Route path="/events/:eventId/guests/:guestId/edit" component={EditGuestPage} />
         <Route path="/events/:id" component={EventDetailPage} />
         <Route path="/admins" component={AdminsPage} />
@@ -60,6 +74,11 @@ function ProtectedRoutes() {
         <Route path="/settings" component={SettingsPage} />
         <Route path="/capacity-tiers" component={CapacityTiersPage} />
         <Route path="/subscriptions" component={SubscriptionsPage} />
+        <Route path="/two-factor" component={TwoFactorPage} />
+        <Route path="/sessions" component={SessionsPage} />
+        <Route path="/permissions" component={PermissionsPage} />
+        <Route path="/account" component={AccountPage} />
+        <Route path="/api-keys" component={ApiKeysPage} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -70,6 +89,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/login" component={LoginPage} />
+      <Route path="/reset-password/:token" component={ResetPasswordPage} />
       <Route component={ProtectedRoutes} />
     </Switch>
   );
@@ -81,6 +101,7 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <Toaster />
+          <UpdatePrompt />
           <Router />
         </AuthProvider>
       </TooltipProvider>
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { findCategory, type CategoryDisplay } from "@shared/categories";
+
+interface CategoryBadgeProps {
+  categories: CategoryDisplay[];
+  category: string | null | undefined;
+  className?: string;
+}
+
+// A guest's category in the event's label and color; an undefined key shows as a grey badge
+export function CategoryBadge({ categories, category, className = "" }: CategoryBadgeProps) {
+  const found = findCategory(categories, category);
+  const color = found?.color ?? "#64748B";
+  return (
+    <Badge
+      variant="secondary"
+      className={`border-none ${className}`}
+      style={{ backgroundColor: `${color}33`, color }}
+      data-testid={`badge-category-${category ?? "none"}`}
+    >
+      {found?.label ?? category ?? "-"}
+    </Badge>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+const passwordFormSchema = z
+  .object({
+    currentPassword: z.string().min(1, "كلمة المرور الحالية مطلوبة"),
+    newPassword: z.string().min(6, "كلمة المرور يجب أن تكون 6 أحرف على الأقل"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "كلمتا المرور غير متطابقتين",
+    path: ["confirmPassword"],
+  });
+
+type PasswordFormData = z.infer<typeof passwordFormSchema>;
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+export function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: PasswordFormData) => {
+      const res = await fetch("/api/auth/me/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentPassword: data.currentPassword,
+          newPassword: data.newPassword,
+        }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل تغيير كلمة المرور");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم تغيير كلمة المرور",
+        description: "تم تسجيل الخروج من جميع الأجهزة الأخرى",
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "فشل تغيير كلمة المرور",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fields = [
+    { name: "currentPassword", label: "كلمة المرور الحالية" },
+    { name: "newPassword", label: "كلمة المرور الجديدة" },
+    { name: "confirmPassword", label: "تأكيد كلمة المرور الجديدة" },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => changeMutation.mutate(data))} className="space-y-4">
+        {fields.map((passwordField) => (
+          <FormField
+            key={passwordField.name}
+            control={form.control}
+            name={passwordField.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-white">{passwordField.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="password"
+                    className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                    data-testid={`input-${passwordField.name}`}
+                  />
+                </FormControl>
+                <FormMessage className="text-red-400" />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <Button
+          type="submit"
+          disabled={changeMutation.isPending}
+          className="w-full h-12 gradient-primary"
+          data-testid="button-change-password"
+        >
+          {changeMutation.isPending ? (
+            <Loader2 className="w-5 h-5 animate-spin ml-2" />
+          ) : (
+            <KeyRound className="w-5 h-5 ml-2" />
+          )}
+          تغيير كلمة المرور
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,93 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { EventGuestField, GuestCustomFieldValues } from "@shared/schema";
+
+// Form state of the custom fields: what the user typed, parsed by the server on save
+export type CustomFieldInputValues = Record<string, string | boolean>;
+
+export function toCustomFieldInputValues(values: GuestCustomFieldValues | null | undefined): CustomFieldInputValues {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([id, value]) => [id, typeof value === "boolean" ? value : String(value ?? "")])
+  );
+}
+
+interface CustomFieldInputsProps {
+  fields: EventGuestField[];
+  values: CustomFieldInputValues;
+  onChange: (values: CustomFieldInputValues) => void;
+  error?: string | null;
+}
+
+// The body sent to the server. A yes/no switch that was never touched is a "no" answer.
+export function customFieldsBody(fields: EventGuestField[], values: CustomFieldInputValues): CustomFieldInputValues {
+  const body = { ...values };
+  for (const field of fields) {
+    if (field.type === "boolean" && body[field.id] === undefined) body[field.id] = false;
+  }
+  return body;
+}
+
+// One input per custom field of the event, in the field's order
+export function CustomFieldInputs({ fields, values, onChange, error }: CustomFieldInputsProps) {
+  const setValue = (fieldId: string, value: string | boolean) => onChange({ ...values, [fieldId]: value });
+
+  return (
+    <>
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label className="text-white">
+            {field.label}
+            {field.required && " *"}
+          </Label>
+          {field.type === "boolean" ? (
+            <div className="flex items-center gap-3 h-12">
+              <Switch
+                checked={values[field.id] === true}
+                onCheckedChange={(checked) => setValue(field.id, checked)}
+                data-testid={`switch-custom-field-${field.id}`}
+              />
+              <span className="text-muted-foreground">{values[field.id] === true ? "نعم" : "لا"}</span>
+            </div>
+          ) : field.type === "select" ? (
+            <Select
+              value={typeof values[field.id] === "string" ? (values[field.id] as string) : ""}
+              onValueChange={(value) => setValue(field.id, value)}
+            >
+              <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid={`select-custom-field-${field.id}`}>
+                <SelectValue placeholder="اختر" />
+              </SelectTrigger>
+              <SelectContent className="glass border-white/10">
+                {field.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              type={field.type === "number" ? "number" : "text"}
+              value={typeof values[field.id] === "string" ? (values[field.id] as string) : ""}
+              onChange={(e) => setValue(field.id, e.target.value)}
+              className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+              data-testid={`input-custom-field-${field.id}`}
+            />
+          )}
+        </div>
+      ))}
+      {error && (
+        <p className="text-sm font-medium text-red-400" data-testid="text-custom-fields-error">
+          {error}
+        </p>
+      )}
+    </>
+  );
+}
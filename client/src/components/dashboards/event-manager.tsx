@@ -4,7 +4,7 @@ import { Calendar, Users, UserCheck, Clock, Plus, ArrowLeft, Package, AlertCircl
 import { Link } from "wouter";
 import { StatsCard } from "@/components/stats-card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { EventStatusBadge } from "@/components/event-status-badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import type { Event } from "@shared/schema";
@@ -214,9 +214,7 @@ export function EventManagerDashboard() {
                         </p>
                       </div>
                     </div>
-                    <Badge variant="secondary" className="bg-primary/20 text-primary border-none">
-                      {event.isActive ? "نشط" : "غير نشط"}
-                    </Badge>
+                    <EventStatusBadge status={event.status} />
                   </div>
                 </Link>
               </motion.div>
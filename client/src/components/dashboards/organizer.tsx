@@ -1,33 +1,100 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { QrCode, Search, CheckCircle, XCircle, AlertTriangle, Users, Clock, Wifi, WifiOff, Loader2, Camera, CameraOff } from "lucide-react";
+import { QrCode, Search, CheckCircle, XCircle, AlertTriangle, Users, Clock, Wifi, WifiOff, Loader2, Camera, CameraOff, Undo2, Minus, Plus, LogIn, LogOut, DoorOpen, CalendarDays } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Guest, Event } from "@shared/schema";
+import {
+  cacheEventPublicKeys,
+  getCachedEventPublicKeys,
+  verifySignedQrOffline,
+} from "@/lib/signed-qr";
+import {
+  queueCheckIn,
+  getQueuedCheckIns,
+  syncPendingCheckIns,
+  type QueuedCheckIn,
+} from "@/lib/offline-queue";
+import { OfflineQueueStatus } from "@/components/offline-queue-status";
+import { PwaStatusBadge } from "@/components/pwa-status-badge";
+import { RevertCheckInDialog } from "@/components/revert-check-in-dialog";
+import { EventStatusBadge } from "@/components/event-status-badge";
+import { CategoryBadge } from "@/components/category-badge";
+import { useAuth } from "@/lib/auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ORGANIZER_UNDO_WINDOW_MINUTES } from "@shared/permissions";
+import { arrivedHeadcount, expectedHeadcount, remainingCompanions, summarizeHeadcount } from "@shared/headcount";
+import { canEnterGate, gateRefusalMessage } from "@shared/gates";
+import { checkInRefusal } from "@shared/event-lifecycle";
+import { phoneMatchesSearch } from "@shared/phone";
+import { customFieldsMatchSearch, formatCustomFieldValue } from "@shared/custom-fields";
+import { categoryLabel, findCategory } from "@shared/categories";
+import type { Guest, Event, EventOccupancy, EventSession, EventGate, EventCategory, EventGuestField, GateAccess } from "@shared/schema";
+import type { EventPublicKeys } from "@shared/signed-qr";
 import { Html5Qrcode } from "html5-qrcode";
 
 type CheckInResult = {
-  status: "success" | "duplicate" | "invalid";
+  // not_allowed: the guest's category (or an override) keeps them out of this organizer's gate
+  // closed: the event takes no check-ins right now (outside its window, or closed)
+  status: "success" | "duplicate" | "invalid" | "not_allowed" | "closed";
   guest?: Guest;
   message: string;
   checkedInAt?: string;
   checkedInBy?: string;
+  // Recorded in the device queue while offline, not yet on the server
+  offline?: boolean;
+  // Set by check-out and re-entry in events that track exits
+  direction?: "entry" | "exit";
+  occupancy?: EventOccupancy;
+  // Set by admissions to one session of a multi-session event
+  session?: EventSession;
+  gate?: EventGate;
+  // Set on a repeat scan of a guest whose companions have not all come in yet
+  companionsRemaining?: number;
 };
 
+type DoorMode = "entry" | "exit";
+
+// Value of the session selector for the event's main entrance
+const MAIN_ENTRANCE = "main";
+
+// Check-out and session admission are online-only; the server's refusal comes back as a result
+async function postAtDoor(url: string, body: Record<string, unknown>, idempotencyKey: string): Promise<CheckInResult> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const result = await res.json().catch(() => ({}));
+  if (!res.ok && !result.status) {
+    throw new Error(result.error || result.message || "فشل في تنفيذ العملية");
+  }
+  return result as CheckInResult;
+}
+
 export function OrganizerDashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedEvent, setSelectedEvent] = useState<string | null>(null);
   const [checkInResult, setCheckInResult] = useState<CheckInResult | null>(null);
+  const [lateCompanions, setLateCompanions] = useState(1);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [localGuests, setLocalGuests] = useState<Guest[]>([]);
   const [isScannerActive, setIsScannerActive] = useState(false);
   const [scannerError, setScannerError] = useState<string | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  const [queuedCheckIns, setQueuedCheckIns] = useState<QueuedCheckIn[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [revertGuest, setRevertGuest] = useState<Guest | null>(null);
+  const [doorMode, setDoorMode] = useState<DoorMode>("entry");
+  const [selectedSession, setSelectedSession] = useState<string>(MAIN_ENTRANCE);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = usePermissions();
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -49,12 +116,112 @@ export function OrganizerDashboard() {
     enabled: !!selectedEvent,
   });
 
+  // Public signing keys, cached for verifying signed QR codes without a connection
+  const { data: publicKeys } = useQuery<EventPublicKeys>({
+    queryKey: ["/api/events", selectedEvent, "qr-keys"],
+    enabled: !!selectedEvent && isOnline,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (publicKeys) {
+      cacheEventPublicKeys(publicKeys);
+    }
+  }, [publicKeys]);
+
+  const currentEvent = events.find((e) => e.id === selectedEvent);
+  const tracksExits = !!currentEvent?.trackExits;
+
+  const { data: occupancy } = useQuery<EventOccupancy>({
+    queryKey: ["/api/events", selectedEvent, "occupancy"],
+    enabled: !!selectedEvent && isOnline && (tracksExits || !!currentEvent?.occupancyLimit),
+    refetchInterval: 15_000,
+    staleTime: 0,
+  });
+
+  const { data: sessions = [] } = useQuery<EventSession[]>({
+    queryKey: ["/api/events", selectedEvent, "sessions"],
+    enabled: !!selectedEvent && isOnline,
+  });
+  const currentSession = sessions.find((s) => s.id === selectedSession);
+
+  const { data: gateAccess } = useQuery<GateAccess>({
+    queryKey: ["/api/events", selectedEvent, "my-gate"],
+    enabled: !!selectedEvent,
+  });
+  const myGate = gateAccess?.gate ?? null;
+
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", selectedEvent, "categories"],
+    enabled: !!selectedEvent,
+  });
+
+  const { data: customFields = [] } = useQuery<EventGuestField[]>({
+    queryKey: ["/api/events", selectedEvent, "guest-fields"],
+    enabled: !!selectedEvent,
+  });
+  const doorFields = customFields.filter((field) => field.showAtDoor);
+
+  useEffect(() => {
+    setDoorMode("entry");
+    setSelectedSession(MAIN_ENTRANCE);
+  }, [selectedEvent]);
+
+  const refreshQueue = useCallback(async () => {
+    if (!selectedEvent) {
+      setQueuedCheckIns([]);
+      return;
+    }
+    setQueuedCheckIns(await getQueuedCheckIns(selectedEvent));
+  }, [selectedEvent]);
+
+  const syncQueue = useCallback(async () => {
+    if (!selectedEvent) return;
+    setIsSyncing(true);
+    try {
+      const updated = await syncPendingCheckIns(selectedEvent);
+      if (updated.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
+        const conflicts = updated.filter((e) => e.status !== "synced").length;
+        toast({
+          title: "تمت المزامنة",
+          description: conflicts > 0
+            ? `تمت مزامنة ${updated.length} تسجيل، منها ${conflicts} بتعارض`
+            : `تمت مزامنة ${updated.length} تسجيل`,
+          variant: conflicts > 0 ? "destructive" : "default",
+        });
+      }
+    } catch {
+      // Entries stay pending and are retried on the next sync
+    } finally {
+      setIsSyncing(false);
+      refreshQueue();
+    }
+  }, [selectedEvent, refreshQueue, toast]);
+
+  useEffect(() => {
+    refreshQueue();
+  }, [refreshQueue]);
+
+  useEffect(() => {
+    if (isOnline && selectedEvent) {
+      syncQueue();
+    }
+  }, [isOnline, selectedEvent, syncQueue]);
+
   useEffect(() => {
     if (guests.length > 0) {
-      setLocalGuests(guests);
-      localStorage.setItem(`guests_${selectedEvent}`, JSON.stringify(guests));
+      // Keep guests admitted on this device marked until the server has the check-in
+      const pendingIds = new Set(
+        queuedCheckIns.filter((e) => e.status === "pending").map((e) => e.guestId)
+      );
+      const merged = guests.map((g) =>
+        pendingIds.has(g.id) && !g.isCheckedIn ? { ...g, isCheckedIn: true } : g
+      );
+      setLocalGuests(merged);
+      localStorage.setItem(`guests_${selectedEvent}`, JSON.stringify(merged));
     }
-  }, [guests, selectedEvent]);
+  }, [guests, selectedEvent, queuedCheckIns]);
 
   useEffect(() => {
     if (selectedEvent) {
@@ -65,41 +232,203 @@ export function OrganizerDashboard() {
     }
   }, [selectedEvent]);
 
+  const recordOfflineCheckIn = async (guest: Guest, idempotencyKey?: string) => {
+    if (!selectedEvent) return;
+    // The cached event's own window; sessions that extend it are only known to the server
+    const closedMessage = currentEvent ? checkInRefusal(currentEvent) : null;
+    if (closedMessage) {
+      setCheckInResult({ status: "closed", guest, message: closedMessage });
+      return;
+    }
+    // Same gate rule the server applies, from the cached copy of this organizer's gate
+    if (myGate) {
+      const override = gateAccess?.overrides.find((o) => o.guestId === guest.id);
+      if (!canEnterGate(myGate, guest, categories, override?.allowed)) {
+        setCheckInResult({ status: "not_allowed", guest, gate: myGate, message: gateRefusalMessage(myGate) });
+        return;
+      }
+    }
+    const entry = await queueCheckIn(selectedEvent, guest.id, guest.name, idempotencyKey);
+    const admittedGuest: Guest = {
+      ...guest,
+      isCheckedIn: true,
+      isInside: true,
+      checkedInAt: new Date(entry.checkedInAt),
+      companionsCheckedIn: guest.companions || 0,
+    };
+    setLocalGuests((prev) => {
+      const next = prev.map((g) => (g.id === guest.id ? admittedGuest : g));
+      localStorage.setItem(`guests_${selectedEvent}`, JSON.stringify(next));
+      return next;
+    });
+    await refreshQueue();
+    setCheckInResult({
+      status: "success",
+      guest: admittedGuest,
+      message: "تم تسجيل الحضور على هذا الجهاز وستتم المزامنة عند عودة الاتصال",
+      offline: true,
+    });
+  };
+
+  // Each attempt carries one idempotency key, reused by the automatic retry, so a request
+  // whose answer was lost on a flaky connection is not reported back as "duplicate"
+  // `companions` is only sent for companions arriving after the guest, picked on the result card
   const checkInMutation = useMutation({
-    mutationFn: async (guestId: string) => {
-      const res = await apiRequest("POST", `/api/guests/${guestId}/check-in`);
-      return res.json();
+    mutationFn: ({ guestId, idempotencyKey, companions }: { guestId: string; idempotencyKey: string; companions?: number }) =>
+      postAtDoor(`/api/guests/${guestId}/check-in`, companions === undefined ? {} : { companions }, idempotencyKey),
+    retry: (failureCount, error) => error instanceof TypeError && failureCount < 1,
+    onSuccess: (data: CheckInResult) => handleDoorResult(data),
+    onError: (error, { guestId, idempotencyKey, companions }) => {
+      // The connection dropped mid-request: keep the door moving with the offline queue
+      // (the queue admits a whole party, so late companions wait for the connection)
+      const guest = localGuests.find((g) => g.id === guestId);
+      if (error instanceof TypeError && guest && companions === undefined) {
+        recordOfflineCheckIn(guest, idempotencyKey);
+        return;
+      }
+      toast({
+        title: "خطأ",
+        description: error.message || "فشل في تسجيل الحضور",
+        variant: "destructive",
+      });
     },
-    onSuccess: (data: CheckInResult) => {
-      setCheckInResult(data);
+  });
+
+  // Exits are only recorded online: the party's state must be right for the occupancy count
+  const checkOutMutation = useMutation({
+    mutationFn: ({ guestId, code, idempotencyKey }: { guestId?: string; code?: string; idempotencyKey: string }) =>
+      guestId
+        ? postAtDoor(`/api/guests/${guestId}/check-out`, {}, idempotencyKey)
+        : postAtDoor("/api/check-out/code", { code, eventId: selectedEvent }, idempotencyKey),
+    retry: (failureCount, error) => error instanceof TypeError && failureCount < 1,
+    onSuccess: (data) => handleDoorResult(data),
+    onError: (error) => {
+      setCheckInResult({
+        status: "invalid",
+        message: error instanceof TypeError ? "تسجيل الخروج يتطلب اتصالاً بالإنترنت" : error.message,
+      });
+    },
+  });
+
+  // Admission to the session picked in the selector (multi-session events)
+  const sessionCheckInMutation = useMutation({
+    mutationFn: ({ sessionId, guestId, code, idempotencyKey }: { sessionId: string; guestId?: string; code?: string; idempotencyKey: string }) =>
+      postAtDoor(`/api/event-sessions/${sessionId}/check-in`, guestId ? { guestId } : { code }, idempotencyKey),
+    retry: (failureCount, error) => error instanceof TypeError && failureCount < 1,
+    onSuccess: (data) => {
+      handleDoorResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "sessions"] });
+    },
+    onError: (error) => {
+      setCheckInResult({
+        status: "invalid",
+        message: error instanceof TypeError ? "تسجيل دخول الجلسات يتطلب اتصالاً بالإنترنت" : error.message,
+      });
+    },
+  });
+
+  // The late-companions picker starts at one for every new result
+  useEffect(() => {
+    setLateCompanions(1);
+  }, [checkInResult]);
+
+  const handleDoorResult = (data: CheckInResult) => {
+    setCheckInResult(data);
+    queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "occupancy"] });
+    if (data.occupancy && data.occupancy.level !== "ok" && data.direction !== "exit") {
+      toast({
+        title: data.occupancy.level === "full" ? "المكان ممتلئ" : "اقتراب من الطاقة الاستيعابية",
+        description: `داخل المكان الآن ${data.occupancy.inside} من ${data.occupancy.limit}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Door correction when fewer companions came in than were invited
+  const companionsMutation = useMutation({
+    mutationFn: async ({ guestId, count }: { guestId: string; count: number }) => {
+      const res = await apiRequest("POST", `/api/guests/${guestId}/companions`, { companionsCheckedIn: count });
+      return res.json() as Promise<Guest>;
+    },
+    onSuccess: (updated) => {
+      setCheckInResult((prev) => (prev?.guest?.id === updated.id ? { ...prev, guest: updated } : prev));
+      setLocalGuests((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
       queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
     },
     onError: () => {
       toast({
         title: "خطأ",
-        description: "فشل في تسجيل الحضور",
+        description: "فشل تعديل عدد المرافقين",
         variant: "destructive",
       });
     },
   });
 
   const checkInByCodeMutation = useMutation({
-    mutationFn: async (code: string) => {
-      const res = await apiRequest("POST", `/api/check-in/code`, { code, eventId: selectedEvent });
-      return res.json();
-    },
-    onSuccess: (data: CheckInResult) => {
-      setCheckInResult(data);
-      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEvent, "guests"] });
-    },
-    onError: () => {
+    mutationFn: ({ code, idempotencyKey }: { code: string; idempotencyKey: string }) =>
+      postAtDoor("/api/check-in/code", { code, eventId: selectedEvent }, idempotencyKey),
+    retry: (failureCount, error) => error instanceof TypeError && failureCount < 1,
+    onSuccess: (data: CheckInResult) => handleDoorResult(data),
+    onError: (error, { code, idempotencyKey }) => {
+      if (error instanceof TypeError) {
+        verifyScanOffline(code, idempotencyKey);
+        return;
+      }
       setCheckInResult({
         status: "invalid",
-        message: "الكود غير صالح أو غير موجود",
+        message: error.message || "الكود غير صالح أو غير موجود",
       });
     },
   });
 
+  const verifyScanOffline = async (decodedText: string, idempotencyKey?: string) => {
+    const keys = selectedEvent ? getCachedEventPublicKeys(selectedEvent) : null;
+    if (!keys) {
+      setCheckInResult({ status: "invalid", message: "لم يتم تنزيل مفاتيح التحقق لهذه المناسبة بعد" });
+      return;
+    }
+
+    const verification = await verifySignedQrOffline(decodedText, keys);
+    if (!verification.valid) {
+      setCheckInResult({ status: "invalid", message: verification.message });
+      return;
+    }
+
+    const guest = localGuests.find((g) => g.qrCode === verification.code);
+    if (!guest) {
+      setCheckInResult({ status: "invalid", message: "الدعوة غير موجودة في القائمة المحفوظة" });
+    } else if (guest.isCheckedIn) {
+      setCheckInResult({
+        status: "duplicate",
+        guest,
+        message: "تم استخدام هذه الدعوة مسبقاً!",
+        checkedInAt: guest.checkedInAt?.toString(),
+      });
+    } else {
+      await recordOfflineCheckIn(guest, idempotencyKey);
+    }
+  };
+
+  const handleScan = (decodedText: string) => {
+    if (currentSession) {
+      sessionCheckInMutation.mutate({ sessionId: currentSession.id, code: decodedText, idempotencyKey: crypto.randomUUID() });
+      return;
+    }
+    if (tracksExits && doorMode === "exit") {
+      checkOutMutation.mutate({ code: decodedText, idempotencyKey: crypto.randomUUID() });
+      return;
+    }
+    if (navigator.onLine) {
+      checkInByCodeMutation.mutate({ code: decodedText, idempotencyKey: crypto.randomUUID() });
+    } else {
+      verifyScanOffline(decodedText);
+    }
+  };
+  // The scanner callback is registered once, so it reads the latest handler through a ref
+  const handleScanRef = useRef(handleScan);
+  handleScanRef.current = handleScan;
+
   const startScanner = async () => {
     try {
       setScannerError(null);
@@ -113,7 +442,7 @@ export function OrganizerDashboard() {
           qrbox: { width: 250, height: 250 },
         },
         (decodedText) => {
-          checkInByCodeMutation.mutate(decodedText);
+          handleScanRef.current(decodedText);
           html5QrCode.pause();
           setTimeout(() => {
             if (scannerRef.current) {
@@ -164,11 +493,44 @@ export function OrganizerDashboard() {
   const filteredGuests = localGuests.filter(
     (guest) =>
       guest.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      guest.phone?.includes(searchQuery) ||
-      guest.qrCode?.includes(searchQuery.toUpperCase())
+      phoneMatchesSearch(guest.phone, searchQuery) ||
+      guest.qrCode?.includes(searchQuery.toUpperCase()) ||
+      customFieldsMatchSearch(customFields, guest.customFields ?? {}, searchQuery)
   );
 
+  // Mirrors the server rule: managers can undo any time, organizers only their own check-ins
+  // within the undo window. Check-ins still waiting in the offline queue cannot be undone.
+  const canUndoCheckIn = (guest: Guest) => {
+    if (!can("checkin.undo") || !guest.isCheckedIn || !guest.checkedInAt || !guest.checkedInBy) return false;
+    if (user?.role !== "organizer") return true;
+    const elapsed = Date.now() - new Date(guest.checkedInAt).getTime();
+    return guest.checkedInBy === user.id && elapsed <= ORGANIZER_UNDO_WINDOW_MINUTES * 60 * 1000;
+  };
+
+  const handleReverted = (reverted: Guest) => {
+    setCheckInResult(null);
+    setLocalGuests((prev) => prev.map((g) => (g.id === reverted.id ? reverted : g)));
+  };
+
+  // Exit in exit mode for guests inside, re-entry in entry mode for guests who left
+  const isDoorAction = (guest: Guest) =>
+    !currentSession && tracksExits && guest.isCheckedIn && (doorMode === "exit" ? guest.isInside : !guest.isInside);
+
   const handleCheckIn = (guest: Guest) => {
+    if (currentSession) {
+      sessionCheckInMutation.mutate({ sessionId: currentSession.id, guestId: guest.id, idempotencyKey: crypto.randomUUID() });
+      return;
+    }
+    if (isDoorAction(guest) && doorMode === "exit") {
+      checkOutMutation.mutate({ guestId: guest.id, idempotencyKey: crypto.randomUUID() });
+      return;
+    }
+    // Guests coming back in use the same invitation; for companions still outstanding the
+    // server answers with the late-companions picker
+    if (guest.isCheckedIn && (remainingCompanions(guest) > 0 || isDoorAction(guest)) && navigator.onLine) {
+      checkInMutation.mutate({ guestId: guest.id, idempotencyKey: crypto.randomUUID() });
+      return;
+    }
     if (guest.isCheckedIn) {
       setCheckInResult({
         status: "duplicate",
@@ -178,24 +540,24 @@ export function OrganizerDashboard() {
       });
       return;
     }
-    checkInMutation.mutate(guest.id);
-  };
-
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
+    if (!navigator.onLine) {
+      recordOfflineCheckIn(guest);
+      return;
+    }
+    checkInMutation.mutate({ guestId: guest.id, idempotencyKey: crypto.randomUUID() });
   };
 
   if (!selectedEvent) {
     return (
       <div className="space-y-6">
-        <div className="flex items-center gap-3 mb-6">
-          <div className={`w-3 h-3 rounded-full ${isOnline ? 'bg-green-500' : 'bg-orange-500'} animate-pulse`} />
-          <span className="text-muted-foreground text-sm">
-            {isOnline ? 'متصل بالإنترنت' : 'غير متصل - الوضع المحلي'}
-          </span>
+        <div className="flex items-center justify-between gap-3 mb-6 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className={`w-3 h-3 rounded-full ${isOnline ? 'bg-green-500' : 'bg-orange-500'} animate-pulse`} />
+            <span className="text-muted-foreground text-sm">
+              {isOnline ? 'متصل بالإنترنت' : 'غير متصل - الوضع المحلي'}
+            </span>
+          </div>
+          <PwaStatusBadge />
         </div>
 
         <h1 className="text-2xl font-bold text-white mb-6">اختر المناسبة</h1>
@@ -220,7 +582,10 @@ export function OrganizerDashboard() {
                     <QrCode className="w-7 h-7 text-white" />
                   </div>
                   <div>
-                    <h3 className="text-xl font-bold text-white">{event.name}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-xl font-bold text-white">{event.name}</h3>
+                      <EventStatusBadge status={event.status} />
+                    </div>
                     <p className="text-muted-foreground">
                       {new Date(event.date).toLocaleDateString("ar-SA")}
                     </p>
@@ -234,8 +599,7 @@ export function OrganizerDashboard() {
     );
   }
 
-  const currentEvent = events.find((e) => e.id === selectedEvent);
-  const checkedInCount = localGuests.filter((g) => g.isCheckedIn).length;
+  const headcount = summarizeHeadcount(localGuests);
 
   return (
     <div className="space-y-6">
@@ -250,6 +614,7 @@ export function OrganizerDashboard() {
           <span className="text-sm text-muted-foreground">
             {isOnline ? 'متصل' : 'غير متصل'}
           </span>
+          <PwaStatusBadge />
         </div>
         <Button
           variant="ghost"
@@ -269,15 +634,65 @@ export function OrganizerDashboard() {
         <div className="flex items-center gap-4 text-muted-foreground">
           <div className="flex items-center gap-2">
             <Users className="w-4 h-4" />
-            <span>{checkedInCount} / {localGuests.length}</span>
+            <span data-testid="text-event-headcount">{headcount.arrived} / {headcount.expected} شخص</span>
           </div>
+          {occupancy && (tracksExits || occupancy.limit) && (
+            <div
+              className={`flex items-center gap-2 ${
+                occupancy.level === "full" ? "text-red-400" : occupancy.level === "warning" ? "text-orange-400" : ""
+              }`}
+            >
+              <DoorOpen className="w-4 h-4" />
+              <span data-testid="text-event-occupancy">
+                بالداخل {occupancy.inside}
+                {occupancy.limit ? ` / ${occupancy.limit}` : ""}
+              </span>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <Clock className="w-4 h-4" />
             <span>{currentEvent?.startTime} - {currentEvent?.endTime}</span>
           </div>
+          {myGate && (
+            <div className="flex items-center gap-2 text-primary" data-testid="text-my-gate">
+              <LogIn className="w-4 h-4" />
+              <span>{myGate.name}</span>
+            </div>
+          )}
         </div>
       </div>
 
+      {sessions.length > 0 && (
+        <div className="glass-card rounded-2xl p-4 space-y-2">
+          <label className="text-sm text-muted-foreground flex items-center gap-2">
+            <CalendarDays className="w-4 h-4" />
+            نقطة الدخول
+          </label>
+          <Select value={selectedSession} onValueChange={setSelectedSession}>
+            <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid="select-session">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MAIN_ENTRANCE}>الدخول الرئيسي للمناسبة</SelectItem>
+              {sessions.map((session) => (
+                <SelectItem key={session.id} value={session.id}>
+                  {session.name} — {new Date(session.date).toLocaleDateString("ar-SA")}
+                  {session.startTime ? ` ${session.startTime}` : ""}
+                  {session.room ? ` (${session.room})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <OfflineQueueStatus
+        entries={queuedCheckIns}
+        isOnline={isOnline}
+        isSyncing={isSyncing}
+        onSync={syncQueue}
+      />
+
       {/* QR Scanner Section */}
       <div className="glass-card rounded-2xl p-4 overflow-hidden">
         <div className="flex items-center justify-between mb-4">
@@ -285,6 +700,30 @@ export function OrganizerDashboard() {
             <Camera className="w-5 h-5" />
             مسح الكيو آر
           </h3>
+          {tracksExits && !currentSession && (
+            <div className="flex rounded-xl bg-white/5 p-1" data-testid="door-mode-toggle">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDoorMode("entry")}
+                className={doorMode === "entry" ? "bg-green-500/20 text-green-400" : "text-muted-foreground"}
+                data-testid="button-door-mode-entry"
+              >
+                <LogIn className="w-4 h-4 ml-1" />
+                دخول
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDoorMode("exit")}
+                className={doorMode === "exit" ? "bg-orange-500/20 text-orange-400" : "text-muted-foreground"}
+                data-testid="button-door-mode-exit"
+              >
+                <LogOut className="w-4 h-4 ml-1" />
+                خروج
+              </Button>
+            </div>
+          )}
           <Button
             onClick={isScannerActive ? stopScanner : startScanner}
             variant={isScannerActive ? "destructive" : "default"}
@@ -353,7 +792,7 @@ export function OrganizerDashboard() {
               className={`w-full max-w-md rounded-3xl p-8 ${
                 checkInResult.status === "success"
                   ? "status-success"
-                  : checkInResult.status === "duplicate"
+                  : checkInResult.status === "duplicate" || checkInResult.status === "not_allowed"
                   ? "status-error"
                   : "status-warning"
               }`}
@@ -363,17 +802,24 @@ export function OrganizerDashboard() {
                 {checkInResult.status === "success" && (
                   <CheckCircle className="w-20 h-20 mx-auto mb-4" />
                 )}
-                {checkInResult.status === "duplicate" && (
+                {(checkInResult.status === "duplicate" || checkInResult.status === "not_allowed") && (
                   <XCircle className="w-20 h-20 mx-auto mb-4" />
                 )}
-                {checkInResult.status === "invalid" && (
+                {(checkInResult.status === "invalid" || checkInResult.status === "closed") && (
                   <AlertTriangle className="w-20 h-20 mx-auto mb-4" />
                 )}
 
                 <h2 className="text-2xl font-bold mb-4">
-                  {checkInResult.status === "success" && "تم التسجيل بنجاح"}
+                  {checkInResult.status === "success" &&
+                    (checkInResult.offline
+                      ? "تم التسجيل على الجهاز"
+                      : checkInResult.direction === "exit"
+                      ? "تم تسجيل الخروج"
+                      : "تم التسجيل بنجاح")}
                   {checkInResult.status === "duplicate" && "تنبيه!"}
                   {checkInResult.status === "invalid" && "غير صالح"}
+                  {checkInResult.status === "not_allowed" && "غير مسموح بدخول هذه المنطقة"}
+                  {checkInResult.status === "closed" && "خارج فترة تسجيل الحضور"}
                 </h2>
 
                 {checkInResult.guest && (
@@ -384,14 +830,120 @@ export function OrganizerDashboard() {
                     </div>
                     <div className="flex justify-between">
                       <span className="opacity-80">الفئة:</span>
-                      <Badge variant="secondary" className="bg-white/30 text-white border-none">
-                        {categoryLabels[checkInResult.guest.category || "regular"]}
+                      <Badge variant="secondary" className="bg-white/30 text-white border-none gap-2">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full"
+                          style={{ backgroundColor: findCategory(categories, checkInResult.guest.category)?.color }}
+                        />
+                        {categoryLabel(categories, checkInResult.guest.category)}
                       </Badge>
                     </div>
                     <div className="flex justify-between">
                       <span className="opacity-80">المرافقين:</span>
                       <span className="font-bold">{checkInResult.guest.companions}</span>
                     </div>
+                    {checkInResult.guest.isCheckedIn && (checkInResult.guest.companions ?? 0) > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="opacity-80">الداخلون:</span>
+                        <div className="flex items-center gap-2">
+                          {!checkInResult.offline && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() =>
+                                companionsMutation.mutate({
+                                  guestId: checkInResult.guest!.id,
+                                  count: checkInResult.guest!.companionsCheckedIn - 1,
+                                })
+                              }
+                              disabled={checkInResult.guest.companionsCheckedIn === 0 || companionsMutation.isPending}
+                              className="h-8 w-8 bg-white/20 hover:bg-white/30 text-white"
+                              data-testid="button-companions-decrease"
+                            >
+                              <Minus className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <span className="font-bold" data-testid="text-result-headcount">
+                            {arrivedHeadcount(checkInResult.guest)} من {expectedHeadcount(checkInResult.guest)} دخلوا
+                          </span>
+                          {!checkInResult.offline && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() =>
+                                companionsMutation.mutate({
+                                  guestId: checkInResult.guest!.id,
+                                  count: checkInResult.guest!.companionsCheckedIn + 1,
+                                })
+                              }
+                              disabled={remainingCompanions(checkInResult.guest) === 0 || companionsMutation.isPending}
+                              className="h-8 w-8 bg-white/20 hover:bg-white/30 text-white"
+                              data-testid="button-companions-increase"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {checkInResult.status === "duplicate" && !checkInResult.offline && (checkInResult.companionsRemaining ?? 0) > 0 && (
+                      <div className="space-y-3 pt-3 border-t border-white/20">
+                        <div className="flex items-center justify-between">
+                          <span className="opacity-80">وصل الآن:</span>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setLateCompanions((count) => count - 1)}
+                              disabled={lateCompanions <= 1}
+                              className="h-8 w-8 bg-white/20 hover:bg-white/30 text-white"
+                              data-testid="button-late-companions-decrease"
+                            >
+                              <Minus className="w-4 h-4" />
+                            </Button>
+                            <span className="font-bold" data-testid="text-late-companions">
+                              {lateCompanions} من {checkInResult.companionsRemaining} مرافق
+                            </span>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setLateCompanions((count) => count + 1)}
+                              disabled={lateCompanions >= (checkInResult.companionsRemaining ?? 0)}
+                              className="h-8 w-8 bg-white/20 hover:bg-white/30 text-white"
+                              data-testid="button-late-companions-increase"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <Button
+                          onClick={() =>
+                            checkInMutation.mutate({
+                              guestId: checkInResult.guest!.id,
+                              companions: lateCompanions,
+                              idempotencyKey: crypto.randomUUID(),
+                            })
+                          }
+                          disabled={checkInMutation.isPending}
+                          className="w-full bg-white/30 hover:bg-white/40 text-white border-none"
+                          data-testid="button-admit-late-companions"
+                        >
+                          {checkInMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+                          تسجيل دخول {lateCompanions} من المرافقين
+                        </Button>
+                      </div>
+                    )}
+                    {doorFields.map((field) => {
+                      const value = formatCustomFieldValue(field, checkInResult.guest!.customFields?.[field.id]);
+                      return (
+                        value && (
+                          <div key={field.id} className="flex justify-between" data-testid={`text-result-field-${field.id}`}>
+                            <span className="opacity-80">{field.label}:</span>
+                            <span className="font-bold">{value}</span>
+                          </div>
+                        )
+                      );
+                    })}
                     {checkInResult.guest.notes && (
                       <div className="pt-3 border-t border-white/20">
                         <span className="opacity-80 block mb-1">ملاحظات:</span>
@@ -416,6 +968,18 @@ export function OrganizerDashboard() {
                 >
                   إغلاق
                 </Button>
+
+                {checkInResult.status === "success" && checkInResult.guest && canUndoCheckIn(checkInResult.guest) && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => setRevertGuest(checkInResult.guest!)}
+                    className="w-full mt-3 text-white/80 hover:bg-white/10 hover:text-white"
+                    data-testid="button-undo-result"
+                  >
+                    <Undo2 className="w-4 h-4 ml-2" />
+                    تراجع عن التسجيل
+                  </Button>
+                )}
               </div>
             </motion.div>
           </motion.div>
@@ -456,19 +1020,12 @@ export function OrganizerDashboard() {
                   <div>
                     <h3 className="text-white font-medium">{guest.name}</h3>
                     <div className="flex items-center gap-2 flex-wrap">
-                      <Badge
-                        variant="secondary"
-                        className={`text-xs ${
-                          guest.category === "vip"
-                            ? "bg-yellow-500/20 text-yellow-400"
-                            : "bg-white/10 text-white/70"
-                        }`}
-                      >
-                        {categoryLabels[guest.category || "regular"]}
-                      </Badge>
+                      <CategoryBadge categories={categories} category={guest.category} className="text-xs" />
                       {(guest.companions ?? 0) > 0 && (
                         <span className="text-muted-foreground text-sm">
-                          +{guest.companions} مرافق
+                          {guest.isCheckedIn
+                            ? `${arrivedHeadcount(guest)} من ${expectedHeadcount(guest)} دخلوا`
+                            : `+${guest.companions} مرافق`}
                         </span>
                       )}
                       <span className="text-muted-foreground text-xs font-mono">
@@ -477,24 +1034,44 @@ export function OrganizerDashboard() {
                     </div>
                   </div>
                 </div>
-                <Button
-                  onClick={() => handleCheckIn(guest)}
-                  disabled={checkInMutation.isPending}
-                  className={`${
-                    guest.isCheckedIn
-                      ? "bg-gray-500/20 text-gray-400"
-                      : "gradient-primary text-white"
-                  }`}
-                  data-testid={`button-checkin-${guest.id}`}
-                >
-                  {checkInMutation.isPending ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : guest.isCheckedIn ? (
-                    "تم الدخول"
-                  ) : (
-                    "تسجيل"
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={() => handleCheckIn(guest)}
+                    disabled={checkInMutation.isPending || checkOutMutation.isPending || sessionCheckInMutation.isPending}
+                    className={`${
+                      guest.isCheckedIn && remainingCompanions(guest) === 0 && !isDoorAction(guest) && !currentSession
+                        ? "bg-gray-500/20 text-gray-400"
+                        : "gradient-primary text-white"
+                    }`}
+                    data-testid={`button-checkin-${guest.id}`}
+                  >
+                    {checkInMutation.isPending || checkOutMutation.isPending || sessionCheckInMutation.isPending ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : currentSession ? (
+                      "دخول الجلسة"
+                    ) : isDoorAction(guest) ? (
+                      guest.isInside ? "تسجيل خروج" : "إعادة دخول"
+                    ) : guest.isCheckedIn && remainingCompanions(guest) > 0 ? (
+                      `دخول المرافقين (${remainingCompanions(guest)})`
+                    ) : guest.isCheckedIn ? (
+                      "تم الدخول"
+                    ) : (
+                      "تسجيل"
+                    )}
+                  </Button>
+                  {canUndoCheckIn(guest) && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setRevertGuest(guest)}
+                      className="text-muted-foreground hover:text-red-400"
+                      title="التراجع عن تسجيل الحضور"
+                      data-testid={`button-revert-checkin-${guest.id}`}
+                    >
+                      <Undo2 className="w-5 h-5" />
+                    </Button>
                   )}
-                </Button>
+                </div>
               </div>
             </motion.div>
           ))}
@@ -507,6 +1084,8 @@ export function OrganizerDashboard() {
           )}
         </div>
       )}
+
+      <RevertCheckInDialog guest={revertGuest} onClose={() => setRevertGuest(null)} onReverted={handleReverted} />
     </div>
   );
 }
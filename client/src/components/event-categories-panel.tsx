@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Tags, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CategoryBadge } from "@/components/category-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { categoryColorPresets } from "@shared/categories";
+import type { EventCategory, EventCategoryWithCount } from "@shared/schema";
+
+interface EventCategoriesPanelProps {
+  eventId: string;
+  canEdit: boolean;
+}
+
+// Guest categories of the event: label, badge color and order. The first category is the
+// default for guests added without one.
+export function EventCategoriesPanel({ eventId, canEdit }: EventCategoriesPanelProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EventCategory | "new" | null>(null);
+  const [label, setLabel] = useState("");
+  const [color, setColor] = useState(categoryColorPresets[0]);
+  const [sortOrder, setSortOrder] = useState("0");
+  const [deleting, setDeleting] = useState<EventCategoryWithCount | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+
+  const { data: categories = [], isLoading } = useQuery<EventCategoryWithCount[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    staleTime: 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = editing === "new";
+      const res = await fetch(
+        isNew ? `/api/events/${eventId}/categories` : `/api/event-categories/${(editing as EventCategory).id}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ label, color, sortOrder: Number(sortOrder) || 0 }),
+          credentials: "include",
+        }
+      );
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || "فشل حفظ الفئة");
+      }
+      return result as EventCategory;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "categories"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ الفئة بنجاح" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ categoryId, moveTo }: { categoryId: string; moveTo: string }) => {
+      const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : "";
+      const res = await fetch(`/api/event-categories/${categoryId}${query}`, { method: "DELETE", credentials: "include" });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || "فشل حذف الفئة");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+      toast({ title: "تم الحذف", description: "تم حذف الفئة" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحذف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (category: EventCategory | "new") => {
+    setLabel(category === "new" ? "" : category.label);
+    setColor(category === "new" ? categoryColorPresets[categories.length % categoryColorPresets.length] : category.color);
+    setSortOrder(String(category === "new" ? categories.length : category.sortOrder));
+    setEditing(category);
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    setLabel("");
+  };
+
+  const openDelete = (category: EventCategoryWithCount) => {
+    setMoveTo(categories.find((c) => c.id !== category.id)?.key ?? "");
+    setDeleting(category);
+  };
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex gap-4">
+          <Button onClick={() => openDialog("new")} className="gradient-primary" data-testid="button-add-category">
+            <Plus className="w-5 h-5 ml-2" />
+            إضافة فئة
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : categories.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <Tags className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد فئات لهذه المناسبة</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {categories.map((category, index) => (
+            <div key={category.id} className="glass-card rounded-2xl p-6 space-y-4" data-testid={`card-category-${category.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2">
+                  <CategoryBadge categories={categories} category={category.key} className="text-base px-3 py-1" />
+                  {index === 0 && <p className="text-xs text-muted-foreground">الفئة الافتراضية للضيوف الجدد</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDialog(category)}
+                      className="text-muted-foreground hover:text-white"
+                      data-testid={`button-edit-category-${category.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDelete(category)}
+                      disabled={deleteMutation.isPending || categories.length <= 1}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      data-testid={`button-delete-category-${category.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <span className="flex items-center gap-2 text-sm text-white font-bold" data-testid={`text-category-guests-${category.id}`}>
+                <Users className="w-4 h-4" />
+                {category.guests} ضيف
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">{editing === "new" ? "إضافة فئة" : "تعديل الفئة"}</DialogTitle>
+            <DialogDescription>
+              تظهر الفئة بلونها في قائمة الضيوف وشاشة المنظم، ويمكن تحديدها في قواعد البوابات
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label className="text-white">اسم الفئة</Label>
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="مثال: الوفود الرسمية"
+                className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                data-testid="input-category-label"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">اللون</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {categoryColorPresets.map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setColor(preset)}
+                    className={`w-8 h-8 rounded-full border-2 ${color.toUpperCase() === preset ? "border-white" : "border-transparent"}`}
+                    style={{ backgroundColor: preset }}
+                    aria-label={preset}
+                    data-testid={`button-category-color-${preset.slice(1)}`}
+                  />
+                ))}
+                <Input
+                  type="color"
+                  value={color.toLowerCase()}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-12 h-8 p-0 border-none bg-transparent cursor-pointer"
+                  data-testid="input-category-color"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">الترتيب</Label>
+              <Input
+                type="number"
+                min={0}
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                className="glass-input h-12 rounded-xl text-white"
+                data-testid="input-category-sort-order"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full gradient-primary"
+              disabled={!label.trim() || saveMutation.isPending}
+              data-testid="button-save-category"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+              حفظ الفئة
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">حذف الفئة</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم حذف "{deleting?.label}". ينتقل ضيوفها ({deleting?.guests ?? 0}) والبوابات التي تسمح بها إلى الفئة المختارة.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label className="text-white">نقل إلى</Label>
+            <Select value={moveTo} onValueChange={setMoveTo}>
+              <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid="select-category-move-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter((c) => c.id !== deleting?.id)
+                  .map((c) => (
+                    <SelectItem key={c.id} value={c.key}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate({ categoryId: deleting.id, moveTo })}
+              className="bg-red-500 hover:bg-red-600 text-white"
+              data-testid="button-confirm-delete-category"
+            >
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
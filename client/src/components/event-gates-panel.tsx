@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { DoorOpen, Loader2, Pencil, Plus, ShieldCheck, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { CategoryBadge } from "@/components/category-badge";
+import type { EventCategory, EventGate, EventGateWithCounts } from "@shared/schema";
+
+interface EventGatesPanelProps {
+  eventId: string;
+  canEdit: boolean;
+}
+
+// Gates / zones of an event, the guest categories each admits and entries recorded through it
+export function EventGatesPanel({ eventId, canEdit }: EventGatesPanelProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EventGate | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [allowedCategories, setAllowedCategories] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState<EventGate | null>(null);
+
+  const { data: gates = [], isLoading } = useQuery<EventGateWithCounts[]>({
+    queryKey: ["/api/events", eventId, "gates"],
+    refetchInterval: 15_000,
+  });
+
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = editing === "new";
+      const res = await fetch(isNew ? `/api/events/${eventId}/gates` : `/api/event-gates/${(editing as EventGate).id}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, allowedCategories }),
+        credentials: "include",
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || "فشل حفظ البوابة");
+      }
+      return result as EventGate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "gates"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ البوابة بنجاح" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (gateId: string) => {
+      const res = await fetch(`/api/event-gates/${gateId}`, { method: "DELETE", credentials: "include" });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || "فشل حذف البوابة");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "gates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "organizers"] });
+      toast({ title: "تم الحذف", description: "تم حذف البوابة" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحذف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (gate: EventGate | "new") => {
+    setName(gate === "new" ? "" : gate.name);
+    setAllowedCategories(gate === "new" ? [] : gate.allowedCategories);
+    setEditing(gate);
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    setName("");
+    setAllowedCategories([]);
+  };
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setAllowedCategories((prev) => (checked ? [...prev, category] : prev.filter((c) => c !== category)));
+  };
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex gap-4">
+          <Button onClick={() => openDialog("new")} className="gradient-primary" data-testid="button-add-gate">
+            <Plus className="w-5 h-5 ml-2" />
+            إضافة بوابة
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : gates.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <DoorOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد بوابات، يمكن لأي منظم إدخال جميع الفئات</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {gates.map((gate) => (
+            <div key={gate.id} className="glass-card rounded-2xl p-6 space-y-4" data-testid={`card-gate-${gate.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2">
+                  <h3 className="text-white font-bold flex items-center gap-2">
+                    <DoorOpen className="w-4 h-4 text-primary" />
+                    {gate.name}
+                  </h3>
+                  <div className="flex flex-wrap gap-1">
+                    {gate.allowedCategories.length === 0 ? (
+                      <Badge variant="secondary" className="bg-white/10 text-white/70">جميع الفئات</Badge>
+                    ) : (
+                      gate.allowedCategories.map((category) => (
+                        <CategoryBadge key={category} categories={categories} category={category} />
+                      ))
+                    )}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDialog(gate)}
+                      className="text-muted-foreground hover:text-white"
+                      data-testid={`button-edit-gate-${gate.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleting(gate)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      data-testid={`button-delete-gate-${gate.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <ShieldCheck className="w-4 h-4" />
+                  {gate.entries} عملية دخول
+                </span>
+                <span className="flex items-center gap-2 text-white font-bold" data-testid={`text-gate-people-${gate.id}`}>
+                  <Users className="w-4 h-4" />
+                  {gate.people} شخص
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">{editing === "new" ? "إضافة بوابة" : "تعديل البوابة"}</DialogTitle>
+            <DialogDescription>
+              المنظمون المعينون على البوابة يُدخلون الفئات المحددة فقط. بدون تحديد تُقبل جميع الفئات
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label className="text-white">اسم البوابة أو المنطقة</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="مثال: صالة كبار الشخصيات"
+                className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                data-testid="input-gate-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">الفئات المسموح لها</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {categories.map((category) => (
+                  <label key={category.key} className="flex items-center gap-2 text-white cursor-pointer">
+                    <Checkbox
+                      checked={allowedCategories.includes(category.key)}
+                      onCheckedChange={(checked) => toggleCategory(category.key, checked === true)}
+                      data-testid={`checkbox-gate-category-${category.key}`}
+                    />
+                    {category.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button
+              type="submit"
+              className="w-full gradient-primary"
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-gate"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+              حفظ البوابة
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">حذف البوابة</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم حذف "{deleting?.name}" واستثناءات الضيوف الخاصة بها، ويعود المنظمون المعينون عليها للعمل على أي بوابة.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-500 hover:bg-red-600 text-white"
+              data-testid="button-confirm-delete-gate"
+            >
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ListPlus, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { guestFieldTypeEnum, type EventGuestField, type GuestFieldType } from "@shared/schema";
+import { guestFieldTypeLabels } from "@shared/custom-fields";
+
+interface EventGuestFieldsPanelProps {
+  eventId: string;
+  canEdit: boolean;
+}
+
+interface FieldForm {
+  label: string;
+  type: GuestFieldType;
+  options: string;
+  required: boolean;
+  searchable: boolean;
+  showAtDoor: boolean;
+  sortOrder: string;
+}
+
+const emptyForm: FieldForm = {
+  label: "",
+  type: "text",
+  options: "",
+  required: false,
+  searchable: false,
+  showAtDoor: false,
+  sortOrder: "0",
+};
+
+// Extra information collected for each guest of the event (table number, company, dietary needs...)
+export function EventGuestFieldsPanel({ eventId, canEdit }: EventGuestFieldsPanelProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EventGuestField | "new" | null>(null);
+  const [form, setForm] = useState<FieldForm>(emptyForm);
+  const [deleting, setDeleting] = useState<EventGuestField | null>(null);
+
+  const { data: fields = [], isLoading } = useQuery<EventGuestField[]>({
+    queryKey: ["/api/events", eventId, "guest-fields"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = editing === "new";
+      const res = await fetch(
+        isNew ? `/api/events/${eventId}/guest-fields` : `/api/guest-fields/${(editing as EventGuestField).id}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            label: form.label,
+            type: form.type,
+            options: form.options.split(/[\n,،]/).map((o) => o.trim()).filter(Boolean),
+            required: form.required,
+            searchable: form.searchable,
+            showAtDoor: form.showAtDoor,
+            sortOrder: Number(form.sortOrder) || 0,
+          }),
+          credentials: "include",
+        }
+      );
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || "فشل حفظ الحقل");
+      }
+      return result as EventGuestField;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guest-fields"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ الحقل بنجاح" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (fieldId: string) => {
+      const res = await fetch(`/api/guest-fields/${fieldId}`, { method: "DELETE", credentials: "include" });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || "فشل حذف الحقل");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+      toast({ title: "تم الحذف", description: "تم حذف الحقل وقيمه لدى الضيوف" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحذف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (field: EventGuestField | "new") => {
+    setForm(
+      field === "new"
+        ? { ...emptyForm, sortOrder: String(fields.length) }
+        : {
+            label: field.label,
+            type: field.type,
+            options: field.options.join("\n"),
+            required: field.required,
+            searchable: field.searchable,
+            showAtDoor: field.showAtDoor,
+            sortOrder: String(field.sortOrder),
+          }
+    );
+    setEditing(field);
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const setFlag = (key: "required" | "searchable" | "showAtDoor", checked: boolean) => {
+    setForm((prev) => ({ ...prev, [key]: checked }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex gap-4">
+          <Button onClick={() => openDialog("new")} className="gradient-primary" data-testid="button-add-guest-field">
+            <Plus className="w-5 h-5 ml-2" />
+            إضافة حقل
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : fields.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <ListPlus className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد حقول إضافية، يُسجل لكل ضيف الاسم والجوال والفئة فقط</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {fields.map((field) => (
+            <div key={field.id} className="glass-card rounded-2xl p-6 space-y-4" data-testid={`card-guest-field-${field.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2">
+                  <h3 className="text-white font-bold">{field.label}</h3>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary" className="bg-primary/20 text-primary">
+                      {guestFieldTypeLabels[field.type]}
+                    </Badge>
+                    {field.required && (
+                      <Badge variant="secondary" className="bg-white/10 text-white/70">مطلوب</Badge>
+                    )}
+                    {field.searchable && (
+                      <Badge variant="secondary" className="bg-white/10 text-white/70">قابل للبحث</Badge>
+                    )}
+                    {field.showAtDoor && (
+                      <Badge variant="secondary" className="bg-white/10 text-white/70">يظهر عند الدخول</Badge>
+                    )}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDialog(field)}
+                      className="text-muted-foreground hover:text-white"
+                      data-testid={`button-edit-guest-field-${field.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleting(field)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      data-testid={`button-delete-guest-field-${field.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {field.type === "select" && (
+                <p className="text-sm text-muted-foreground">{field.options.join("، ")}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">{editing === "new" ? "إضافة حقل" : "تعديل الحقل"}</DialogTitle>
+            <DialogDescription>
+              يظهر الحقل في نموذج إضافة الضيف وتعديله، ويمكن ربطه بعمود عند الاستيراد من Excel
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label className="text-white">اسم الحقل</Label>
+              <Input
+                value={form.label}
+                onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+                placeholder="مثال: رقم الطاولة"
+                className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                data-testid="input-guest-field-label"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">النوع</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, type: value as GuestFieldType }))}
+                >
+                  <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid="select-guest-field-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {guestFieldTypeEnum.enumValues.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {guestFieldTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">الترتيب</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.sortOrder}
+                  onChange={(e) => setForm((prev) => ({ ...prev, sortOrder: e.target.value }))}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-guest-field-sort-order"
+                />
+              </div>
+            </div>
+            {form.type === "select" && (
+              <div className="space-y-2">
+                <Label className="text-white">الخيارات</Label>
+                <Textarea
+                  value={form.options}
+                  onChange={(e) => setForm((prev) => ({ ...prev, options: e.target.value }))}
+                  placeholder={"خيار في كل سطر أو مفصولة بفواصل"}
+                  className="glass-input rounded-xl text-white placeholder:text-muted-foreground"
+                  rows={4}
+                  data-testid="input-guest-field-options"
+                />
+              </div>
+            )}
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <Checkbox
+                  checked={form.required}
+                  onCheckedChange={(checked) => setFlag("required", checked === true)}
+                  data-testid="checkbox-guest-field-required"
+                />
+                مطلوب لكل ضيف
+              </label>
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <Checkbox
+                  checked={form.searchable}
+                  onCheckedChange={(checked) => setFlag("searchable", checked === true)}
+                  data-testid="checkbox-guest-field-searchable"
+                />
+                يمكن البحث به في شاشة المنظم
+              </label>
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <Checkbox
+                  checked={form.showAtDoor}
+                  onCheckedChange={(checked) => setFlag("showAtDoor", checked === true)}
+                  data-testid="checkbox-guest-field-show-at-door"
+                />
+                يظهر في بطاقة الضيف عند تسجيل الدخول
+              </label>
+            </div>
+            <Button
+              type="submit"
+              className="w-full gradient-primary"
+              disabled={!form.label.trim() || saveMutation.isPending}
+              data-testid="button-save-guest-field"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+              حفظ الحقل
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">حذف الحقل</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم حذف "{deleting?.label}" وقيمه المسجلة لجميع ضيوف المناسبة، ولا يمكن التراجع عن ذلك.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-500 hover:bg-red-600 text-white"
+              data-testid="button-confirm-delete-guest-field"
+            >
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EventStatusBadge } from "@/components/event-status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  checkInWindow,
+  eventStatusLabels,
+  formatVenueTime,
+  statusChangeRefusal,
+  type EventStatus,
+} from "@shared/event-lifecycle";
+import { eventStatusEnum, type Event, type EventSession } from "@shared/schema";
+
+// Event status and the check-in window around the event's start and end times
+export function EventLifecycleSettings({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [opensBefore, setOpensBefore] = useState(event.checkInOpensMinutesBefore.toString());
+  const [closesAfter, setClosesAfter] = useState(event.checkInClosesMinutesAfter.toString());
+
+  const { data: sessions = [] } = useQuery<EventSession[]>({
+    queryKey: ["/api/events", event.id, "sessions"],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: EventStatus) => {
+      const res = await fetch(`/api/events/${event.id}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل تغيير حالة المناسبة");
+      }
+      return body as Event;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/events", event.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({ title: "تم التحديث", description: `حالة المناسبة الآن: ${eventStatusLabels[updated.status]}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل التحديث", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const windowMutation = useMutation({
+    mutationFn: async (data: Pick<Event, "checkInOpensMinutesBefore" | "checkInClosesMinutesAfter">) => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+      toast({ title: "تم الحفظ", description: "تم تحديث فترة تسجيل الحضور" });
+    },
+    onError: () => {
+      toast({ title: "فشل التحديث", description: "تعذر حفظ فترة تسجيل الحضور", variant: "destructive" });
+    },
+  });
+
+  const parsedOpens = parseInt(opensBefore, 10);
+  const parsedCloses = parseInt(closesAfter, 10);
+  const isValid =
+    Number.isInteger(parsedOpens) && parsedOpens >= 0 && parsedOpens <= 10080 &&
+    Number.isInteger(parsedCloses) && parsedCloses >= 0 && parsedCloses <= 10080;
+  const { opensAt, closesAt } = checkInWindow(event, sessions);
+
+  return (
+    <div className="glass-card rounded-2xl p-8 space-y-6" data-testid="card-event-lifecycle">
+      <div className="flex items-center gap-3">
+        <CalendarClock className="w-6 h-6 text-primary" />
+        <div>
+          <h2 className="text-xl font-bold text-white">حالة المناسبة وفترة تسجيل الحضور</h2>
+          <p className="text-muted-foreground text-sm">
+            تبدأ المناسبة تلقائياً عند فتح التسجيل وتُغلق عند انتهائه، وتصبح المناسبة المغلقة للقراءة فقط
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 rounded-xl glass-input">
+        <div className="flex items-center gap-3">
+          <p className="text-white font-medium">الحالة الحالية</p>
+          <EventStatusBadge status={event.status} />
+        </div>
+        <Select
+          value={event.status}
+          onValueChange={(value: EventStatus) => statusMutation.mutate(value)}
+          disabled={statusMutation.isPending}
+        >
+          <SelectTrigger className="glass-input h-10 w-40 rounded-xl text-white" data-testid="select-event-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {eventStatusEnum.enumValues.map((status) => (
+              <SelectItem
+                key={status}
+                value={status}
+                disabled={status !== event.status && !!statusChangeRefusal(event, status, new Date(), sessions)}
+              >
+                {eventStatusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-white">يفتح التسجيل قبل البداية (دقيقة)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={opensBefore}
+            onChange={(e) => setOpensBefore(e.target.value)}
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-check-in-opens-before"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-white">يُغلق التسجيل بعد النهاية (دقيقة)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={closesAfter}
+            onChange={(e) => setClosesAfter(e.target.value)}
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-check-in-closes-after"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground" data-testid="text-check-in-window">
+        فترة التسجيل الحالية: من {formatVenueTime(opensAt)} إلى {formatVenueTime(closesAt)}
+      </p>
+
+      <Button
+        onClick={() =>
+          windowMutation.mutate({ checkInOpensMinutesBefore: parsedOpens, checkInClosesMinutesAfter: parsedCloses })
+        }
+        disabled={!isValid || windowMutation.isPending}
+        className="gradient-primary"
+        data-testid="button-save-check-in-window"
+      >
+        {windowMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+        حفظ فترة التسجيل
+      </Button>
+    </div>
+  );
+}
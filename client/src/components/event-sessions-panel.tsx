@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarDays, Clock, DoorOpen, Loader2, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { EventSession, EventSessionWithAttendance } from "@shared/schema";
+
+interface SessionForm {
+  name: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  room: string;
+  capacity: string;
+}
+
+const emptyForm: SessionForm = { name: "", date: "", startTime: "", endTime: "", room: "", capacity: "" };
+
+function toForm(session: EventSession): SessionForm {
+  return {
+    name: session.name,
+    date: new Date(session.date).toISOString().split("T")[0],
+    startTime: session.startTime || "",
+    endTime: session.endTime || "",
+    room: session.room || "",
+    capacity: session.capacity ? String(session.capacity) : "",
+  };
+}
+
+interface EventSessionsPanelProps {
+  eventId: string;
+  canEdit: boolean;
+}
+
+// Sessions of a multi-day event with live per-session attendance
+export function EventSessionsPanel({ eventId, canEdit }: EventSessionsPanelProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EventSession | "new" | null>(null);
+  const [form, setForm] = useState<SessionForm>(emptyForm);
+  const [deleting, setDeleting] = useState<EventSession | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<EventSessionWithAttendance[]>({
+    queryKey: ["/api/events", eventId, "sessions"],
+    refetchInterval: 15_000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        date: form.date ? new Date(form.date).toISOString() : "",
+        startTime: form.startTime || null,
+        endTime: form.endTime || null,
+        room: form.room || null,
+        capacity: form.capacity ? Number(form.capacity) : null,
+      };
+      const isNew = editing === "new";
+      const res = await fetch(isNew ? `/api/events/${eventId}/sessions` : `/api/event-sessions/${(editing as EventSession).id}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || "فشل حفظ الجلسة");
+      }
+      return result as EventSession;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "sessions"] });
+      toast({ title: "تم الحفظ", description: "تم حفظ الجلسة بنجاح" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحفظ", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await fetch(`/api/event-sessions/${sessionId}`, { method: "DELETE", credentials: "include" });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || "فشل حذف الجلسة");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "sessions"] });
+      toast({ title: "تم الحذف", description: "تم حذف الجلسة وسجل حضورها" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الحذف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (session: EventSession | "new") => {
+    setForm(session === "new" ? emptyForm : toForm(session));
+    setEditing(session);
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const field = (key: keyof SessionForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex gap-4">
+          <Button onClick={() => openDialog("new")} className="gradient-primary" data-testid="button-add-session">
+            <Plus className="w-5 h-5 ml-2" />
+            إضافة جلسة
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="glass-card rounded-2xl p-12 text-center">
+          <CalendarDays className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground text-lg">لا توجد جلسات، المناسبة تعمل بدخول واحد</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sessions.map((session) => (
+            <div key={session.id} className="glass-card rounded-2xl p-6 space-y-4" data-testid={`card-session-${session.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-white font-bold">{session.name}</h3>
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <CalendarDays className="w-4 h-4" />
+                      {new Date(session.date).toLocaleDateString("ar-SA")}
+                    </span>
+                    {session.startTime && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-4 h-4" />
+                        {session.startTime}
+                        {session.endTime && ` - ${session.endTime}`}
+                      </span>
+                    )}
+                    {session.room && (
+                      <span className="flex items-center gap-1">
+                        <DoorOpen className="w-4 h-4" />
+                        {session.room}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => openDialog(session)}
+                      className="text-muted-foreground hover:text-white"
+                      data-testid={`button-edit-session-${session.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeleting(session)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      data-testid={`button-delete-session-${session.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Users className="w-4 h-4" />
+                  {session.attendedGuests} ضيف
+                </span>
+                <span className="text-white font-bold" data-testid={`text-session-attendance-${session.id}`}>
+                  {session.attendedPeople}
+                  {session.capacity ? ` / ${session.capacity}` : ""} شخص
+                </span>
+              </div>
+              {session.capacity && (
+                <Progress value={Math.min((session.attendedPeople / session.capacity) * 100, 100)} className="h-2" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">{editing === "new" ? "إضافة جلسة" : "تعديل الجلسة"}</DialogTitle>
+            <DialogDescription>يدخل الضيوف الجلسة بنفس كود الدعوة</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label className="text-white">اسم الجلسة</Label>
+              <Input {...field("name")} className="glass-input h-12 rounded-xl text-white" data-testid="input-session-name" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">التاريخ</Label>
+              <Input type="date" {...field("date")} className="glass-input h-12 rounded-xl text-white" data-testid="input-session-date" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">وقت البداية</Label>
+                <Input type="time" {...field("startTime")} className="glass-input h-12 rounded-xl text-white" data-testid="input-session-start" />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">وقت النهاية</Label>
+                <Input type="time" {...field("endTime")} className="glass-input h-12 rounded-xl text-white" data-testid="input-session-end" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">القاعة</Label>
+                <Input {...field("room")} className="glass-input h-12 rounded-xl text-white" data-testid="input-session-room" />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">السعة (اختياري)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  {...field("capacity")}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-session-capacity"
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              className="w-full gradient-primary"
+              disabled={!form.name.trim() || !form.date || saveMutation.isPending}
+              data-testid="button-save-session"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+              حفظ الجلسة
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">حذف الجلسة</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم حذف الجلسة "{deleting?.name}" وسجل حضورها. لا يمكن التراجع عن هذا الإجراء.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-500 hover:bg-red-600 text-white"
+              data-testid="button-confirm-delete-session"
+            >
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { eventStatusLabels, type EventStatus } from "@shared/event-lifecycle";
+
+const statusStyles: Record<EventStatus, string> = {
+  draft: "bg-gray-500/20 text-gray-300",
+  published: "bg-blue-500/20 text-blue-300",
+  live: "bg-green-500/20 text-green-400",
+  closed: "bg-orange-500/20 text-orange-300",
+  archived: "bg-white/10 text-white/50",
+};
+
+export function EventStatusBadge({ status }: { status: EventStatus }) {
+  return (
+    <Badge variant="secondary" className={`${statusStyles[status]} border-none`} data-testid="badge-event-status">
+      {eventStatusLabels[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,104 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DoorOpen } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { canEnterGate } from "@shared/gates";
+import type { EventCategory, EventGate, GateAccessOverride, Guest } from "@shared/schema";
+
+type OverrideChoice = "rule" | "allow" | "deny";
+
+// Per-guest exceptions to the gates' category rules (e.g. a media guest invited to the VIP lounge)
+export function GuestGateAccess({ guest, canEdit }: { guest: Guest; canEdit: boolean }) {
+  const { toast } = useToast();
+
+  const { data: gates = [] } = useQuery<EventGate[]>({
+    queryKey: ["/api/events", guest.eventId, "gates"],
+  });
+
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", guest.eventId, "categories"],
+    enabled: gates.length > 0,
+  });
+
+  const { data: overrides = [] } = useQuery<GateAccessOverride[]>({
+    queryKey: ["/api/guests", guest.id, "gate-access"],
+    enabled: gates.length > 0,
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async ({ gateId, allowed }: { gateId: string; allowed: boolean | null }) => {
+      const res = await fetch(`/api/guests/${guest.id}/gate-access/${gateId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allowed }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل تحديث صلاحية البوابة");
+      }
+      return body as GateAccessOverride[];
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/guests", guest.id, "gate-access"], updated);
+      toast({ title: "تم التحديث", description: "تم تحديث صلاحيات البوابات للضيف" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل التحديث", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (gates.length === 0) return null;
+
+  return (
+    <div className="glass-card rounded-2xl p-8 space-y-4" data-testid="card-guest-gate-access">
+      <div>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <DoorOpen className="w-5 h-5 text-primary" />
+          صلاحيات البوابات
+        </h2>
+        <p className="text-muted-foreground text-sm mt-1">
+          تُطبق قواعد الفئة على الضيف ما لم يتم السماح له أو منعه من بوابة بعينها
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {gates.map((gate) => {
+          const override = overrides.find((o) => o.gateId === gate.id);
+          const choice: OverrideChoice = !override ? "rule" : override.allowed ? "allow" : "deny";
+          const byRule = canEnterGate(gate, guest, categories);
+          return (
+            <div key={gate.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5">
+              <div>
+                <p className="text-white font-medium">{gate.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  حسب الفئة: {byRule ? "مسموح" : "غير مسموح"}
+                </p>
+              </div>
+              <Select
+                value={choice}
+                onValueChange={(value: OverrideChoice) =>
+                  overrideMutation.mutate({
+                    gateId: gate.id,
+                    allowed: value === "rule" ? null : value === "allow",
+                  })
+                }
+                disabled={!canEdit || overrideMutation.isPending}
+              >
+                <SelectTrigger className="glass-input h-10 w-40 rounded-xl text-white" data-testid={`select-gate-access-${gate.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rule">حسب الفئة</SelectItem>
+                  <SelectItem value="allow">مسموح دائماً</SelectItem>
+                  <SelectItem value="deny">ممنوع</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
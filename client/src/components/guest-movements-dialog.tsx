@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { LogIn, LogOut, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Guest, GuestMovement } from "@shared/schema";
+
+type MovementWithUser = GuestMovement & { userName: string | null };
+
+interface GuestMovementsDialogProps {
+  guest: Guest | null;
+  onClose: () => void;
+}
+
+// Entry / exit history of one guest
+export function GuestMovementsDialog({ guest, onClose }: GuestMovementsDialogProps) {
+  const { data: movements = [], isLoading } = useQuery<MovementWithUser[]>({
+    queryKey: ["/api/guests", guest?.id, "movements"],
+    enabled: !!guest,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={!!guest} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass border-white/10 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl">سجل دخول وخروج {guest?.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">لا توجد حركات مسجلة</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {movements.map((movement) => (
+              <div
+                key={movement.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-xl bg-white/5"
+                data-testid={`movement-${movement.id}`}
+              >
+                <div className="flex items-center gap-3">
+                  {movement.direction === "entry" ? (
+                    <LogIn className="w-4 h-4 text-green-400" />
+                  ) : (
+                    <LogOut className="w-4 h-4 text-orange-400" />
+                  )}
+                  <div>
+                    <p className="text-white text-sm">
+                      {movement.direction === "entry" ? "دخول" : "خروج"} · {movement.people} شخص
+                    </p>
+                    {movement.userName && (
+                      <p className="text-muted-foreground text-xs">بواسطة {movement.userName}</p>
+                    )}
+                  </div>
+                </div>
+                <span className="text-muted-foreground text-xs">
+                  {movement.createdAt ? new Date(movement.createdAt).toLocaleString("ar-SA") : ""}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Guest } from "@shared/schema";
+
+interface SignedQr {
+  payload: string;
+  image: string;
+}
+
+interface GuestQrDialogProps {
+  guest: Guest | null;
+  onClose: () => void;
+}
+
+// Shows a guest's signed invitation QR code for sharing or printing
+export function GuestQrDialog({ guest, onClose }: GuestQrDialogProps) {
+  const { data, isLoading } = useQuery<SignedQr>({
+    queryKey: ["/api/guests", guest?.id, "signed-qr"],
+    enabled: !!guest,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={!!guest} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass border-white/10 sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl">دعوة {guest?.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 text-center">
+            <img
+              src={data.image}
+              alt={`QR ${guest?.name}`}
+              className="mx-auto rounded-xl bg-white p-2"
+              data-testid="img-guest-signed-qr"
+            />
+            <p className="text-muted-foreground text-xs">
+              رمز موقع - الكود: <span dir="ltr" className="font-mono">{guest?.qrCode}</span>
+            </p>
+            <a href={data.image} download={`دعوة-${guest?.name}.png`}>
+              <Button className="w-full gradient-primary" data-testid="button-download-guest-qr">
+                <Download className="w-4 h-4 ml-2" />
+                تنزيل الصورة
+              </Button>
+            </a>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Eye, Undo2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth";
+import { roleLabels, type UserRole } from "@shared/permissions";
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Persistent notice while a super_admin is viewing the app as another user
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const [isStopping, setIsStopping] = useState(false);
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation]);
+
+  const remaining = impersonation ? new Date(impersonation.expiresAt).getTime() - now : 0;
+
+  // The server reverts the session on expiry; reload to pick up the super_admin's own view
+  useEffect(() => {
+    if (impersonation && remaining <= 0) {
+      window.location.href = "/";
+    }
+  }, [impersonation, remaining]);
+
+  if (!user || !impersonation) return null;
+
+  const handleReturn = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+    } finally {
+      window.location.href = "/";
+    }
+  };
+
+  return (
+    <div
+      className="mb-6 flex flex-wrap items-center gap-3 p-4 rounded-xl border border-amber-500/40 bg-amber-500/15"
+      data-testid="banner-impersonation"
+    >
+      <Eye className="w-5 h-5 text-amber-400 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-white font-medium">
+          أنت تعرض النظام بصفة {user.name} ({roleLabels[user.role as UserRole]})
+        </p>
+        <p className="text-amber-200/80 text-sm">
+          وضع العرض فقط - لا يمكن حفظ أي تعديلات. ينتهي خلال{" "}
+          <span dir="ltr" data-testid="text-impersonation-remaining">{formatRemaining(remaining)}</span>
+        </p>
+      </div>
+      <Button
+        onClick={handleReturn}
+        disabled={isStopping}
+        className="bg-amber-500 hover:bg-amber-600 text-black"
+        data-testid="button-stop-impersonation"
+      >
+        {isStopping ? (
+          <Loader2 className="w-4 h-4 animate-spin ml-2" />
+        ) : (
+          <Undo2 className="w-4 h-4 ml-2" />
+        )}
+        العودة إلى حسابي ({impersonation.impersonatorName})
+      </Button>
+    </div>
+  );
+}
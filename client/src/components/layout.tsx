@@ -14,40 +14,71 @@ import {
   Menu,
   X,
   Package,
-  CreditCard
+  CreditCard,
+  ShieldCheck,
+  MonitorSmartphone,
+  KeyRound,
+  UserCircle,
+  Plug
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { PermissionKey } from "@shared/permissions";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
-const menuItems = {
+interface MenuItem {
+  icon: typeof LayoutDashboard;
+  label: string;
+  path: string;
+  // Hidden unless the user's role holds this permission
+  permission?: PermissionKey;
+}
+
+const menuItems: Record<string, MenuItem[]> = {
   super_admin: [
     { icon: LayoutDashboard, label: "لوحة التحكم", path: "/" },
-    { icon: BarChart3, label: "الإحصائيات التفصيلية", path: "/statistics" },
-    { icon: FileText, label: "التقارير", path: "/reports" },
+    { icon: BarChart3, label: "الإحصائيات التفصيلية", path: "/statistics", permission: "reports.system" },
+    { icon: FileText, label: "التقارير", path: "/reports", permission: "reports.system" },
     { icon: UserCog, label: "إدارة المديرين", path: "/admins" },
     { icon: Users, label: "مديرو المناسبات", path: "/event-managers" },
     { icon: CreditCard, label: "إدارة الاشتراكات", path: "/subscriptions" },
     { icon: Calendar, label: "المناسبات", path: "/events" },
     { icon: Package, label: "باقات السعة", path: "/capacity-tiers" },
     { icon: Settings, label: "إعدادات الموقع", path: "/settings" },
+    { icon: KeyRound, label: "الصلاحيات", path: "/permissions" },
+    { icon: Plug, label: "مفاتيح API", path: "/api-keys" },
+    { icon: ShieldCheck, label: "التحقق بخطوتين", path: "/two-factor" },
+    { icon: UserCircle, label: "حسابي", path: "/account" },
+    { icon: MonitorSmartphone, label: "الأجهزة النشطة", path: "/sessions" },
   ],
   admin: [
     { icon: LayoutDashboard, label: "لوحة التحكم", path: "/" },
+    { icon: BarChart3, label: "الإحصائيات التفصيلية", path: "/statistics", permission: "reports.system" },
+    { icon: FileText, label: "التقارير", path: "/reports", permission: "reports.system" },
     { icon: Users, label: "مديرو المناسبات", path: "/event-managers" },
     { icon: Calendar, label: "المناسبات", path: "/events" },
+    { icon: ShieldCheck, label: "التحقق بخطوتين", path: "/two-factor" },
+    { icon: UserCircle, label: "حسابي", path: "/account" },
+    { icon: MonitorSmartphone, label: "الأجهزة النشطة", path: "/sessions" },
   ],
   event_manager: [
     { icon: LayoutDashboard, label: "لوحة التحكم", path: "/" },
     { icon: Calendar, label: "المناسبات", path: "/events" },
     { icon: Users, label: "فريق العمل", path: "/organizers" },
+    { icon: Plug, label: "مفاتيح API", path: "/api-keys" },
+    { icon: UserCircle, label: "حسابي", path: "/account" },
+    { icon: MonitorSmartphone, label: "الأجهزة النشطة", path: "/sessions" },
   ],
   organizer: [
     { icon: QrCode, label: "المسح الضوئي", path: "/" },
+    { icon: UserCircle, label: "حسابي", path: "/account" },
+    { icon: MonitorSmartphone, label: "الأجهزة النشطة", path: "/sessions" },
   ],
 };
 
@@ -60,12 +91,15 @@ const roleLabels = {
 
 export function Layout({ children }: LayoutProps) {
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
   const [location] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   if (!user) return null;
 
-  const items = menuItems[user.role as keyof typeof menuItems] || [];
+  const items = (menuItems[user.role] || []).filter(
+    (item) => !item.permission || can(item.permission)
+  );
 
   const handleLogout = async () => {
     await logout();
@@ -200,6 +234,7 @@ export function Layout({ children }: LayoutProps) {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4 }}
           >
+            <ImpersonationBanner />
             {children}
           </motion.div>
         </main>
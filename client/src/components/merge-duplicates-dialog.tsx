@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle, GitMerge, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { duplicateReasonLabels, type DuplicatePair } from "@shared/guest-duplicates";
+import type { Guest } from "@shared/schema";
+
+interface MergeDuplicatesDialogProps {
+  eventId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+interface PendingMerge {
+  kept: Guest;
+  duplicate: Guest;
+}
+
+const pairKey = (pair: DuplicatePair<Guest>) => `${pair.guest.id}:${pair.duplicate.id}`;
+
+// The admitted guest is the better record to keep, otherwise the one invited first
+function defaultKept(pair: DuplicatePair<Guest>): Guest {
+  return pair.duplicate.isCheckedIn && !pair.guest.isCheckedIn ? pair.duplicate : pair.guest;
+}
+
+// Guests of the event that look like the same person. Merging keeps one record, moves the
+// other's history onto it and retires the other's invitation code.
+export function MergeDuplicatesDialog({ eventId, open, onClose }: MergeDuplicatesDialogProps) {
+  const { toast } = useToast();
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({});
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair<Guest>[]>({
+    queryKey: ["/api/events", eventId, "duplicates"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ kept, duplicate }: PendingMerge) => {
+      const res = await fetch(`/api/guests/${duplicate.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ intoGuestId: kept.id }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل دمج الضيفين");
+      }
+      return body as Guest;
+    },
+    onSuccess: (kept) => {
+      setPending(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId] });
+      toast({ title: "تم الدمج", description: `تم دمج الضيفين في سجل ${kept.name}` });
+    },
+    onError: (error: Error) => {
+      setPending(null);
+      toast({ title: "فشل الدمج", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const keptFor = (pair: DuplicatePair<Guest>) =>
+    [pair.guest, pair.duplicate].find((g) => g.id === keptIds[pairKey(pair)]) ?? defaultKept(pair);
+
+  const renderGuest = (pair: DuplicatePair<Guest>, guest: Guest) => {
+    const isKept = keptFor(pair).id === guest.id;
+    return (
+      <button
+        type="button"
+        onClick={() => setKeptIds((ids) => ({ ...ids, [pairKey(pair)]: guest.id }))}
+        className={`flex-1 text-right p-3 rounded-xl border transition-colors ${
+          isKept ? "border-primary bg-primary/10" : "border-white/10 bg-white/5 hover:bg-white/10"
+        }`}
+        data-testid={`button-keep-guest-${guest.id}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-white font-medium">{guest.name}</p>
+          {isKept && <CheckCircle className="w-4 h-4 text-primary shrink-0" />}
+        </div>
+        <p className="text-muted-foreground text-sm" dir="ltr">{guest.phone || "-"}</p>
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <code className="text-xs text-primary">{guest.qrCode}</code>
+          {guest.isCheckedIn && (
+            <Badge variant="secondary" className="bg-green-500/20 text-green-400 border-none">حضر</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">{isKept ? "يبقى هذا السجل" : "تُلغى دعوته"}</p>
+      </button>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+        <DialogContent className="glass border-white/10 sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">الضيوف المكررون</DialogTitle>
+            <DialogDescription>
+              اختر السجل الذي يبقى في كل زوج. ينتقل سجل الحضور والتدقيق إليه وتُلغى دعوة الآخر.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : pairs.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8" data-testid="text-no-duplicates">
+              لا يوجد ضيوف مكررون في هذه المناسبة
+            </p>
+          ) : (
+            <div className="space-y-4 max-h-[28rem] overflow-y-auto">
+              {pairs.map((pair) => {
+                const kept = keptFor(pair);
+                const duplicate = kept.id === pair.guest.id ? pair.duplicate : pair.guest;
+                return (
+                  <div key={pairKey(pair)} className="p-3 rounded-xl bg-white/5 space-y-3" data-testid={`duplicate-pair-${pairKey(pair)}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant="secondary" className="bg-yellow-500/20 text-yellow-300 border-none">
+                        {duplicateReasonLabels[pair.reason]}
+                        {pair.reason === "name" && ` (${Math.round(pair.score * 100)}%)`}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        onClick={() => setPending({ kept, duplicate })}
+                        disabled={mergeMutation.isPending}
+                        className="gradient-primary"
+                        data-testid={`button-merge-${pairKey(pair)}`}
+                      >
+                        <GitMerge className="w-4 h-4 ml-2" />
+                        دمج
+                      </Button>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      {renderGuest(pair, pair.guest)}
+                      {renderGuest(pair, pair.duplicate)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pending} onOpenChange={(value) => !value && setPending(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">دمج الضيفين</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيبقى سجل "{pending?.kept.name}" وتنتقل إليه سجلات "{pending?.duplicate.name}"، وتُلغى دعوته
+              ({pending?.duplicate.qrCode}) فلا يمكن استخدامها للدخول بعد الآن.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pending && mergeMutation.mutate(pending)}
+              className="gradient-primary"
+              data-testid="button-confirm-merge"
+            >
+              دمج
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
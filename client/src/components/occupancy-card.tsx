@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { AlertTriangle, DoorOpen } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { EventOccupancy } from "@shared/schema";
+
+const OCCUPANCY_REFRESH_MS = 10_000;
+
+// Live "currently inside" figure, with an alert as the venue limit gets close
+export function OccupancyCard({ eventId }: { eventId: string }) {
+  const { data: occupancy } = useQuery<EventOccupancy>({
+    queryKey: ["/api/events", eventId, "occupancy"],
+    refetchInterval: OCCUPANCY_REFRESH_MS,
+    staleTime: 0,
+  });
+
+  if (!occupancy || (!occupancy.trackExits && !occupancy.limit)) return null;
+
+  const percent = occupancy.limit ? Math.min(Math.round((occupancy.inside / occupancy.limit) * 100), 100) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`glass-card rounded-2xl p-6 space-y-4 ${
+        occupancy.level === "full"
+          ? "border border-red-500/60"
+          : occupancy.level === "warning"
+          ? "border border-orange-500/60"
+          : ""
+      }`}
+      data-testid="card-occupancy"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <DoorOpen className="w-5 h-5 text-primary" />
+          <span className="text-muted-foreground">داخل المكان الآن</span>
+        </div>
+        <p className="text-3xl font-bold text-white" data-testid="text-occupancy-inside">
+          {occupancy.inside}
+          {occupancy.limit && (
+            <span className="text-base text-muted-foreground font-normal"> / {occupancy.limit}</span>
+          )}
+        </p>
+      </div>
+
+      {occupancy.limit && <Progress value={percent} className="h-2" />}
+
+      {occupancy.level !== "ok" && (
+        <div
+          className={`flex items-center gap-2 p-3 rounded-xl text-sm ${
+            occupancy.level === "full" ? "bg-red-500/20 text-red-300" : "bg-orange-500/20 text-orange-300"
+          }`}
+          data-testid="alert-occupancy"
+        >
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {occupancy.level === "full"
+            ? "تم الوصول إلى الحد الأقصى للطاقة الاستيعابية"
+            : `الموجودون داخل المكان تجاوزوا ${occupancy.alertPercent}% من الطاقة الاستيعابية`}
+        </div>
+      )}
+    </motion.div>
+  );
+}
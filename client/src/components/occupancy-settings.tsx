@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { DoorOpen, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Event } from "@shared/schema";
+
+// Check-out / re-entry mode and the venue occupancy limit
+export function OccupancySettings({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [limit, setLimit] = useState(event.occupancyLimit?.toString() ?? "");
+  const [alertPercent, setAlertPercent] = useState(event.occupancyAlertPercent.toString());
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<Event, "trackExits" | "occupancyLimit" | "occupancyAlertPercent">>) => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+      toast({ title: "تم الحفظ", description: "تم تحديث إعدادات الدخول والخروج" });
+    },
+    onError: () => {
+      toast({ title: "فشل التحديث", description: "تعذر حفظ الإعداد", variant: "destructive" });
+    },
+  });
+
+  const parsedLimit = limit.trim() === "" ? null : parseInt(limit, 10);
+  const parsedPercent = parseInt(alertPercent, 10);
+  const isValid =
+    (parsedLimit === null || (Number.isInteger(parsedLimit) && parsedLimit > 0)) &&
+    Number.isInteger(parsedPercent) && parsedPercent >= 1 && parsedPercent <= 100;
+
+  return (
+    <div className="glass-card rounded-2xl p-8 space-y-6" data-testid="card-occupancy-settings">
+      <div className="flex items-center gap-3">
+        <DoorOpen className="w-6 h-6 text-primary" />
+        <div>
+          <h2 className="text-xl font-bold text-white">الدخول والخروج والطاقة الاستيعابية</h2>
+          <p className="text-muted-foreground text-sm">
+            متابعة عدد الموجودين داخل المكان حالياً والتنبيه عند الاقتراب من الحد المسموح
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 rounded-xl glass-input">
+        <div>
+          <p className="text-white font-medium">تسجيل الخروج وإعادة الدخول</p>
+          <p className="text-muted-foreground text-sm">يسجل المنظم خروج الضيف ويمكنه العودة بنفس الدعوة</p>
+        </div>
+        <Switch
+          checked={!!event.trackExits}
+          onCheckedChange={(checked) => updateMutation.mutate({ trackExits: checked })}
+          disabled={updateMutation.isPending}
+          data-testid="switch-track-exits"
+        />
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-white">الحد الأقصى للموجودين داخل المكان</Label>
+          <Input
+            type="number"
+            min={1}
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            placeholder="بدون حد"
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-occupancy-limit"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-white">التنبيه عند نسبة (%)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={alertPercent}
+            onChange={(e) => setAlertPercent(e.target.value)}
+            className="glass-input h-12 rounded-xl text-white"
+            data-testid="input-occupancy-alert-percent"
+          />
+        </div>
+      </div>
+
+      <Button
+        onClick={() => updateMutation.mutate({ occupancyLimit: parsedLimit, occupancyAlertPercent: parsedPercent })}
+        disabled={!isValid || updateMutation.isPending}
+        className="gradient-primary"
+        data-testid="button-save-occupancy"
+      >
+        {updateMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+        حفظ الحد
+      </Button>
+    </div>
+  );
+}
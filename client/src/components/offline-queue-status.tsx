@@ -0,0 +1,83 @@
+import { CloudUpload, CheckCircle, AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { QueuedCheckIn } from "@/lib/offline-queue";
+
+interface OfflineQueueStatusProps {
+  entries: QueuedCheckIn[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onSync: () => void;
+}
+
+// Pending / synced / conflicted counts for check-ins recorded on this device
+export function OfflineQueueStatus({ entries, isOnline, isSyncing, onSync }: OfflineQueueStatusProps) {
+  if (entries.length === 0) return null;
+
+  const pendingCount = entries.filter((e) => e.status === "pending").length;
+  const syncedCount = entries.filter((e) => e.status === "synced").length;
+  const problems = entries.filter((e) => e.status === "conflict" || e.status === "duplicate" || e.status === "rejected");
+
+  return (
+    <div className="glass-card rounded-2xl p-4 space-y-4" data-testid="offline-queue-status">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-white font-bold">تسجيلات هذا الجهاز</h3>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onSync}
+          disabled={!isOnline || isSyncing || pendingCount === 0}
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-sync-now"
+        >
+          {isSyncing ? (
+            <Loader2 className="w-4 h-4 animate-spin ml-2" />
+          ) : (
+            <RefreshCw className="w-4 h-4 ml-2" />
+          )}
+          مزامنة الآن
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-xl bg-orange-500/10 p-3">
+          <CloudUpload className="w-5 h-5 text-orange-400 mx-auto mb-1" />
+          <p className="text-2xl font-bold text-white" data-testid="text-pending-count">{pendingCount}</p>
+          <p className="text-xs text-muted-foreground">بانتظار المزامنة</p>
+        </div>
+        <div className="rounded-xl bg-green-500/10 p-3">
+          <CheckCircle className="w-5 h-5 text-green-400 mx-auto mb-1" />
+          <p className="text-2xl font-bold text-white" data-testid="text-synced-count">{syncedCount}</p>
+          <p className="text-xs text-muted-foreground">تمت مزامنتها</p>
+        </div>
+        <div className="rounded-xl bg-red-500/10 p-3">
+          <AlertTriangle className="w-5 h-5 text-red-400 mx-auto mb-1" />
+          <p className="text-2xl font-bold text-white" data-testid="text-conflict-count">{problems.length}</p>
+          <p className="text-xs text-muted-foreground">تعارض</p>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="space-y-2">
+          {problems.map((entry) => (
+            <div
+              key={entry.clientId}
+              className="flex items-start gap-2 p-3 rounded-xl bg-red-500/10 text-sm"
+              data-testid={`conflict-${entry.clientId}`}
+            >
+              <AlertTriangle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <div>
+                <p className="text-white">
+                  {entry.guestName}
+                  <span className="text-muted-foreground text-xs mr-2">
+                    {new Date(entry.checkedInAt).toLocaleTimeString("ar-SA")}
+                  </span>
+                </p>
+                {entry.message && <p className="text-muted-foreground text-xs">{entry.message}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
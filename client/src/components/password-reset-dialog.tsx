@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link2, Send, Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+
+interface PasswordResetResult {
+  delivered: boolean;
+  link?: string;
+  channel?: string;
+  expiresAt: string;
+}
+
+interface PasswordResetDialogProps {
+  user: User | null;
+  onClose: () => void;
+}
+
+export function PasswordResetDialog({ user, onClose }: PasswordResetDialogProps) {
+  const { toast } = useToast();
+  const [result, setResult] = useState<PasswordResetResult | null>(null);
+
+  const issueMutation = useMutation({
+    mutationFn: async (delivery: "display" | "channel") => {
+      const res = await apiRequest("POST", `/api/users/${user!.id}/password-reset`, { delivery });
+      return res.json() as Promise<PasswordResetResult>;
+    },
+    onSuccess: (data) => setResult(data),
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "حدث خطأ أثناء إنشاء رابط إعادة التعيين",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setResult(null);
+      onClose();
+    }
+  };
+
+  const copyLink = () => {
+    if (!result?.link) return;
+    navigator.clipboard.writeText(result.link);
+    toast({ title: "تم النسخ", description: "تم نسخ رابط إعادة التعيين" });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass border-white/10 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl">إعادة تعيين كلمة المرور - {user?.name}</DialogTitle>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              سيتم إنشاء رابط صالح لمرة واحدة ولمدة ساعة. أي رابط سابق لم يُستخدم سيتوقف عن العمل.
+            </p>
+            <Button
+              onClick={() => issueMutation.mutate("display")}
+              disabled={issueMutation.isPending}
+              className="w-full gradient-primary"
+              data-testid="button-issue-reset-link"
+            >
+              {issueMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin ml-2" />
+              ) : (
+                <Link2 className="w-4 h-4 ml-2" />
+              )}
+              إنشاء رابط وعرضه
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => issueMutation.mutate("channel")}
+              disabled={issueMutation.isPending}
+              className="w-full glass-input text-white"
+              data-testid="button-send-reset-link"
+            >
+              <Send className="w-4 h-4 ml-2" />
+              إرسال الرابط للمستخدم
+            </Button>
+          </div>
+        ) : result.delivered ? (
+          <p className="text-white" data-testid="text-reset-link-sent">
+            تم إرسال الرابط عبر {result.channel}. ينتهي في {new Date(result.expiresAt).toLocaleString("ar-SA")}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              انسخ الرابط وأرسله للمستخدم. لن يظهر مرة أخرى وينتهي في {new Date(result.expiresAt).toLocaleString("ar-SA")}.
+            </p>
+            <code
+              className="block p-3 rounded-xl glass-input text-white text-xs font-mono break-all"
+              dir="ltr"
+              data-testid="text-reset-link"
+            >
+              {result.link}
+            </code>
+            <Button variant="outline" onClick={copyLink} className="w-full glass-input text-white" data-testid="button-copy-reset-link">
+              <Copy className="w-4 h-4 ml-2" />
+              نسخ الرابط
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { Download, MonitorSmartphone, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { usePwaStatus } from "@/hooks/use-pwa-status";
+import { promptInstall } from "@/lib/pwa";
+
+// Tells the organizer whether this device can keep scanning without a connection
+export function PwaStatusBadge() {
+  const { isInstalled, isOfflineReady, canInstall } = usePwaStatus();
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {isInstalled && (
+        <Badge variant="secondary" className="bg-primary/20 text-white border-none" data-testid="badge-installed">
+          <MonitorSmartphone className="w-3 h-3 ml-1" />
+          مثبت
+        </Badge>
+      )}
+      {isOfflineReady && (
+        <Badge variant="secondary" className="bg-green-500/20 text-green-400 border-none" data-testid="badge-offline-ready">
+          <ShieldCheck className="w-3 h-3 ml-1" />
+          جاهز للعمل دون اتصال
+        </Badge>
+      )}
+      {canInstall && !isInstalled && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={promptInstall}
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-install-app"
+        >
+          <Download className="w-4 h-4 ml-2" />
+          تثبيت التطبيق
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { Guest } from "@shared/schema";
+
+interface RevertCheckInDialogProps {
+  guest: Guest | null;
+  onClose: () => void;
+  onReverted?: (guest: Guest) => void;
+}
+
+// Asks for the mandatory reason before undoing a guest's check-in
+export function RevertCheckInDialog({ guest, onClose, onReverted }: RevertCheckInDialogProps) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const revertMutation = useMutation({
+    mutationFn: async (guestId: string) => {
+      const res = await fetch(`/api/guests/${guestId}/check-in/revert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل التراجع عن تسجيل الحضور");
+      }
+      return body as Guest;
+    },
+    onSuccess: (reverted) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", reverted.eventId, "guests"] });
+      toast({ title: "تم التراجع", description: `تم إلغاء تسجيل حضور ${reverted.name}` });
+      onReverted?.(reverted);
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل التراجع", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!guest} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="glass border-white/10 sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl">التراجع عن تسجيل حضور {guest?.name}</DialogTitle>
+          <DialogDescription>سيظهر الضيف كغائب وسيُسجل سبب التراجع في سجل العمليات</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (guest) revertMutation.mutate(guest.id);
+          }}
+        >
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="سبب التراجع (مثال: تم اختيار الضيف بالخطأ)"
+            className="glass-input rounded-xl text-white placeholder:text-muted-foreground min-h-24 resize-none"
+            data-testid="input-revert-reason"
+          />
+          <Button
+            type="submit"
+            variant="destructive"
+            className="w-full"
+            disabled={reason.trim().length < 3 || revertMutation.isPending}
+            data-testid="button-confirm-revert"
+          >
+            {revertMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin ml-2" />
+            ) : (
+              <Undo2 className="w-4 h-4 ml-2" />
+            )}
+            تأكيد التراجع
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Monitor, Smartphone, LogOut, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface SessionInfo {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+interface SessionsListProps {
+  // Base endpoint, e.g. "/api/auth/sessions" or "/api/users/:id/sessions"
+  endpoint: string;
+  onCurrentSessionRevoked?: () => void;
+}
+
+export function describeDevice(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent) return { label: "جهاز غير معروف", isMobile: false };
+
+  const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "متصفح";
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "نظام غير معروف";
+
+  return { label: `${browser} على ${os}`, isMobile };
+}
+
+export function SessionsList({ endpoint, onCurrentSessionRevoked }: SessionsListProps) {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: [endpoint],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: SessionInfo) => {
+      await apiRequest("DELETE", `${endpoint}/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.isCurrent) {
+        onCurrentSessionRevoked?.();
+        return;
+      }
+      toast({
+        title: "تم تسجيل الخروج",
+        description: "تم إنهاء الجلسة على هذا الجهاز",
+      });
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+    },
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "حدث خطأ أثناء إنهاء الجلسة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", endpoint);
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم تسجيل الخروج",
+        description: "تم إنهاء جميع الجلسات الأخرى",
+      });
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+    },
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "حدث خطأ أثناء إنهاء الجلسات",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((s) => !s.isCurrent);
+
+  return (
+    <div className="space-y-3" data-testid="sessions-list">
+      {sessions.length === 0 && (
+        <p className="text-muted-foreground text-center py-6">لا توجد جلسات نشطة</p>
+      )}
+
+      {sessions.map((session) => {
+        const device = describeDevice(session.userAgent);
+        const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+        return (
+          <div
+            key={session.id}
+            className="flex items-center gap-4 p-4 rounded-xl glass-input"
+            data-testid={`session-${session.id}`}
+          >
+            <DeviceIcon className="w-6 h-6 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-white font-medium truncate">{device.label}</p>
+                {session.isCurrent && (
+                  <Badge variant="secondary" className="bg-green-500/20 text-green-400">
+                    هذا الجهاز
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <span dir="ltr">{session.ip || "-"}</span>
+                {" · "}
+                آخر نشاط:{" "}
+                {session.lastSeenAt ? new Date(session.lastSeenAt).toLocaleString("ar-SA") : "-"}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => revokeMutation.mutate(session)}
+              disabled={revokeMutation.isPending}
+              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+              data-testid={`button-revoke-session-${session.id}`}
+            >
+              <LogOut className="w-4 h-4 ml-1" />
+              تسجيل الخروج
+            </Button>
+          </div>
+        );
+      })}
+
+      {hasOtherSessions && (
+        <Button
+          variant="outline"
+          onClick={() => revokeAllMutation.mutate()}
+          disabled={revokeAllMutation.isPending}
+          className="w-full border-red-500/30 text-red-400 hover:bg-red-500/10"
+          data-testid="button-revoke-all-sessions"
+        >
+          {revokeAllMutation.isPending ? (
+            <Loader2 className="w-4 h-4 animate-spin ml-2" />
+          ) : (
+            <LogOut className="w-4 h-4 ml-2" />
+          )}
+          تسجيل الخروج من جميع الأجهزة الأخرى
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldCheck, RotateCw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Event } from "@shared/schema";
+import type { EventPublicKeys } from "@shared/signed-qr";
+
+// Signed invitation QR settings: enforcement toggle and signing key rotation
+export function SignedQrSettings({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [isRotateOpen, setIsRotateOpen] = useState(false);
+
+  const { data: publicKeys } = useQuery<EventPublicKeys>({
+    queryKey: ["/api/events", event.id, "qr-keys"],
+  });
+  const activeKey = publicKeys?.keys[0];
+
+  const toggleMutation = useMutation({
+    mutationFn: async (requireSignedQr: boolean) => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}`, { requireSignedQr });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+    },
+    onError: () => {
+      toast({ title: "فشل التحديث", description: "تعذر حفظ الإعداد", variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/qr-keys/rotate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "qr-keys"] });
+      setIsRotateOpen(false);
+      toast({ title: "تم تغيير المفتاح", description: "أعد إرسال الدعوات للضيوف بالرموز الجديدة" });
+    },
+    onError: () => {
+      toast({ title: "فشلت العملية", description: "تعذر تغيير مفتاح التوقيع", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="glass-card rounded-2xl p-8 space-y-6" data-testid="card-signed-qr">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="w-6 h-6 text-primary" />
+        <div>
+          <h2 className="text-xl font-bold text-white">توقيع رموز الدعوات</h2>
+          <p className="text-muted-foreground text-sm">
+            رموز QR الموقعة لا يمكن تزويرها ويمكن للمنظمين التحقق منها دون اتصال
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 rounded-xl glass-input">
+        <div>
+          <p className="text-white font-medium">قبول الدعوات الموقعة فقط</p>
+          <p className="text-muted-foreground text-sm">رفض الأكواد المكتوبة والرموز القديمة غير الموقعة عند الدخول</p>
+        </div>
+        <Switch
+          checked={!!event.requireSignedQr}
+          onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+          disabled={toggleMutation.isPending}
+          data-testid="switch-require-signed-qr"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-sm">
+          {activeKey ? (
+            <>
+              المفتاح الحالي: <span dir="ltr" className="font-mono text-white">{activeKey.kid}</span>
+              {activeKey.createdAt && ` · منذ ${new Date(activeKey.createdAt).toLocaleDateString("ar-SA")}`}
+            </>
+          ) : (
+            "سيتم إنشاء المفتاح عند إصدار أول رمز موقع"
+          )}
+        </p>
+        <Button
+          variant="outline"
+          onClick={() => setIsRotateOpen(true)}
+          className="border-white/20 text-white hover:bg-white/10"
+          data-testid="button-rotate-qr-key"
+        >
+          <RotateCw className="w-4 h-4 ml-2" />
+          تغيير المفتاح
+        </Button>
+      </div>
+
+      <AlertDialog open={isRotateOpen} onOpenChange={setIsRotateOpen}>
+        <AlertDialogContent className="glass border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">تغيير مفتاح التوقيع</AlertDialogTitle>
+            <AlertDialogDescription>
+              ستتوقف جميع رموز QR الموقعة التي أُرسلت سابقاً عن العمل، ويجب إعادة إرسال الدعوات للضيوف.
+              يحتاج المنظمون إلى الاتصال بالإنترنت مرة واحدة لتنزيل المفتاح الجديد.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="glass-input text-white">إلغاء</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                rotateMutation.mutate();
+              }}
+              disabled={rotateMutation.isPending}
+              className="bg-red-500 hover:bg-red-600"
+              data-testid="button-confirm-rotate-qr-key"
+            >
+              {rotateMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+              تغيير المفتاح
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, ShieldCheck, Copy, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TwoFactorSetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+}
+
+export function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  const { data: setup, isLoading } = useQuery<TwoFactorSetupData>({
+    queryKey: ["/api/auth/2fa/setup"],
+    gcTime: 0,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "تم تفعيل التحقق بخطوتين",
+        description: "احفظ رموز الاسترداد في مكان آمن",
+      });
+    },
+    onError: () => {
+      setCode("");
+      toast({
+        title: "رمز غير صحيح",
+        description: "تأكد من الرمز الظاهر في تطبيق المصادقة وحاول مرة أخرى",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "تم النسخ", description: "تم نسخ رموز الاسترداد" });
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6" data-testid="two-factor-recovery-codes">
+        <div className="flex items-center gap-3 text-white">
+          <KeyRound className="w-6 h-6 text-primary" />
+          <h3 className="text-lg font-bold">رموز الاسترداد</h3>
+        </div>
+        <p className="text-muted-foreground text-sm">
+          استخدم أحد هذه الرموز لتسجيل الدخول إذا فقدت جهازك. كل رمز يعمل مرة واحدة فقط ولن تظهر مرة أخرى.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 rounded-xl glass-input font-mono text-white text-center" dir="ltr">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode} data-testid={`text-recovery-code-${recoveryCode}`}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={copyRecoveryCodes} className="flex-1 glass-input text-white" data-testid="button-copy-recovery-codes">
+            <Copy className="w-4 h-4 ml-2" />
+            نسخ الرموز
+          </Button>
+          <Button onClick={onComplete} className="flex-1 gradient-primary" data-testid="button-finish-two-factor">
+            <ShieldCheck className="w-4 h-4 ml-2" />
+            متابعة
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !setup) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="two-factor-setup">
+      <ol className="text-muted-foreground text-sm space-y-1 list-decimal pr-5">
+        <li>ثبّت تطبيق مصادقة مثل Google Authenticator أو Microsoft Authenticator</li>
+        <li>امسح رمز QR التالي بالتطبيق</li>
+        <li>أدخل الرمز المكون من 6 أرقام الظاهر في التطبيق</li>
+      </ol>
+
+      <div className="flex flex-col items-center gap-3">
+        <img
+          src={setup.qrCode}
+          alt="رمز QR للتحقق بخطوتين"
+          className="w-48 h-48 rounded-xl bg-white p-2"
+          data-testid="img-two-factor-qr"
+        />
+        <p className="text-xs text-muted-foreground">أو أدخل المفتاح يدوياً:</p>
+        <code className="text-sm text-white font-mono break-all text-center" dir="ltr" data-testid="text-two-factor-secret">
+          {setup.secret}
+        </code>
+      </div>
+
+      <div className="flex justify-center" dir="ltr">
+        <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-two-factor-setup-code">
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} className="text-white border-white/20" />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      <Button
+        onClick={() => enableMutation.mutate(code)}
+        disabled={code.length !== 6 || enableMutation.isPending}
+        className="w-full h-12 gradient-primary"
+        data-testid="button-enable-two-factor"
+      >
+        {enableMutation.isPending ? (
+          <Loader2 className="w-5 h-5 animate-spin ml-2" />
+        ) : (
+          <ShieldCheck className="w-5 h-5 ml-2" />
+        )}
+        تفعيل التحقق بخطوتين
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { RefreshCw } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { usePwaStatus } from "@/hooks/use-pwa-status";
+import { applyUpdate } from "@/lib/pwa";
+
+// Shown when a newly deployed build has been downloaded by the service worker
+export function UpdatePrompt() {
+  const { isUpdateAvailable } = usePwaStatus();
+
+  return (
+    <AnimatePresence>
+      {isUpdateAvailable && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-4 inset-x-4 sm:right-4 sm:left-auto sm:w-96 z-50 glass-card rounded-2xl p-4 flex items-center justify-between gap-3"
+          data-testid="update-prompt"
+        >
+          <div>
+            <p className="text-white font-bold">تحديث جديد متاح</p>
+            <p className="text-muted-foreground text-sm">أعد التحميل لاستخدام أحدث إصدار</p>
+          </div>
+          <Button onClick={applyUpdate} className="gradient-primary" data-testid="button-apply-update">
+            <RefreshCw className="w-4 h-4 ml-2" />
+            تحديث
+          </Button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,25 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// Starts a read-only "view as" session for super_admin and reloads into the target's view
+export function useImpersonate() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/impersonate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      window.location.href = "/";
+    },
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "لا يمكن العرض كهذا المستخدم",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import type { PermissionKey } from "@shared/permissions";
+
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const { data: permissions = [], isLoading } = useQuery<PermissionKey[]>({
+    queryKey: ["/api/auth/permissions"],
+    enabled: !!user,
+  });
+
+  const can = (permission: PermissionKey) => permissions.includes(permission);
+
+  return { permissions, can, isLoading };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { subscribePwaState, getPwaState } from "@/lib/pwa";
+
+export function usePwaStatus() {
+  return useSyncExternalStore(subscribePwaState, getPwaState);
+}
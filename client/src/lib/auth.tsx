@@ -1,18 +1,38 @@
 import { createContext, useContext, useState, useEffect, useCallback } from "react";
-import type { User } from "@shared/schema";
+import { clearCachedApiResponses } from "@/lib/pwa";
+import type { User, TwoFactorStage } from "@shared/schema";
+
+export interface LoginResult {
+  success: boolean;
+  error?: string;
+  lockedUntil?: string;
+  twoFactorStage?: TwoFactorStage;
+}
+
+// Present while a super_admin is viewing the app as this user
+export interface ImpersonationInfo {
+  impersonatorName: string;
+  expiresAt: string;
+}
 
 interface AuthContextType {
   user: User | null;
+  impersonation: ImpersonationInfo | null;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  twoFactorStage: TwoFactorStage | null;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<LoginResult>;
   logout: () => Promise<void>;
   refetchUser: () => Promise<void>;
+  stopImpersonation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [impersonation, setImpersonation] = useState<ImpersonationInfo | null>(null);
+  const [twoFactorStage, setTwoFactorStage] = useState<TwoFactorStage | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchUser = useCallback(async () => {
@@ -20,9 +40,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const res = await fetch("/api/auth/me", { credentials: "include" });
       if (res.ok) {
         const data = await res.json();
-        setUser(data);
+        if (data.twoFactorRequired) {
+          setUser(null);
+          setTwoFactorStage(data.stage);
+        } else {
+          const { impersonation: impersonationInfo, ...userData } = data;
+          setUser(userData);
+          setImpersonation(impersonationInfo || null);
+          setTwoFactorStage(null);
+        }
       } else {
         setUser(null);
+        setImpersonation(null);
+        setTwoFactorStage(null);
       }
     } catch {
       setUser(null);
@@ -35,7 +65,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     fetchUser();
   }, [fetchUser]);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
       const res = await fetch("/api/auth/login", {
         method: "POST",
@@ -43,14 +73,41 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         body: JSON.stringify({ username, password }),
         credentials: "include",
       });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok && data.twoFactorRequired) {
+        setTwoFactorStage(data.stage);
+        return { success: false, twoFactorStage: data.stage };
+      }
       if (res.ok) {
-        const data = await res.json();
         setUser(data.user);
-        return true;
+        return { success: true };
       }
-      return false;
+      return { success: false, error: data.error, lockedUntil: data.lockedUntil };
     } catch {
-      return false;
+      return { success: false };
+    }
+  };
+
+  const verifyTwoFactor = async (code: string): Promise<LoginResult> => {
+    try {
+      const res = await fetch("/api/auth/2fa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setUser(data.user);
+        setTwoFactorStage(null);
+        return { success: true };
+      }
+      if (data.lockedUntil) {
+        setTwoFactorStage(null);
+      }
+      return { success: false, error: data.error, lockedUntil: data.lockedUntil };
+    } catch {
+      return { success: false };
     }
   };
 
@@ -61,12 +118,34 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         credentials: "include",
       });
     } finally {
+      clearCachedApiResponses();
       setUser(null);
+      setImpersonation(null);
+      setTwoFactorStage(null);
     }
   };
 
+  const stopImpersonation = async () => {
+    await fetch("/api/auth/impersonation/stop", {
+      method: "POST",
+      credentials: "include",
+    });
+  };
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout, refetchUser: fetchUser }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        impersonation,
+        isLoading,
+        twoFactorStage,
+        login,
+        verifyTwoFactor,
+        logout,
+        refetchUser: fetchUser,
+        stopImpersonation,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,139 @@
+import type { CheckInSyncResult } from "@shared/schema";
+
+// Check-ins recorded on this device while offline, kept in IndexedDB until the server has
+// answered for them. Synced and conflicted entries are kept so the organizer can review them.
+
+const DB_NAME = "dawaati-offline";
+const DB_VERSION = 1;
+const STORE = "checkins";
+const DEVICE_ID_KEY = "device_id";
+const SYNC_BATCH_SIZE = 200;
+
+export type QueuedCheckInStatus = "pending" | "synced" | "conflict" | "duplicate" | "rejected";
+
+export interface QueuedCheckIn {
+  clientId: string;
+  deviceId: string;
+  eventId: string;
+  guestId: string;
+  guestName: string;
+  checkedInAt: string;
+  status: QueuedCheckInStatus;
+  message?: string | null;
+  syncedAt?: string;
+}
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "clientId" });
+      store.createIndex("eventId", "eventId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+// Pass the idempotency key of a failed online attempt as clientId, so the server can tell
+// whether that attempt actually went through before reporting a conflict
+export async function queueCheckIn(
+  eventId: string,
+  guestId: string,
+  guestName: string,
+  clientId: string = crypto.randomUUID()
+): Promise<QueuedCheckIn> {
+  const entry: QueuedCheckIn = {
+    clientId,
+    deviceId: getDeviceId(),
+    eventId,
+    guestId,
+    guestName,
+    checkedInAt: new Date().toISOString(),
+    status: "pending",
+  };
+  await withStore("readwrite", (store) => store.put(entry));
+  return entry;
+}
+
+export async function getQueuedCheckIns(eventId: string): Promise<QueuedCheckIn[]> {
+  const entries = await withStore<QueuedCheckIn[]>("readonly", (store) =>
+    store.index("eventId").getAll(eventId)
+  );
+  return (entries || []).sort((a, b) => a.checkedInAt.localeCompare(b.checkedInAt));
+}
+
+async function saveQueuedCheckIns(entries: QueuedCheckIn[]) {
+  await withStore("readwrite", (store) => {
+    entries.forEach((entry) => store.put(entry));
+  });
+}
+
+// Sends pending entries in batches; entries stay pending if the request fails
+export async function syncPendingCheckIns(eventId: string): Promise<QueuedCheckIn[]> {
+  const pending = (await getQueuedCheckIns(eventId)).filter((e) => e.status === "pending");
+  const updated: QueuedCheckIn[] = [];
+
+  for (let i = 0; i < pending.length; i += SYNC_BATCH_SIZE) {
+    const batch = pending.slice(i, i + SYNC_BATCH_SIZE);
+    const res = await fetch("/api/check-in/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        deviceId: getDeviceId(),
+        entries: batch.map(({ clientId, eventId, guestId, checkedInAt }) => ({
+          clientId,
+          eventId,
+          guestId,
+          checkedInAt,
+        })),
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${await res.text()}`);
+    }
+
+    const { results } = (await res.json()) as { results: CheckInSyncResult[] };
+    const byClientId = new Map(results.map((r) => [r.clientId, r]));
+    const syncedAt = new Date().toISOString();
+    const answered = batch
+      .filter((entry) => byClientId.has(entry.clientId))
+      .map((entry) => {
+        const result = byClientId.get(entry.clientId)!;
+        return { ...entry, status: result.status, message: result.message, syncedAt };
+      });
+    await saveQueuedCheckIns(answered);
+    updated.push(...answered);
+  }
+
+  return updated;
+}
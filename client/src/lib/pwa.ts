@@ -0,0 +1,109 @@
+// Service worker registration and install state for the organizer PWA
+
+declare const __APP_BUILD_ID__: string;
+
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+export interface PwaState {
+  isInstalled: boolean;
+  isOfflineReady: boolean;
+  isUpdateAvailable: boolean;
+  canInstall: boolean;
+}
+
+let state: PwaState = {
+  isInstalled: window.matchMedia("(display-mode: standalone)").matches,
+  isOfflineReady: false,
+  isUpdateAvailable: false,
+  canInstall: false,
+};
+let waitingWorker: ServiceWorker | null = null;
+let installPrompt: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<PwaState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribePwaState(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getPwaState() {
+  return state;
+}
+
+function trackWaitingWorker(registration: ServiceWorkerRegistration) {
+  // A waiting worker with an existing controller means a new build was deployed
+  const markWaiting = (worker: ServiceWorker) => {
+    if (navigator.serviceWorker.controller) {
+      waitingWorker = worker;
+      setState({ isUpdateAvailable: true });
+    }
+  };
+
+  if (registration.waiting) markWaiting(registration.waiting);
+  registration.addEventListener("updatefound", () => {
+    const installing = registration.installing;
+    installing?.addEventListener("statechange", () => {
+      if (installing.state === "installed") markWaiting(installing);
+      if (installing.state === "activated") setState({ isOfflineReady: true });
+    });
+  });
+}
+
+export function registerServiceWorker() {
+  window.addEventListener("beforeinstallprompt", (event) => {
+    event.preventDefault();
+    installPrompt = event as BeforeInstallPromptEvent;
+    setState({ canInstall: true });
+  });
+  window.addEventListener("appinstalled", () => {
+    installPrompt = null;
+    setState({ isInstalled: true, canInstall: false });
+  });
+
+  // The dev server rebuilds modules on the fly, so only production builds get a worker
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener("load", async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`/sw.js?v=${__APP_BUILD_ID__}`);
+      trackWaitingWorker(registration);
+      if (registration.active) setState({ isOfflineReady: true });
+
+      let reloading = false;
+      navigator.serviceWorker.addEventListener("controllerchange", () => {
+        if (reloading || !state.isUpdateAvailable) return;
+        reloading = true;
+        window.location.reload();
+      });
+    } catch (error) {
+      console.error("Service worker registration failed:", error);
+    }
+  });
+}
+
+export function applyUpdate() {
+  waitingWorker?.postMessage({ type: "skip-waiting" });
+}
+
+export async function promptInstall() {
+  if (!installPrompt) return;
+  await installPrompt.prompt();
+  const { outcome } = await installPrompt.userChoice;
+  installPrompt = null;
+  setState({ canInstall: false, isInstalled: outcome === "accepted" || state.isInstalled });
+}
+
+// Drops cached organizer API responses so they are not served to the next user of the device
+export function clearCachedApiResponses() {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-api-cache" });
+}
@@ -0,0 +1,75 @@
+import { parseSignedQrPayload, type EventPublicKeys } from "@shared/signed-qr";
+
+// Offline verification of signed invitation QR codes using the event's downloaded public keys
+
+const storageKey = (eventId: string) => `qr_keys_${eventId}`;
+
+export function cacheEventPublicKeys(keys: EventPublicKeys) {
+  localStorage.setItem(storageKey(keys.eventId), JSON.stringify(keys));
+}
+
+export function getCachedEventPublicKeys(eventId: string): EventPublicKeys | null {
+  const cached = localStorage.getItem(storageKey(eventId));
+  return cached ? (JSON.parse(cached) as EventPublicKeys) : null;
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Bare access code or the legacy JSON payload {id, code}
+function legacyAccessCode(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      return String(JSON.parse(trimmed).code || "").toUpperCase();
+    } catch {
+      return "";
+    }
+  }
+  return trimmed.toUpperCase();
+}
+
+export type OfflineVerification =
+  | { valid: true; code: string }
+  | { valid: false; message: string };
+
+export async function verifySignedQrOffline(text: string, keys: EventPublicKeys): Promise<OfflineVerification> {
+  const payload = parseSignedQrPayload(text);
+  if (!payload) {
+    if (keys.requireSignedQr) {
+      return { valid: false, message: "هذه المناسبة تقبل الدعوات الموقعة فقط" };
+    }
+    return { valid: true, code: legacyAccessCode(text) };
+  }
+
+  const key = keys.keys.find((k) => k.kid === payload.kid);
+  if (!key) {
+    return { valid: false, message: "الدعوة غير موقعة بمفتاح هذه المناسبة" };
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      "raw",
+      base64UrlToBytes(key.publicKey),
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+    const valid = await crypto.subtle.verify(
+      { name: "Ed25519" },
+      publicKey,
+      base64UrlToBytes(payload.signature),
+      new TextEncoder().encode(payload.message)
+    );
+    return valid ? { valid: true, code: payload.code } : { valid: false, message: "توقيع الدعوة غير صالح" };
+  } catch {
+    return { valid: false, message: "المتصفح لا يدعم التحقق من التوقيع دون اتصال" };
+  }
+}
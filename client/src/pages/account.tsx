@@ -0,0 +1,176 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { UserCircle, Save, Loader2, KeyRound, History, CheckCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { describeDevice } from "@/components/sessions-list";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import { roleLabels, type UserRole } from "@shared/permissions";
+import type { LoginHistoryEntry } from "@shared/schema";
+
+export default function AccountPage() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(user?.name || "");
+
+  useEffect(() => {
+    if (user) setName(user.name);
+  }, [user]);
+
+  const { data: logins = [], isLoading: isLoadingLogins } = useQuery<LoginHistoryEntry[]>({
+    queryKey: ["/api/auth/me/logins"],
+    staleTime: 0,
+  });
+
+  const updateNameMutation = useMutation({
+    mutationFn: async (newName: string) => {
+      const res = await apiRequest("PATCH", "/api/auth/me", { name: newName });
+      return res.json();
+    },
+    onSuccess: async () => {
+      await refetchUser();
+      toast({
+        title: "تم الحفظ",
+        description: "تم تحديث اسمك بنجاح",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "الاسم يجب أن يكون حرفين على الأقل",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-xl gradient-primary glow-primary">
+            <UserCircle className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white" data-testid="text-account-title">حسابي</h1>
+            <p className="text-muted-foreground">إدارة بياناتك الشخصية وكلمة المرور</p>
+          </div>
+        </div>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              البيانات الشخصية
+              <Badge variant="secondary" className="bg-primary/20 text-primary">
+                {roleLabels[user.role as UserRole]}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              اسم المستخدم: <span dir="ltr">@{user.username}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white/90">الاسم الكامل</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="glass-input h-12 rounded-xl text-white"
+                data-testid="input-account-name"
+              />
+            </div>
+            <Button
+              onClick={() => updateNameMutation.mutate(name)}
+              disabled={updateNameMutation.isPending || name.trim() === user.name}
+              className="gradient-primary"
+              data-testid="button-save-name"
+            >
+              {updateNameMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin ml-2" />
+              ) : (
+                <Save className="w-4 h-4 ml-2" />
+              )}
+              حفظ
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              تغيير كلمة المرور
+            </CardTitle>
+            <CardDescription>
+              {user.passwordChangedAt
+                ? `آخر تغيير: ${new Date(user.passwordChangedAt).toLocaleString("ar-SA")}`
+                : "سيتم تسجيل خروجك من جميع الأجهزة الأخرى بعد التغيير"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm onSuccess={refetchUser} />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <History className="w-5 h-5" />
+              سجل تسجيل الدخول
+            </CardTitle>
+            <CardDescription>آخر محاولات الدخول إلى حسابك</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingLogins ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : logins.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6">لا يوجد سجل بعد</p>
+            ) : (
+              <div className="space-y-2" data-testid="list-login-history">
+                {logins.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center gap-3 p-3 rounded-xl glass-input"
+                    data-testid={`login-entry-${entry.id}`}
+                  >
+                    {entry.success ? (
+                      <CheckCircle className="w-5 h-5 text-green-400 shrink-0" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-400 shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm">
+                        {entry.success ? "دخول ناجح" : entry.failureReason || "محاولة فاشلة"}
+                        {" · "}
+                        {describeDevice(entry.userAgent).label}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        <span dir="ltr">{entry.ip || "-"}</span>
+                        {" · "}
+                        {entry.createdAt ? new Date(entry.createdAt).toLocaleString("ar-SA") : "-"}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
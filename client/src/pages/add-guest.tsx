@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
@@ -23,47 +23,112 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  CustomFieldInputs,
+  customFieldsBody,
+  type CustomFieldInputValues,
+} from "@/components/custom-field-inputs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { MAX_COMPANIONS, guestCompanionsSchema, type Event, type EventCategory, type EventGuestField, type Guest } from "@shared/schema";
+import { INVALID_PHONE_MESSAGE, parsePhone } from "@shared/phone";
+import { parseCustomFields } from "@shared/custom-fields";
+import { defaultCategoryKey } from "@shared/categories";
 
 const guestFormSchema = z.object({
   name: z.string().min(1, "الاسم مطلوب"),
-  phone: z.string().optional(),
-  category: z.enum(["vip", "regular", "media", "sponsor"]),
-  companions: z.number().min(0).default(0),
+  phone: z
+    .string()
+    .optional()
+    .refine((value) => !("error" in parsePhone(value)), INVALID_PHONE_MESSAGE),
+  category: z.string().min(1, "الفئة مطلوبة"),
+  companions: guestCompanionsSchema.default(0),
   notes: z.string().optional(),
 });
 
 type GuestFormData = z.infer<typeof guestFormSchema>;
 
+// The server answers 409 with the matching guest when the new one looks already invited
+interface PossibleDuplicate {
+  data: GuestFormData;
+  message: string;
+  guest: Guest;
+}
+
 export default function AddGuestPage() {
   const { id: eventId } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const [possibleDuplicate, setPossibleDuplicate] = useState<PossibleDuplicate | null>(null);
+  const [customValues, setCustomValues] = useState<CustomFieldInputValues>({});
+  const [customError, setCustomError] = useState<string | null>(null);
 
   const { data: event } = useQuery<Event>({
     queryKey: ["/api/events", eventId],
     enabled: !!eventId,
   });
 
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    enabled: !!eventId,
+  });
+
+  const { data: customFields = [] } = useQuery<EventGuestField[]>({
+    queryKey: ["/api/events", eventId, "guest-fields"],
+    enabled: !!eventId,
+  });
+
   const form = useForm<GuestFormData>({
     resolver: zodResolver(guestFormSchema),
     defaultValues: {
       name: "",
       phone: "",
-      category: "regular",
+      category: "",
       companions: 0,
       notes: "",
     },
   });
 
+  // The event's first category is preselected once the list arrives
+  useEffect(() => {
+    if (categories.length > 0 && !form.getValues("category")) {
+      form.setValue("category", defaultCategoryKey(categories) ?? "");
+    }
+  }, [categories, form]);
+
   const createMutation = useMutation({
-    mutationFn: async (data: GuestFormData) => {
-      const res = await apiRequest("POST", `/api/events/${eventId}/guests`, data);
-      return res.json();
+    mutationFn: async ({ data, allowDuplicate }: { data: GuestFormData; allowDuplicate?: boolean }) => {
+      const res = await fetch(`/api/events/${eventId}/guests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...data, customFields: customFieldsBody(customFields, customValues), allowDuplicate }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (res.status === 409 && body.duplicate) {
+        return { duplicate: { data, message: body.error, guest: body.duplicate } as PossibleDuplicate };
+      }
+      if (!res.ok) {
+        throw new Error(body.error || "حدث خطأ أثناء إضافة الضيف");
+      }
+      return { duplicate: null };
     },
-    onSuccess: () => {
+    onSuccess: ({ duplicate }) => {
+      if (duplicate) {
+        setPossibleDuplicate(duplicate);
+        return;
+      }
+      setPossibleDuplicate(null);
       toast({
         title: "تم إضافة الضيف",
         description: "تم إضافة الضيف بنجاح",
@@ -71,10 +136,10 @@ export default function AddGuestPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
       navigate(`/events/${eventId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "فشل الإضافة",
-        description: "حدث خطأ أثناء إضافة الضيف",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -101,7 +166,11 @@ export default function AddGuestPage() {
       <div className="glass-card rounded-2xl p-8">
         <Form {...form}>
           <form
-            onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+            onSubmit={form.handleSubmit((data) => {
+              const parsed = parseCustomFields(customFields, customFieldsBody(customFields, customValues));
+              setCustomError("error" in parsed ? parsed.error : null);
+              if (!("error" in parsed)) createMutation.mutate({ data });
+            })}
             className="space-y-6"
           >
             <FormField
@@ -148,7 +217,7 @@ export default function AddGuestPage() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-white">الفئة</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger 
                         className="glass-input h-12 rounded-xl text-white"
@@ -158,10 +227,11 @@ export default function AddGuestPage() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="glass border-white/10">
-                      <SelectItem value="regular">عادي</SelectItem>
-                      <SelectItem value="vip">VIP</SelectItem>
-                      <SelectItem value="media">إعلام</SelectItem>
-                      <SelectItem value="sponsor">راعي</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.key} value={category.key}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage className="text-red-400" />
@@ -179,6 +249,7 @@ export default function AddGuestPage() {
                     <Input
                       type="number"
                       min="0"
+                      max={MAX_COMPANIONS}
                       {...field}
                       onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                       className="glass-input h-12 rounded-xl text-white"
@@ -210,6 +281,13 @@ export default function AddGuestPage() {
               )}
             />
 
+            <CustomFieldInputs
+              fields={customFields}
+              values={customValues}
+              onChange={setCustomValues}
+              error={customError}
+            />
+
             <div className="flex gap-4 pt-4">
               <Button
                 type="submit"
@@ -237,6 +315,40 @@ export default function AddGuestPage() {
           </form>
         </Form>
       </div>
+
+      <AlertDialog open={!!possibleDuplicate} onOpenChange={() => setPossibleDuplicate(null)}>
+        <AlertDialogContent className="glass-card border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">يبدو أن الضيف مدعو مسبقاً</AlertDialogTitle>
+            <AlertDialogDescription>
+              {possibleDuplicate?.message}
+              {possibleDuplicate?.guest.phone && ` (${possibleDuplicate.guest.phone})`}. هل تريد إضافته كضيف جديد بدعوة منفصلة؟
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="bg-white/10 text-white border-white/20">إلغاء</AlertDialogCancel>
+            <Button
+              variant="outline"
+              onClick={() =>
+                possibleDuplicate && navigate(`/events/${eventId}/guests/${possibleDuplicate.guest.id}/edit`)
+              }
+              className="border-white/20 text-white hover:bg-white/10"
+              data-testid="button-open-existing-guest"
+            >
+              فتح الضيف المسجل
+            </Button>
+            <AlertDialogAction
+              onClick={() =>
+                possibleDuplicate && createMutation.mutate({ data: possibleDuplicate.data, allowDuplicate: true })
+              }
+              className="gradient-primary"
+              data-testid="button-add-duplicate-guest"
+            >
+              إضافة على أي حال
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
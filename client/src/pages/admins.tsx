@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { UserCog, Plus, Search, Loader2, Trash2, Edit, Power, PowerOff, Eye, EyeOff, MoreVertical } from "lucide-react";
+import { UserCog, Plus, Search, Loader2, Trash2, Edit, Power, PowerOff, Eye, EyeOff, MoreVertical, Unlock, MonitorSmartphone, Link2, ScanEye } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -39,6 +39,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { DataTable } from "@/components/data-table";
+import { SessionsList } from "@/components/sessions-list";
+import { PasswordResetDialog } from "@/components/password-reset-dialog";
+import { useImpersonate } from "@/hooks/use-impersonate";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -58,13 +61,19 @@ const editFormSchema = z.object({
 type UserFormData = z.infer<typeof userFormSchema>;
 type EditFormData = z.infer<typeof editFormSchema>;
 
+const isLocked = (user: User) =>
+  !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
 export default function AdminsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deleteConfirmUser, setDeleteConfirmUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [resetUser, setResetUser] = useState<User | null>(null);
   const { toast } = useToast();
+  const impersonateMutation = useImpersonate();
 
   const { data: admins = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users/admins"],
@@ -162,6 +171,27 @@ export default function AdminsPage() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}/unlock`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم إلغاء القفل",
+        description: "يمكن للمدير تسجيل الدخول الآن",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/admins"] });
+    },
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "حدث خطأ أثناء إلغاء قفل الحساب",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       const res = await apiRequest("DELETE", `/api/users/${id}`);
@@ -205,16 +235,23 @@ export default function AdminsPage() {
       key: "isActive",
       header: "الحالة",
       render: (user: User) => (
-        <Badge
-          variant="secondary"
-          className={`${
-            user.isActive
-              ? "bg-green-500/20 text-green-400"
-              : "bg-gray-500/20 text-gray-400"
-          }`}
-        >
-          {user.isActive ? "نشط" : "غير نشط"}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge
+            variant="secondary"
+            className={`${
+              user.isActive
+                ? "bg-green-500/20 text-green-400"
+                : "bg-gray-500/20 text-gray-400"
+            }`}
+          >
+            {user.isActive ? "نشط" : "غير نشط"}
+          </Badge>
+          {isLocked(user) && (
+            <Badge variant="secondary" className="bg-red-500/20 text-red-400">
+              مقفل مؤقتاً
+            </Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -261,6 +298,43 @@ export default function AdminsPage() {
                 </>
               )}
             </DropdownMenuItem>
+            {isLocked(user) && (
+              <DropdownMenuItem
+                onClick={() => unlockMutation.mutate(user.id)}
+                className="cursor-pointer"
+                data-testid={`button-unlock-${user.id}`}
+              >
+                <Unlock className="w-4 h-4 ml-2" />
+                إلغاء القفل
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onClick={() => setSessionsUser(user)}
+              className="cursor-pointer"
+              data-testid={`button-sessions-${user.id}`}
+            >
+              <MonitorSmartphone className="w-4 h-4 ml-2" />
+              الأجهزة النشطة
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setResetUser(user)}
+              className="cursor-pointer"
+              data-testid={`button-reset-password-${user.id}`}
+            >
+              <Link2 className="w-4 h-4 ml-2" />
+              رابط إعادة تعيين كلمة المرور
+            </DropdownMenuItem>
+            {user.isActive && (
+              <DropdownMenuItem
+                onClick={() => impersonateMutation.mutate(user.id)}
+                disabled={impersonateMutation.isPending}
+                className="cursor-pointer"
+                data-testid={`button-impersonate-${user.id}`}
+              >
+                <ScanEye className="w-4 h-4 ml-2" />
+                العرض كهذا المستخدم
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem
               onClick={() => setDeleteConfirmUser(user)}
               className="cursor-pointer text-red-400"
@@ -491,6 +565,17 @@ export default function AdminsPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="glass border-white/10 sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">الأجهزة النشطة - {sessionsUser?.name}</DialogTitle>
+          </DialogHeader>
+          {sessionsUser && <SessionsList endpoint={`/api/users/${sessionsUser.id}/sessions`} />}
+        </DialogContent>
+      </Dialog>
+
+      <PasswordResetDialog user={resetUser} onClose={() => setResetUser(null)} />
     </div>
   );
 }
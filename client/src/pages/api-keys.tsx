@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Plug, Plus, Loader2, Copy, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeyPermissionKeys, permissionDefinitions, type PermissionKey } from "@shared/permissions";
+import type { ApiKey, Event } from "@shared/schema";
+
+type ApiKeyInfo = Omit<ApiKey, "keyHash"> & { createdByName?: string };
+
+const permissionLabels = Object.fromEntries(
+  permissionDefinitions.map((p) => [p.key, p.label])
+) as Record<PermissionKey, string>;
+
+const expiryOptions = [
+  { value: "30", label: "30 يوماً" },
+  { value: "90", label: "90 يوماً" },
+  { value: "365", label: "سنة" },
+  { value: "never", label: "بدون انتهاء" },
+];
+
+function keyStatus(key: ApiKeyInfo): { label: string; className: string } {
+  if (key.revokedAt) return { label: "ملغى", className: "bg-red-500/20 text-red-400" };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) {
+    return { label: "منتهي", className: "bg-amber-500/20 text-amber-400" };
+  }
+  return { label: "نشط", className: "bg-green-500/20 text-green-400" };
+}
+
+export default function ApiKeysPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [eventIds, setEventIds] = useState<string[]>([]);
+  const [permissions, setPermissions] = useState<PermissionKey[]>(["checkin.perform"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [revokeKey, setRevokeKey] = useState<ApiKeyInfo | null>(null);
+
+  const { data: keys = [], isLoading } = useQuery<ApiKeyInfo[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const { data: events = [] } = useQuery<Event[]>({
+    queryKey: ["/api/events"],
+  });
+
+  const eventNames = new Map(events.map((e) => [e.id, e.name]));
+
+  const resetForm = () => {
+    setName("");
+    setEventIds([]);
+    setPermissions(["checkin.perform"]);
+    setExpiry("90");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-keys", {
+        name,
+        eventIds,
+        permissions,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return res.json() as Promise<ApiKeyInfo & { token: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setIsCreateOpen(false);
+      resetForm();
+      setCreatedToken(data.token);
+    },
+    onError: () => {
+      toast({
+        title: "فشل إنشاء المفتاح",
+        description: "تأكد من الاسم واختيار مناسبة وصلاحية واحدة على الأقل",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/api-keys/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setRevokeKey(null);
+      toast({ title: "تم الإلغاء", description: "لن يُقبل هذا المفتاح بعد الآن" });
+    },
+    onError: () => {
+      toast({ title: "فشلت العملية", description: "تعذر إلغاء المفتاح", variant: "destructive" });
+    },
+  });
+
+  const toggle = <T extends string>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  const copyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard.writeText(createdToken);
+    toast({ title: "تم النسخ", description: "تم نسخ مفتاح API" });
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex items-center justify-between gap-3 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-xl gradient-primary glow-primary">
+              <Plug className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white" data-testid="text-api-keys-title">مفاتيح API</h1>
+              <p className="text-muted-foreground">ربط أجهزة الاستقبال والطابعات والأنظمة الخارجية</p>
+            </div>
+          </div>
+          <Button onClick={() => setIsCreateOpen(true)} className="gradient-primary" data-testid="button-create-api-key">
+            <Plus className="w-4 h-4 ml-2" />
+            مفتاح جديد
+          </Button>
+        </div>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">المفاتيح</CardTitle>
+            <CardDescription>
+              يُرسل المفتاح في الترويسة <span dir="ltr" className="font-mono">Authorization: Bearer dwk_...</span> ويعمل
+              فقط على المناسبات والصلاحيات المحددة له
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : keys.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6">لا توجد مفاتيح بعد</p>
+            ) : (
+              <div className="space-y-3" data-testid="list-api-keys">
+                {keys.map((key) => {
+                  const status = keyStatus(key);
+                  return (
+                    <div key={key.id} className="p-4 rounded-xl glass-input space-y-2" data-testid={`api-key-${key.id}`}>
+                      <div className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-white font-medium">
+                            {key.name}{" "}
+                            <span className="text-muted-foreground text-xs font-mono" dir="ltr">{key.keyPrefix}...</span>
+                          </p>
+                          {user?.role === "super_admin" && key.createdByName && (
+                            <p className="text-xs text-muted-foreground">أنشأه: {key.createdByName}</p>
+                          )}
+                        </div>
+                        <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+                        {!key.revokedAt && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setRevokeKey(key)}
+                            className="h-8 w-8 text-red-400 hover:text-red-300"
+                            title="إلغاء المفتاح"
+                            data-testid={`button-revoke-api-key-${key.id}`}
+                          >
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {key.permissions.map((p) => (
+                          <Badge key={p} variant="outline" className="border-white/10 text-white/80">
+                            {permissionLabels[p as PermissionKey] || p}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        المناسبات: {key.eventIds.map((id) => eventNames.get(id) || id).join("، ")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        ينتهي: {key.expiresAt ? new Date(key.expiresAt).toLocaleDateString("ar-SA") : "بدون انتهاء"}
+                        {" · "}
+                        آخر استخدام:{" "}
+                        {key.lastUsedAt ? (
+                          <>
+                            {new Date(key.lastUsedAt).toLocaleString("ar-SA")}{" "}
+                            <span dir="ltr">{key.lastUsedIp || ""}</span>
+                          </>
+                        ) : (
+                          "لم يُستخدم"
+                        )}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="glass border-white/10 sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">مفتاح API جديد</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label className="text-white/90">اسم المفتاح</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="مثال: جهاز البوابة الرئيسية"
+                className="glass-input h-12 rounded-xl text-white"
+                data-testid="input-api-key-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/90">المناسبات</Label>
+              {events.length === 0 ? (
+                <p className="text-muted-foreground text-sm">لا توجد مناسبات</p>
+              ) : (
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {events.map((event) => (
+                    <label key={event.id} className="flex items-center gap-2 text-white/80 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={eventIds.includes(event.id)}
+                        onCheckedChange={(checked) => setEventIds(toggle(eventIds, event.id, checked === true))}
+                        data-testid={`checkbox-api-key-event-${event.id}`}
+                      />
+                      {event.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/90">الصلاحيات</Label>
+              <div className="space-y-2">
+                {apiKeyPermissionKeys.map((key) => (
+                  <label key={key} className="flex items-center gap-2 text-white/80 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={permissions.includes(key)}
+                      onCheckedChange={(checked) => setPermissions(toggle(permissions, key, checked === true))}
+                      data-testid={`checkbox-api-key-permission-${key}`}
+                    />
+                    {permissionLabels[key]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white/90">مدة الصلاحية</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="glass-input h-12 rounded-xl text-white" data-testid="select-api-key-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !name.trim() || eventIds.length === 0 || permissions.length === 0}
+              className="w-full gradient-primary"
+              data-testid="button-submit-api-key"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin ml-2" />
+              ) : (
+                <Plus className="w-4 h-4 ml-2" />
+              )}
+              إنشاء المفتاح
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdToken} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">تم إنشاء المفتاح</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              انسخ المفتاح واحفظه في مكان آمن. لن يظهر مرة أخرى.
+            </p>
+            <code
+              className="block p-3 rounded-xl glass-input text-white text-xs font-mono break-all"
+              dir="ltr"
+              data-testid="text-api-key-token"
+            >
+              {createdToken}
+            </code>
+            <Button variant="outline" onClick={copyToken} className="w-full glass-input text-white" data-testid="button-copy-api-key">
+              <Copy className="w-4 h-4 ml-2" />
+              نسخ المفتاح
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!revokeKey} onOpenChange={(open) => !open && setRevokeKey(null)}>
+        <AlertDialogContent className="glass border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">إلغاء المفتاح</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتوقف "{revokeKey?.name}" عن العمل فوراً ولا يمكن إعادة تفعيله.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel className="glass-input text-white">تراجع</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeKey && revokeMutation.mutate(revokeKey.id)}
+              className="bg-red-500 hover:bg-red-600"
+              data-testid="button-confirm-revoke-api-key"
+            >
+              إلغاء المفتاح
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
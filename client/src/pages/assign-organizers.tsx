@@ -2,12 +2,18 @@ import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { ArrowRight, UserPlus, Users, Check, Loader2, Search } from "lucide-react";
+import { ArrowRight, UserPlus, Users, Check, Loader2, Search, DoorOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { User, Event } from "@shared/schema";
+import type { User, Event, EventGate } from "@shared/schema";
+
+type AssignedOrganizer = User & { gateId: string | null };
+
+// Select value for an organizer who may admit at any gate
+const ANY_GATE = "any";
 
 export default function AssignOrganizersPage() {
   const { id: eventId } = useParams<{ id: string }>();
@@ -26,10 +32,14 @@ export default function AssignOrganizersPage() {
   });
 
   // Fetch organizers already assigned to this event
-  const { data: assignedOrganizers = [], isLoading: loadingAssigned } = useQuery<User[]>({
+  const { data: assignedOrganizers = [], isLoading: loadingAssigned } = useQuery<AssignedOrganizer[]>({
     queryKey: ["/api/events", eventId, "organizers"],
   });
 
+  const { data: gates = [] } = useQuery<EventGate[]>({
+    queryKey: ["/api/events", eventId, "gates"],
+  });
+
   const assignMutation = useMutation({
     mutationFn: async (organizerId: string) => {
       const res = await apiRequest("POST", `/api/events/${eventId}/organizers`, {
@@ -74,7 +84,30 @@ export default function AssignOrganizersPage() {
     },
   });
 
+  const gateMutation = useMutation({
+    mutationFn: async ({ organizerId, gateId }: { organizerId: string; gateId: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/events/${eventId}/organizers/${organizerId}`, { gateId });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم التحديث",
+        description: "تم تحديث بوابة المنظم",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "organizers"] });
+    },
+    onError: () => {
+      toast({
+        title: "فشل التحديث",
+        description: "حدث خطأ أثناء تعيين البوابة",
+        variant: "destructive",
+      });
+    },
+  });
+
   const assignedIds = assignedOrganizers.map((o) => o.id);
+  const gateOf = (organizerId: string) =>
+    assignedOrganizers.find((o) => o.id === organizerId)?.gateId ?? null;
 
   const filteredOrganizers = allOrganizers.filter(
     (org) =>
@@ -216,6 +249,33 @@ export default function AssignOrganizersPage() {
                     )}
                   </Button>
                 </div>
+                {isAssigned && gates.length > 0 && (
+                  <div className="mt-4 flex items-center gap-2">
+                    <DoorOpen className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <Select
+                      value={gateOf(organizer.id) ?? ANY_GATE}
+                      onValueChange={(value) =>
+                        gateMutation.mutate({ organizerId: organizer.id, gateId: value === ANY_GATE ? null : value })
+                      }
+                      disabled={gateMutation.isPending}
+                    >
+                      <SelectTrigger
+                        className="glass-input h-10 rounded-xl text-white"
+                        data-testid={`select-gate-${organizer.id}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_GATE}>أي بوابة</SelectItem>
+                        {gates.map((gate) => (
+                          <SelectItem key={gate.id} value={gate.id}>
+                            {gate.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </motion.div>
             );
           })}
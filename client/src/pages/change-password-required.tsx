@@ -0,0 +1,57 @@
+import { motion } from "framer-motion";
+import { KeyRound, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { useAuth } from "@/lib/auth";
+
+// Shown instead of the app for accounts that must replace the password they were given
+export default function ChangePasswordRequiredPage() {
+  const { user, logout, refetchUser } = useAuth();
+
+  const handleLogout = async () => {
+    await logout();
+    window.location.href = "/login";
+  };
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-1/4 right-1/4 w-96 h-96 bg-purple-500/20 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 left-1/4 w-80 h-80 bg-violet-600/15 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.5, ease: "easeOut" }}
+        className="relative w-full max-w-md"
+      >
+        <div className="glass-card rounded-3xl p-8 shadow-2xl">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl gradient-primary mb-6 glow-primary">
+              <KeyRound className="w-10 h-10 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-2" data-testid="text-change-password-required">
+              مرحباً {user?.name}
+            </h1>
+            <p className="text-muted-foreground">
+              لحماية حسابك، اختر كلمة مرور جديدة بدلاً من كلمة المرور المؤقتة قبل المتابعة
+            </p>
+          </div>
+
+          <ChangePasswordForm onSuccess={refetchUser} />
+
+          <Button
+            variant="ghost"
+            onClick={handleLogout}
+            className="w-full mt-4 text-muted-foreground hover:text-white"
+            data-testid="button-logout"
+          >
+            <LogOut className="w-4 h-4 ml-2" />
+            تسجيل الخروج
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
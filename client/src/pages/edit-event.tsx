@@ -18,6 +18,9 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SignedQrSettings } from "@/components/signed-qr-settings";
+import { OccupancySettings } from "@/components/occupancy-settings";
+import { EventLifecycleSettings } from "@/components/event-lifecycle-settings";
 import type { Event } from "@shared/schema";
 
 const eventFormSchema = z.object({
@@ -264,6 +267,10 @@ export default function EditEventPage() {
           </form>
         </Form>
       </div>
+
+      {event && <EventLifecycleSettings event={event} />}
+      {event && <SignedQrSettings event={event} />}
+      {event && <OccupancySettings event={event} />}
     </div>
   );
 }
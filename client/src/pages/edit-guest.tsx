@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
@@ -34,15 +34,28 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { GuestGateAccess } from "@/components/guest-gate-access";
+import {
+  CustomFieldInputs,
+  customFieldsBody,
+  toCustomFieldInputValues,
+  type CustomFieldInputValues,
+} from "@/components/custom-field-inputs";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Guest } from "@shared/schema";
+import { MAX_COMPANIONS, guestCompanionsSchema, type EventCategory, type EventGuestField, type Guest } from "@shared/schema";
+import { INVALID_PHONE_MESSAGE, parsePhone } from "@shared/phone";
+import { parseCustomFields } from "@shared/custom-fields";
 
 const guestFormSchema = z.object({
   name: z.string().min(1, "الاسم مطلوب"),
-  phone: z.string().optional(),
-  category: z.enum(["vip", "regular", "media", "sponsor"]),
-  companions: z.number().min(0).default(0),
+  phone: z
+    .string()
+    .optional()
+    .refine((value) => !("error" in parsePhone(value)), INVALID_PHONE_MESSAGE),
+  category: z.string().min(1, "الفئة مطلوبة"),
+  companions: guestCompanionsSchema.default(0),
   notes: z.string().optional(),
 });
 
@@ -52,18 +65,31 @@ export default function EditGuestPage() {
   const { eventId, guestId } = useParams<{ eventId: string; guestId: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const [customValues, setCustomValues] = useState<CustomFieldInputValues>({});
+  const [customError, setCustomError] = useState<string | null>(null);
 
   const { data: guest, isLoading } = useQuery<Guest>({
     queryKey: ["/api/guests", guestId],
     enabled: !!guestId,
   });
 
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    enabled: !!eventId,
+  });
+
+  const { data: customFields = [] } = useQuery<EventGuestField[]>({
+    queryKey: ["/api/events", eventId, "guest-fields"],
+    enabled: !!eventId,
+  });
+
   const form = useForm<GuestFormData>({
     resolver: zodResolver(guestFormSchema),
     defaultValues: {
       name: "",
       phone: "",
-      category: "regular",
+      category: "",
       companions: 0,
       notes: "",
     },
@@ -74,16 +100,20 @@ export default function EditGuestPage() {
       form.reset({
         name: guest.name || "",
         phone: guest.phone || "",
-        category: guest.category || "regular",
+        category: guest.category || "",
         companions: guest.companions || 0,
         notes: guest.notes || "",
       });
+      setCustomValues(toCustomFieldInputValues(guest.customFields));
     }
   }, [guest, form]);
 
   const updateMutation = useMutation({
     mutationFn: async (data: GuestFormData) => {
-      const res = await apiRequest("PATCH", `/api/guests/${guestId}`, data);
+      const res = await apiRequest("PATCH", `/api/guests/${guestId}`, {
+        ...data,
+        customFields: customFieldsBody(customFields, customValues),
+      });
       return res.json();
     },
     onSuccess: () => {
@@ -148,47 +178,53 @@ export default function EditGuestPage() {
           <h1 className="text-3xl font-bold text-white">تعديل الضيف</h1>
         </div>
 
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button
-              variant="destructive"
-              size="icon"
-              data-testid="button-delete-guest"
-            >
-              <Trash2 className="w-5 h-5" />
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent className="glass border-white/10">
-            <AlertDialogHeader>
-              <AlertDialogTitle className="text-white">حذف الضيف</AlertDialogTitle>
-              <AlertDialogDescription className="text-muted-foreground">
-                هل أنت متأكد من حذف هذا الضيف؟ لا يمكن التراجع عن هذا الإجراء.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter className="gap-2">
-              <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
-                إلغاء
-              </AlertDialogCancel>
-              <AlertDialogAction
-                onClick={() => deleteMutation.mutate()}
-                className="bg-red-600 hover:bg-red-700"
-                data-testid="button-confirm-delete"
+        {can("guests.delete") && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="destructive"
+                size="icon"
+                data-testid="button-delete-guest"
               >
-                {deleteMutation.isPending ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  "حذف"
-                )}
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+                <Trash2 className="w-5 h-5" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="glass border-white/10">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-white">حذف الضيف</AlertDialogTitle>
+                <AlertDialogDescription className="text-muted-foreground">
+                  هل أنت متأكد من حذف هذا الضيف؟ لا يمكن التراجع عن هذا الإجراء.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter className="gap-2">
+                <AlertDialogCancel className="border-white/20 text-white hover:bg-white/10">
+                  إلغاء
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteMutation.mutate()}
+                  className="bg-red-600 hover:bg-red-700"
+                  data-testid="button-confirm-delete"
+                >
+                  {deleteMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    "حذف"
+                  )}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </div>
 
       <div className="glass-card rounded-2xl p-8">
         <Form {...form}>
           <form
-            onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))}
+            onSubmit={form.handleSubmit((data) => {
+              const parsed = parseCustomFields(customFields, customFieldsBody(customFields, customValues));
+              setCustomError("error" in parsed ? parsed.error : null);
+              if (!("error" in parsed)) updateMutation.mutate(data);
+            })}
             className="space-y-6"
           >
             <FormField
@@ -243,10 +279,11 @@ export default function EditGuestPage() {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent className="glass border-white/10">
-                      <SelectItem value="regular">عادي</SelectItem>
-                      <SelectItem value="vip">VIP</SelectItem>
-                      <SelectItem value="media">إعلام</SelectItem>
-                      <SelectItem value="sponsor">راعي</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.key} value={category.key}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage className="text-red-400" />
@@ -264,6 +301,7 @@ export default function EditGuestPage() {
                     <Input
                       type="number"
                       min="0"
+                      max={MAX_COMPANIONS}
                       {...field}
                       onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                       className="glass-input h-12 rounded-xl text-white"
@@ -294,6 +332,13 @@ export default function EditGuestPage() {
               )}
             />
 
+            <CustomFieldInputs
+              fields={customFields}
+              values={customValues}
+              onChange={setCustomValues}
+              error={customError}
+            />
+
             <div className="flex gap-4 pt-4">
               <Button
                 type="submit"
@@ -320,6 +365,8 @@ export default function EditGuestPage() {
           </form>
         </Form>
       </div>
+
+      {guest && <GuestGateAccess guest={guest} canEdit={can("guests.edit")} />}
     </div>
   );
 }
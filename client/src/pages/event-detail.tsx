@@ -1,7 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { useRoute, Link } from "wouter";
-import { useState, useRef } from "react";
+import { useState } from "react";
 import {
   Calendar,
   Users,
@@ -20,22 +20,47 @@ import {
   Pencil,
   Trash2,
   Settings,
+  QrCode,
+  Undo2,
+  History,
+  CalendarDays,
+  DoorOpen,
+  GitMerge,
+  ListPlus,
+  Tags,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/data-table";
+import { GuestQrDialog } from "@/components/guest-qr-dialog";
+import { RevertCheckInDialog } from "@/components/revert-check-in-dialog";
+import { OccupancyCard } from "@/components/occupancy-card";
+import { GuestMovementsDialog } from "@/components/guest-movements-dialog";
+import { EventSessionsPanel } from "@/components/event-sessions-panel";
+import { EventGatesPanel } from "@/components/event-gates-panel";
+import { EventGuestFieldsPanel } from "@/components/event-guest-fields-panel";
+import { EventCategoriesPanel } from "@/components/event-categories-panel";
+import { CategoryBadge } from "@/components/category-badge";
+import { MergeDuplicatesDialog } from "@/components/merge-duplicates-dialog";
+import { EventStatusBadge } from "@/components/event-status-badge";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event, Guest, User } from "@shared/schema";
+import type { Event, EventCategoryWithCount, EventSessionWithAttendance, Guest, User } from "@shared/schema";
+import { summarizeHeadcount } from "@shared/headcount";
+import { readOnlyEventMessage } from "@shared/event-lifecycle";
 
 export default function EventDetailPage() {
   const [, params] = useRoute("/events/:id");
   const eventId = params?.id;
-  const [isUploading, setIsUploading] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [qrGuest, setQrGuest] = useState<Guest | null>(null);
+  const [revertGuest, setRevertGuest] = useState<Guest | null>(null);
+  const [movementsGuest, setMovementsGuest] = useState<Guest | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const handleCopyCode = async (code: string) => {
     try {
@@ -84,7 +109,7 @@ export default function EventDetailPage() {
     }
   };
 
-  const handleDownloadReport = async (reportType: "attendance" | "absence" | "audit") => {
+  const handleDownloadReport = async (reportType: "attendance" | "absence" | "audit" | "sessions") => {
     try {
       const res = await fetch(`/api/events/${eventId}/reports/${reportType}`, {
         credentials: "include",
@@ -101,6 +126,7 @@ export default function EventDetailPage() {
         attendance: "تقرير-الحضور",
         absence: "تقرير-الغياب",
         audit: "سجل-العمليات",
+        sessions: "تقرير-الجلسات",
       };
       a.download = `${reportNames[reportType]}-${event?.name || "event"}.xlsx`;
       a.click();
@@ -122,54 +148,28 @@ export default function EventDetailPage() {
     queryKey: ["/api/events", eventId],
     enabled: !!eventId,
   });
+  const readOnlyMessage = event ? readOnlyEventMessage(event) : null;
 
   const { data: guests = [], isLoading: isLoadingGuests } = useQuery<Guest[]>({
     queryKey: ["/api/events", eventId, "guests"],
     enabled: !!eventId,
   });
 
+  const { data: categories = [] } = useQuery<EventCategoryWithCount[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    enabled: !!eventId,
+  });
+
   const { data: organizers = [] } = useQuery<User[]>({
     queryKey: ["/api/events", eventId, "organizers"],
     enabled: !!eventId,
   });
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      const res = await fetch(`/api/events/${eventId}/upload-guests`, {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Upload failed");
-      return res.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "تم الرفع بنجاح",
-        description: `تم إضافة ${data.count} ضيف`,
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
-    },
-    onError: () => {
-      toast({
-        title: "فشل الرفع",
-        description: "تأكد من صيغة الملف الصحيحة",
-        variant: "destructive",
-      });
-    },
+  const { data: sessions = [] } = useQuery<EventSessionWithAttendance[]>({
+    queryKey: ["/api/events", eventId, "sessions"],
+    enabled: !!eventId,
   });
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setIsUploading(true);
-      uploadMutation.mutate(file);
-      setIsUploading(false);
-    }
-  };
-
   const removeOrganizerMutation = useMutation({
     mutationFn: async (organizerId: string) => {
       await apiRequest("DELETE", `/api/events/${eventId}/organizers/${organizerId}`);
@@ -190,13 +190,6 @@ export default function EventDetailPage() {
     },
   });
 
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
-  };
-
   const guestColumns = [
     { key: "name", header: "الاسم" },
     { key: "phone", header: "الجوال" },
@@ -204,19 +197,17 @@ export default function EventDetailPage() {
       key: "category",
       header: "الفئة",
       render: (guest: Guest) => (
-        <Badge
-          variant="secondary"
-          className={`${
-            guest.category === "vip"
-              ? "bg-yellow-500/20 text-yellow-400"
-              : "bg-white/10 text-white/70"
-          }`}
-        >
-          {categoryLabels[guest.category || "regular"]}
-        </Badge>
+        <CategoryBadge categories={categories} category={guest.category} />
       ),
     },
-    { key: "companions", header: "المرافقين" },
+    {
+      key: "companions",
+      header: "المرافقين",
+      render: (guest: Guest) =>
+        guest.isCheckedIn && (guest.companions ?? 0) > 0
+          ? `${guest.companionsCheckedIn} / ${guest.companions} دخلوا`
+          : guest.companions ?? 0,
+    },
     {
       key: "isCheckedIn",
       header: "الحالة",
@@ -229,7 +220,7 @@ export default function EventDetailPage() {
               : "bg-gray-500/20 text-gray-400"
           }`}
         >
-          {guest.isCheckedIn ? "حاضر" : "لم يحضر"}
+          {!guest.isCheckedIn ? "لم يحضر" : event?.trackExits && !guest.isInside ? "خرج" : "حاضر"}
         </Badge>
       ),
     },
@@ -254,6 +245,16 @@ export default function EventDetailPage() {
               <Copy className="w-3 h-3" />
             )}
           </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setQrGuest(guest)}
+            className="h-7 w-7 text-muted-foreground hover:text-white"
+            title="رمز QR الموقع"
+            data-testid={`button-guest-qr-${guest.id}`}
+          >
+            <QrCode className="w-3 h-3" />
+          </Button>
         </div>
       ),
     },
@@ -261,21 +262,49 @@ export default function EventDetailPage() {
       key: "actions",
       header: "الإجراءات",
       render: (guest: Guest) => (
-        <Link href={`/events/${eventId}/guests/${guest.id}/edit`}>
-          <Button
-            size="icon"
-            variant="ghost"
-            className="h-8 w-8 text-muted-foreground hover:text-white"
-            data-testid={`button-edit-guest-${guest.id}`}
-          >
-            <Pencil className="w-4 h-4" />
-          </Button>
-        </Link>
+        <div className="flex items-center gap-1">
+          {can("guests.edit") && !readOnlyMessage && (
+            <Link href={`/events/${eventId}/guests/${guest.id}/edit`}>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground hover:text-white"
+                data-testid={`button-edit-guest-${guest.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+            </Link>
+          )}
+          {guest.isCheckedIn && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setMovementsGuest(guest)}
+              className="h-8 w-8 text-muted-foreground hover:text-white"
+              title="سجل الدخول والخروج"
+              data-testid={`button-movements-${guest.id}`}
+            >
+              <History className="w-4 h-4" />
+            </Button>
+          )}
+          {can("checkin.undo") && guest.isCheckedIn && !readOnlyMessage && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setRevertGuest(guest)}
+              className="h-8 w-8 text-muted-foreground hover:text-red-400"
+              title="التراجع عن تسجيل الحضور"
+              data-testid={`button-revert-checkin-${guest.id}`}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
       ),
     },
   ];
 
-  const checkedInCount = guests.filter((g) => g.isCheckedIn).length;
+  const headcount = summarizeHeadcount(guests);
 
   if (isLoadingEvent) {
     return (
@@ -309,7 +338,10 @@ export default function EventDetailPage() {
             </Button>
           </Link>
           <div>
-            <h1 className="text-3xl font-bold text-white">{event.name}</h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-white">{event.name}</h1>
+              <EventStatusBadge status={event.status} />
+            </div>
             <div className="flex items-center gap-4 text-muted-foreground mt-1">
               <div className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
@@ -332,16 +364,18 @@ export default function EventDetailPage() {
             </div>
           </div>
         </div>
-        <Link href={`/events/${eventId}/edit`}>
-          <Button
-            variant="outline"
-            className="border-white/20 text-white hover:bg-white/10"
-            data-testid="button-edit-event"
-          >
-            <Settings className="w-4 h-4 ml-2" />
-            تعديل المناسبة
-          </Button>
-        </Link>
+        {can("events.edit") && (
+          <Link href={`/events/${eventId}/edit`}>
+            <Button
+              variant="outline"
+              className="border-white/20 text-white hover:bg-white/10"
+              data-testid="button-edit-event"
+            >
+              <Settings className="w-4 h-4 ml-2" />
+              تعديل المناسبة
+            </Button>
+          </Link>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -367,7 +401,10 @@ export default function EventDetailPage() {
             <RefreshCw className="w-5 h-5 text-green-500" />
             <span className="text-muted-foreground">الحاضرون</span>
           </div>
-          <p className="text-3xl font-bold text-white">{checkedInCount}</p>
+          <p className="text-3xl font-bold text-white">
+            {headcount.arrived}
+            <span className="text-base text-muted-foreground font-normal"> / {headcount.expected} شخص</span>
+          </p>
         </motion.div>
 
         <motion.div
@@ -380,12 +417,7 @@ export default function EventDetailPage() {
             <BarChart3 className="w-5 h-5 text-yellow-500" />
             <span className="text-muted-foreground">نسبة الحضور</span>
           </div>
-          <p className="text-3xl font-bold text-white">
-            {guests.length > 0
-              ? Math.round((checkedInCount / guests.length) * 100)
-              : 0}
-            %
-          </p>
+          <p className="text-3xl font-bold text-white">{headcount.rate}%</p>
         </motion.div>
 
         <motion.div
@@ -402,6 +434,8 @@ export default function EventDetailPage() {
         </motion.div>
       </div>
 
+      {eventId && <OccupancyCard eventId={eventId} />}
+
       <Tabs defaultValue="guests" className="w-full">
         <TabsList className="glass-card p-1 rounded-xl mb-6">
           <TabsTrigger
@@ -418,6 +452,38 @@ export default function EventDetailPage() {
             <UserPlus className="w-4 h-4 ml-2" />
             فريق العمل
           </TabsTrigger>
+          <TabsTrigger
+            value="sessions"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-sessions"
+          >
+            <CalendarDays className="w-4 h-4 ml-2" />
+            الجلسات
+          </TabsTrigger>
+          <TabsTrigger
+            value="gates"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-gates"
+          >
+            <DoorOpen className="w-4 h-4 ml-2" />
+            البوابات
+          </TabsTrigger>
+          <TabsTrigger
+            value="fields"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-guest-fields"
+          >
+            <ListPlus className="w-4 h-4 ml-2" />
+            حقول الضيوف
+          </TabsTrigger>
+          <TabsTrigger
+            value="categories"
+            className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
+            data-testid="tab-categories"
+          >
+            <Tags className="w-4 h-4 ml-2" />
+            الفئات
+          </TabsTrigger>
           <TabsTrigger
             value="reports"
             className="rounded-lg data-[state=active]:bg-primary data-[state=active]:text-white"
@@ -429,47 +495,55 @@ export default function EventDetailPage() {
 
         <TabsContent value="guests" className="space-y-6">
           <div className="flex flex-wrap gap-4">
-            <input
-              type="file"
-              ref={fileInputRef}
-              onChange={handleFileUpload}
-              accept=".xlsx,.xls,.csv"
-              className="hidden"
-            />
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={isUploading || uploadMutation.isPending}
-              className="gradient-primary"
-              data-testid="button-upload-excel"
-            >
-              {uploadMutation.isPending ? (
-                <Loader2 className="w-5 h-5 ml-2 animate-spin" />
-              ) : (
-                <Upload className="w-5 h-5 ml-2" />
-              )}
-              رفع ملف إكسل
-            </Button>
-            <Button
-              onClick={handleExportExcel}
-              variant="outline"
-              className="border-primary/50 text-primary hover:bg-primary/10"
-              disabled={guests.length === 0}
-              data-testid="button-export-excel"
-            >
-              <Download className="w-5 h-5 ml-2" />
-              تصدير Excel مع الأكواد
-            </Button>
-            <Link href={`/events/${eventId}/add-guest`}>
+            {can("guests.import") && !readOnlyMessage && (
+              <Link href={`/events/${eventId}/import`}>
+                <Button className="gradient-primary" data-testid="button-upload-excel">
+                  <Upload className="w-5 h-5 ml-2" />
+                  رفع ملف إكسل
+                </Button>
+              </Link>
+            )}
+            {can("guests.export") && (
+              <Button
+                onClick={handleExportExcel}
+                variant="outline"
+                className="border-primary/50 text-primary hover:bg-primary/10"
+                disabled={guests.length === 0}
+                data-testid="button-export-excel"
+              >
+                <Download className="w-5 h-5 ml-2" />
+                تصدير Excel مع الأكواد
+              </Button>
+            )}
+            {can("guests.add") && !readOnlyMessage && (
+              <Link href={`/events/${eventId}/add-guest`}>
+                <Button
+                  variant="outline"
+                  className="border-white/20 text-white hover:bg-white/10"
+                >
+                  <UserPlus className="w-5 h-5 ml-2" />
+                  إضافة ضيف
+                </Button>
+              </Link>
+            )}
+            {can("guests.delete") && !readOnlyMessage && (
               <Button
                 variant="outline"
+                onClick={() => setMergeOpen(true)}
                 className="border-white/20 text-white hover:bg-white/10"
+                disabled={guests.length < 2}
+                data-testid="button-merge-duplicates"
               >
-                <UserPlus className="w-5 h-5 ml-2" />
-                إضافة ضيف
+                <GitMerge className="w-5 h-5 ml-2" />
+                دمج المكررين
               </Button>
-            </Link>
+            )}
           </div>
 
+          {readOnlyMessage && (
+            <p className="text-sm text-orange-300" data-testid="text-event-read-only">{readOnlyMessage}</p>
+          )}
+
           <DataTable
             columns={guestColumns}
             data={guests}
@@ -479,14 +553,16 @@ export default function EventDetailPage() {
         </TabsContent>
 
         <TabsContent value="team" className="space-y-6">
-          <div className="flex gap-4">
-            <Link href={`/events/${eventId}/assign-organizers`}>
-              <Button className="gradient-primary" data-testid="button-assign-organizers">
-                <UserPlus className="w-5 h-5 ml-2" />
-                تعيين منظمين
-              </Button>
-            </Link>
-          </div>
+          {can("organizers.assign") && (
+            <div className="flex gap-4">
+              <Link href={`/events/${eventId}/assign-organizers`}>
+                <Button className="gradient-primary" data-testid="button-assign-organizers">
+                  <UserPlus className="w-5 h-5 ml-2" />
+                  تعيين منظمين
+                </Button>
+              </Link>
+            </div>
+          )}
 
           {organizers.length === 0 ? (
             <div className="glass-card rounded-2xl p-12 text-center">
@@ -509,16 +585,18 @@ export default function EventDetailPage() {
                         <p className="text-muted-foreground text-sm">@{org.username}</p>
                       </div>
                     </div>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => removeOrganizerMutation.mutate(org.id)}
-                      disabled={removeOrganizerMutation.isPending}
-                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
-                      data-testid={`button-remove-organizer-${org.id}`}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {can("organizers.assign") && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removeOrganizerMutation.mutate(org.id)}
+                        disabled={removeOrganizerMutation.isPending}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        data-testid={`button-remove-organizer-${org.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -526,54 +604,90 @@ export default function EventDetailPage() {
           )}
         </TabsContent>
 
+        <TabsContent value="sessions">
+          {eventId && <EventSessionsPanel eventId={eventId} canEdit={can("events.edit")} />}
+        </TabsContent>
+
+        <TabsContent value="gates">
+          {eventId && <EventGatesPanel eventId={eventId} canEdit={can("events.edit")} />}
+        </TabsContent>
+
+        <TabsContent value="fields">
+          {eventId && <EventGuestFieldsPanel eventId={eventId} canEdit={can("events.edit") && !readOnlyMessage} />}
+        </TabsContent>
+
+        <TabsContent value="categories">
+          {eventId && <EventCategoriesPanel eventId={eventId} canEdit={can("events.edit") && !readOnlyMessage} />}
+        </TabsContent>
+
         <TabsContent value="reports" className="space-y-6">
           <div className="glass-card rounded-2xl p-6">
             <h3 className="text-xl font-bold text-white mb-4">البث المباشر</h3>
             <div className="grid grid-cols-2 gap-6">
               <div className="text-center">
-                <p className="text-5xl font-bold text-green-500">{checkedInCount}</p>
+                <p className="text-5xl font-bold text-green-500">{headcount.arrived}</p>
                 <p className="text-muted-foreground mt-2">حاضر</p>
               </div>
               <div className="text-center">
                 <p className="text-5xl font-bold text-gray-400">
-                  {guests.length - checkedInCount}
+                  {headcount.pending}
                 </p>
                 <p className="text-muted-foreground mt-2">لم يحضر</p>
               </div>
             </div>
           </div>
 
-          <div className="flex flex-wrap gap-4">
-            <Button
-              variant="outline"
-              className="border-white/20 text-white"
-              onClick={() => handleDownloadReport("attendance")}
-              data-testid="button-report-attendance"
-            >
-              <Download className="w-5 h-5 ml-2" />
-              تقرير الحضور
-            </Button>
-            <Button
-              variant="outline"
-              className="border-white/20 text-white"
-              onClick={() => handleDownloadReport("absence")}
-              data-testid="button-report-absence"
-            >
-              <Download className="w-5 h-5 ml-2" />
-              تقرير الغياب
-            </Button>
-            <Button
-              variant="outline"
-              className="border-white/20 text-white"
-              onClick={() => handleDownloadReport("audit")}
-              data-testid="button-report-audit"
-            >
-              <Download className="w-5 h-5 ml-2" />
-              سجل العمليات
-            </Button>
-          </div>
+          {can("reports.export") && (
+            <div className="flex flex-wrap gap-4">
+              <Button
+                variant="outline"
+                className="border-white/20 text-white"
+                onClick={() => handleDownloadReport("attendance")}
+                data-testid="button-report-attendance"
+              >
+                <Download className="w-5 h-5 ml-2" />
+                تقرير الحضور
+              </Button>
+              <Button
+                variant="outline"
+                className="border-white/20 text-white"
+                onClick={() => handleDownloadReport("absence")}
+                data-testid="button-report-absence"
+              >
+                <Download className="w-5 h-5 ml-2" />
+                تقرير الغياب
+              </Button>
+              {can("audit.view") && (
+                <Button
+                  variant="outline"
+                  className="border-white/20 text-white"
+                  onClick={() => handleDownloadReport("audit")}
+                  data-testid="button-report-audit"
+                >
+                  <Download className="w-5 h-5 ml-2" />
+                  سجل العمليات
+                </Button>
+              )}
+              {sessions.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="border-white/20 text-white"
+                  onClick={() => handleDownloadReport("sessions")}
+                  data-testid="button-report-sessions"
+                >
+                  <Download className="w-5 h-5 ml-2" />
+                  تقرير الجلسات
+                </Button>
+              )}
+            </div>
+          )}
         </TabsContent>
       </Tabs>
+
+      <GuestQrDialog guest={qrGuest} onClose={() => setQrGuest(null)} />
+      <RevertCheckInDialog guest={revertGuest} onClose={() => setRevertGuest(null)} />
+      <GuestMovementsDialog guest={movementsGuest} onClose={() => setMovementsGuest(null)} />
+      {eventId && <MergeDuplicatesDialog eventId={eventId} open={mergeOpen} onClose={() => setMergeOpen(false)} />}
     </div>
   );
 }
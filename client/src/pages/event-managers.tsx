@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Users, Plus, Search, Loader2, Pencil, Trash2, Power, PowerOff } from "lucide-react";
+import { Users, Plus, Search, Loader2, Pencil, Trash2, Power, PowerOff, Unlock, MonitorSmartphone, Link2, ScanEye } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -33,9 +33,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { DataTable } from "@/components/data-table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SessionsList } from "@/components/sessions-list";
+import { PasswordResetDialog } from "@/components/password-reset-dialog";
+import { useImpersonate } from "@/hooks/use-impersonate";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
 import type { User } from "@shared/schema";
 
 const userFormSchema = z.object({
@@ -54,11 +59,20 @@ const editFormSchema = z.object({
 type UserFormData = z.infer<typeof userFormSchema>;
 type EditFormData = z.infer<typeof editFormSchema>;
 
+const isLocked = (user: User) =>
+  !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
 export default function EventManagersPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [resetUser, setResetUser] = useState<User | null>(null);
+  const [toggleConfirmUser, setToggleConfirmUser] = useState<User | null>(null);
+  const [cascadeOrganizers, setCascadeOrganizers] = useState(true);
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const impersonateMutation = useImpersonate();
 
   const { data: eventManagers = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users/event-managers"],
@@ -133,15 +147,19 @@ export default function EventManagersPage() {
   });
 
   const toggleActiveMutation = useMutation({
-    mutationFn: async (userId: string) => {
-      const res = await apiRequest("PATCH", `/api/users/${userId}/toggle-active`);
+    mutationFn: async ({ userId, cascade }: { userId: string; cascade: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/users/${userId}/toggle-active`, { cascade });
       return res.json();
     },
     onSuccess: (data) => {
+      const cascadeNote = data.cascadedCount > 0
+        ? ` (${data.isActive ? "أُعيد تفعيل" : "عُلّق"} ${data.cascadedCount} منظم)`
+        : "";
       toast({
         title: data.isActive ? "تم تفعيل الحساب" : "تم تعليق الحساب",
-        description: data.isActive ? "الحساب نشط الآن" : "تم تعليق الحساب",
+        description: (data.isActive ? "الحساب نشط الآن" : "تم تعليق الحساب وتسجيل خروجه من جميع الأجهزة") + cascadeNote,
       });
+      setToggleConfirmUser(null);
       queryClient.invalidateQueries({ queryKey: ["/api/users/event-managers"] });
     },
     onError: () => {
@@ -153,6 +171,27 @@ export default function EventManagersPage() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("PATCH", `/api/users/${userId}/unlock`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "تم إلغاء القفل",
+        description: "يمكن لمدير المناسبات تسجيل الدخول الآن",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/event-managers"] });
+    },
+    onError: () => {
+      toast({
+        title: "فشلت العملية",
+        description: "حدث خطأ أثناء إلغاء قفل الحساب",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (userId: string) => {
       await apiRequest("DELETE", `/api/users/${userId}`);
@@ -203,16 +242,23 @@ export default function EventManagersPage() {
       key: "isActive",
       header: "الحالة",
       render: (user: User) => (
-        <Badge
-          variant="secondary"
-          className={`${
-            user.isActive
-              ? "bg-green-500/20 text-green-400"
-              : "bg-gray-500/20 text-gray-400"
-          }`}
-        >
-          {user.isActive ? "نشط" : "معلق"}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge
+            variant="secondary"
+            className={`${
+              user.isActive
+                ? "bg-green-500/20 text-green-400"
+                : "bg-gray-500/20 text-gray-400"
+            }`}
+          >
+            {user.isActive ? "نشط" : "معلق"}
+          </Badge>
+          {isLocked(user) && (
+            <Badge variant="secondary" className="bg-red-500/20 text-red-400">
+              مقفل مؤقتاً
+            </Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -232,13 +278,66 @@ export default function EventManagersPage() {
           <Button
             size="icon"
             variant="ghost"
-            onClick={() => toggleActiveMutation.mutate(user.id)}
+            onClick={() => {
+              setCascadeOrganizers(true);
+              setToggleConfirmUser(user);
+            }}
             disabled={toggleActiveMutation.isPending}
             className={`h-8 w-8 ${user.isActive ? "text-yellow-400 hover:text-yellow-300" : "text-green-400 hover:text-green-300"}`}
             data-testid={`button-toggle-user-${user.id}`}
           >
             {user.isActive ? <PowerOff className="w-4 h-4" /> : <Power className="w-4 h-4" />}
           </Button>
+          {currentUser?.role === "super_admin" && isLocked(user) && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => unlockMutation.mutate(user.id)}
+              disabled={unlockMutation.isPending}
+              className="h-8 w-8 text-blue-400 hover:text-blue-300"
+              title="إلغاء القفل"
+              data-testid={`button-unlock-user-${user.id}`}
+            >
+              <Unlock className="w-4 h-4" />
+            </Button>
+          )}
+          {currentUser?.role === "super_admin" && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setSessionsUser(user)}
+              className="h-8 w-8 text-muted-foreground hover:text-white"
+              title="الأجهزة النشطة"
+              data-testid={`button-sessions-user-${user.id}`}
+            >
+              <MonitorSmartphone className="w-4 h-4" />
+            </Button>
+          )}
+          {currentUser?.role === "super_admin" && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setResetUser(user)}
+              className="h-8 w-8 text-muted-foreground hover:text-white"
+              title="رابط إعادة تعيين كلمة المرور"
+              data-testid={`button-reset-password-user-${user.id}`}
+            >
+              <Link2 className="w-4 h-4" />
+            </Button>
+          )}
+          {currentUser?.role === "super_admin" && user.isActive && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => impersonateMutation.mutate(user.id)}
+              disabled={impersonateMutation.isPending}
+              className="h-8 w-8 text-amber-400 hover:text-amber-300"
+              title="العرض كهذا المستخدم"
+              data-testid={`button-impersonate-user-${user.id}`}
+            >
+              <ScanEye className="w-4 h-4" />
+            </Button>
+          )}
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
@@ -504,6 +603,62 @@ export default function EventManagersPage() {
         isLoading={isLoading}
         emptyMessage="لا يوجد مديري مناسبات"
       />
+
+      <AlertDialog open={!!toggleConfirmUser} onOpenChange={(open) => !open && setToggleConfirmUser(null)}>
+        <AlertDialogContent className="glass border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">
+              {toggleConfirmUser?.isActive ? "تعليق الحساب" : "تفعيل الحساب"}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground">
+              {toggleConfirmUser?.isActive
+                ? `سيتم تعليق حساب "${toggleConfirmUser?.name}" وتسجيل خروجه فوراً من جميع الأجهزة.`
+                : `سيتمكن "${toggleConfirmUser?.name}" من تسجيل الدخول مجدداً.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-3 text-white text-sm cursor-pointer">
+            <Checkbox
+              checked={cascadeOrganizers}
+              onCheckedChange={(checked) => setCascadeOrganizers(checked === true)}
+              data-testid="checkbox-cascade-organizers"
+            />
+            {toggleConfirmUser?.isActive
+              ? "تعليق المنظمين الذين أنشأهم أيضاً"
+              : "إعادة تفعيل المنظمين الذين عُلّقوا مع هذا الحساب"}
+          </label>
+          <AlertDialogFooter className="flex gap-2">
+            <AlertDialogCancel className="glass-input" data-testid="button-cancel-toggle">
+              إلغاء
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (toggleConfirmUser) {
+                  toggleActiveMutation.mutate({ userId: toggleConfirmUser.id, cascade: cascadeOrganizers });
+                }
+              }}
+              className={toggleConfirmUser?.isActive ? "bg-yellow-600 hover:bg-yellow-700" : "bg-green-600 hover:bg-green-700"}
+              data-testid="button-confirm-toggle"
+            >
+              {toggleActiveMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin ml-2" />
+              ) : null}
+              تأكيد
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="glass border-white/10 sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">الأجهزة النشطة - {sessionsUser?.name}</DialogTitle>
+          </DialogHeader>
+          {sessionsUser && <SessionsList endpoint={`/api/users/${sessionsUser.id}/sessions`} />}
+        </DialogContent>
+      </Dialog>
+
+      <PasswordResetDialog user={resetUser} onClose={() => setResetUser(null)} />
     </div>
   );
 }
@@ -5,17 +5,19 @@ import { Link } from "wouter";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
+import { EventStatusBadge } from "@/components/event-status-badge";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { usePermissions } from "@/hooks/use-permissions";
 import type { Event } from "@shared/schema";
 
 export default function EventsPage() {
   const [searchQuery, setSearchQuery] = useState("");
+  const { can } = usePermissions();
 
   const { data: events = [], isLoading } = useQuery<Event[]>({
     queryKey: ["/api/events"],
@@ -35,12 +37,14 @@ export default function EventsPage() {
           <h1 className="text-3xl font-bold text-white mb-2">المناسبات</h1>
           <p className="text-muted-foreground">إدارة وتتبع جميع مناسباتك</p>
         </div>
-        <Link href="/events/new">
-          <Button className="gradient-primary glow-primary" data-testid="button-create-event">
-            <Plus className="w-5 h-5 ml-2" />
-            مناسبة جديدة
-          </Button>
-        </Link>
+        {can("events.create") && (
+          <Link href="/events/new">
+            <Button className="gradient-primary glow-primary" data-testid="button-create-event">
+              <Plus className="w-5 h-5 ml-2" />
+              مناسبة جديدة
+            </Button>
+          </Link>
+        )}
       </div>
 
       <div className="relative max-w-md">
@@ -92,12 +96,14 @@ export default function EventsPage() {
             <div className="glass-card rounded-2xl p-12 text-center">
               <Calendar className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground text-lg mb-4">لا توجد مناسبات</p>
-              <Link href="/events/new">
-                <Button className="gradient-primary">
-                  <Plus className="w-5 h-5 ml-2" />
-                  أنشئ مناسبة جديدة
-                </Button>
-              </Link>
+              {can("events.create") && (
+                <Link href="/events/new">
+                  <Button className="gradient-primary">
+                    <Plus className="w-5 h-5 ml-2" />
+                    أنشئ مناسبة جديدة
+                  </Button>
+                </Link>
+              )}
             </div>
           )}
         </>
@@ -107,6 +113,8 @@ export default function EventsPage() {
 }
 
 function EventCard({ event, index, isPast }: { event: Event; index: number; isPast?: boolean }) {
+  const { can } = usePermissions();
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -131,16 +139,20 @@ function EventCard({ event, index, isPast }: { event: Event; index: number; isPa
                 عرض التفاصيل
               </DropdownMenuItem>
             </Link>
-            <Link href={`/events/${event.id}/edit`}>
-              <DropdownMenuItem className="text-white cursor-pointer">
-                <Edit className="w-4 h-4 ml-2" />
-                تعديل
+            {can("events.edit") && (
+              <Link href={`/events/${event.id}/edit`}>
+                <DropdownMenuItem className="text-white cursor-pointer">
+                  <Edit className="w-4 h-4 ml-2" />
+                  تعديل
+                </DropdownMenuItem>
+              </Link>
+            )}
+            {can("events.delete") && (
+              <DropdownMenuItem className="text-red-400 cursor-pointer">
+                <Trash2 className="w-4 h-4 ml-2" />
+                حذف
               </DropdownMenuItem>
-            </Link>
-            <DropdownMenuItem className="text-red-400 cursor-pointer">
-              <Trash2 className="w-4 h-4 ml-2" />
-              حذف
-            </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -160,16 +172,7 @@ function EventCard({ event, index, isPast }: { event: Event; index: number; isPa
       )}
 
       <div className="flex items-center justify-between pt-4 border-t border-white/10">
-        <Badge
-          variant="secondary"
-          className={`${
-            event.isActive
-              ? "bg-green-500/20 text-green-400"
-              : "bg-gray-500/20 text-gray-400"
-          }`}
-        >
-          {event.isActive ? "نشط" : "غير نشط"}
-        </Badge>
+        <EventStatusBadge status={event.status} />
         <Link href={`/events/${event.id}`}>
           <Button variant="ghost" size="sm" className="text-primary">
             عرض التفاصيل
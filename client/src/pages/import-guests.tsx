@@ -0,0 +1,492 @@
+import { useRef, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, ArrowRight, CheckCircle, Copy, Download, FileSpreadsheet, Loader2, Upload, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/data-table";
+import { CategoryBadge } from "@/components/category-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { guestImportFieldLabels } from "@shared/guest-import";
+import { formatCustomFieldValue } from "@shared/custom-fields";
+import {
+  guestImportDuplicatePolicies,
+  guestImportFields,
+  type Event,
+  type EventCategory,
+  type EventGuestField,
+  type GuestImportDuplicatePolicy,
+  type GuestImportField,
+  type GuestImportPreview,
+  type GuestImportResult,
+  type GuestImportRowPreview,
+} from "@shared/schema";
+
+const duplicatePolicyLabels: Record<GuestImportDuplicatePolicy, string> = {
+  skip: "تخطي الصفوف المكررة",
+  update: "تحديث بيانات الضيف المسجل",
+  duplicate: "إضافتها كضيوف جدد",
+};
+
+// Value of a field's column selector when the field is not imported
+const NO_COLUMN = "none";
+// Rows shown in the preview table; the summary and the rejected file cover all of them
+const PREVIEW_ROWS = 200;
+
+type PreviewRow = GuestImportRowPreview & { id: string };
+
+async function readError(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => ({}));
+  return new Error(body.error || fallback);
+}
+
+export default function ImportGuestsPage() {
+  const { id: eventId } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<GuestImportPreview | null>(null);
+  const [result, setResult] = useState<GuestImportResult | null>(null);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<GuestImportDuplicatePolicy>("skip");
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  const { data: event } = useQuery<Event>({
+    queryKey: ["/api/events", eventId],
+    enabled: !!eventId,
+  });
+
+  const { data: categories = [] } = useQuery<EventCategory[]>({
+    queryKey: ["/api/events", eventId, "categories"],
+    enabled: !!eventId,
+  });
+
+  const { data: customFields = [] } = useQuery<EventGuestField[]>({
+    queryKey: ["/api/events", eventId, "guest-fields"],
+    enabled: !!eventId,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, sheet }: { file: File; sheet?: string }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (sheet) formData.append("sheet", sheet);
+      const res = await fetch(`/api/events/${eventId}/guest-imports`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) throw await readError(res, "تعذر قراءة الملف");
+      return (await res.json()) as GuestImportPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setResult(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل رفع الملف", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mappingMutation = useMutation({
+    mutationFn: async (mapping: GuestImportPreview["mapping"]) => {
+      const res = await fetch(`/api/guest-imports/${preview!.id}/mapping`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping }),
+        credentials: "include",
+      });
+      if (!res.ok) throw await readError(res, "فشل تحديث ربط الأعمدة");
+      return (await res.json()) as GuestImportPreview;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: "فشل التحديث", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/guest-imports/${preview!.id}/commit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ duplicates: duplicatePolicy }),
+        credentials: "include",
+      });
+      if (!res.ok) throw await readError(res, "فشل استيراد الضيوف");
+      return (await res.json()) as GuestImportResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/events", eventId, "guests"] });
+      toast({
+        title: "تم الاستيراد",
+        description: `تم إضافة ${data.created} ضيف${data.updated ? ` وتحديث ${data.updated} ضيف مسجل` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "فشل الاستيراد", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    uploadMutation.mutate({ file: selected });
+  };
+
+  const handleMappingChange = (field: GuestImportField, column: string) => {
+    if (!preview) return;
+    mappingMutation.mutate({ ...preview.mapping, [field]: column === NO_COLUMN ? null : column });
+  };
+
+  const handleCustomMappingChange = (fieldId: string, column: string) => {
+    if (!preview) return;
+    mappingMutation.mutate({
+      ...preview.mapping,
+      custom: { ...preview.mapping.custom, [fieldId]: column === NO_COLUMN ? null : column },
+    });
+  };
+
+  // Leaving the preview drops the staged file; the server clears it anyway after a day
+  const discardPreview = () => {
+    if (preview && !result) {
+      fetch(`/api/guest-imports/${preview.id}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+    }
+    setPreview(null);
+    setResult(null);
+    setFile(null);
+  };
+
+  const handleDownloadRejected = async () => {
+    if (!preview) return;
+    try {
+      const res = await fetch(`/api/guest-imports/${preview.id}/rejected?duplicates=${duplicatePolicy}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw await readError(res, "فشل تحميل الملف");
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `صفوف-مرفوضة-${event?.name || "event"}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "فشل التحميل", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const shownRows = (preview?.rows ?? []).filter((r) => !problemsOnly || r.errors.length > 0 || r.duplicateOf);
+  const rows: PreviewRow[] = shownRows.slice(0, PREVIEW_ROWS).map((r) => ({ ...r, id: String(r.row) }));
+
+  // Matches of an existing guest can be updated; repeats of an earlier row in the file cannot
+  const duplicateRows = (preview?.rows ?? []).filter((r) => r.errors.length === 0 && r.duplicateOf);
+  const toUpdate = duplicatePolicy === "update" ? duplicateRows.filter((r) => r.duplicateGuestId).length : 0;
+  const toImport = preview ? preview.summary.valid + (duplicatePolicy === "duplicate" ? duplicateRows.length : 0) : 0;
+  const toReject = preview ? preview.summary.total - toImport - toUpdate : 0;
+  const overCapacity =
+    preview?.remainingCapacity !== null && preview?.remainingCapacity !== undefined && toImport > preview.remainingCapacity;
+  const busy = uploadMutation.isPending || mappingMutation.isPending || commitMutation.isPending;
+
+  const renderColumnSelect = (value: string, onChange: (column: string) => void, testId: string) => (
+    <Select value={value} onValueChange={onChange} disabled={busy}>
+      <SelectTrigger className="glass-input h-11 rounded-xl text-white" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COLUMN}>بدون</SelectItem>
+        {preview?.columns.map((column) => (
+          <SelectItem key={column} value={column}>
+            {column}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const columns = [
+    { key: "row", header: "الصف", render: (r: PreviewRow) => <span className="text-muted-foreground">{r.row}</span> },
+    { key: "name", header: "الاسم", render: (r: PreviewRow) => <span className="text-white">{r.values.name || "-"}</span> },
+    { key: "phone", header: "الجوال", render: (r: PreviewRow) => <span dir="ltr">{r.values.phone || "-"}</span> },
+    {
+      key: "category",
+      header: "الفئة",
+      render: (r: PreviewRow) => <CategoryBadge categories={categories} category={r.values.category} />,
+    },
+    { key: "companions", header: "المرافقين", render: (r: PreviewRow) => r.values.companions },
+    ...customFields
+      .filter((field) => preview?.mapping.custom?.[field.id])
+      .map((field) => ({
+        key: `custom-${field.id}`,
+        header: field.label,
+        render: (r: PreviewRow) => formatCustomFieldValue(field, r.values.customFields[field.id]) || "-",
+      })),
+    {
+      key: "status",
+      header: "الحالة",
+      render: (r: PreviewRow) =>
+        r.errors.length > 0 ? (
+          <div className="flex items-start gap-1 text-red-400 text-sm" data-testid={`text-import-errors-${r.row}`}>
+            <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>{r.errors.join("، ")}</span>
+          </div>
+        ) : r.duplicateOf ? (
+          <div className="flex items-start gap-1 text-yellow-400 text-sm" data-testid={`text-import-duplicate-${r.row}`}>
+            <Copy className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>{r.duplicateOf}</span>
+          </div>
+        ) : (
+          <span className="flex items-center gap-1 text-green-400 text-sm">
+            <CheckCircle className="w-4 h-4" />
+            صالح
+          </span>
+        ),
+    },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(`/events/${eventId}`)}
+          className="text-white hover:bg-white/10"
+          data-testid="button-back"
+        >
+          <ArrowRight className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">استيراد الضيوف</h1>
+          <p className="text-muted-foreground">{event?.name || "جاري التحميل..."}</p>
+        </div>
+      </div>
+
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".xlsx,.xls,.csv" className="hidden" />
+
+      {!preview ? (
+        <div className="glass-card rounded-2xl p-12 text-center space-y-4">
+          <FileSpreadsheet className="w-16 h-16 text-primary mx-auto" />
+          <div>
+            <p className="text-white text-lg font-medium">اختر ملف Excel أو CSV</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              يُعرض الملف للمراجعة وربط الأعمدة قبل إضافة أي ضيف
+            </p>
+          </div>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="gradient-primary"
+            data-testid="button-choose-import-file"
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="w-5 h-5 ml-2 animate-spin" />
+            ) : (
+              <Upload className="w-5 h-5 ml-2" />
+            )}
+            اختيار ملف
+          </Button>
+        </div>
+      ) : result ? (
+        <div className="glass-card rounded-2xl p-12 text-center space-y-6" data-testid="card-import-result">
+          <CheckCircle className="w-16 h-16 text-green-400 mx-auto" />
+          <div className="space-y-1">
+            <p className="text-white text-2xl font-bold">تم إضافة {result.created} ضيف</p>
+            {result.updated > 0 && (
+              <p className="text-muted-foreground">تم تحديث بيانات {result.updated} ضيف مسجل</p>
+            )}
+            {result.rejected > 0 && (
+              <p className="text-muted-foreground">لم يتم استيراد {result.rejected} صف</p>
+            )}
+          </div>
+          <div className="flex flex-wrap justify-center gap-3">
+            {result.rejected > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleDownloadRejected}
+                className="border-white/20 text-white hover:bg-white/10"
+                data-testid="button-download-rejected"
+              >
+                <Download className="w-4 h-4 ml-2" />
+                تحميل الصفوف المرفوضة
+              </Button>
+            )}
+            <Button onClick={() => navigate(`/events/${eventId}`)} className="gradient-primary">
+              العودة للمناسبة
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="glass-card rounded-2xl p-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <FileSpreadsheet className="w-6 h-6 text-primary" />
+                <div>
+                  <p className="text-white font-medium">{preview.fileName}</p>
+                  <p className="text-muted-foreground text-sm">{preview.summary.total} صف</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                {preview.sheets.length > 1 && file && (
+                  <Select
+                    value={preview.sheet}
+                    onValueChange={(sheet) => uploadMutation.mutate({ file, sheet })}
+                    disabled={busy}
+                  >
+                    <SelectTrigger className="glass-input h-10 w-44 rounded-xl text-white" data-testid="select-import-sheet">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preview.sheets.map((sheet) => (
+                        <SelectItem key={sheet} value={sheet}>
+                          {sheet}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={discardPreview}
+                  disabled={busy}
+                  className="border-white/20 text-white hover:bg-white/10"
+                  data-testid="button-change-import-file"
+                >
+                  ملف آخر
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-lg font-bold text-white mb-1">ربط الأعمدة</h2>
+              <p className="text-muted-foreground text-sm mb-4">اختر عمود الملف الذي يحتوي كل بيان</p>
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {guestImportFields.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label className="text-white">
+                      {guestImportFieldLabels[field]}
+                      {field === "name" && " *"}
+                    </Label>
+                    {renderColumnSelect(
+                      preview.mapping[field] ?? NO_COLUMN,
+                      (column) => handleMappingChange(field, column),
+                      `select-import-column-${field}`
+                    )}
+                  </div>
+                ))}
+                {customFields.map((field) => (
+                  <div key={field.id} className="space-y-2">
+                    <Label className="text-white">
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    {renderColumnSelect(
+                      preview.mapping.custom?.[field.id] ?? NO_COLUMN,
+                      (column) => handleCustomMappingChange(field.id, column),
+                      `select-import-custom-column-${field.id}`
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "إجمالي الصفوف", value: preview.summary.total, className: "text-white" },
+              { label: "صالحة", value: preview.summary.valid, className: "text-green-400" },
+              { label: "بها أخطاء", value: preview.summary.invalid, className: "text-red-400" },
+              { label: "مكررة", value: preview.summary.duplicates, className: "text-yellow-400" },
+            ].map((stat) => (
+              <div key={stat.label} className="glass-card rounded-2xl p-4 text-center">
+                <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+                <p className="text-muted-foreground text-sm">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {!preview.mapping.name && (
+            <p className="flex items-center gap-2 text-sm text-red-400">
+              <AlertTriangle className="w-4 h-4" />
+              حدد عمود الاسم للمتابعة
+            </p>
+          )}
+          {overCapacity && (
+            <p className="flex items-center gap-2 text-sm text-yellow-400" data-testid="text-import-capacity-warning">
+              <AlertTriangle className="w-4 h-4" />
+              تسمح باقة السعة بإضافة {preview.remainingCapacity} ضيف فقط، وستُرفض الصفوف الزائدة
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Label className="text-white">الصفوف المكررة</Label>
+                <Select
+                  value={duplicatePolicy}
+                  onValueChange={(value: GuestImportDuplicatePolicy) => setDuplicatePolicy(value)}
+                >
+                  <SelectTrigger className="glass-input h-10 w-56 rounded-xl text-white" data-testid="select-duplicate-policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {guestImportDuplicatePolicies.map((policy) => (
+                      <SelectItem key={policy} value={policy}>
+                        {duplicatePolicyLabels[policy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <Checkbox
+                  checked={problemsOnly}
+                  onCheckedChange={(checked) => setProblemsOnly(checked === true)}
+                  data-testid="checkbox-problems-only"
+                />
+                عرض الصفوف التي بها ملاحظات فقط
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {toReject > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadRejected}
+                  className="border-white/20 text-white hover:bg-white/10"
+                  data-testid="button-download-rejected"
+                >
+                  <Download className="w-4 h-4 ml-2" />
+                  تحميل الصفوف المرفوضة
+                </Button>
+              )}
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={busy || !preview.mapping.name || toImport + toUpdate === 0}
+                className="gradient-primary"
+                data-testid="button-commit-import"
+              >
+                {commitMutation.isPending && <Loader2 className="w-4 h-4 animate-spin ml-2" />}
+                استيراد {overCapacity ? preview.remainingCapacity : toImport} ضيف
+                {toUpdate > 0 && ` وتحديث ${toUpdate}`}
+              </Button>
+            </div>
+          </div>
+
+          <DataTable columns={columns} data={rows} emptyMessage="لا توجد صفوف بها ملاحظات" />
+          {shownRows.length > PREVIEW_ROWS && (
+            <p className="text-muted-foreground text-sm text-center">
+              يتم عرض أول {PREVIEW_ROWS} صف من {shownRows.length}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,14 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion } from "framer-motion";
-import { LogIn, User, Lock, Loader2 } from "lucide-react";
+import { LogIn, User, Lock, Loader2, ShieldAlert, ShieldCheck, ArrowRight } from "lucide-react";
 import { SiWhatsapp, SiInstagram, SiFacebook, SiX, SiLinkedin } from "react-icons/si";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
 import { useAuth } from "@/lib/auth";
 import { loginSchema, type LoginInput } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
@@ -23,7 +25,10 @@ interface SiteSettings {
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [settings, setSettings] = useState<SiteSettings>({});
-  const { login } = useAuth();
+  const [lockoutMessage, setLockoutMessage] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor, twoFactorStage, logout, refetchUser } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -47,17 +52,28 @@ export default function LoginPage() {
   const onSubmit = async (data: LoginInput) => {
     setIsLoading(true);
     try {
-      const success = await login(data.username, data.password);
-      if (success) {
+      const result = await login(data.username, data.password);
+      if (result.twoFactorStage) {
+        setLockoutMessage(null);
+        setTwoFactorCode("");
+      } else if (result.success) {
+        setLockoutMessage(null);
         toast({
           title: "تم تسجيل الدخول بنجاح",
           description: "مرحباً بك في نظام إدارة المناسبات",
         });
         setLocation("/");
+      } else if (result.lockedUntil) {
+        setLockoutMessage(result.error || "تم إيقاف تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة");
+        toast({
+          title: "الحساب مقفل مؤقتاً",
+          description: result.error,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "فشل تسجيل الدخول",
-          description: "اسم المستخدم أو كلمة المرور غير صحيحة",
+          description: result.error || "اسم المستخدم أو كلمة المرور غير صحيحة",
           variant: "destructive",
         });
       }
@@ -72,6 +88,44 @@ export default function LoginPage() {
     }
   };
 
+  const onVerifyTwoFactor = async () => {
+    setIsLoading(true);
+    try {
+      const result = await verifyTwoFactor(twoFactorCode);
+      if (result.success) {
+        toast({
+          title: "تم تسجيل الدخول بنجاح",
+          description: "مرحباً بك في نظام إدارة المناسبات",
+        });
+        setLocation("/");
+      } else {
+        setTwoFactorCode("");
+        if (result.lockedUntil) {
+          setLockoutMessage(result.error || "تم إيقاف تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة");
+        }
+        toast({
+          title: "فشل التحقق",
+          description: result.error || "رمز التحقق غير صحيح",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onCancelTwoFactor = async () => {
+    await logout();
+    setTwoFactorCode("");
+    setUseRecoveryCode(false);
+    form.reset();
+  };
+
+  const onTwoFactorSetupComplete = async () => {
+    await refetchUser();
+    setLocation("/");
+  };
+
   return (
     <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
       <div className="absolute inset-0 overflow-hidden">
@@ -100,86 +154,194 @@ export default function LoginPage() {
             <p className="text-muted-foreground">قم بتسجيل الدخول للمتابعة</p>
           </motion.div>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: 0.3 }}
-              >
-                <FormField
-                  control={form.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-white/90 font-medium">اسم المستخدم</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <User className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                          <Input
-                            {...field}
-                            placeholder="أدخل اسم المستخدم"
-                            className="glass-input pr-10 h-12 rounded-xl text-white placeholder:text-muted-foreground border-white/10 focus:border-primary/50 focus:ring-primary/30"
-                            data-testid="input-username"
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage className="text-red-400" />
-                    </FormItem>
-                  )}
+          {lockoutMessage && (
+            <div
+              className="flex items-start gap-3 p-4 mb-6 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm"
+              data-testid="text-lockout-message"
+            >
+              <ShieldAlert className="w-5 h-5 shrink-0 mt-0.5" />
+              <span>{lockoutMessage}</span>
+            </div>
+          )}
+
+          {twoFactorStage === "verify" ? (
+            <div className="space-y-6" data-testid="two-factor-verify">
+              <div className="flex items-center gap-3 text-white">
+                <ShieldCheck className="w-6 h-6 text-primary" />
+                <h2 className="text-lg font-bold">التحقق بخطوتين</h2>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                {useRecoveryCode
+                  ? "أدخل أحد رموز الاسترداد التي حفظتها عند تفعيل التحقق بخطوتين"
+                  : "أدخل الرمز المكون من 6 أرقام من تطبيق المصادقة"}
+              </p>
+
+              {useRecoveryCode ? (
+                <Input
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  placeholder="XXXXX-XXXXX"
+                  dir="ltr"
+                  className="glass-input h-12 rounded-xl text-white text-center font-mono placeholder:text-muted-foreground border-white/10"
+                  data-testid="input-recovery-code"
                 />
-              </motion.div>
+              ) : (
+                <div className="flex justify-center" dir="ltr">
+                  <InputOTP
+                    maxLength={6}
+                    value={twoFactorCode}
+                    onChange={setTwoFactorCode}
+                    autoFocus
+                    data-testid="input-two-factor-code"
+                  >
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} className="text-white border-white/20 h-12 w-12 text-lg" />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
 
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: 0.4 }}
+              <Button
+                onClick={onVerifyTwoFactor}
+                disabled={isLoading || (useRecoveryCode ? twoFactorCode.trim().length < 10 : twoFactorCode.length !== 6)}
+                className="w-full h-12 rounded-xl gradient-primary text-white font-semibold text-lg glow-primary"
+                data-testid="button-verify-two-factor"
               >
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-white/90 font-medium">كلمة المرور</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Lock className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                          <Input
-                            {...field}
-                            type="password"
-                            placeholder="أدخل كلمة المرور"
-                            className="glass-input pr-10 h-12 rounded-xl text-white placeholder:text-muted-foreground border-white/10 focus:border-primary/50 focus:ring-primary/30"
-                            data-testid="input-password"
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage className="text-red-400" />
-                    </FormItem>
-                  )}
-                />
-              </motion.div>
+                {isLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                ) : (
+                  <ShieldCheck className="w-5 h-5 ml-2" />
+                )}
+                تحقق
+              </Button>
 
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.5 }}
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode("");
+                  }}
+                  className="text-primary hover:underline"
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "استخدام رمز التطبيق" : "استخدام رمز استرداد"}
+                </button>
+                <button
+                  type="button"
+                  onClick={onCancelTwoFactor}
+                  className="flex items-center gap-1 text-muted-foreground hover:text-white"
+                  data-testid="button-cancel-two-factor"
+                >
+                  <ArrowRight className="w-4 h-4" />
+                  رجوع
+                </button>
+              </div>
+            </div>
+          ) : twoFactorStage === "setup" ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3 text-white">
+                <ShieldCheck className="w-6 h-6 text-primary" />
+                <h2 className="text-lg font-bold">إعداد التحقق بخطوتين</h2>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                التحقق بخطوتين إلزامي لحسابك. يرجى إكمال الإعداد للمتابعة.
+              </p>
+              <TwoFactorSetup onComplete={onTwoFactorSetupComplete} />
+              <button
+                type="button"
+                onClick={onCancelTwoFactor}
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-white"
+                data-testid="button-cancel-two-factor-setup"
               >
-                <Button
-                  type="submit"
-                  disabled={isLoading}
-                  className="w-full h-12 rounded-xl gradient-primary text-white font-semibold text-lg glow-primary transition-all hover:scale-[1.02] active:scale-[0.98]"
-                  data-testid="button-login"
+                <ArrowRight className="w-4 h-4" />
+                رجوع
+              </button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.3 }}
                 >
-                  {isLoading ? (
-                    <Loader2 className="w-5 h-5 animate-spin ml-2" />
-                  ) : (
-                    <LogIn className="w-5 h-5 ml-2" />
-                  )}
-                  تسجيل الدخول
-                </Button>
-              </motion.div>
-            </form>
-          </Form>
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-white/90 font-medium">اسم المستخدم</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <User className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                            <Input
+                              {...field}
+                              placeholder="أدخل اسم المستخدم"
+                              className="glass-input pr-10 h-12 rounded-xl text-white placeholder:text-muted-foreground border-white/10 focus:border-primary/50 focus:ring-primary/30"
+                              data-testid="input-username"
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage className="text-red-400" />
+                      </FormItem>
+                    )}
+                  />
+                </motion.div>
+
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.4 }}
+                >
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-white/90 font-medium">كلمة المرور</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Lock className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                            <Input
+                              {...field}
+                              type="password"
+                              placeholder="أدخل كلمة المرور"
+                              className="glass-input pr-10 h-12 rounded-xl text-white placeholder:text-muted-foreground border-white/10 focus:border-primary/50 focus:ring-primary/30"
+                              data-testid="input-password"
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage className="text-red-400" />
+                      </FormItem>
+                    )}
+                  />
+                </motion.div>
+
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.5 }}
+                >
+                  <Button
+                    type="submit"
+                    disabled={isLoading}
+                    className="w-full h-12 rounded-xl gradient-primary text-white font-semibold text-lg glow-primary transition-all hover:scale-[1.02] active:scale-[0.98]"
+                    data-testid="button-login"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                    ) : (
+                      <LogIn className="w-5 h-5 ml-2" />
+                    )}
+                    تسجيل الدخول
+                  </Button>
+                </motion.div>
+              </form>
+            </Form>
+          )}
 
           <motion.div
             initial={{ opacity: 0 }}
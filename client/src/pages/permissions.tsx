@@ -0,0 +1,191 @@
+import { motion } from "framer-motion";
+import { KeyRound, Save, Loader2, RotateCcw } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useState, useEffect } from "react";
+import {
+  permissionDefinitions,
+  editableRoles,
+  roleLabels,
+  resolvePermissionMatrix,
+  isSuperAdminOnlyPermission,
+  type PermissionKey,
+  type PermissionMatrix,
+  type UserRole,
+} from "@shared/permissions";
+
+const permissionGroups = Array.from(new Set(permissionDefinitions.map((p) => p.group)));
+
+export default function PermissionsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [matrix, setMatrix] = useState<PermissionMatrix | null>(null);
+
+  const { data: savedMatrix, isLoading } = useQuery<PermissionMatrix>({
+    queryKey: ["/api/permissions"],
+    enabled: user?.role === "super_admin",
+  });
+
+  useEffect(() => {
+    if (savedMatrix) {
+      setMatrix(savedMatrix);
+    }
+  }, [savedMatrix]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PermissionMatrix) => {
+      const res = await apiRequest("PUT", "/api/permissions", { matrix: stripSuperAdmin(data) });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/permissions"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم تحديث صلاحيات الأدوار",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "فشل في حفظ الصلاحيات",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (key: PermissionKey, role: UserRole, granted: boolean) => {
+    if (!matrix) return;
+    const roles = matrix[key].filter((r) => r !== role);
+    setMatrix({ ...matrix, [key]: granted ? [...roles, role] : roles });
+  };
+
+  if (user?.role !== "super_admin") {
+    return (
+      <div className="flex items-center justify-center h-full" data-testid="permissions-unauthorized">
+        <Card className="glass-card border-white/10 text-center p-8">
+          <CardContent>
+            <KeyRound className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">غير مصرح</h2>
+            <p className="text-muted-foreground">هذه الصفحة متاحة لمالك النظام فقط</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-xl gradient-primary glow-primary">
+              <KeyRound className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white" data-testid="text-permissions-title">الصلاحيات</h1>
+              <p className="text-muted-foreground">حدد ما يستطيع كل دور القيام به</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setMatrix(resolvePermissionMatrix())}
+              disabled={!matrix}
+              className="glass-input text-white"
+              data-testid="button-reset-permissions"
+            >
+              <RotateCcw className="w-4 h-4 ml-2" />
+              الافتراضي
+            </Button>
+            <Button
+              onClick={() => matrix && saveMutation.mutate(matrix)}
+              disabled={!matrix || saveMutation.isPending}
+              className="gradient-primary"
+              data-testid="button-save-permissions"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin ml-2" />
+              ) : (
+                <Save className="w-4 h-4 ml-2" />
+              )}
+              حفظ
+            </Button>
+          </div>
+        </div>
+
+        {isLoading || !matrix ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          permissionGroups.map((group) => (
+            <Card key={group} className="glass-card border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white">{group}</CardTitle>
+                <CardDescription>مالك النظام يملك جميع الصلاحيات دائماً</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground border-b border-white/10">
+                        <th className="text-right font-medium py-2">الصلاحية</th>
+                        {editableRoles.map((role) => (
+                          <th key={role} className="font-medium py-2 px-4 text-center">{roleLabels[role]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {permissionDefinitions
+                        .filter((p) => p.group === group)
+                        .map((permission) => (
+                          <tr key={permission.key} className="border-b border-white/5 last:border-0">
+                            <td className="py-3 text-white">
+                              {permission.label}
+                              <span className="block text-xs text-muted-foreground font-mono" dir="ltr">
+                                {permission.key}
+                              </span>
+                              {isSuperAdminOnlyPermission(permission.key) && (
+                                <span className="block text-xs text-muted-foreground">خاصة بمالك النظام</span>
+                              )}
+                            </td>
+                            {editableRoles.map((role) => (
+                              <td key={role} className="py-3 px-4 text-center">
+                                <Checkbox
+                                  checked={matrix[permission.key].includes(role)}
+                                  onCheckedChange={(checked) => toggle(permission.key, role, checked === true)}
+                                  disabled={isSuperAdminOnlyPermission(permission.key)}
+                                  data-testid={`checkbox-${permission.key}-${role}`}
+                                />
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+// super_admin is implicit on the server, only the editable roles are sent
+function stripSuperAdmin(matrix: PermissionMatrix): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(matrix).map(([key, roles]) => [key, roles.filter((r) => r !== "super_admin")])
+  );
+}
@@ -46,6 +46,9 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { CategoryBadge } from "@/components/category-badge";
+import { formatCategoryBreakdown } from "@shared/categories";
+import { auditActionLabel } from "@shared/audit-actions";
 
 type ReportType = "admin" | "eventManager" | "events" | "guests" | "audit";
 
@@ -269,7 +272,7 @@ export default function ReportsPage() {
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
                   <div className="text-3xl font-bold text-white">{reportData.summary.checkedInGuests}</div>
-                  <div className="text-white/60">الحاضرون</div>
+                  <div className="text-white/60">الحاضرون من {reportData.summary.expectedAttendees} شخص</div>
                 </CardContent>
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -351,7 +354,7 @@ export default function ReportsPage() {
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
                   <div className="text-3xl font-bold text-white">{reportData.summary.checkedInGuests}</div>
-                  <div className="text-white/60">الحاضرون</div>
+                  <div className="text-white/60">الحاضرون من {reportData.summary.expectedAttendees} شخص</div>
                 </CardContent>
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -376,8 +379,7 @@ export default function ReportsPage() {
                           <th className="text-right py-2 px-4">التاريخ</th>
                           <th className="text-right py-2 px-4">الضيوف</th>
                           <th className="text-right py-2 px-4">الحاضرون</th>
-                          <th className="text-right py-2 px-4">VIP</th>
-                          <th className="text-right py-2 px-4">عادي</th>
+                          <th className="text-right py-2 px-4">الفئات</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -387,8 +389,7 @@ export default function ReportsPage() {
                             <td className="py-2 px-4">{new Date(e.date).toLocaleDateString("ar-SA")}</td>
                             <td className="py-2 px-4">{e.totalGuests}</td>
                             <td className="py-2 px-4">{e.checkedIn}</td>
-                            <td className="py-2 px-4">{e.categoryBreakdown?.vip || 0}</td>
-                            <td className="py-2 px-4">{e.categoryBreakdown?.regular || 0}</td>
+                            <td className="py-2 px-4 text-sm">{formatCategoryBreakdown(e.categoryBreakdown || [])}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -425,7 +426,7 @@ export default function ReportsPage() {
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
                   <div className="text-3xl font-bold text-white">{reportData.summary.checkedInGuests}</div>
-                  <div className="text-white/60">الحاضرون</div>
+                  <div className="text-white/60">الحاضرون من {reportData.summary.expectedAttendees} شخص</div>
                 </CardContent>
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -501,7 +502,7 @@ export default function ReportsPage() {
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
                 <CardContent className="pt-6 text-center">
                   <div className="text-3xl font-bold text-white">{reportData.summary.checkedIn}</div>
-                  <div className="text-white/60">الحاضرون</div>
+                  <div className="text-white/60">الحاضرون من {reportData.summary.expectedAttendees} شخص</div>
                 </CardContent>
               </Card>
               <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -519,30 +520,19 @@ export default function ReportsPage() {
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <Card className="bg-yellow-500/10 backdrop-blur-sm border-yellow-500/20">
-                <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-yellow-300">{reportData.summary.categoryBreakdown?.vip || 0}</div>
-                  <div className="text-yellow-200/60">VIP</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-blue-500/10 backdrop-blur-sm border-blue-500/20">
-                <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-blue-300">{reportData.summary.categoryBreakdown?.regular || 0}</div>
-                  <div className="text-blue-200/60">عادي</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-purple-500/10 backdrop-blur-sm border-purple-500/20">
-                <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-purple-300">{reportData.summary.categoryBreakdown?.media || 0}</div>
-                  <div className="text-purple-200/60">إعلام</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-green-500/10 backdrop-blur-sm border-green-500/20">
-                <CardContent className="pt-6 text-center">
-                  <div className="text-2xl font-bold text-green-300">{reportData.summary.categoryBreakdown?.sponsor || 0}</div>
-                  <div className="text-green-200/60">راعي</div>
-                </CardContent>
-              </Card>
+              {(reportData.summary.categoryBreakdown || []).map((c: any) => (
+                <Card
+                  key={c.key}
+                  className="backdrop-blur-sm"
+                  style={{ backgroundColor: `${c.color}1A`, borderColor: `${c.color}33` }}
+                  data-testid={`card-category-count-${c.key}`}
+                >
+                  <CardContent className="pt-6 text-center">
+                    <div className="text-2xl font-bold" style={{ color: c.color }}>{c.count}</div>
+                    <div className="text-white/60">{c.label}</div>
+                  </CardContent>
+                </Card>
+              ))}
             </div>
 
             <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -568,18 +558,11 @@ export default function ReportsPage() {
                           <td className="py-2 px-4">{g.name}</td>
                           <td className="py-2 px-4" dir="ltr">{g.phone || "-"}</td>
                           <td className="py-2 px-4">
-                            <Badge className={
-                              g.category === "vip" ? "bg-yellow-500/20 text-yellow-300" :
-                              g.category === "media" ? "bg-purple-500/20 text-purple-300" :
-                              g.category === "sponsor" ? "bg-green-500/20 text-green-300" :
-                              "bg-blue-500/20 text-blue-300"
-                            }>
-                              {g.category === "vip" ? "VIP" : 
-                               g.category === "media" ? "إعلام" :
-                               g.category === "sponsor" ? "راعي" : "عادي"}
-                            </Badge>
+                            <CategoryBadge categories={reportData.summary.categoryBreakdown || []} category={g.category} />
+                          </td>
+                          <td className="py-2 px-4">
+                            {g.isCheckedIn && g.companions ? `${g.companionsCheckedIn}/${g.companions}` : g.companions || 0}
                           </td>
-                          <td className="py-2 px-4">{g.companions || 0}</td>
                           <td className="py-2 px-4">
                             <Badge className={g.isCheckedIn ? "bg-green-500/20 text-green-300" : "bg-gray-500/20 text-gray-300"}>
                               {g.isCheckedIn ? "حاضر" : "غير حاضر"}
@@ -659,15 +642,12 @@ export default function ReportsPage() {
                           <td className="py-2 px-4">{l.userName}</td>
                           <td className="py-2 px-4">
                             <Badge className={
-                              l.action === "check_in" ? "bg-green-500/20 text-green-300" :
+                              l.action === "check_in" || l.action === "session_check_in" ? "bg-green-500/20 text-green-300" :
+                              l.action === "check_in_reverted" || l.action === "check_in_denied_zone" ? "bg-red-500/20 text-red-300" :
                               l.action === "create_event" ? "bg-blue-500/20 text-blue-300" :
                               "bg-purple-500/20 text-purple-300"
                             }>
-                              {l.action === "check_in" ? "تسجيل حضور" :
-                               l.action === "create_event" ? "إنشاء مناسبة" :
-                               l.action === "update_event" ? "تحديث مناسبة" :
-                               l.action === "create_guest" ? "إضافة ضيف" :
-                               l.action === "upload_guests" ? "رفع ضيوف" : l.action}
+                              {auditActionLabel(l.action)}
                             </Badge>
                           </td>
                           <td className="py-2 px-4">{l.eventName}</td>
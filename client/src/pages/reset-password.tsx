@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { KeyRound, Loader2, ShieldAlert, CheckCircle, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ResetLinkInfo {
+  name: string;
+  username: string;
+  expiresAt: string;
+}
+
+// Public page opened from a super_admin issued reset link
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: info, isLoading, isError } = useQuery<ResetLinkInfo>({
+    queryKey: ["/api/password-reset", token],
+    enabled: !!token,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/password-reset/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.error || "فشل تغيير كلمة المرور");
+      }
+      return body;
+    },
+    onError: (error: Error) => setFormError(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      setFormError("كلمة المرور يجب أن تكون 6 أحرف على الأقل");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFormError("كلمتا المرور غير متطابقتين");
+      return;
+    }
+    setFormError(null);
+    resetMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden">
+        <div className="absolute top-1/4 right-1/4 w-96 h-96 bg-purple-500/20 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 left-1/4 w-80 h-80 bg-violet-600/15 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ duration: 0.5, ease: "easeOut" }}
+        className="relative w-full max-w-md"
+      >
+        <div className="glass-card rounded-3xl p-8 shadow-2xl">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl gradient-primary mb-6 glow-primary">
+              <KeyRound className="w-10 h-10 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-2">إعادة تعيين كلمة المرور</h1>
+            {info && (
+              <p className="text-muted-foreground" data-testid="text-reset-user">
+                {info.name} (<span dir="ltr">@{info.username}</span>)
+              </p>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : resetMutation.isSuccess ? (
+            <div className="space-y-6 text-center" data-testid="reset-password-success">
+              <CheckCircle className="w-12 h-12 text-green-400 mx-auto" />
+              <p className="text-white">تم تغيير كلمة المرور بنجاح. يمكنك الآن تسجيل الدخول.</p>
+              <Link href="/login">
+                <Button className="w-full h-12 gradient-primary" data-testid="button-go-to-login">
+                  <LogIn className="w-5 h-5 ml-2" />
+                  تسجيل الدخول
+                </Button>
+              </Link>
+            </div>
+          ) : isError || !info ? (
+            <div className="space-y-6 text-center" data-testid="reset-password-invalid">
+              <ShieldAlert className="w-12 h-12 text-red-400 mx-auto" />
+              <p className="text-white">رابط إعادة التعيين غير صالح أو منتهي الصلاحية</p>
+              <p className="text-muted-foreground text-sm">تواصل مع مالك النظام للحصول على رابط جديد</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-white">كلمة المرور الجديدة</Label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">تأكيد كلمة المرور</Label>
+                <Input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="glass-input h-12 rounded-xl text-white"
+                  data-testid="input-confirm-password"
+                />
+              </div>
+
+              {formError && (
+                <p className="text-red-400 text-sm" data-testid="text-reset-error">{formError}</p>
+              )}
+
+              <Button
+                type="submit"
+                disabled={resetMutation.isPending}
+                className="w-full h-12 gradient-primary"
+                data-testid="button-reset-password"
+              >
+                {resetMutation.isPending ? (
+                  <Loader2 className="w-5 h-5 animate-spin ml-2" />
+                ) : (
+                  <KeyRound className="w-5 h-5 ml-2" />
+                )}
+                تعيين كلمة المرور
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                ينتهي الرابط في {new Date(info.expiresAt).toLocaleString("ar-SA")}
+              </p>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { motion } from "framer-motion";
+import { MonitorSmartphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SessionsList } from "@/components/sessions-list";
+import { useAuth } from "@/lib/auth";
+
+export default function SessionsPage() {
+  const { logout } = useAuth();
+
+  const handleCurrentSessionRevoked = async () => {
+    await logout();
+    window.location.href = "/login";
+  };
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-xl gradient-primary glow-primary">
+            <MonitorSmartphone className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white" data-testid="text-sessions-title">الأجهزة النشطة</h1>
+            <p className="text-muted-foreground">الأجهزة المسجل دخولها حالياً إلى حسابك</p>
+          </div>
+        </div>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">الجلسات</CardTitle>
+            <CardDescription>
+              إذا لاحظت جهازاً لا تعرفه، قم بتسجيل خروجه وغيّر كلمة المرور
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SessionsList
+              endpoint="/api/auth/sessions"
+              onCurrentSessionRevoked={handleCurrentSessionRevoked}
+            />
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
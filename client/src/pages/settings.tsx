@@ -1,10 +1,11 @@
 import { motion } from "framer-motion";
-import { Settings, Save, Loader2, MessageCircle } from "lucide-react";
+import { Settings, Save, Loader2, MessageCircle, ShieldCheck } from "lucide-react";
 import { SiWhatsapp, SiInstagram, SiFacebook, SiX, SiLinkedin } from "react-icons/si";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
@@ -17,8 +18,14 @@ interface SiteSettings {
   facebook?: string | null;
   twitter?: string | null;
   linkedin?: string | null;
+  twoFactorRequiredRoles?: string[] | null;
 }
 
+const twoFactorRoleLabels: Record<string, string> = {
+  super_admin: "مالك النظام",
+  admin: "مدير النظام",
+};
+
 export default function SettingsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -29,6 +36,7 @@ export default function SettingsPage() {
     twitter: "",
     linkedin: "",
   });
+  const [twoFactorRequiredRoles, setTwoFactorRequiredRoles] = useState<string[]>([]);
 
   const { data: settings, isLoading } = useQuery<SiteSettings>({
     queryKey: ["/api/settings"],
@@ -44,6 +52,7 @@ export default function SettingsPage() {
         twitter: settings.twitter || "",
         linkedin: settings.linkedin || "",
       });
+      setTwoFactorRequiredRoles(settings.twoFactorRequiredRoles || []);
     }
   }, [settings]);
 
@@ -68,6 +77,36 @@ export default function SettingsPage() {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async (requiredRoles: string[]) => {
+      const res = await apiRequest("PUT", "/api/settings/two-factor", { requiredRoles });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({
+        title: "تم الحفظ",
+        description: "تم تحديث سياسة التحقق بخطوتين",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "خطأ",
+        description: "فشل في حفظ سياسة التحقق بخطوتين",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTwoFactorRole = (role: string, required: boolean) => {
+    const updated = required
+      ? [...twoFactorRequiredRoles, role]
+      : twoFactorRequiredRoles.filter((r) => r !== role);
+    setTwoFactorRequiredRoles(updated);
+    twoFactorMutation.mutate(updated);
+  };
+
   const handleSave = () => {
     updateMutation.mutate(formData);
   };
@@ -211,6 +250,33 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
           )}
+
+          {!isLoading && (
+            <Card className="glass-card border-white/10" data-testid="card-two-factor-settings">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5" />
+                  <span>التحقق بخطوتين الإلزامي</span>
+                </CardTitle>
+                <CardDescription>
+                  عند التفعيل، يجب على جميع مستخدمي الدور إعداد التحقق بخطوتين قبل الدخول إلى النظام
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {Object.entries(twoFactorRoleLabels).map(([role, label]) => (
+                  <div key={role} className="flex items-center justify-between">
+                    <Label className="text-white/90">{label}</Label>
+                    <Switch
+                      checked={twoFactorRequiredRoles.includes(role)}
+                      onCheckedChange={(checked) => toggleTwoFactorRole(role, checked)}
+                      disabled={twoFactorMutation.isPending}
+                      data-testid={`switch-two-factor-${role}`}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </motion.div>
     </div>
   );
@@ -23,6 +23,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { CategoryCount } from "@shared/schema";
 
 interface OverviewStats {
   totalAdmins: number;
@@ -34,6 +35,7 @@ interface OverviewStats {
   totalEvents: number;
   activeEvents: number;
   totalGuests: number;
+  expectedAttendees: number;
   totalCheckedIn: number;
   todayCheckIns: number;
   checkInRate: number;
@@ -58,6 +60,7 @@ interface EventManagerStat {
   eventsCount: number;
   activeEventsCount: number;
   totalGuests: number;
+  expectedAttendees: number;
   checkedInGuests: number;
   organizersCount: number;
   events: {
@@ -67,6 +70,7 @@ interface EventManagerStat {
     location: string;
     isActive: boolean;
     totalGuests: number;
+    expectedAttendees: number;
     checkedIn: number;
     organizersCount: number;
   }[];
@@ -82,16 +86,12 @@ interface EventStat {
   managerName: string;
   managerId: string;
   totalGuests: number;
+  expectedAttendees: number;
   checkedIn: number;
   pending: number;
   checkInRate: number;
   organizersCount: number;
-  categoryBreakdown: {
-    vip: number;
-    regular: number;
-    media: number;
-    sponsor: number;
-  };
+  categoryBreakdown: CategoryCount[];
 }
 
 interface OrganizerStat {
@@ -196,8 +196,8 @@ function AdminCard({ admin }: { admin: AdminStat }) {
 function EventManagerCard({ manager }: { manager: EventManagerStat }) {
   const [isOpen, setIsOpen] = useState(false);
   const checkInRate =
-    manager.totalGuests > 0
-      ? Math.round((manager.checkedInGuests / manager.totalGuests) * 100)
+    manager.expectedAttendees > 0
+      ? Math.round((manager.checkedInGuests / manager.expectedAttendees) * 100)
       : 0;
 
   return (
@@ -289,7 +289,7 @@ function EventManagerCard({ manager }: { manager: EventManagerStat }) {
                     </div>
                     <div className="flex items-center gap-3">
                       <Badge variant="outline" className="text-xs">
-                        {event.checkedIn}/{event.totalGuests} ضيف
+                        {event.checkedIn}/{event.expectedAttendees} شخص
                       </Badge>
                       <Badge
                         variant="secondary"
@@ -316,13 +316,6 @@ function EventManagerCard({ manager }: { manager: EventManagerStat }) {
 function EventCard({ event }: { event: EventStat }) {
   const [isOpen, setIsOpen] = useState(false);
 
-  const categoryLabels: Record<string, string> = {
-    vip: "VIP",
-    regular: "عادي",
-    media: "إعلام",
-    sponsor: "راعي",
-  };
-
   return (
     <Card className="glass border-white/10">
       <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -402,14 +395,16 @@ function EventCard({ event }: { event: EventStat }) {
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">توزيع الفئات:</p>
                 <div className="grid grid-cols-4 gap-2">
-                  {Object.entries(event.categoryBreakdown).map(([key, value]) => (
+                  {event.categoryBreakdown.map((category) => (
                     <div
-                      key={key}
+                      key={category.key}
                       className="glass-card p-2 rounded-lg text-center"
                     >
-                      <p className="text-lg font-bold text-white">{value}</p>
+                      <p className="text-lg font-bold" style={{ color: category.color }}>
+                        {category.count}
+                      </p>
                       <p className="text-xs text-muted-foreground">
-                        {categoryLabels[key]}
+                        {category.label}
                       </p>
                     </div>
                   ))}
@@ -557,7 +552,7 @@ export default function StatisticsPage() {
         <StatCard
           title="الضيوف"
           value={stats.overview.totalGuests}
-          subtitle={`${stats.overview.totalCheckedIn} حاضر (${stats.overview.checkInRate}%)`}
+          subtitle={`${stats.overview.totalCheckedIn} من ${stats.overview.expectedAttendees} شخص حضروا (${stats.overview.checkInRate}%)`}
           icon={UserCheck}
           color="orange"
         />
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { ShieldCheck, ShieldOff, KeyRound, Loader2, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TwoFactorStatus {
+  required: boolean;
+}
+
+export default function TwoFactorPage() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [disablePassword, setDisablePassword] = useState("");
+  const [disableCode, setDisableCode] = useState("");
+  const [regenerateCode, setRegenerateCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa/status"],
+    enabled: !!user,
+  });
+
+  const isRequired = !!status?.required;
+
+  const disableMutation = useMutation({
+    mutationFn: async ({ password, code }: { password: string; code: string }) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+      return res.json();
+    },
+    onSuccess: async () => {
+      setDisablePassword("");
+      setDisableCode("");
+      await refetchUser();
+      toast({
+        title: "تم تعطيل التحقق بخطوتين",
+        description: "أصبح حسابك محمياً بكلمة المرور فقط",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "فشل التعطيل",
+        description: "تأكد من كلمة المرور ورمز التحقق وحاول مرة أخرى",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setRegenerateCode("");
+      setNewRecoveryCodes(data.recoveryCodes);
+    },
+    onError: () => {
+      setRegenerateCode("");
+      toast({
+        title: "رمز غير صحيح",
+        description: "أدخل الرمز الحالي من تطبيق المصادقة",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-xl gradient-primary glow-primary">
+            <ShieldCheck className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white" data-testid="text-two-factor-title">التحقق بخطوتين</h1>
+            <p className="text-muted-foreground">حماية حسابك برمز إضافي من تطبيق المصادقة</p>
+          </div>
+        </div>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              الحالة
+              <Badge
+                variant="secondary"
+                className={user.totpEnabled ? "bg-green-500/20 text-green-400" : "bg-gray-500/20 text-gray-400"}
+                data-testid="badge-two-factor-status"
+              >
+                {user.totpEnabled ? "مفعل" : "غير مفعل"}
+              </Badge>
+              {isRequired && (
+                <Badge variant="secondary" className="bg-primary/20 text-primary">
+                  إلزامي
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {user.totpEnabled
+                ? "سيُطلب منك رمز من تطبيق المصادقة عند كل تسجيل دخول"
+                : "فعّل التحقق بخطوتين لمنع الدخول إلى حسابك حتى لو عُرفت كلمة المرور"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!user.totpEnabled && (
+              <Button
+                onClick={() => setIsSetupOpen(true)}
+                className="gradient-primary glow-primary"
+                data-testid="button-start-two-factor"
+              >
+                <ShieldCheck className="w-5 h-5 ml-2" />
+                تفعيل التحقق بخطوتين
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {user.totpEnabled && (
+          <Card className="glass-card border-white/10">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <KeyRound className="w-5 h-5" />
+                رموز الاسترداد
+              </CardTitle>
+              <CardDescription>
+                إنشاء رموز جديدة يلغي جميع الرموز السابقة
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex justify-center" dir="ltr">
+                <InputOTP maxLength={6} value={regenerateCode} onChange={setRegenerateCode} data-testid="input-regenerate-code">
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} className="text-white border-white/20" />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button
+                onClick={() => regenerateMutation.mutate(regenerateCode)}
+                disabled={regenerateCode.length !== 6 || regenerateMutation.isPending}
+                className="w-full glass-input text-white"
+                variant="outline"
+                data-testid="button-regenerate-recovery-codes"
+              >
+                {regenerateMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin ml-2" />
+                ) : (
+                  <KeyRound className="w-4 h-4 ml-2" />
+                )}
+                إنشاء رموز استرداد جديدة
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {user.totpEnabled && !isRequired && (
+          <Card className="glass-card border-white/10">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <ShieldOff className="w-5 h-5" />
+                تعطيل التحقق بخطوتين
+              </CardTitle>
+              <CardDescription>أدخل كلمة المرور الحالية ورمزاً من تطبيق المصادقة أو رمز استرداد للتأكيد</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                type="password"
+                value={disablePassword}
+                onChange={(e) => setDisablePassword(e.target.value)}
+                placeholder="كلمة المرور الحالية"
+                className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                data-testid="input-disable-password"
+              />
+              <Input
+                value={disableCode}
+                onChange={(e) => setDisableCode(e.target.value)}
+                placeholder="رمز التحقق أو رمز الاسترداد"
+                autoComplete="one-time-code"
+                dir="ltr"
+                className="glass-input h-12 rounded-xl text-white placeholder:text-muted-foreground"
+                data-testid="input-disable-code"
+              />
+              <Button
+                onClick={() => disableMutation.mutate({ password: disablePassword, code: disableCode })}
+                disabled={!disablePassword || !disableCode.trim() || disableMutation.isPending}
+                className="w-full bg-red-600 hover:bg-red-700"
+                data-testid="button-disable-two-factor"
+              >
+                {disableMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin ml-2" />
+                ) : (
+                  <ShieldOff className="w-4 h-4 ml-2" />
+                )}
+                تعطيل
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </motion.div>
+
+      <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">إعداد التحقق بخطوتين</DialogTitle>
+          </DialogHeader>
+          {isSetupOpen && (
+            <TwoFactorSetup
+              onComplete={async () => {
+                setIsSetupOpen(false);
+                await refetchUser();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newRecoveryCodes} onOpenChange={(open) => !open && setNewRecoveryCodes(null)}>
+        <DialogContent className="glass border-white/10 sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl">رموز الاسترداد الجديدة</DialogTitle>
+          </DialogHeader>
+          <p className="text-muted-foreground text-sm">
+            احفظ هذه الرموز في مكان آمن. لن تظهر مرة أخرى.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 rounded-xl glass-input font-mono text-white text-center" dir="ltr">
+            {newRecoveryCodes?.map((code) => <span key={code}>{code}</span>)}
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => {
+              navigator.clipboard.writeText((newRecoveryCodes || []).join("\n"));
+              toast({ title: "تم النسخ", description: "تم نسخ رموز الاسترداد" });
+            }}
+            className="glass-input text-white"
+          >
+            <Copy className="w-4 h-4 ml-2" />
+            نسخ الرموز
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
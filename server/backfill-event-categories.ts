@@ -0,0 +1,41 @@
+import { db } from "./db";
+import { eventCategories, events, guests } from "@shared/schema";
+import { defaultEventCategories } from "@shared/categories";
+
+// One-off: gives events created before categories were configurable the default categories,
+// and adds a category for any other key their guests still carry, so every guest shows under
+// a defined category. Safe to run again.
+async function backfill() {
+  console.log("Adding guest categories to existing events...");
+
+  const allEvents = await db.select({ id: events.id }).from(events);
+  const existing = await db.select({ eventId: eventCategories.eventId, key: eventCategories.key }).from(eventCategories);
+  const used = await db.selectDistinct({ eventId: guests.eventId, category: guests.category }).from(guests);
+
+  const defined = new Set(existing.map((c) => `${c.eventId}:${c.key}`));
+  let seeded = 0;
+  let added = 0;
+
+  for (const event of allEvents) {
+    if (existing.some((c) => c.eventId === event.id)) continue;
+    await db.insert(eventCategories).values(defaultEventCategories.map((c) => ({ ...c, eventId: event.id })));
+    defaultEventCategories.forEach((c) => defined.add(`${event.id}:${c.key}`));
+    seeded++;
+  }
+
+  for (const { eventId, category } of used) {
+    if (!category || defined.has(`${eventId}:${category}`)) continue;
+    await db.insert(eventCategories).values({ eventId, key: category, label: category, color: "#64748B", sortOrder: 100 });
+    defined.add(`${eventId}:${category}`);
+    added++;
+  }
+
+  console.log(`Checked ${allEvents.length} events: ${seeded} given the default categories, ${added} categories added for other keys.`);
+  console.log("Backfill complete!");
+  process.exit(0);
+}
+
+backfill().catch((err) => {
+  console.error("Backfill failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { eq, isNotNull } from "drizzle-orm";
+import { db } from "./db";
+import { guests } from "@shared/schema";
+import { parsePhone } from "@shared/phone";
+
+// One-off: rewrites guest phone numbers saved before normalization in E.164. Numbers that
+// cannot be read are left as they are and listed so they can be fixed by hand. Safe to run again.
+async function backfill() {
+  console.log("Normalizing guest phone numbers...");
+
+  const rows = await db
+    .select({ id: guests.id, eventId: guests.eventId, name: guests.name, phone: guests.phone })
+    .from(guests)
+    .where(isNotNull(guests.phone));
+
+  let updated = 0;
+  let cleared = 0;
+  const invalid: typeof rows = [];
+
+  for (const row of rows) {
+    const parsed = parsePhone(row.phone);
+    if ("error" in parsed) {
+      invalid.push(row);
+    } else if (parsed.phone !== row.phone) {
+      await db.update(guests).set({ phone: parsed.phone }).where(eq(guests.id, row.id));
+      if (parsed.phone) updated++;
+      else cleared++;
+    }
+  }
+
+  console.log(`Checked ${rows.length} guests: ${updated} normalized, ${cleared} blank numbers cleared.`);
+  if (invalid.length > 0) {
+    console.log(`${invalid.length} numbers could not be read and were left unchanged:`);
+    for (const row of invalid) {
+      console.log(`  - event ${row.eventId} / guest ${row.id} (${row.name}): ${row.phone}`);
+    }
+  }
+
+  console.log("Backfill complete!");
+  process.exit(0);
+}
+
+backfill().catch((err) => {
+  console.error("Backfill failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+import { isNull } from "drizzle-orm";
+import { db } from "./db";
+import { eventSigningKeys, events } from "@shared/schema";
+import { generateSigningKey } from "./qr-signing";
+
+// One-off: events created before signing keys came with the event got theirs on the first QR
+// export. Gives every event without an active key its first one. Safe to run again.
+async function backfill() {
+  console.log("Adding QR signing keys to existing events...");
+
+  const allEvents = await db.select({ id: events.id }).from(events);
+  const active = await db
+    .select({ eventId: eventSigningKeys.eventId })
+    .from(eventSigningKeys)
+    .where(isNull(eventSigningKeys.retiredAt));
+  const withKey = new Set(active.map((k) => k.eventId));
+
+  let added = 0;
+  for (const event of allEvents) {
+    if (withKey.has(event.id)) continue;
+    await db.insert(eventSigningKeys).values({ eventId: event.id, ...generateSigningKey() });
+    added++;
+  }
+
+  console.log(`Checked ${allEvents.length} events: ${added} given a signing key.`);
+  console.log("Backfill complete!");
+  process.exit(0);
+}
+
+backfill().catch((err) => {
+  console.error("Backfill failed:", err);
+  process.exit(1);
+});
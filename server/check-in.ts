@@ -0,0 +1,325 @@
+import { createHash } from "crypto";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import type { Event, EventGate, EventSession, Guest, User } from "@shared/schema";
+import { arrivedHeadcount, occupancyOf, remainingCompanions } from "@shared/headcount";
+import { canEnterGate, gateRefusalMessage } from "@shared/gates";
+import { checkInRefusal } from "@shared/event-lifecycle";
+
+// Check-in service shared by every online check-in and check-out route. Admission is a conditional update,
+// so when two devices scan the same invitation at once only one of them gets "success".
+// Requests that carry an Idempotency-Key are answered once; a retry with the same key gets
+// the stored answer back instead of "duplicate".
+
+export interface CheckInOutcome {
+  httpStatus: number;
+  body: Record<string, unknown>;
+  replayed?: boolean;
+}
+
+const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+// Companions still outstanding are reported so the door can admit them with an explicit count
+async function duplicateOutcome(guest: Guest): Promise<CheckInOutcome> {
+  const checkedInByUser = guest.checkedInBy ? await storage.getUser(guest.checkedInBy) : null;
+  const companionsRemaining = remainingCompanions(guest);
+  return {
+    httpStatus: 200,
+    body: {
+      status: "duplicate",
+      guest,
+      message: companionsRemaining
+        ? `تم استخدام هذه الدعوة مسبقاً! لم يدخل بعد ${companionsRemaining} من المرافقين`
+        : "تم استخدام هذه الدعوة مسبقاً!",
+      checkedInAt: guest.checkedInAt,
+      checkedInBy: checkedInByUser?.name || "غير معروف",
+      companionsRemaining,
+    },
+  };
+}
+
+async function recordMovement(
+  guest: Guest,
+  user: User,
+  direction: "entry" | "exit",
+  people: number,
+  gate?: EventGate | null
+) {
+  await storage.createGuestMovement({
+    eventId: guest.eventId,
+    guestId: guest.id,
+    direction,
+    people,
+    userId: user.id,
+    gateId: gate?.id ?? null,
+  });
+}
+
+type GateCheck = { gate: EventGate | null; refusal?: CheckInOutcome };
+
+// An organizer assigned to a gate only lets in guests that gate admits; everyone else
+// (unassigned organizers, managers) works as "any gate"
+export async function checkGateAccess(guest: Guest, event: Event, user: User): Promise<GateCheck> {
+  const gate = (await storage.getOrganizerGate(event.id, user.id)) ?? null;
+  if (!gate) return { gate };
+
+  const override = await storage.getGateOverride(gate.id, guest.id);
+  const categories = await storage.getEventCategories(event.id);
+  if (canEnterGate(gate, guest, categories, override?.allowed)) return { gate };
+
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "check_in_denied_zone",
+    details: `رفض دخول ${guest.name} من ${gate.name}`,
+    guestId: guest.id,
+  });
+  return {
+    gate,
+    refusal: {
+      httpStatus: 403,
+      body: { status: "not_allowed", guest, gate, message: gateRefusalMessage(gate) },
+    },
+  };
+}
+
+// Why the event takes no check-ins right now (draft, closed, or outside its check-in window),
+// or null. Sessions are only loaded when the event's own schedule would refuse the scan.
+export async function checkInWindowRefusal(event: Event, now: Date = new Date()): Promise<string | null> {
+  if (!checkInRefusal(event, now)) return null;
+  return checkInRefusal(event, now, await storage.getEventSessions(event.id));
+}
+
+async function windowOutcome(guest: Guest, event: Event): Promise<CheckInOutcome | null> {
+  const message = await checkInWindowRefusal(event);
+  return message ? { httpStatus: 403, body: { status: "closed", guest, message } } : null;
+}
+
+// Only events with a venue limit pay for the occupancy count on every scan
+async function withOccupancy(event: Event, outcome: CheckInOutcome): Promise<CheckInOutcome> {
+  if (!event.occupancyLimit) return outcome;
+  const occupancy = occupancyOf(event, await storage.getGuestsByEvent(event.id));
+  return { ...outcome, body: { ...outcome.body, occupancy } };
+}
+
+function success(guest: Guest, message: string, extra: Record<string, unknown> = {}): CheckInOutcome {
+  return { httpStatus: 200, body: { status: "success", guest, message, ...extra } };
+}
+
+// `companions` is how many companions enter with this scan. On the guest's first admission
+// undefined means all of them; later companions are only admitted with an explicit count, so a
+// repeat scan of the same invitation cannot undo a door correction.
+export async function admitGuest(
+  guest: Guest,
+  event: Event,
+  user: User,
+  auditDetails: string,
+  companions?: number
+): Promise<CheckInOutcome> {
+  const closed = await windowOutcome(guest, event);
+  if (closed) return closed;
+
+  const { gate, refusal } = await checkGateAccess(guest, event, user);
+  if (refusal) return refusal;
+
+  const admitted = await storage.checkInGuestIfPending(guest.id, user.id, undefined, companions);
+  if (admitted) {
+    await recordMovement(admitted, user, "entry", arrivedHeadcount(admitted), gate);
+    await storage.createAuditLog({
+      eventId: guest.eventId,
+      userId: user.id,
+      action: "check_in",
+      details: auditDetails,
+      guestId: guest.id,
+    });
+    return withOccupancy(event, success(admitted, "تم تسجيل الحضور بنجاح"));
+  }
+
+  // In check-out mode a guest who stepped out comes back in on the same invitation
+  if (event.trackExits && guest.isCheckedIn && !guest.isInside) {
+    const returned = await storage.setGuestInside(guest.id, true);
+    if (returned) {
+      await recordMovement(returned, user, "entry", arrivedHeadcount(returned), gate);
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "re_entry",
+        details: `إعادة دخول: ${guest.name}`,
+        guestId: guest.id,
+      });
+      return withOccupancy(event, success(returned, "تم تسجيل إعادة الدخول", { direction: "entry" }));
+    }
+  }
+
+  // The guest is already in; companions who arrive later enter on the same code
+  const late = companions ? await storage.admitRemainingCompanions(guest.id, companions) : undefined;
+  if (late) {
+    const entered = late.companionsCheckedIn - guest.companionsCheckedIn;
+    if (late.isInside) {
+      await recordMovement(late, user, "entry", entered, gate);
+    }
+    await storage.createAuditLog({
+      eventId: guest.eventId,
+      userId: user.id,
+      action: "check_in_companions",
+      details: `دخول ${entered} من مرافقي ${guest.name} (${late.companionsCheckedIn} من ${late.companions || 0})`,
+      guestId: guest.id,
+    });
+    return withOccupancy(
+      event,
+      success(late, `تم تسجيل دخول ${entered} من المرافقين`, { companionsAdmitted: entered })
+    );
+  }
+
+  // Lost the race (or was already admitted): report whoever got there first
+  return duplicateOutcome((await storage.getGuest(guest.id)) ?? guest);
+}
+
+// Check-out mode only: the guest's party leaves the venue and may come back later
+export async function checkOutGuest(guest: Guest, event: Event, user: User): Promise<CheckInOutcome> {
+  if (!event.trackExits) {
+    return { httpStatus: 400, body: { status: "invalid", message: "تسجيل الخروج غير مفعل لهذه المناسبة" } };
+  }
+  if (!guest.isCheckedIn) {
+    return { httpStatus: 400, body: { status: "invalid", guest, message: "لم يتم تسجيل دخول هذا الضيف" } };
+  }
+
+  const left = await storage.setGuestInside(guest.id, false);
+  if (!left) {
+    return { httpStatus: 200, body: { status: "duplicate", guest, direction: "exit", message: "تم تسجيل خروج الضيف مسبقاً" } };
+  }
+
+  const gate = await storage.getOrganizerGate(event.id, user.id);
+  await recordMovement(left, user, "exit", arrivedHeadcount(left), gate);
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "check_out",
+    details: `تسجيل خروج: ${guest.name}`,
+    guestId: guest.id,
+  });
+  return withOccupancy(event, success(left, "تم تسجيل الخروج", { direction: "exit" }));
+}
+
+// Admission to one session of a multi-session event. A guest who has not come through the
+// main entrance yet is admitted to the event by the same scan.
+export async function admitToSession(
+  guest: Guest,
+  event: Event,
+  session: EventSession,
+  user: User
+): Promise<CheckInOutcome> {
+  if (guest.eventId !== session.eventId) {
+    return { httpStatus: 400, body: { status: "invalid", message: "هذا الكود ليس لهذه المناسبة" } };
+  }
+
+  const closed = await windowOutcome(guest, event);
+  if (closed) return closed;
+
+  let current = guest;
+  if (!guest.isCheckedIn) {
+    const { gate, refusal } = await checkGateAccess(guest, event, user);
+    if (refusal) return refusal;
+
+    const admitted = await storage.checkInGuestIfPending(guest.id, user.id);
+    if (admitted) {
+      await recordMovement(admitted, user, "entry", arrivedHeadcount(admitted), gate);
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "check_in",
+        details: `تم تسجيل حضور عند دخول جلسة ${session.name}: ${guest.name}`,
+        guestId: guest.id,
+      });
+    }
+    current = admitted ?? (await storage.getGuest(guest.id)) ?? guest;
+  }
+
+  const admission = await storage.admitToSession(session.id, guest.id, arrivedHeadcount(current), user.id);
+  switch (admission.status) {
+    case "not_found":
+      return { httpStatus: 404, body: { status: "invalid", message: "الجلسة غير موجودة" } };
+    case "full":
+      return { httpStatus: 409, body: { status: "invalid", guest: current, session, message: "اكتملت سعة الجلسة" } };
+    case "duplicate": {
+      const by = admission.attendance.checkedInBy ? await storage.getUser(admission.attendance.checkedInBy) : null;
+      return {
+        httpStatus: 200,
+        body: {
+          status: "duplicate",
+          guest: current,
+          session,
+          message: "تم تسجيل دخول الضيف لهذه الجلسة مسبقاً",
+          checkedInAt: admission.attendance.checkedInAt,
+          checkedInBy: by?.name || "غير معروف",
+        },
+      };
+    }
+  }
+
+  await storage.createAuditLog({
+    eventId: guest.eventId,
+    userId: user.id,
+    action: "session_check_in",
+    details: `دخول جلسة ${session.name}: ${guest.name}`,
+    guestId: guest.id,
+  });
+  return withOccupancy(event, success(current, `تم تسجيل الدخول لجلسة ${session.name}`, { session }));
+}
+
+function requestHash(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${req.path} ${JSON.stringify(req.body ?? {})}`)
+    .digest("hex");
+}
+
+// Runs `run` at most once per (user, Idempotency-Key). Requests without the header run as-is.
+export async function runIdempotentCheckIn(
+  req: Request,
+  userId: string,
+  run: () => Promise<CheckInOutcome>
+): Promise<CheckInOutcome> {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) return run();
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return { httpStatus: 400, body: { status: "invalid", message: "مفتاح الطلب غير صالح" } };
+  }
+
+  const hash = requestHash(req);
+  const reservation = await storage.reserveCheckInRequest(userId, key, hash);
+  if (!reservation) {
+    const existing = await storage.getCheckInRequest(userId, key);
+    if (!existing || existing.requestHash !== hash) {
+      return { httpStatus: 422, body: { status: "invalid", message: "مفتاح الطلب مستخدم مسبقاً لطلب مختلف" } };
+    }
+    if (existing.responseStatus === null) {
+      return { httpStatus: 409, body: { status: "invalid", message: "الطلب قيد المعالجة، حاول مرة أخرى" } };
+    }
+    return {
+      httpStatus: existing.responseStatus,
+      body: existing.response ?? {},
+      replayed: true,
+    };
+  }
+
+  let outcome: CheckInOutcome;
+  try {
+    outcome = await run();
+  } catch (error) {
+    // Nothing was answered, so let the client retry with the same key
+    await storage.deleteCheckInRequest(reservation.id);
+    throw error;
+  }
+
+  const guestId = (outcome.body.guest as Guest | undefined)?.id ?? null;
+  await storage.completeCheckInRequest(reservation.id, guestId, outcome.httpStatus, outcome.body);
+  return outcome;
+}
+
+export function sendCheckInOutcome(res: Response, outcome: CheckInOutcome) {
+  if (outcome.replayed) {
+    res.setHeader("Idempotent-Replayed", "true");
+  }
+  res.status(outcome.httpStatus).json(outcome.body);
+}
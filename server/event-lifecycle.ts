@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { eventStatusLabels, scheduledStatus } from "@shared/event-lifecycle";
+
+// Moves events along their lifecycle as check-in windows open and close. Runs in the web
+// process; a tick that fails is logged and retried on the next one.
+
+const TICK_MS = 60_000;
+
+export async function applyScheduledTransitions(now: Date = new Date()): Promise<void> {
+  const candidates = await storage.getEventsByStatus(["published", "live", "closed"]);
+
+  for (const event of candidates) {
+    // Sessions can only push the window later, so they are loaded only for events the
+    // event's own schedule would move
+    if (scheduledStatus(event, now) === event.status) continue;
+    const next = scheduledStatus(event, now, await storage.getEventSessions(event.id));
+    if (next === event.status) continue;
+
+    const moved = await storage.transitionEventStatus(event.id, event.status, next);
+    if (!moved) continue;
+
+    await storage.createAuditLog({
+      eventId: event.id,
+      userId: event.eventManagerId,
+      action: "event_status_auto",
+      details: `تغيرت حالة المناسبة تلقائياً من ${eventStatusLabels[event.status]} إلى ${eventStatusLabels[next]}`,
+    });
+  }
+}
+
+export function startEventLifecycleScheduler(): void {
+  const tick = () =>
+    applyScheduledTransitions().catch((error) => {
+      console.error("Event lifecycle transition error:", error);
+    });
+
+  tick();
+  setInterval(tick, TICK_MS).unref();
+}
@@ -0,0 +1,272 @@
+import * as XLSX from "xlsx";
+import {
+  guestImportFields,
+  MAX_COMPANIONS,
+  type EventCategory,
+  type EventGuestField,
+  type Guest,
+  type GuestCustomFieldValues,
+  type GuestImport,
+  type GuestImportDuplicatePolicy,
+  type GuestImportField,
+  type GuestImportPreview,
+  type GuestImportRejection,
+  type GuestImportRowPreview,
+  type GuestImportSourceRow,
+  type InsertGuest,
+} from "@shared/schema";
+import { parseImportCategory } from "@shared/guest-import";
+import { DuplicateIndex, duplicateReasonLabels, type DuplicateCandidate } from "@shared/guest-duplicates";
+import { parsePhone } from "@shared/phone";
+import { parseCustomFieldValue } from "@shared/custom-fields";
+import { defaultCategoryKey } from "@shared/categories";
+
+// Two-step guest import: the uploaded sheet is staged in guest_imports, validated against
+// the chosen column mapping for the preview, and only turned into guests on commit.
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 1000;
+
+export interface ParsedGuestSheet {
+  sheets: string[];
+  sheet: string;
+  columns: string[];
+  rows: GuestImportSourceRow[];
+}
+
+function hasData(cells: unknown[]): boolean {
+  return cells.some((cell) => String(cell ?? "").trim() !== "");
+}
+
+// Reads the requested sheet, or the first one with data. The first non-empty row holds the
+// column headers; blank or repeated headers get a unique name.
+export function parseGuestSheet(buffer: Buffer, requestedSheet?: string): ParsedGuestSheet | { error: string } {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: "buffer" });
+  } catch {
+    return { error: "تعذر قراءة الملف، تأكد أنه ملف Excel أو CSV" };
+  }
+
+  const readTable = (name: string) =>
+    XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: "", raw: false, blankrows: true });
+
+  const sheetName = requestedSheet ?? workbook.SheetNames.find((name) => readTable(name).some(hasData));
+  if (!sheetName || !workbook.SheetNames.includes(sheetName)) {
+    return { error: requestedSheet ? "الورقة غير موجودة في الملف" : "الملف فارغ" };
+  }
+
+  const sheet = workbook.Sheets[sheetName];
+  const firstRow = sheet["!ref"] ? XLSX.utils.decode_range(sheet["!ref"]).s.r : 0;
+  const table = readTable(sheetName);
+  const headerIndex = table.findIndex(hasData);
+  if (headerIndex === -1) {
+    return { error: "الورقة المختارة فارغة" };
+  }
+
+  const seen = new Map<string, number>();
+  const columns = table[headerIndex].map((cell, i) => {
+    const header = String(cell ?? "").trim() || `عمود ${i + 1}`;
+    const count = seen.get(header) ?? 0;
+    seen.set(header, count + 1);
+    return count ? `${header} (${count + 1})` : header;
+  });
+
+  const rows = table
+    .slice(headerIndex + 1)
+    .map((cells, i) => ({
+      // Excel row numbers are 1-based and the header sits above the first data row
+      row: firstRow + headerIndex + i + 2,
+      cells: columns.map((_, c) => String(cells[c] ?? "").trim()),
+    }))
+    .filter((row) => hasData(row.cells));
+
+  if (rows.length === 0) {
+    return { error: "لا توجد بيانات تحت عناوين الأعمدة" };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `يحتوي الملف على ${rows.length} صف، والحد الأقصى ${MAX_IMPORT_ROWS} صف في الاستيراد الواحد` };
+  }
+  return { sheets: workbook.SheetNames, sheet: sheetName, columns, rows };
+}
+
+// Validates every staged row against the import's mapping. A row that looks like a guest
+// already in the event, or like an earlier valid row, is flagged as a duplicate
+// (see shared/guest-duplicates.ts for what counts as the same person).
+export function validateGuestRows(
+  guestImport: GuestImport,
+  existingGuests: Guest[],
+  customFields: EventGuestField[],
+  categories: EventCategory[]
+): GuestImportRowPreview[] {
+  const columnIndex = Object.fromEntries(
+    guestImportFields.map((field) => {
+      const column = guestImport.mapping[field];
+      return [field, column === null ? -1 : guestImport.columns.indexOf(column)];
+    })
+  ) as Record<GuestImportField, number>;
+  const cell = (row: GuestImportSourceRow, field: GuestImportField) =>
+    columnIndex[field] === -1 ? "" : row.cells[columnIndex[field]] ?? "";
+  const customColumns = customFields.map((field) => {
+    const column = guestImport.mapping.custom?.[field.id];
+    return { field, index: column ? guestImport.columns.indexOf(column) : -1 };
+  });
+
+  const existing = new DuplicateIndex<DuplicateCandidate & { id: string }>(existingGuests);
+  const earlierRows = new DuplicateIndex<DuplicateCandidate & { row: number }>();
+
+  return guestImport.rows.map((source) => {
+    const errors: string[] = [];
+
+    const name = cell(source, "name").replace(/\s+/g, " ");
+    if (!name) errors.push("الاسم مطلوب");
+    else if (name.length > MAX_NAME_LENGTH) errors.push("الاسم طويل جداً");
+
+    const rawPhone = cell(source, "phone");
+    const parsedPhone = parsePhone(rawPhone);
+    const phone = "phone" in parsedPhone ? parsedPhone.phone : null;
+    if ("error" in parsedPhone) errors.push(`رقم الجوال غير صالح: ${rawPhone}`);
+
+    const rawCategory = cell(source, "category");
+    const category = parseImportCategory(rawCategory, categories);
+    if (category === undefined) errors.push(`فئة غير معروفة: ${rawCategory}`);
+
+    const rawCompanions = cell(source, "companions");
+    const companions = rawCompanions === "" ? 0 : Number(rawCompanions);
+    const companionsValid = Number.isInteger(companions) && companions >= 0 && companions <= MAX_COMPANIONS;
+    if (!companionsValid) errors.push(`عدد المرافقين غير صالح: ${rawCompanions}`);
+
+    const notes = cell(source, "notes");
+    if (notes.length > MAX_NOTES_LENGTH) errors.push("الملاحظات طويلة جداً");
+
+    const customValues: GuestCustomFieldValues = {};
+    for (const { field, index } of customColumns) {
+      const parsed = parseCustomFieldValue(field, index === -1 ? "" : source.cells[index] ?? "");
+      if ("error" in parsed) errors.push(parsed.error);
+      else if (parsed.value !== undefined) customValues[field.id] = parsed.value;
+      else if (field.required) errors.push(`${field.label} مطلوب`);
+    }
+
+    let duplicateOf: string | null = null;
+    let duplicateGuestId: string | null = null;
+    if (errors.length === 0) {
+      const candidate = { name, phone };
+      const guestMatch = existing.find(candidate);
+      const rowMatch = guestMatch ? null : earlierRows.find(candidate);
+      if (guestMatch) {
+        duplicateOf = `${duplicateReasonLabels[guestMatch.reason]} لضيف مسجل: ${guestMatch.guest.name}`;
+        duplicateGuestId = guestMatch.guest.id;
+      } else if (rowMatch) {
+        duplicateOf = `${duplicateReasonLabels[rowMatch.reason]} في الصف ${rowMatch.guest.row}`;
+      } else {
+        earlierRows.add({ ...candidate, row: source.row });
+      }
+    }
+
+    return {
+      row: source.row,
+      values: {
+        name,
+        phone,
+        category: category ?? defaultCategoryKey(categories),
+        companions: companionsValid ? companions : 0,
+        notes: notes || null,
+        customFields: customValues,
+      },
+      errors,
+      duplicateOf,
+      duplicateGuestId,
+    };
+  });
+}
+
+export function buildImportPreview(
+  guestImport: GuestImport,
+  rows: GuestImportRowPreview[],
+  remainingCapacity: number | null
+): GuestImportPreview {
+  const invalid = rows.filter((r) => r.errors.length > 0).length;
+  const duplicates = rows.filter((r) => r.errors.length === 0 && r.duplicateOf).length;
+  return {
+    id: guestImport.id,
+    fileName: guestImport.fileName,
+    sheet: guestImport.sheet,
+    sheets: guestImport.sheets,
+    columns: guestImport.columns,
+    mapping: guestImport.mapping,
+    status: guestImport.status,
+    rows,
+    summary: { total: rows.length, valid: rows.length - invalid - duplicates, invalid, duplicates },
+    remainingCapacity,
+  };
+}
+
+export interface GuestImportPlan {
+  create: GuestImportRowPreview[];
+  update: GuestImportRowPreview[];
+  rejected: GuestImportRejection[];
+}
+
+// Splits the validated rows by what commit does with them. Invalid rows are always left out.
+// A row repeating an earlier row of the same file has no guest to update, so only the
+// "duplicate" policy imports it.
+export function planGuestImport(rows: GuestImportRowPreview[], policy: GuestImportDuplicatePolicy): GuestImportPlan {
+  const plan: GuestImportPlan = { create: [], update: [], rejected: [] };
+  for (const r of rows) {
+    if (r.errors.length > 0) {
+      plan.rejected.push({ row: r.row, reason: r.errors.join("، ") });
+    } else if (!r.duplicateOf || policy === "duplicate") {
+      plan.create.push(r);
+    } else if (policy === "update" && r.duplicateGuestId) {
+      plan.update.push(r);
+    } else {
+      plan.rejected.push({ row: r.row, reason: `مكرر: ${r.duplicateOf}` });
+    }
+  }
+  return plan;
+}
+
+export function toInsertGuest(eventId: string, row: GuestImportRowPreview, qrCode: string): InsertGuest {
+  return { eventId, ...row.values, qrCode };
+}
+
+// The values an "update" row writes over the matched guest: only the mapped columns, and never
+// the name, which may differ slightly when the match was by name. An empty phone cell keeps
+// the guest's phone; mapped custom fields are written over the guest's other custom values.
+export function toGuestUpdate(guestImport: GuestImport, row: GuestImportRowPreview, guest: Guest): Partial<InsertGuest> {
+  const { mapping } = guestImport;
+  const update: Partial<InsertGuest> = {};
+  if (mapping.phone && row.values.phone) update.phone = row.values.phone;
+  if (mapping.category) update.category = row.values.category;
+  if (mapping.companions) update.companions = row.values.companions;
+  if (mapping.notes) update.notes = row.values.notes;
+
+  const mappedCustom = Object.entries(mapping.custom ?? {}).filter(([, column]) => column);
+  if (mappedCustom.length > 0) {
+    const customFields = { ...guest.customFields };
+    for (const [fieldId] of mappedCustom) {
+      if (fieldId in row.values.customFields) customFields[fieldId] = row.values.customFields[fieldId];
+      else delete customFields[fieldId];
+    }
+    update.customFields = customFields;
+  }
+  return update;
+}
+
+// The rejected rows as uploaded, with their row number and the reason in extra columns
+export function rejectedRowsWorkbook(guestImport: GuestImport, rejections: GuestImportRejection[]): Buffer {
+  const reasons = new Map(rejections.map((r) => [r.row, r.reason]));
+  const data = [
+    ["رقم الصف", ...guestImport.columns, "سبب الرفض"],
+    ...guestImport.rows
+      .filter((r) => reasons.has(r.row))
+      .map((r) => [r.row, ...r.cells, reasons.get(r.row)!]),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet["!cols"] = [{ wch: 10 }, ...guestImport.columns.map(() => ({ wch: 20 })), { wch: 50 }];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "الصفوف المرفوضة");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
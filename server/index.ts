@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startEventLifecycleScheduler } from "./event-lifecycle";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -50,7 +51,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Routes returning secrets (reset links, 2FA material) set res.locals.redactLog
+      if (capturedJsonResponse && !res.locals.redactLog) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -95,6 +97,7 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startEventLifecycleScheduler();
     },
   );
 })();
@@ -0,0 +1,82 @@
+// Brute-force protection for /api/auth/login.
+// Account failures are persisted on the user row; IP failures are tracked in memory.
+
+// Account lockout: every MAX_ACCOUNT_FAILURES consecutive failures locks the
+// account, doubling the lock duration each time up to MAX_LOCK_MS
+const MAX_ACCOUNT_FAILURES = 5;
+const BASE_LOCK_MS = 5 * 60 * 1000;
+const MAX_LOCK_MS = 60 * 60 * 1000;
+
+// IP blocking: MAX_IP_FAILURES failures within IP_WINDOW_MS blocks the IP for IP_BLOCK_MS
+const MAX_IP_FAILURES = 20;
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const IP_BLOCK_MS = 15 * 60 * 1000;
+
+// Progressive delay applied to failed attempts after the first few
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+
+interface IpFailureRecord {
+  count: number;
+  windowStart: number;
+  blockedUntil?: number;
+}
+
+const ipFailures = new Map<string, IpFailureRecord>();
+
+// Returns the date until which the IP is blocked, or null if it may attempt a login
+export function getIpBlockedUntil(ip: string): Date | null {
+  const record = ipFailures.get(ip);
+  if (!record) return null;
+
+  const now = Date.now();
+  if (record.blockedUntil && record.blockedUntil > now) {
+    return new Date(record.blockedUntil);
+  }
+  if (now - record.windowStart > IP_WINDOW_MS) {
+    ipFailures.delete(ip);
+  }
+  return null;
+}
+
+// Records a failed attempt for the IP and returns the failure count in the current window
+export function recordIpFailure(ip: string): number {
+  const now = Date.now();
+  let record = ipFailures.get(ip);
+  if (!record || now - record.windowStart > IP_WINDOW_MS) {
+    record = { count: 0, windowStart: now };
+    ipFailures.set(ip, record);
+  }
+
+  record.count++;
+  if (record.count >= MAX_IP_FAILURES) {
+    record.blockedUntil = now + IP_BLOCK_MS;
+  }
+  return record.count;
+}
+
+// Returns the lock expiry for an account that has just reached the given failure count,
+// or null if this failure does not trigger a lock
+export function getAccountLockUntil(failedAttempts: number): Date | null {
+  if (failedAttempts < MAX_ACCOUNT_FAILURES || failedAttempts % MAX_ACCOUNT_FAILURES !== 0) {
+    return null;
+  }
+  const lockNumber = failedAttempts / MAX_ACCOUNT_FAILURES - 1;
+  const duration = Math.min(BASE_LOCK_MS * 2 ** lockNumber, MAX_LOCK_MS);
+  return new Date(Date.now() + duration);
+}
+
+export function getLoginDelay(failedAttempts: number): number {
+  if (failedAttempts <= FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failedAttempts - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function formatLockoutMessage(until: Date): string {
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+  return `تم إيقاف تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة. حاول مرة أخرى بعد ${minutes} دقيقة`;
+}
@@ -0,0 +1,85 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+
+// Stored format: scrypt$<version>$<N>$<r>$<p>$<salt-hex>$<hash-hex>
+// Legacy format: 64-char unsalted SHA-256 hex digest
+const HASH_SCHEME = "scrypt";
+const HASH_VERSION = "v1";
+
+const SCRYPT_PARAMS = {
+  N: 16384,
+  r: 8,
+  p: 1,
+};
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+function deriveKey(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 128 * N * r * 2 }, (err, key) => {
+      if (err) return reject(err);
+      resolve(key);
+    });
+  });
+}
+
+// Checked when the username does not exist, so a login takes as long whether or not the
+// account is there. No password derives to an all-zero key.
+export const DUMMY_PASSWORD_HASH = [
+  HASH_SCHEME,
+  HASH_VERSION,
+  SCRYPT_PARAMS.N,
+  SCRYPT_PARAMS.r,
+  SCRYPT_PARAMS.p,
+  "0".repeat(SALT_LENGTH * 2),
+  "0".repeat(KEY_LENGTH * 2),
+].join("$");
+
+// Hash a password with a fresh random salt using the current scheme
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const key = await deriveKey(password, salt, N, r, p);
+  return [HASH_SCHEME, HASH_VERSION, N, r, p, salt.toString("hex"), key.toString("hex")].join("$");
+}
+
+// Verify a password against a stored hash (current or legacy format).
+// needsRehash is true when the stored hash should be upgraded after a successful check.
+export async function verifyPassword(password: string, stored: string): Promise<PasswordVerification> {
+  if (LEGACY_SHA256_PATTERN.test(stored)) {
+    const legacy = createHash("sha256").update(password).digest();
+    const valid = timingSafeEqual(legacy, Buffer.from(stored, "hex"));
+    return { valid, needsRehash: valid };
+  }
+
+  const parts = stored.split("$");
+  if (parts.length !== 7 || parts[0] !== HASH_SCHEME) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const [, version, nStr, rStr, pStr, saltHex, hashHex] = parts;
+  const N = parseInt(nStr, 10);
+  const r = parseInt(rStr, 10);
+  const p = parseInt(pStr, 10);
+  if (!N || !r || !p) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const key = await deriveKey(password, Buffer.from(saltHex, "hex"), N, r, p);
+  const valid = key.length === expected.length && timingSafeEqual(key, expected);
+
+  const outdated =
+    version !== HASH_VERSION ||
+    N !== SCRYPT_PARAMS.N ||
+    r !== SCRYPT_PARAMS.r ||
+    p !== SCRYPT_PARAMS.p;
+
+  return { valid, needsRehash: valid && outdated };
+}
@@ -0,0 +1,35 @@
+import { generateKeyPairSync, createPrivateKey, createPublicKey, sign, verify, randomBytes } from "crypto";
+import { signedQrMessage, type SignedQrPayload } from "@shared/signed-qr";
+
+// Per-event Ed25519 keys for invitation QR codes. The public half is published to organizer
+// devices as a raw base64url key (JWK "x"), so browsers can verify with WebCrypto offline.
+
+export interface GeneratedSigningKey {
+  kid: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export function generateSigningKey(): GeneratedSigningKey {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  return {
+    kid: randomBytes(4).toString("hex"),
+    publicKey: publicKey.export({ format: "jwk" }).x!,
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+  };
+}
+
+export function signAccessCode(kid: string, privateKeyPem: string, code: string): string {
+  const message = signedQrMessage(kid, code);
+  const signature = sign(null, Buffer.from(message), createPrivateKey(privateKeyPem));
+  return `${message}.${signature.toString("base64url")}`;
+}
+
+export function verifySignedPayload(payload: SignedQrPayload, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: publicKey }, format: "jwk" });
+    return verify(null, Buffer.from(payload.message), key, Buffer.from(payload.signature, "base64url"));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,31 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import type { User } from "@shared/schema";
+
+// Delivers password reset links to users. Only a local log file exists today; an SMS or
+// WhatsApp channel can be added by implementing this interface and registering it below.
+export interface ResetLinkChannel {
+  name: string;
+  label: string;
+  deliver(user: User, link: string, expiresAt: Date): Promise<void>;
+}
+
+const RESET_LOG_FILE = process.env.PASSWORD_RESET_LOG_FILE || path.resolve("logs", "password-resets.log");
+
+const logFileChannel: ResetLinkChannel = {
+  name: "log",
+  label: "ملف السجل المحلي",
+  async deliver(user, link, expiresAt) {
+    await mkdir(path.dirname(RESET_LOG_FILE), { recursive: true });
+    const line = `${new Date().toISOString()}\t${user.username}\t${link}\texpires=${expiresAt.toISOString()}\n`;
+    await appendFile(RESET_LOG_FILE, line, "utf8");
+  },
+};
+
+const channels: Record<string, ResetLinkChannel> = {
+  [logFileChannel.name]: logFileChannel,
+};
+
+export function getResetLinkChannel(): ResetLinkChannel {
+  return channels[process.env.PASSWORD_RESET_CHANNEL || "log"] || logFileChannel;
+}
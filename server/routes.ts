@@ -1,8 +1,48 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
+import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { pool } from "./db";
 import { randomBytes, createHash } from "crypto";
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from "./password";
+import {
+  getIpBlockedUntil,
+  recordIpFailure,
+  getAccountLockUntil,
+  getLoginDelay,
+  delay,
+  formatLockoutMessage,
+} from "./login-throttle";
+import { getResetLinkChannel } from "./reset-delivery";
+import { generateSigningKey, signAccessCode, verifySignedPayload } from "./qr-signing";
+import {
+  admitGuest,
+  checkOutGuest,
+  admitToSession,
+  checkGateAccess,
+  checkInWindowRefusal,
+  runIdempotentCheckIn,
+  sendCheckInOutcome,
+  type CheckInOutcome,
+} from "./check-in";
+import {
+  parseGuestSheet,
+  validateGuestRows,
+  buildImportPreview,
+  planGuestImport,
+  rejectedRowsWorkbook,
+  toInsertGuest,
+  toGuestUpdate,
+} from "./guest-import";
+import {
+  generateTotpSecret,
+  buildOtpAuthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  consumeRecoveryCode,
+} from "./totp";
 
 // Generate a secure, unique 12-character alphanumeric code
 function generateAccessCode(): string {
@@ -15,7 +55,59 @@ function generateAccessCode(): string {
   // Format: XXXX-XXXX-XXXX for readability
   return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8, 12)}`;
 }
-import { insertUserSchema, insertEventSchema } from "@shared/schema";
+import {
+  insertUserSchema,
+  insertEventSchema,
+  twoFactorRoles,
+  checkInSyncSchema,
+  revertCheckInSchema,
+  checkInCompanionsSchema,
+  companionsCountSchema,
+  guestCompanionsSchema,
+  eventSessionSchema,
+  eventGateSchema,
+  gateOverrideSchema,
+  organizerGateSchema,
+  eventStatusSchema,
+  updateEventSchema,
+  guestImportMappingSchema,
+  guestImportCommitSchema,
+  eventGuestFieldSchema,
+  eventCategorySchema,
+  guestImportDuplicatePolicies,
+  mergeGuestsSchema,
+  type CheckInSyncResult,
+  type GuestImport,
+  type GuestImportResult,
+  type User,
+  type Event,
+  type UserSession,
+  type TwoFactorStage,
+  type ApiKey,
+  type Guest,
+  type GateAccess,
+} from "@shared/schema";
+import {
+  permissionDefinitions,
+  editableRoles,
+  resolvePermissionMatrix,
+  getRolePermissions,
+  isPermissionKey,
+  isSuperAdminOnlyPermission,
+  apiKeyPermissionKeys,
+  ORGANIZER_UNDO_WINDOW_MINUTES,
+  type PermissionKey,
+  type PermissionMatrix,
+} from "@shared/permissions";
+import { isSignedQrPayload, parseSignedQrPayload, type EventPublicKeys } from "@shared/signed-qr";
+import { arrivedHeadcount, occupancyOf } from "@shared/headcount";
+import { auditActionLabel } from "@shared/audit-actions";
+import { eventStatusLabels, formatVenueTime, readOnlyEventMessage, statusChangeRefusal } from "@shared/event-lifecycle";
+import { detectImportMapping } from "@shared/guest-import";
+import { DuplicateIndex, duplicateReasonLabels, findDuplicatePairs } from "@shared/guest-duplicates";
+import { parsePhone } from "@shared/phone";
+import { customFieldCells, parseCustomFields } from "@shared/custom-fields";
+import { categoryLabel, defaultCategoryKey, formatCategoryBreakdown } from "@shared/categories";
 import { z } from "zod";
 import multer from "multer";
 import * as XLSX from "xlsx";
@@ -23,22 +115,294 @@ import QRCode from "qrcode";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the auth middleware (requireAuth, requireRole, requirePermission, ...)
+      user?: User;
+      // Set when the request was authenticated with an API key instead of a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
 declare module "express-session" {
   interface SessionData {
     userId: string;
+    // Set after a correct password while the second factor is still outstanding
+    pendingTwoFactorUserId?: string;
+    twoFactorStage?: TwoFactorStage;
+    pendingTotpSecret?: string;
+    // Device metadata for the active-sessions screen
+    ip?: string;
+    userAgent?: string;
+    createdAt?: number;
+    lastSeenAt?: number;
+    // Set while super_admin is viewing the app as another user (userId holds the target)
+    impersonatorId?: string;
+    impersonationExpiresAt?: number;
   }
 }
 
-// Password hashing utility
-function hashPassword(password: string): string {
-  return createHash("sha256").update(password).digest("hex");
+// Password reset links stay valid for one hour
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
 }
 
-// Auth middleware
-function requireAuth(req: Request, res: Response, next: NextFunction) {
+// Looks up a reset token and checks it is unused and unexpired
+async function findUsableResetToken(token: string) {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  if (!resetToken || resetToken.usedAt || new Date(resetToken.expiresAt) <= new Date()) {
+    return null;
+  }
+  return resetToken;
+}
+
+// "View as" sessions revert to the super_admin automatically after 30 minutes
+const IMPERSONATION_TTL_MS = 30 * 60 * 1000;
+
+// Switch an impersonation session back to the super_admin who started it
+async function endImpersonation(req: Request, reason: "stopped" | "expired") {
+  const impersonatorId = req.session.impersonatorId!;
+  const target = await storage.getUser(req.session.userId!);
+
+  req.session.userId = impersonatorId;
+  delete req.session.impersonatorId;
+  delete req.session.impersonationExpiresAt;
+
+  await storage.createAuditLog({
+    userId: impersonatorId,
+    action: reason === "expired" ? "impersonation_expired" : "impersonation_end",
+    details: reason === "expired"
+      ? `انتهت مدة العرض كالمستخدم: ${target?.name || "غير معروف"}`
+      : `تم إنهاء العرض كالمستخدم: ${target?.name || "غير معروف"}`,
+  });
+}
+
+// How often the last-seen timestamp is written back to the session store
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Strip credentials and two-factor secrets before sending a user to the client
+function sanitizeUser(user: User) {
+  const { password, totpSecret, totpRecoveryCodes, totpLastUsedStep, ...safeUser } = user;
+  return safeUser;
+}
+
+// Record a failed login or second-factor attempt. Returns the lock expiry when the
+// failure locks the account, and the progressive delay to apply otherwise.
+async function registerLoginFailure(
+  user: User | undefined,
+  ip: string,
+  reason: string,
+  userAgent?: string
+): Promise<{ lockedUntil: Date | null; delayMs: number }> {
+  const ipFailureCount = recordIpFailure(ip);
+  let accountFailureCount = 0;
+  let lockedUntil: Date | null = null;
+
+  if (user) {
+    accountFailureCount = (user.failedLoginAttempts || 0) + 1;
+    lockedUntil = getAccountLockUntil(accountFailureCount);
+    await storage.updateUser(user.id, {
+      failedLoginAttempts: accountFailureCount,
+      ...(lockedUntil ? { lockedUntil } : {}),
+    });
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "login_failed",
+      details: `${reason} - محاولة فاشلة رقم ${accountFailureCount} من ${ip}`,
+    });
+    await storage.createLoginHistoryEntry({
+      userId: user.id,
+      success: false,
+      ip,
+      userAgent: userAgent || null,
+      failureReason: reason,
+    });
+
+    if (lockedUntil) {
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "account_locked",
+        details: `تم قفل الحساب مؤقتاً حتى ${lockedUntil.toLocaleString("ar-SA")} بعد ${accountFailureCount} محاولات فاشلة`,
+      });
+    }
+  }
+
+  return {
+    lockedUntil,
+    delayMs: getLoginDelay(Math.max(ipFailureCount, accountFailureCount)),
+  };
+}
+
+// Sessions are exposed by a digest of their id so the raw sid never leaves the server
+function sessionPublicId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+function toSessionInfo(row: UserSession, currentSid: string) {
+  const sess = row.sess as session.SessionData;
+  return {
+    id: sessionPublicId(row.sid),
+    ip: sess.ip || null,
+    userAgent: sess.userAgent || null,
+    createdAt: sess.createdAt ? new Date(sess.createdAt) : null,
+    lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+    expiresAt: row.expire,
+    isCurrent: row.sid === currentSid,
+  };
+}
+
+// Swap the session id whenever the session gains privileges, so an id planted before login
+// (session fixation) is never the one that ends up authenticated
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Attach device metadata to a freshly authenticated session and record the login
+async function startUserSession(req: Request, userId: string) {
+  await regenerateSession(req);
+  const now = Date.now();
+  req.session.userId = userId;
+  req.session.ip = req.ip;
+  req.session.userAgent = req.get("user-agent");
+  req.session.createdAt = now;
+  req.session.lastSeenAt = now;
+
+  await storage.createLoginHistoryEntry({
+    userId,
+    success: true,
+    ip: req.ip || null,
+    userAgent: req.get("user-agent") || null,
+  });
+}
+
+// Checks a second-factor code the way the login step does: a current TOTP code (not replayed)
+// or one of the unused recovery codes. Nothing is stored; the caller records what was used.
+function checkSecondFactor(user: User, code: string): { step: number } | { remainingCodes: string[] } | null {
+  if (!user.totpSecret) return null;
+  const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+  if (step !== null) return { step };
+  const remainingCodes = consumeRecoveryCode(user.totpRecoveryCodes, code);
+  return remainingCodes ? { remainingCodes } : null;
+}
+
+async function isTwoFactorRequiredForRole(role: string): Promise<boolean> {
+  const settings = await storage.getSiteSettings();
+  return (settings?.twoFactorRequiredRoles || []).includes(role);
+}
+
+// Loads the signed-in user and ends the session if the account was deleted or deactivated
+async function loadActiveUser(req: Request): Promise<User | null> {
+  if (req.session.impersonatorId && (req.session.impersonationExpiresAt || 0) <= Date.now()) {
+    await endImpersonation(req, "expired");
+  }
+
+  const user = await storage.getUser(req.session.userId!);
+  if (user && user.isActive) return user;
+
+  await new Promise<void>((resolve) => req.session.destroy(() => resolve()));
+  return null;
+}
+
+// API keys are sent as "Authorization: Bearer dwk_..." and only the sha256 is stored
+const API_KEY_PREFIX = "dwk_";
+
+// Last-used details are written at most once a minute per key
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.get("authorization");
+  if (!header || !header.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+function toApiKeyInfo(apiKey: ApiKey) {
+  const { keyHash, ...info } = apiKey;
+  return info;
+}
+
+// Resolves a bearer key to the user who issued it; the key is left on req for scope checks
+async function authenticateApiKey(req: Request, res: Response, token: string): Promise<User | null> {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(token));
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date())) {
+    res.status(401).json({ error: "مفتاح API غير صالح أو منتهي الصلاحية" });
+    return null;
+  }
+
+  const owner = await storage.getUser(apiKey.createdById);
+  if (!owner || !owner.isActive) {
+    res.status(401).json({ error: "مفتاح API غير صالح أو منتهي الصلاحية" });
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - new Date(apiKey.lastUsedAt).getTime() > API_KEY_TOUCH_INTERVAL_MS) {
+    await storage.touchApiKey(apiKey.id, req.ip || null);
+  }
+
+  req.apiKey = apiKey;
+  return owner;
+}
+
+// Shared by the auth middlewares - responds and returns null when the request may not proceed.
+// API keys are only accepted where the caller opts in (permission-guarded routes and event reads).
+async function authenticateRequest(req: Request, res: Response, allowApiKey = false): Promise<User | null> {
+  const bearerToken = getBearerToken(req);
+  if (bearerToken) {
+    if (!allowApiKey) {
+      res.status(403).json({ error: "لا يمكن استخدام مفتاح API لهذا الإجراء" });
+      return null;
+    }
+    return authenticateApiKey(req, res, bearerToken);
+  }
+
   if (!req.session.userId) {
-    return res.status(401).json({ error: "غير مصرح" });
+    res.status(401).json({ error: "غير مصرح" });
+    return null;
+  }
+  const user = await loadActiveUser(req);
+  if (!user) {
+    res.status(401).json({ error: "الحساب معطل أو غير موجود" });
+    return null;
   }
+  // "View as" is read-only: nothing is written under the impersonated user's name
+  if (req.session.impersonatorId) {
+    if (req.method !== "GET") {
+      res.status(403).json({ error: "لا يمكن تنفيذ التعديلات أثناء العرض كمستخدم آخر", impersonating: true });
+      return null;
+    }
+    return user;
+  }
+  // Accounts created by a superior must choose their own password first
+  if (user.mustChangePassword) {
+    res.status(403).json({ error: "يجب تغيير كلمة المرور قبل المتابعة", mustChangePassword: true });
+    return null;
+  }
+  return user;
+}
+
+// Auth middleware
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const user = await authenticateRequest(req, res);
+  if (!user) return;
+  req.user = user;
+  next();
+}
+
+// Same as requireAuth but also accepts an API key; the route must scope events with canAccessEvent
+async function requireAuthOrApiKey(req: Request, res: Response, next: NextFunction) {
+  const user = await authenticateRequest(req, res, true);
+  if (!user) return;
+  req.user = user;
   next();
 }
 
@@ -60,17 +424,272 @@ function canBypassOwnership(userRole: string): boolean {
   return userRole === "admin" || userRole === "super_admin";
 }
 
+// Event scoping - admins see everything, managers their own events, organizers their assignments.
+// Requests made with an API key are further limited to the key's events.
+async function canAccessEvent(req: Request, event: Event): Promise<boolean> {
+  const user: User = req.user!;
+  const apiKey = req.apiKey;
+  if (apiKey && !apiKey.eventIds.includes(event.id)) return false;
+
+  if (canBypassOwnership(user.role)) return true;
+  if (user.role === "organizer") {
+    const assignedEvents = await storage.getOrganizerEvents(user.id);
+    return assignedEvents.some(e => e.id === event.id);
+  }
+  return event.eventManagerId === user.id;
+}
+
+// Guests the event's capacity tier still allows, or null when it has no limit
+async function remainingGuestCapacity(event: Event): Promise<number | null> {
+  if (!event.capacityTierId) return null;
+  const tier = await storage.getCapacityTier(event.capacityTierId);
+  if (!tier || tier.isUnlimited || !tier.maxGuests) return null;
+  const currentGuests = await storage.getGuestsByEvent(event.id);
+  return Math.max(tier.maxGuests - currentGuests.length, 0);
+}
+
+// The category key a guest form sent, checked against the event's categories; empty means the
+// event's default category
+async function resolveGuestCategory(eventId: string, value: unknown): Promise<{ key: string | null } | { error: string }> {
+  const categories = await storage.getEventCategories(eventId);
+  if (value === undefined || value === null || value === "") return { key: defaultCategoryKey(categories) };
+  return categories.some((c) => c.key === value) ? { key: value as string } : { error: "الفئة غير موجودة في هذه المناسبة" };
+}
+
+// Gate rules may only name categories the event has
+async function unknownGateCategory(eventId: string, allowed: string[] | undefined): Promise<boolean> {
+  if (!allowed || allowed.length === 0) return false;
+  const keys = new Set((await storage.getEventCategories(eventId)).map((c) => c.key));
+  return allowed.some((key) => !keys.has(key));
+}
+
+type LoadedGuestImport =
+  | { guestImport: GuestImport; event: Event }
+  | { httpStatus: number; error: string };
+
+// A staged import with access checked on its event; `forWriting` also refuses closed events
+async function loadGuestImport(req: Request, id: string, forWriting: boolean): Promise<LoadedGuestImport> {
+  const guestImport = await storage.getGuestImport(id);
+  if (!guestImport) {
+    return { httpStatus: 404, error: "الاستيراد غير موجود أو انتهت صلاحيته، أعد رفع الملف" };
+  }
+  const event = await storage.getEvent(guestImport.eventId);
+  if (!event) {
+    return { httpStatus: 404, error: "المناسبة غير موجودة" };
+  }
+  if (!(await canAccessEvent(req, event))) {
+    return { httpStatus: 403, error: "غير مسموح" };
+  }
+  const readOnly = forWriting ? readOnlyEventMessage(event) : null;
+  if (readOnly) {
+    return { httpStatus: 403, error: readOnly };
+  }
+  return { guestImport, event };
+}
+
+// The kept guest's record after merging `duplicate` into it: blank details are filled from the
+// duplicate (a guest left in the event's default category takes the duplicate's), notes are
+// combined, and whichever invitation was admitted first gives the check-in, so a guest who
+// came in on either code stays checked in.
+function mergedGuestDetails(kept: Guest, duplicate: Guest, defaultCategory: string | null): Partial<Guest> {
+  const notes = Array.from(new Set([kept.notes, duplicate.notes].map((n) => n?.trim()).filter(Boolean)));
+  const data: Partial<Guest> = {
+    phone: kept.phone || duplicate.phone,
+    category: kept.category === defaultCategory && duplicate.category ? duplicate.category : kept.category,
+    companions: Math.max(kept.companions ?? 0, duplicate.companions ?? 0),
+    notes: notes.length ? notes.join("\n") : null,
+  };
+
+  const admitted = [kept, duplicate]
+    .filter((g) => g.isCheckedIn && g.checkedInAt)
+    .sort((a, b) => a.checkedInAt!.getTime() - b.checkedInAt!.getTime());
+  if (admitted.length > 0) {
+    Object.assign(data, {
+      isCheckedIn: true,
+      checkedInAt: admitted[0].checkedInAt,
+      checkedInBy: admitted[0].checkedInBy,
+      isInside: admitted.some((g) => g.isInside),
+      companionsCheckedIn: Math.min(
+        Math.max(...admitted.map((g) => g.companionsCheckedIn)),
+        data.companions!
+      ),
+      checkInRevertedAt: null,
+      checkInRevertedBy: null,
+      checkInRevertReason: null,
+    });
+  }
+  return data;
+}
+
+// Offline scans are replayed within hours. An older scan time cannot be told apart from a
+// backdated one, which would let a device admit guests into an event that has since closed.
+const MAX_OFFLINE_CHECK_IN_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Events get their signing key when created (older events from server/backfill-signing-keys.ts,
+// or the rotate route); GET routes only read it
+const MISSING_SIGNING_KEY_MESSAGE = "لا يوجد مفتاح توقيع لدعوات هذه المناسبة";
+
+type ResolvedInvitation =
+  | { guest: Guest; event: Event }
+  | { httpStatus: number; message: string };
+
+// A code retired by a guest merge names the invitation that replaced it
+async function retiredCodeRefusal(code: string): Promise<{ httpStatus: number; message: string } | undefined> {
+  const retired = await storage.getRetiredAccessCode(code);
+  if (!retired) return undefined;
+  const kept = await storage.getGuest(retired.guestId);
+  return {
+    httpStatus: 410,
+    message: kept
+      ? `تم إلغاء هذه الدعوة بعد دمجها مع دعوة ${kept.name} (${kept.qrCode})`
+      : "تم إلغاء هذه الدعوة بعد دمجها مع دعوة أخرى",
+  };
+}
+
+// Resolves a scanned or typed invitation to its guest. Accepts signed payloads (DW1...),
+// legacy JSON {id, code} and bare access codes; the last two are refused when the event
+// requires signed QR codes.
+async function resolveInvitation(input: string): Promise<ResolvedInvitation> {
+  const text = input.trim();
+  let guest: Guest | undefined;
+  let signed = false;
+
+  if (isSignedQrPayload(text)) {
+    const payload = parseSignedQrPayload(text);
+    const key = payload ? await storage.getEventSigningKeyByKid(payload.kid) : undefined;
+    if (!payload || !key || !verifySignedPayload(payload, key.publicKey)) {
+      return { httpStatus: 400, message: "توقيع الدعوة غير صالح" };
+    }
+    if (key.retiredAt) {
+      return { httpStatus: 400, message: "تم تغيير مفتاح التوقيع لهذه المناسبة، يرجى طلب دعوة جديدة" };
+    }
+    guest = await storage.getGuestByQrCode(payload.code);
+    if (!guest || guest.eventId !== key.eventId) {
+      return (await retiredCodeRefusal(payload.code)) ?? { httpStatus: 404, message: "الدعوة غير صالحة" };
+    }
+    signed = true;
+  } else if (text.startsWith("{")) {
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { httpStatus: 400, message: "كود غير صالح" };
+    }
+    guest = parsed?.id ? await storage.getGuest(String(parsed.id)) : undefined;
+    if (!guest || guest.qrCode !== parsed.code) {
+      return { httpStatus: 404, message: "الدعوة غير صالحة" };
+    }
+  } else {
+    guest = await storage.getGuestByQrCode(text.toUpperCase());
+    if (!guest) {
+      return (await retiredCodeRefusal(text.toUpperCase())) ?? { httpStatus: 404, message: "الكود غير صالح أو غير موجود" };
+    }
+  }
+
+  const event = await storage.getEvent(guest.eventId);
+  if (!event) {
+    return { httpStatus: 404, message: "المناسبة غير موجودة" };
+  }
+  if (!signed && event.requireSignedQr) {
+    return { httpStatus: 400, message: "هذه المناسبة تقبل الدعوات الموقعة فقط" };
+  }
+  return { guest, event };
+}
+
+async function resolveGuestById(guestId: string): Promise<ResolvedInvitation> {
+  const guest = await storage.getGuest(guestId);
+  if (!guest) {
+    return { httpStatus: 404, message: "الضيف غير موجود" };
+  }
+  const event = await storage.getEvent(guest.eventId);
+  if (!event) {
+    return { httpStatus: 404, message: "المناسبة غير موجودة" };
+  }
+  return { guest, event };
+}
+
+// Scanned code on an organizer screen that has an event selected
+async function resolveInvitationForEvent(code: string, eventId?: string): Promise<ResolvedInvitation> {
+  const resolved = await resolveInvitation(code);
+  if (!("httpStatus" in resolved) && eventId && resolved.guest.eventId !== eventId) {
+    return { httpStatus: 400, message: "هذا الكود ليس لهذه المناسبة" };
+  }
+  return resolved;
+}
+
+// The online door routes differ only in how they find the invitation and whether the guest
+// is coming in or going out; idempotency and event access are shared.
+async function handleAtDoor(
+  req: Request,
+  resolve: () => Promise<ResolvedInvitation>,
+  act: (guest: Guest, event: Event, user: User) => Promise<CheckInOutcome>
+): Promise<CheckInOutcome> {
+  const user = req.user!;
+  return runIdempotentCheckIn(req, user.id, async () => {
+    const resolved = await resolve();
+    if ("httpStatus" in resolved) {
+      return { httpStatus: resolved.httpStatus, body: { status: "invalid", message: resolved.message } };
+    }
+    if (!(await canAccessEvent(req, resolved.event))) {
+      return { httpStatus: 403, body: { error: "غير مسموح" } };
+    }
+    return act(resolved.guest, resolved.event, user);
+  });
+}
+
+async function checkInResolved(
+  req: Request,
+  resolve: () => Promise<ResolvedInvitation>,
+  auditDetails: (guest: Guest) => string
+): Promise<CheckInOutcome> {
+  const companions = checkInCompanionsSchema.safeParse(req.body?.companions);
+  if (!companions.success) {
+    return { httpStatus: 400, body: { status: "invalid", message: "عدد المرافقين غير صالح" } };
+  }
+  return handleAtDoor(req, resolve, (guest, event, user) =>
+    admitGuest(guest, event, user, auditDetails(guest), companions.data)
+  );
+}
+
 // Role-based access control middleware
 function requireRole(...roles: string[]) {
   return async (req: Request, res: Response, next: NextFunction) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ error: "غير مصرح" });
-    }
-    const user = await storage.getUser(req.session.userId);
-    if (!user || !roles.includes(user.role)) {
+    const user = await authenticateRequest(req, res);
+    if (!user) return;
+    if (!roles.includes(user.role)) {
       return res.status(403).json({ error: "غير مسموح" });
     }
-    (req as any).user = user;
+    req.user = user;
+    next();
+  };
+}
+
+// Resolved permission matrix, cached until super_admin edits it
+let permissionMatrixCache: PermissionMatrix | null = null;
+
+async function getPermissionMatrix(): Promise<PermissionMatrix> {
+  if (!permissionMatrixCache) {
+    const settings = await storage.getSiteSettings();
+    permissionMatrixCache = resolvePermissionMatrix(settings?.permissionMatrix);
+  }
+  return permissionMatrixCache;
+}
+
+async function userCan(user: User, permission: PermissionKey): Promise<boolean> {
+  const matrix = await getPermissionMatrix();
+  return (matrix[permission] as string[]).includes(user.role);
+}
+
+// Permission-based access control middleware
+function requirePermission(permission: PermissionKey) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = await authenticateRequest(req, res, true);
+    if (!user) return;
+    const apiKey = req.apiKey;
+    if (!(await userCan(user, permission)) || (apiKey && !apiKey.permissions.includes(permission))) {
+      return res.status(403).json({ error: "ليس لديك صلاحية لتنفيذ هذا الإجراء" });
+    }
+    req.user = user;
     next();
   };
 }
@@ -79,9 +698,15 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Session setup
+  // Session setup - persisted in Postgres so deploys don't log everyone out
+  const PgSessionStore = connectPg(session);
   app.use(
     session({
+      store: new PgSessionStore({
+        pool,
+        tableName: "sessions",
+        createTableIfMissing: false,
+      }),
       secret: process.env.SESSION_SECRET || "event-management-secret-key",
       resave: false,
       saveUninitialized: false,
@@ -93,6 +718,18 @@ export async function registerRoutes(
     })
   );
 
+  // Keep last-seen/IP current for the active-sessions screen
+  app.use((req, _res, next) => {
+    if (req.session.userId) {
+      const now = Date.now();
+      if (!req.session.lastSeenAt || now - req.session.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+        req.session.lastSeenAt = now;
+        req.session.ip = req.ip;
+      }
+    }
+    next();
+  });
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -101,10 +738,36 @@ export async function registerRoutes(
         return res.status(400).json({ error: "بيانات ناقصة" });
       }
 
+      const ip = req.ip || "unknown";
+      const ipBlockedUntil = getIpBlockedUntil(ip);
+      if (ipBlockedUntil) {
+        return res.status(429).json({
+          error: formatLockoutMessage(ipBlockedUntil),
+          lockedUntil: ipBlockedUntil,
+        });
+      }
+
       const user = await storage.getUserByUsername(username);
-      const hashedPassword = hashPassword(password);
-      
-      if (!user || user.password !== hashedPassword) {
+
+      if (user?.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+        return res.status(429).json({
+          error: formatLockoutMessage(new Date(user.lockedUntil)),
+          lockedUntil: user.lockedUntil,
+        });
+      }
+
+      // An unknown username still pays for a scrypt check, so timing does not reveal accounts
+      const verification = await verifyPassword(password, user ? user.password : DUMMY_PASSWORD_HASH);
+
+      if (!user || !verification.valid) {
+        const { lockedUntil, delayMs } = await registerLoginFailure(user, ip, "كلمة مرور غير صحيحة", req.get("user-agent"));
+        if (lockedUntil) {
+          return res.status(429).json({
+            error: formatLockoutMessage(lockedUntil),
+            lockedUntil,
+          });
+        }
+        await delay(delayMs);
         return res.status(401).json({ error: "بيانات الدخول غير صحيحة" });
       }
 
@@ -112,85 +775,620 @@ export async function registerRoutes(
         return res.status(403).json({ error: "الحساب غير مفعل" });
       }
 
-      req.session.userId = user.id;
-      res.json({ user: { ...user, password: undefined } });
+      // Transparently upgrade legacy or outdated password hashes
+      if (verification.needsRehash) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
+
+      // Reset the failure counter after a successful login
+      if (user.failedLoginAttempts || user.lockedUntil) {
+        await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+      }
+
+      // Hold the session in a half-authenticated state until the second factor is done
+      const twoFactorRequired = await isTwoFactorRequiredForRole(user.role);
+      if (user.totpEnabled || twoFactorRequired) {
+        const stage: TwoFactorStage = user.totpEnabled ? "verify" : "setup";
+        await regenerateSession(req);
+        req.session.pendingTwoFactorUserId = user.id;
+        req.session.twoFactorStage = stage;
+        return res.json({ twoFactorRequired: true, stage });
+      }
+
+      await startUserSession(req, user.id);
+      res.json({ user: sanitizeUser(user) });
     } catch (error) {
       res.status(500).json({ error: "خطأ في الخادم" });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ error: "فشل تسجيل الخروج" });
+  // Second login step: verify a TOTP code or a recovery code
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (!req.session.pendingTwoFactorUserId || req.session.twoFactorStage !== "verify") {
+        return res.status(401).json({ error: "انتهت جلسة تسجيل الدخول، يرجى المحاولة مجدداً" });
+      }
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ error: "رمز التحقق مطلوب" });
       }
-      res.json({ success: true });
-    });
-  });
 
-  app.get("/api/auth/me", async (req, res) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ error: "غير مصرح" });
-    }
-    
-    const user = await storage.getUser(req.session.userId);
-    if (!user) {
-      return res.status(401).json({ error: "المستخدم غير موجود" });
+      const ip = req.ip || "unknown";
+      const user = await storage.getUser(req.session.pendingTwoFactorUserId);
+      if (!user || !user.totpEnabled || !user.totpSecret || !user.isActive) {
+        return res.status(401).json({ error: "غير مصرح" });
+      }
+
+      if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+        return res.status(429).json({
+          error: formatLockoutMessage(new Date(user.lockedUntil)),
+          lockedUntil: user.lockedUntil,
+        });
+      }
+
+      const matched = checkSecondFactor(user, code);
+      if (matched && "step" in matched) {
+        await storage.updateUser(user.id, { totpLastUsedStep: matched.step, failedLoginAttempts: 0 });
+      } else {
+        const remainingCodes = matched?.remainingCodes;
+        if (!remainingCodes) {
+          const { lockedUntil, delayMs } = await registerLoginFailure(user, ip, "رمز تحقق غير صحيح", req.get("user-agent"));
+          if (lockedUntil) {
+            delete req.session.pendingTwoFactorUserId;
+            delete req.session.twoFactorStage;
+            return res.status(429).json({
+              error: formatLockoutMessage(lockedUntil),
+              lockedUntil,
+            });
+          }
+          await delay(delayMs);
+          return res.status(401).json({ error: "رمز التحقق غير صحيح" });
+        }
+
+        await storage.updateUser(user.id, {
+          totpRecoveryCodes: JSON.stringify(remainingCodes),
+          failedLoginAttempts: 0,
+        });
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "two_factor_recovery_used",
+          details: `تم استخدام رمز استرداد لتسجيل الدخول (المتبقي: ${remainingCodes.length})`,
+        });
+      }
+
+      delete req.session.pendingTwoFactorUserId;
+      delete req.session.twoFactorStage;
+      await startUserSession(req, user.id);
+      res.json({ user: sanitizeUser(user) });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في الخادم" });
     }
-    
-    res.json({ ...user, password: undefined });
   });
 
-  // User routes - Super Admin only for admins
-  app.get("/api/users/admins", requireRole("super_admin"), async (req, res) => {
+  // Start TOTP enrolment: returns a new secret and its QR code.
+  // Available to signed-in super_admin/admin users, and to users whose role
+  // requires two-factor and who are completing enrolment during login.
+  app.get("/api/auth/2fa/setup", async (req, res) => {
     try {
-      const admins = await storage.getUsersByRole("admin");
-      res.json(admins.map((u) => ({ ...u, password: undefined })));
+      res.locals.redactLog = true;
+      const userId =
+        req.session.userId ||
+        (req.session.twoFactorStage === "setup" ? req.session.pendingTwoFactorUserId : undefined);
+      if (!userId) return res.status(401).json({ error: "غير مصرح" });
+
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive || !(twoFactorRoles as readonly string[]).includes(user.role)) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      if (user.totpEnabled) {
+        return res.status(400).json({ error: "التحقق بخطوتين مفعل مسبقاً" });
+      }
+
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      const otpauthUrl = buildOtpAuthUrl(secret, user.username);
+      const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 });
+
+      res.json({ secret, otpauthUrl, qrCode });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب البيانات" });
+      res.status(500).json({ error: "خطأ في إعداد التحقق بخطوتين" });
     }
   });
 
-  // Event managers - Admin or Super Admin
-  app.get("/api/users/event-managers", requireRole("super_admin", "admin"), async (req, res) => {
+  // Confirm TOTP enrolment with a code from the authenticator app
+  app.post("/api/auth/2fa/enable", async (req, res) => {
     try {
-      const managers = await storage.getUsersByRole("event_manager");
-      res.json(managers.map((u) => ({ ...u, password: undefined })));
+      res.locals.redactLog = true;
+      const { code } = req.body;
+      if (req.session.impersonatorId) {
+        return res.status(403).json({ error: "لا يمكن تنفيذ التعديلات أثناء العرض كمستخدم آخر" });
+      }
+      const isSetupLogin = !req.session.userId && req.session.twoFactorStage === "setup";
+      const userId = req.session.userId || (isSetupLogin ? req.session.pendingTwoFactorUserId : undefined);
+      if (!userId) return res.status(401).json({ error: "غير مصرح" });
+
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ error: "يرجى بدء إعداد التحقق بخطوتين أولاً" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive || !(twoFactorRoles as readonly string[]).includes(user.role)) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const matchedStep = verifyTotp(secret, String(code || ""));
+      if (matchedStep === null) {
+        return res.status(400).json({ error: "رمز التحقق غير صحيح" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const updated = await storage.updateUser(user.id, {
+        totpEnabled: true,
+        totpSecret: secret,
+        totpRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+        totpLastUsedStep: matchedStep,
+      });
+      delete req.session.pendingTotpSecret;
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "two_factor_enabled",
+        details: "تم تفعيل التحقق بخطوتين",
+      });
+
+      if (isSetupLogin) {
+        delete req.session.pendingTwoFactorUserId;
+        delete req.session.twoFactorStage;
+        await startUserSession(req, user.id);
+      }
+
+      res.json({ recoveryCodes, user: sanitizeUser(updated!) });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب البيانات" });
+      res.status(500).json({ error: "خطأ في تفعيل التحقق بخطوتين" });
     }
   });
 
-  // Organizers - Event Manager only (their own organizers)
-  app.get("/api/users/organizers", requireRole("event_manager", "super_admin", "admin"), async (req, res) => {
+  // Whether the signed-in user's role must use two-factor
+  app.get("/api/auth/2fa/status", requireAuth, async (req, res) => {
     try {
-      const user = (req as any).user;
-      let organizers;
-      if (user.role === "event_manager") {
-        organizers = await storage.getUsersByCreator(user.id);
-      } else {
-        organizers = await storage.getUsersByRole("organizer");
-      }
-      res.json(organizers.map((u) => ({ ...u, password: undefined })));
+      res.json({ required: await isTwoFactorRequiredForRole(req.user!.role) });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب البيانات" });
+      res.status(500).json({ error: "خطأ في جلب حالة التحقق بخطوتين" });
     }
   });
 
-  // Create user - Role-based
-  app.post("/api/users", requireAuth, async (req, res) => {
+  // Disable TOTP (requires the current password and a TOTP or recovery code; blocked when the
+  // role enforces it)
+  app.post("/api/auth/2fa/disable", requireAuth, async (req, res) => {
     try {
-      const currentUser = await storage.getUser(req.session.userId!);
-      if (!currentUser) return res.status(401).json({ error: "غير مصرح" });
+      const { password, code } = req.body;
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
 
-      const { role } = req.body;
+      if (await isTwoFactorRequiredForRole(user.role)) {
+        return res.status(403).json({ error: "التحقق بخطوتين إلزامي لهذا الدور ولا يمكن تعطيله" });
+      }
 
-      // Check permissions - admin can create all subordinate roles
-      if (role === "admin" && currentUser.role !== "super_admin") {
-        return res.status(403).json({ error: "غير مسموح" });
+      const verification = await verifyPassword(String(password || ""), user.password);
+      if (!verification.valid) {
+        return res.status(400).json({ error: "كلمة المرور غير صحيحة" });
       }
-      if (role === "event_manager" && !["super_admin", "admin"].includes(currentUser.role)) {
-        return res.status(403).json({ error: "غير مسموح" });
+      if (!user.totpEnabled || !checkSecondFactor(user, String(code || "").trim())) {
+        return res.status(400).json({ error: "رمز التحقق غير صحيح" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpRecoveryCodes: null,
+        totpLastUsedStep: null,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "two_factor_disabled",
+        details: "تم تعطيل التحقق بخطوتين",
+      });
+
+      res.json(sanitizeUser(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تعطيل التحقق بخطوتين" });
+    }
+  });
+
+  // Regenerate recovery codes (requires a current TOTP code)
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      res.locals.redactLog = true;
+      const { code } = req.body;
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+      if (!user.totpEnabled || !user.totpSecret) {
+        return res.status(400).json({ error: "التحقق بخطوتين غير مفعل" });
+      }
+
+      const matchedStep = verifyTotp(user.totpSecret, String(code || ""), user.totpLastUsedStep);
+      if (matchedStep === null) {
+        return res.status(400).json({ error: "رمز التحقق غير صحيح" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        totpRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+        totpLastUsedStep: matchedStep,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "two_factor_recovery_regenerated",
+        details: "تم إنشاء رموز استرداد جديدة",
+      });
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء رموز الاسترداد" });
+    }
+  });
+
+  // Public - check a reset link before showing the form
+  app.get("/api/password-reset/:token", async (req, res) => {
+    try {
+      const resetToken = await findUsableResetToken(req.params.token);
+      const user = resetToken ? await storage.getUser(resetToken.userId) : undefined;
+      if (!resetToken || !user || !user.isActive) {
+        return res.status(404).json({ error: "رابط إعادة التعيين غير صالح أو منتهي الصلاحية" });
+      }
+      res.json({ name: user.name, username: user.username, expiresAt: resetToken.expiresAt });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في التحقق من الرابط" });
+    }
+  });
+
+  // Public - set a new password with a reset link
+  app.post("/api/password-reset/:token", async (req, res) => {
+    try {
+      const parseResult = z.object({
+        password: z.string().min(6),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "كلمة المرور يجب أن تكون 6 أحرف على الأقل" });
+      }
+
+      const resetToken = await findUsableResetToken(req.params.token);
+      const user = resetToken ? await storage.getUser(resetToken.userId) : undefined;
+      if (!resetToken || !user || !user.isActive) {
+        return res.status(404).json({ error: "رابط إعادة التعيين غير صالح أو منتهي الصلاحية" });
+      }
+
+      if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(404).json({ error: "تم استخدام هذا الرابط مسبقاً" });
+      }
+
+      await storage.updateUser(user.id, {
+        password: await hashPassword(parseResult.data.password),
+        mustChangePassword: false,
+        passwordChangedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      await storage.deleteUserSessions(user.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "password_reset_used",
+        details: `تم تعيين كلمة مرور جديدة عبر رابط إعادة التعيين من ${req.ip || "unknown"}`,
+      });
+
+      res.json({ success: true, message: "تم تغيير كلمة المرور بنجاح" });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إعادة تعيين كلمة المرور" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ error: "فشل تسجيل الخروج" });
+      }
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/auth/me", async (req, res) => {
+    if (!req.session.userId) {
+      // Password accepted but the second factor is still outstanding
+      if (req.session.pendingTwoFactorUserId && req.session.twoFactorStage) {
+        return res.json({ twoFactorRequired: true, stage: req.session.twoFactorStage });
+      }
+      return res.status(401).json({ error: "غير مصرح" });
+    }
+    
+    const user = await loadActiveUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "الحساب معطل أو غير موجود" });
+    }
+
+    let impersonation = null;
+    if (req.session.impersonatorId) {
+      const impersonator = await storage.getUser(req.session.impersonatorId);
+      impersonation = {
+        impersonatorName: impersonator?.name || "",
+        expiresAt: new Date(req.session.impersonationExpiresAt!),
+      };
+    }
+    
+    res.json({ ...sanitizeUser(user), impersonation });
+  });
+
+  // Return from "view as" to the super_admin's own session
+  app.post("/api/auth/impersonation/stop", async (req, res) => {
+    try {
+      if (!req.session.userId || !req.session.impersonatorId) {
+        return res.status(400).json({ error: "لا يوجد عرض نشط كمستخدم آخر" });
+      }
+      const expired = (req.session.impersonationExpiresAt || 0) <= Date.now();
+      await endImpersonation(req, expired ? "expired" : "stopped");
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنهاء العرض" });
+    }
+  });
+
+  // Update own display name
+  app.patch("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = z.object({
+        name: z.string().trim().min(2),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "الاسم يجب أن يكون حرفين على الأقل" });
+      }
+
+      const updated = await storage.updateUser(user.id, { name: parseResult.data.name });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "update_profile",
+        details: `تم تغيير الاسم من "${user.name}" إلى "${parseResult.data.name}"`,
+      });
+
+      res.json(sanitizeUser(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الحساب" });
+    }
+  });
+
+  // Change own password. Reachable while a password change is forced, so it does its own auth.
+  app.post("/api/auth/me/password", async (req, res) => {
+    try {
+      if (!req.session.userId) {
+        return res.status(401).json({ error: "غير مصرح" });
+      }
+      const user = await loadActiveUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "الحساب معطل أو غير موجود" });
+      }
+      if (req.session.impersonatorId) {
+        return res.status(403).json({ error: "لا يمكن تنفيذ التعديلات أثناء العرض كمستخدم آخر" });
+      }
+
+      const parseResult = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(6),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "كلمة المرور الجديدة يجب أن تكون 6 أحرف على الأقل" });
+      }
+      const { currentPassword, newPassword } = parseResult.data;
+
+      const { valid } = await verifyPassword(currentPassword, user.password);
+      if (!valid) {
+        return res.status(400).json({ error: "كلمة المرور الحالية غير صحيحة" });
+      }
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ error: "كلمة المرور الجديدة يجب أن تختلف عن الحالية" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        mustChangePassword: false,
+        passwordChangedAt: new Date(),
+      });
+
+      // Sign out every other device that knew the old password
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "change_password",
+        details: user.mustChangePassword
+          ? "تم تعيين كلمة مرور جديدة عند أول تسجيل دخول"
+          : "تم تغيير كلمة المرور",
+      });
+
+      res.json(sanitizeUser(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تغيير كلمة المرور" });
+    }
+  });
+
+  // Recent sign-in attempts on the signed-in account
+  app.get("/api/auth/me/logins", requireAuth, async (req, res) => {
+    try {
+      const entries = await storage.getLoginHistory(req.user!.id, 20);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب سجل الدخول" });
+    }
+  });
+
+  // Permission keys granted to the signed-in user - drives menus and buttons on the client
+  app.get("/api/auth/permissions", requireAuth, async (req, res) => {
+    try {
+      const matrix = await getPermissionMatrix();
+      res.json(getRolePermissions(matrix, req.user!.role));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الصلاحيات" });
+    }
+  });
+
+  // Active sessions of the signed-in user
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId!);
+      res.json(rows.map((row) => toSessionInfo(row, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الجلسات" });
+    }
+  });
+
+  // Sign out everywhere else (keeps the current session)
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteUserSessions(req.session.userId!, req.sessionID);
+
+      await storage.createAuditLog({
+        userId: req.session.userId!,
+        action: "revoke_sessions",
+        details: "تم تسجيل الخروج من جميع الأجهزة الأخرى",
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنهاء الجلسات" });
+    }
+  });
+
+  // Sign out a single device
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId!);
+      const target = rows.find((row) => sessionPublicId(row.sid) === req.params.id);
+      if (!target) return res.status(404).json({ error: "الجلسة غير موجودة" });
+
+      await storage.deleteSession(target.sid);
+
+      await storage.createAuditLog({
+        userId: req.session.userId!,
+        action: "revoke_session",
+        details: `تم تسجيل الخروج من جهاز: ${(target.sess as session.SessionData).userAgent || "غير معروف"}`,
+      });
+
+      res.json({ success: true, isCurrent: target.sid === req.sessionID });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنهاء الجلسة" });
+    }
+  });
+
+  // Active sessions of any user (super_admin only)
+  app.get("/api/users/:id/sessions", requireRole("super_admin"), async (req, res) => {
+    try {
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+
+      const rows = await storage.getUserSessions(targetUser.id);
+      res.json(rows.map((row) => toSessionInfo(row, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الجلسات" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", requireRole("super_admin"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+
+      await storage.deleteUserSessions(targetUser.id, req.sessionID);
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "revoke_sessions",
+        details: `تم تسجيل خروج ${targetUser.name} من جميع الأجهزة`,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنهاء الجلسات" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions/:sessionId", requireRole("super_admin"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+
+      const rows = await storage.getUserSessions(targetUser.id);
+      const target = rows.find((row) => sessionPublicId(row.sid) === req.params.sessionId);
+      if (!target) return res.status(404).json({ error: "الجلسة غير موجودة" });
+
+      await storage.deleteSession(target.sid);
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "revoke_session",
+        details: `تم تسجيل خروج ${targetUser.name} من جهاز: ${(target.sess as session.SessionData).userAgent || "غير معروف"}`,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنهاء الجلسة" });
+    }
+  });
+
+  // User routes - Super Admin only for admins
+  app.get("/api/users/admins", requireRole("super_admin"), async (req, res) => {
+    try {
+      const admins = await storage.getUsersByRole("admin");
+      res.json(admins.map(sanitizeUser));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب البيانات" });
+    }
+  });
+
+  // Event managers - Admin or Super Admin
+  app.get("/api/users/event-managers", requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const managers = await storage.getUsersByRole("event_manager");
+      res.json(managers.map(sanitizeUser));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب البيانات" });
+    }
+  });
+
+  // Organizers - Event Manager only (their own organizers)
+  app.get("/api/users/organizers", requireRole("event_manager", "super_admin", "admin"), async (req, res) => {
+    try {
+      const user = req.user!;
+      let organizers;
+      if (user.role === "event_manager") {
+        organizers = await storage.getUsersByCreator(user.id);
+      } else {
+        organizers = await storage.getUsersByRole("organizer");
+      }
+      res.json(organizers.map(sanitizeUser));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب البيانات" });
+    }
+  });
+
+  // Create user - Role-based
+  app.post("/api/users", requireAuth, async (req, res) => {
+    try {
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (!currentUser) return res.status(401).json({ error: "غير مصرح" });
+
+      const { role } = req.body;
+
+      // Check permissions - admin can create all subordinate roles
+      if (role === "admin" && currentUser.role !== "super_admin") {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      if (role === "event_manager" && !["super_admin", "admin"].includes(currentUser.role)) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
       if (role === "organizer" && !["super_admin", "admin", "event_manager"].includes(currentUser.role)) {
         return res.status(403).json({ error: "غير مسموح" });
@@ -209,11 +1407,12 @@ export async function registerRoutes(
 
       const newUser = await storage.createUser({
         ...req.body,
-        password: hashPassword(req.body.password),
+        password: await hashPassword(req.body.password),
         createdById: currentUser.id,
+        mustChangePassword: true,
       });
 
-      res.json({ ...newUser, password: undefined });
+      res.json(sanitizeUser(newUser));
     } catch (error) {
       res.status(500).json({ error: "خطأ في إنشاء المستخدم" });
     }
@@ -245,11 +1444,11 @@ export async function registerRoutes(
 
       // Handle password update if provided
       if (req.body.password && req.body.password.length >= 6) {
-        updateData.password = hashPassword(req.body.password);
+        updateData.password = await hashPassword(req.body.password);
       }
 
       const updated = await storage.updateUser(req.params.id, updateData);
-      res.json({ ...updated, password: undefined });
+      res.json(sanitizeUser(updated!));
     } catch (error) {
       console.error("Update user error:", error);
       res.status(500).json({ error: "خطأ في تحديث المستخدم" });
@@ -280,986 +1479,2446 @@ export async function registerRoutes(
         return res.status(403).json({ error: "غير مسموح" });
       }
 
+      const isActive = !targetUser.isActive;
+      const updated = await storage.updateUser(req.params.id, {
+        isActive,
+        suspendedByUserId: null,
+      });
+
+      // Optionally carry the change over to the organizers this event manager created
+      const cascade = req.body?.cascade === true && targetUser.role === "event_manager";
+      let cascaded: User[] = [];
+      if (cascade) {
+        cascaded = isActive
+          ? await storage.restoreSuspendedOrganizers(targetUser.id)
+          : await storage.suspendCreatedOrganizers(targetUser.id);
+      }
+
+      if (!isActive) {
+        await storage.deleteUserSessions(targetUser.id);
+        for (const organizer of cascaded) {
+          await storage.deleteUserSessions(organizer.id);
+        }
+      }
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: isActive ? "activate_user" : "deactivate_user",
+        details: cascaded.length > 0
+          ? `تم ${isActive ? "تفعيل" : "تعطيل"} حساب: ${targetUser.name} مع ${cascaded.length} منظم`
+          : `تم ${isActive ? "تفعيل" : "تعطيل"} حساب: ${targetUser.name}`,
+      });
+
+      res.json({ ...sanitizeUser(updated!), cascadedCount: cascaded.length });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تغيير حالة المستخدم" });
+    }
+  });
+
+  // Unlock a temporarily locked account (super_admin only)
+  app.patch("/api/users/:id/unlock", requireRole("super_admin"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+
       const updated = await storage.updateUser(req.params.id, {
-        isActive: !targetUser.isActive,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
       });
-      res.json({ ...updated, password: undefined });
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "unlock_account",
+        details: `تم إلغاء قفل حساب: ${targetUser.name}`,
+      });
+
+      res.json(sanitizeUser(updated!));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إلغاء قفل الحساب" });
+    }
+  });
+
+  // Start a time-limited, read-only "view as" session of a lower-role user (super_admin only)
+  app.post("/api/users/:id/impersonate", requireRole("super_admin"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+      if (targetUser.role === "super_admin") {
+        return res.status(403).json({ error: "لا يمكن العرض كمالك نظام آخر" });
+      }
+      if (!targetUser.isActive) {
+        return res.status(400).json({ error: "الحساب معطل" });
+      }
+
+      const expiresAt = Date.now() + IMPERSONATION_TTL_MS;
+      req.session.impersonatorId = currentUser.id;
+      req.session.impersonationExpiresAt = expiresAt;
+      req.session.userId = targetUser.id;
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "impersonation_start",
+        details: `بدء العرض كالمستخدم: ${targetUser.name} (@${targetUser.username})`,
+      });
+
+      res.json({ success: true, expiresAt: new Date(expiresAt) });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في بدء العرض كمستخدم" });
+    }
+  });
+
+  // Issue a single-use password reset link (super_admin only)
+  app.post("/api/users/:id/password-reset", requireRole("super_admin"), async (req, res) => {
+    try {
+      res.locals.redactLog = true;
+      const currentUser = req.user!;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+      if (targetUser.id === currentUser.id) {
+        return res.status(400).json({ error: "استخدم صفحة حسابي لتغيير كلمة مرورك" });
+      }
+
+      const parseResult = z.object({
+        delivery: z.enum(["display", "channel"]).default("display"),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+
+      // Only the latest link works
+      await storage.deletePendingPasswordResetTokens(targetUser.id);
+
+      const token = randomBytes(32).toString("base64url");
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+      await storage.createPasswordResetToken({
+        userId: targetUser.id,
+        tokenHash: hashResetToken(token),
+        expiresAt,
+        createdById: currentUser.id,
+      });
+      const link = `${req.protocol}://${req.get("host")}/reset-password/${token}`;
+
+      let channelLabel: string | null = null;
+      if (parseResult.data.delivery === "channel") {
+        const channel = getResetLinkChannel();
+        await channel.deliver(targetUser, link, expiresAt);
+        channelLabel = channel.label;
+      }
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "issue_password_reset",
+        details: channelLabel
+          ? `تم إرسال رابط إعادة تعيين كلمة المرور لحساب: ${targetUser.name} عبر ${channelLabel}`
+          : `تم إنشاء رابط إعادة تعيين كلمة المرور لحساب: ${targetUser.name}`,
+      });
+
+      res.json(channelLabel
+        ? { delivered: true, channel: channelLabel, expiresAt }
+        : { delivered: false, link, expiresAt });
+    } catch (error) {
+      console.error("Password reset issue error:", error);
+      res.status(500).json({ error: "خطأ في إنشاء رابط إعادة التعيين" });
+    }
+  });
+
+  // Delete user
+  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (!currentUser) return res.status(401).json({ error: "غير مصرح" });
+
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
+
+      // Prevent self-delete (lockout protection)
+      if (targetUser.id === currentUser.id) {
+        return res.status(403).json({ error: "لا يمكنك حذف حسابك الخاص" });
+      }
+
+      // Permission check - super_admin can delete anyone except super_admin, admin can delete subordinates
+      const canDelete =
+        (currentUser.role === "super_admin" && targetUser.role !== "super_admin") ||
+        (currentUser.role === "admin" && ["event_manager", "organizer"].includes(targetUser.role)) ||
+        (currentUser.role === "event_manager" && targetUser.role === "organizer" && targetUser.createdById === currentUser.id);
+
+      if (!canDelete) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteUserSessions(targetUser.id);
+      await storage.deleteUser(req.params.id);
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "delete_user",
+        details: `تم حذف حساب: ${targetUser.name}`,
+      });
+
+      res.json({ success: true, message: "تم حذف المستخدم بنجاح" });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف المستخدم" });
+    }
+  });
+
+  // Event routes - Event Manager role
+  app.get("/api/events", requireAuthOrApiKey, async (req, res) => {
+    try {
+      const user = req.user!;
+      const apiKey = req.apiKey;
+
+      let eventList;
+      if (user.role === "event_manager") {
+        eventList = await storage.getEventsByManager(user.id);
+      } else if (user.role === "organizer") {
+        eventList = await storage.getOrganizerEvents(user.id);
+      } else {
+        eventList = await storage.getEvents();
+      }
+      if (apiKey) {
+        eventList = eventList.filter(e => apiKey.eventIds.includes(e.id));
+      }
+      res.json(eventList);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المناسبات" });
+    }
+  });
+
+  app.get("/api/events/:id", requireAuthOrApiKey, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المناسبة" });
+    }
+  });
+
+  app.post("/api/events", requirePermission("events.create"), async (req, res) => {
+    try {
+      const user = req.user!;
+
+      // Validate capacity tier for event managers
+      if (user.role === "event_manager" && !req.body.capacityTierId) {
+        return res.status(400).json({ error: "يجب اختيار باقة سعة المناسبة" });
+      }
+
+      // If capacity tier provided, verify it exists
+      if (req.body.capacityTierId) {
+        const tier = await storage.getCapacityTier(req.body.capacityTierId);
+        if (!tier || !tier.isActive) {
+          return res.status(400).json({ error: "باقة السعة غير صالحة" });
+        }
+        
+        // Check tier-specific quota for event managers
+        if (user.role === "event_manager") {
+          const userTierQuotas = await storage.getUserTierQuotas(user.id);
+          const tierQuota = userTierQuotas.find(q => String(q.capacityTierId) === String(req.body.capacityTierId));
+          const quota = tierQuota?.quota || 0;
+          
+          if (quota === 0) {
+            return res.status(403).json({ 
+              error: `ليس لديك صلاحية إنشاء مناسبات من باقة "${tier.name}". تواصل مع مالك النظام.` 
+            });
+          }
+          
+          const tierEventCount = await storage.getEventCountByManagerAndTier(user.id, req.body.capacityTierId);
+          if (tierEventCount >= quota) {
+            return res.status(403).json({ 
+              error: `لقد وصلت للحد الأقصى من باقة "${tier.name}" (${quota}). تواصل مع مالك النظام لزيادة حصتك.` 
+            });
+          }
+        }
+      }
+
+      // Parse date string to Date object
+      const eventData = {
+        ...req.body,
+        eventManagerId: user.id,
+        date: req.body.date ? new Date(req.body.date) : undefined,
+        isActive: true,
+        status: req.body.status === "draft" ? "draft" : "published",
+      };
+
+      // Validate required fields
+      if (!eventData.name || !eventData.date) {
+        return res.status(400).json({ error: "اسم المناسبة والتاريخ مطلوبان" });
+      }
+
+      const event = await storage.createEvent(eventData, { createdById: user.id, ...generateSigningKey() });
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "create_event",
+        details: `تم إنشاء المناسبة: ${event.name}`,
+      });
+
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء المناسبة" });
+    }
+  });
+
+  app.patch("/api/events/:id", requirePermission("events.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { occupancyLimit, occupancyAlertPercent } = req.body;
+      if (occupancyLimit !== undefined && occupancyLimit !== null && !(Number.isInteger(occupancyLimit) && occupancyLimit > 0)) {
+        return res.status(400).json({ error: "الحد الأقصى للموجودين غير صالح" });
+      }
+      if (
+        occupancyAlertPercent !== undefined &&
+        !(Number.isInteger(occupancyAlertPercent) && occupancyAlertPercent >= 1 && occupancyAlertPercent <= 100)
+      ) {
+        return res.status(400).json({ error: "نسبة التنبيه يجب أن تكون بين 1 و 100" });
+      }
+      // Status changes go through PATCH /api/events/:id/status
+      const parseResult = updateEventSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات المناسبة غير صالحة" });
+      }
+
+      const updated = await storage.updateEvent(req.params.id, parseResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update event error:", error);
+      res.status(500).json({ error: "خطأ في تحديث المناسبة" });
+    }
+  });
+
+  // Manual lifecycle changes; the scheduler in server/event-lifecycle.ts handles the timed ones
+  app.patch("/api/events/:id/status", requirePermission("events.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = eventStatusSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "حالة المناسبة غير صالحة" });
+      }
+      const { status } = parseResult.data;
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      if (status === event.status) {
+        return res.json(event);
+      }
+
+      const refusal = statusChangeRefusal(event, status, new Date(), await storage.getEventSessions(event.id));
+      if (refusal) {
+        return res.status(400).json({ error: refusal });
+      }
+
+      const updated = await storage.transitionEventStatus(event.id, event.status, status);
+      if (!updated) {
+        return res.status(409).json({ error: "تغيرت حالة المناسبة، أعد تحميل الصفحة" });
+      }
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "event_status",
+        details: `تغيير حالة المناسبة من ${eventStatusLabels[event.status]} إلى ${eventStatusLabels[status]}`,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Update event status error:", error);
+      res.status(500).json({ error: "خطأ في تغيير حالة المناسبة" });
+    }
+  });
+
+  app.delete("/api/events/:id", requirePermission("events.delete"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.deleteEvent(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف المناسبة" });
+    }
+  });
+
+  // Guest routes
+  app.get("/api/events/:id/guests", requirePermission("guests.view"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(req.params.id);
+      res.json(guests);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الضيوف" });
+    }
+  });
+
+  // Guest import, step 1: stage the file and return the preview with the detected mapping.
+  // `sheet` (form field) picks another sheet of the same file.
+  app.post("/api/events/:id/guest-imports", requirePermission("guests.import"), upload.single("file"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: "لم يتم رفع ملف" });
+      }
+
+      const requestedSheet = typeof req.body.sheet === "string" && req.body.sheet ? req.body.sheet : undefined;
+      const parsed = parseGuestSheet(req.file.buffer, requestedSheet);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const customFields = await storage.getEventGuestFields(event.id);
+      const guestImport = await storage.createGuestImport({
+        eventId: event.id,
+        userId: user.id,
+        // multer hands over the multipart file name as latin1
+        fileName: Buffer.from(req.file.originalname, "latin1").toString("utf8"),
+        ...parsed,
+        mapping: detectImportMapping(parsed.columns, customFields),
+      });
+
+      const rows = validateGuestRows(
+        guestImport,
+        await storage.getGuestsByEvent(event.id),
+        customFields,
+        await storage.getEventCategories(event.id)
+      );
+      res.json(buildImportPreview(guestImport, rows, await remainingGuestCapacity(event)));
+    } catch (error) {
+      console.error("Guest import upload error:", error);
+      res.status(500).json({ error: "خطأ في معالجة الملف" });
+    }
+  });
+
+  // Step 2 (repeatable): change the column mapping and get the preview again
+  app.put("/api/guest-imports/:id/mapping", requirePermission("guests.import"), async (req, res) => {
+    try {
+      const parseResult = guestImportMappingSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "ربط الأعمدة غير صالح" });
+      }
+      const { mapping } = parseResult.data;
+
+      const loaded = await loadGuestImport(req, req.params.id, true);
+      if ("httpStatus" in loaded) {
+        return res.status(loaded.httpStatus).json({ error: loaded.error });
+      }
+      const { guestImport, event } = loaded;
+      const { custom = {}, ...fields } = mapping;
+      const chosenColumns = [...Object.values(fields), ...Object.values(custom)];
+      if (chosenColumns.some((column) => column !== null && !guestImport.columns.includes(column))) {
+        return res.status(400).json({ error: "العمود المختار غير موجود في الملف" });
+      }
+      const customFields = await storage.getEventGuestFields(event.id);
+      if (Object.keys(custom).some((fieldId) => !customFields.some((f) => f.id === fieldId))) {
+        return res.status(400).json({ error: "الحقل المختار غير موجود في المناسبة" });
+      }
+
+      const updated = await storage.updateGuestImportMapping(guestImport.id, mapping);
+      if (!updated) {
+        return res.status(409).json({ error: "تم اعتماد هذا الاستيراد مسبقاً" });
+      }
+
+      const rows = validateGuestRows(
+        updated,
+        await storage.getGuestsByEvent(event.id),
+        customFields,
+        await storage.getEventCategories(event.id)
+      );
+      res.json(buildImportPreview(updated, rows, await remainingGuestCapacity(event)));
+    } catch (error) {
+      console.error("Guest import mapping error:", error);
+      res.status(500).json({ error: "خطأ في تحديث ربط الأعمدة" });
+    }
+  });
+
+  // Step 3: create the valid rows. Rows are validated again, since guests may have been added
+  // since the preview; rows past the capacity tier's limit are rejected rather than truncated.
+  app.post("/api/guest-imports/:id/commit", requirePermission("guests.import"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = guestImportCommitSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+      const { duplicates } = parseResult.data;
+
+      const loaded = await loadGuestImport(req, req.params.id, true);
+      if ("httpStatus" in loaded) {
+        return res.status(loaded.httpStatus).json({ error: loaded.error });
+      }
+      const { guestImport, event } = loaded;
+      if (!guestImport.mapping.name) {
+        return res.status(400).json({ error: "حدد عمود الاسم قبل الاستيراد" });
+      }
+
+      const existingGuests = await storage.getGuestsByEvent(event.id);
+      const existingById = new Map(existingGuests.map((g) => [g.id, g]));
+      const rows = validateGuestRows(
+        guestImport,
+        existingGuests,
+        await storage.getEventGuestFields(event.id),
+        await storage.getEventCategories(event.id)
+      );
+      const { create, update, rejected } = planGuestImport(rows, duplicates);
+      let accepted = create;
+
+      const remaining = await remainingGuestCapacity(event);
+      if (remaining !== null && accepted.length > remaining) {
+        const overflow = accepted.slice(Math.max(remaining, 0));
+        rejected.push(...overflow.map((r) => ({ row: r.row, reason: "تجاوز الحد الأقصى لضيوف المناسبة حسب باقة السعة" })));
+        rejected.sort((a, b) => a.row - b.row);
+        accepted = accepted.slice(0, Math.max(remaining, 0));
+      }
+
+      const committed = await storage.commitGuestImport(
+        guestImport.id,
+        accepted.map((row) => toInsertGuest(event.id, row, generateAccessCode())),
+        update.map((row) => ({
+          id: row.duplicateGuestId!,
+          data: toGuestUpdate(guestImport, row, existingById.get(row.duplicateGuestId!)!),
+        })),
+        rejected
+      );
+      if (!committed) {
+        return res.status(409).json({ error: "تم اعتماد هذا الاستيراد مسبقاً" });
+      }
+      const { created, updated } = committed;
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "upload_guests",
+        details:
+          `تم استيراد ${created.length} ضيف من ${guestImport.fileName}` +
+          (updated.length ? ` وتحديث ${updated.length} ضيف مسجل` : "") +
+          (rejected.length ? ` (رُفض ${rejected.length} صف)` : ""),
+      });
+      // Each overwritten guest gets its own entry so the change shows in the guest's history
+      for (const guest of updated) {
+        await storage.createAuditLog({
+          eventId: event.id,
+          userId: user.id,
+          action: "update_guest",
+          details: `تم تحديث ضيف من الاستيراد (${guestImport.fileName}): ${guest.name}`,
+          guestId: guest.id,
+        });
+      }
+
+      const result: GuestImportResult = { created: created.length, updated: updated.length, rejected: rejected.length };
+      res.json(result);
+    } catch (error) {
+      console.error("Guest import commit error:", error);
+      res.status(500).json({ error: "خطأ في استيراد الضيوف" });
+    }
+  });
+
+  // Rejected rows with the reason for each: before commit, the rows the preview would leave out
+  // under ?duplicates= (skip by default); after it, the rows actually left out
+  app.get("/api/guest-imports/:id/rejected", requirePermission("guests.import"), async (req, res) => {
+    try {
+      const loaded = await loadGuestImport(req, req.params.id, false);
+      if ("httpStatus" in loaded) {
+        return res.status(loaded.httpStatus).json({ error: loaded.error });
+      }
+      const { guestImport, event } = loaded;
+
+      const policy = guestImportDuplicatePolicies.find((p) => p === req.query.duplicates) ?? "skip";
+      const rejections =
+        guestImport.rejected ??
+        planGuestImport(
+          validateGuestRows(
+            guestImport,
+            await storage.getGuestsByEvent(event.id),
+            await storage.getEventGuestFields(event.id),
+            await storage.getEventCategories(event.id)
+          ),
+          policy
+        ).rejected;
+      if (rejections.length === 0) {
+        return res.status(400).json({ error: "لا توجد صفوف مرفوضة" });
+      }
+
+      const buffer = rejectedRowsWorkbook(guestImport, rejections);
+      const filename = encodeURIComponent(`صفوف-مرفوضة-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Guest import rejected rows error:", error);
+      res.status(500).json({ error: "خطأ في تصدير الصفوف المرفوضة" });
+    }
+  });
+
+  app.delete("/api/guest-imports/:id", requirePermission("guests.import"), async (req, res) => {
+    try {
+      const loaded = await loadGuestImport(req, req.params.id, false);
+      if ("httpStatus" in loaded) {
+        return res.status(loaded.httpStatus).json({ error: loaded.error });
+      }
+      await storage.deleteGuestImport(loaded.guestImport.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إلغاء الاستيراد" });
+    }
+  });
+
+  // Add single guest
+  app.post("/api/events/:id/guests", requirePermission("guests.add"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+
+      const currentGuests = await storage.getGuestsByEvent(req.params.id);
+
+      // Check capacity limit if event has a capacity tier
+      if (event.capacityTierId) {
+        const tier = await storage.getCapacityTier(event.capacityTierId);
+        if (tier && !tier.isUnlimited && tier.maxGuests) {
+          if (currentGuests.length >= tier.maxGuests) {
+            return res.status(403).json({ 
+              error: `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${tier.maxGuests}). يمكنك ترقية باقة السعة.` 
+            });
+          }
+        }
+      }
+
+      const { name, phone, category, companions, notes, customFields, allowDuplicate } = req.body;
+
+      if (!name || name.trim() === "") {
+        return res.status(400).json({ error: "اسم الضيف مطلوب" });
+      }
+      const parsedPhone = parsePhone(phone);
+      if ("error" in parsedPhone) {
+        return res.status(400).json({ error: parsedPhone.error });
+      }
+      const parsedCustomFields = parseCustomFields(await storage.getEventGuestFields(event.id), customFields);
+      if ("error" in parsedCustomFields) {
+        return res.status(400).json({ error: parsedCustomFields.error });
+      }
+      const resolvedCategory = await resolveGuestCategory(event.id, category);
+      if ("error" in resolvedCategory) {
+        return res.status(400).json({ error: resolvedCategory.error });
+      }
+      const parsedCompanions = guestCompanionsSchema.safeParse(companions ?? 0);
+      if (!parsedCompanions.success) {
+        return res.status(400).json({ error: parsedCompanions.error.errors[0].message });
+      }
+
+      // A guest who looks already invited is only added once the manager confirms
+      if (allowDuplicate !== true) {
+        const match = new DuplicateIndex(currentGuests).find({ name: name.trim(), phone: parsedPhone.phone });
+        if (match) {
+          return res.status(409).json({
+            error: `${duplicateReasonLabels[match.reason]} لضيف مسجل: ${match.guest.name}`,
+            duplicate: match.guest,
+          });
+        }
+      }
+
+      const guest = await storage.createGuest({
+        eventId: req.params.id,
+        name: name.trim(),
+        phone: parsedPhone.phone,
+        category: resolvedCategory.key,
+        companions: parsedCompanions.data,
+        notes: notes || "",
+        customFields: parsedCustomFields.values,
+        qrCode: generateAccessCode(),
+      });
+
+      await storage.createAuditLog({
+        eventId: req.params.id,
+        userId: user.id,
+        action: "add_guest",
+        details: `تم إضافة ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json(guest);
+    } catch (error) {
+      console.error("Add guest error:", error);
+      res.status(500).json({ error: "خطأ في إضافة الضيف" });
+    }
+  });
+
+  app.post("/api/guests/:id/check-in", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const outcome = await checkInResolved(
+        req,
+        () => resolveGuestById(req.params.id),
+        (guest) => `تم تسجيل حضور: ${guest.name}`
+      );
+      sendCheckInOutcome(res, outcome);
+    } catch (error) {
+      console.error("Check-in error:", error);
+      res.status(500).json({ error: "خطأ في تسجيل الحضور" });
+    }
+  });
+
+  // Check-out (events in check-out / re-entry mode only)
+  app.post("/api/guests/:id/check-out", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const outcome = await handleAtDoor(req, () => resolveGuestById(req.params.id), checkOutGuest);
+      sendCheckInOutcome(res, outcome);
+    } catch (error) {
+      console.error("Check-out error:", error);
+      res.status(500).json({ error: "خطأ في تسجيل الخروج" });
+    }
+  });
+
+  app.get("/api/guests/:id/movements", requirePermission("guests.view"), async (req, res) => {
+    try {
+      const guest = await storage.getGuest(req.params.id);
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+      const event = await storage.getEvent(guest.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const movements = await storage.getGuestMovements(guest.id);
+      const withUsers = await Promise.all(
+        movements.map(async (movement) => {
+          const movedBy = movement.userId ? await storage.getUser(movement.userId) : undefined;
+          return { ...movement, userName: movedBy?.name || null };
+        })
+      );
+      res.json(withUsers);
+    } catch (error) {
+      console.error("Get movements error:", error);
+      res.status(500).json({ error: "خطأ في جلب سجل الدخول والخروج" });
+    }
+  });
+
+  // Correct how many companions actually came in with an admitted guest
+  app.post("/api/guests/:id/companions", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = companionsCountSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "عدد المرافقين غير صالح" });
+      }
+      const { companionsCheckedIn } = parseResult.data;
+
+      const guest = await storage.getGuest(req.params.id);
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+      const event = await storage.getEvent(guest.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+      if (!guest.isCheckedIn) {
+        return res.status(400).json({ error: "لم يتم تسجيل حضور هذا الضيف" });
+      }
+      if (companionsCheckedIn > (guest.companions || 0)) {
+        return res.status(400).json({ error: `عدد المرافقين المدعوين ${guest.companions || 0} فقط` });
+      }
+
+      const updated = await storage.setCompanionsCheckedIn(guest.id, companionsCheckedIn);
+      if (!updated) {
+        return res.status(409).json({ error: "تم التراجع عن تسجيل حضور هذا الضيف" });
+      }
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "update_companions",
+        details: `تعديل عدد مرافقي ${guest.name} الداخلين: ${companionsCheckedIn} من ${guest.companions || 0}`,
+        guestId: guest.id,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Update companions error:", error);
+      res.status(500).json({ error: "خطأ في تعديل عدد المرافقين" });
+    }
+  });
+
+  // Undo a check-in. Managers can undo any admission; organizers only their own, and only
+  // within ORGANIZER_UNDO_WINDOW_MINUTES of admitting the guest.
+  app.post("/api/guests/:id/check-in/revert", requirePermission("checkin.undo"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = revertCheckInSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "سبب التراجع مطلوب" });
+      }
+      const { reason } = parseResult.data;
+
+      const guest = await storage.getGuest(req.params.id);
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+      const event = await storage.getEvent(guest.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+      if (!guest.isCheckedIn) {
+        return res.status(400).json({ error: "لم يتم تسجيل حضور هذا الضيف" });
+      }
+
+      if (user.role === "organizer") {
+        if (guest.checkedInBy !== user.id) {
+          return res.status(403).json({ error: "يمكنك التراجع عن تسجيلات الحضور التي قمت بها فقط" });
+        }
+        const elapsed = Date.now() - new Date(guest.checkedInAt!).getTime();
+        if (elapsed > ORGANIZER_UNDO_WINDOW_MINUTES * 60 * 1000) {
+          return res.status(403).json({
+            error: `انتهت مهلة التراجع (${ORGANIZER_UNDO_WINDOW_MINUTES} دقائق)، يرجى التواصل مع مدير المناسبة`,
+          });
+        }
+      }
+
+      const reverted = await storage.revertCheckIn(guest.id, user.id, reason);
+      if (!reverted) {
+        return res.status(409).json({ error: "تم التراجع عن هذا التسجيل مسبقاً" });
+      }
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "check_in_reverted",
+        details: `تم التراجع عن تسجيل حضور: ${guest.name} - السبب: ${reason}`,
+        guestId: guest.id,
+      });
+
+      res.json(reverted);
+    } catch (error) {
+      console.error("Revert check-in error:", error);
+      res.status(500).json({ error: "خطأ في التراجع عن تسجيل الحضور" });
+    }
+  });
+
+  // Get single guest
+  app.get("/api/guests/:id", requirePermission("guests.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(guest);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب بيانات الضيف" });
+    }
+  });
+
+  // Update guest
+  app.patch("/api/guests/:id", requirePermission("guests.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+
+      const { name, phone, category, companions, notes, customFields } = req.body;
+      // Leaving phone or customFields out of the body keeps the stored values
+      const parsedPhone = phone === undefined ? undefined : parsePhone(phone);
+      if (parsedPhone && "error" in parsedPhone) {
+        return res.status(400).json({ error: parsedPhone.error });
+      }
+      const parsedCustomFields =
+        customFields === undefined ? undefined : parseCustomFields(await storage.getEventGuestFields(event.id), customFields);
+      if (parsedCustomFields && "error" in parsedCustomFields) {
+        return res.status(400).json({ error: parsedCustomFields.error });
+      }
+      const resolvedCategory = category === undefined ? undefined : await resolveGuestCategory(event.id, category);
+      if (resolvedCategory && "error" in resolvedCategory) {
+        return res.status(400).json({ error: resolvedCategory.error });
+      }
+      const parsedCompanions = companions === undefined ? undefined : guestCompanionsSchema.safeParse(companions);
+      if (parsedCompanions && !parsedCompanions.success) {
+        return res.status(400).json({ error: parsedCompanions.error.errors[0].message });
+      }
+      const updated = await storage.updateGuest(req.params.id, {
+        name,
+        phone: parsedPhone?.phone,
+        category: resolvedCategory?.key,
+        companions: parsedCompanions?.data,
+        notes,
+        customFields: parsedCustomFields?.values,
+      });
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "update_guest",
+        details: `تم تعديل ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الضيف" });
+    }
+  });
+
+  // Delete guest
+  app.delete("/api/guests/:id", requirePermission("guests.delete"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const guest = await storage.getGuest(req.params.id);
+      
+      if (!guest) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+
+      await storage.deleteGuest(req.params.id);
+
+      await storage.createAuditLog({
+        eventId: guest.eventId,
+        userId: user.id,
+        action: "delete_guest",
+        details: `تم حذف ضيف: ${guest.name}`,
+        guestId: guest.id,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في حذف الضيف" });
+    }
+  });
+
+  // Guests of the event that look like the same person, for the merge tool
+  app.get("/api/events/:id/duplicates", requirePermission("guests.view"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(event.id);
+      guests.sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+      res.json(findDuplicatePairs(guests));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في البحث عن الضيوف المكررين" });
+    }
+  });
+
+  // Merge the guest in the URL into another guest of the same event. Merging removes the
+  // duplicate's record, so it takes the delete permission.
+  app.post("/api/guests/:id/merge", requirePermission("guests.delete"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = mergeGuestsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0].message });
+      }
+      const { intoGuestId } = parseResult.data;
+      if (intoGuestId === req.params.id) {
+        return res.status(400).json({ error: "لا يمكن دمج الضيف مع نفسه" });
+      }
+
+      const duplicate = await storage.getGuest(req.params.id);
+      const kept = await storage.getGuest(intoGuestId);
+      if (!duplicate || !kept) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+      if (duplicate.eventId !== kept.eventId) {
+        return res.status(400).json({ error: "لا يمكن دمج ضيوف من مناسبتين مختلفتين" });
+      }
+
+      const event = await storage.getEvent(kept.eventId);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+
+      const defaultCategory = defaultCategoryKey(await storage.getEventCategories(kept.eventId));
+      const merged = await storage.mergeGuests(kept.id, duplicate, mergedGuestDetails(kept, duplicate, defaultCategory), user.id);
+      if (!merged) {
+        return res.status(404).json({ error: "الضيف غير موجود" });
+      }
+
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "merge_guests",
+        details: `تم دمج الضيف ${duplicate.name} (${duplicate.qrCode}) مع ${kept.name} وإلغاء دعوته`,
+        guestId: kept.id,
+      });
+
+      res.json(merged);
+    } catch (error) {
+      console.error("Guest merge error:", error);
+      res.status(500).json({ error: "خطأ في دمج الضيفين" });
+    }
+  });
+
+  // Organizer events: the door screen leaves out drafts and archived events
+  app.get("/api/organizer/events", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = req.user!;
+
+      let events: Event[];
+      if (user.role === "organizer") {
+        events = await storage.getOrganizerEvents(user.id);
+      } else if (canBypassOwnership(user.role)) {
+        // Admin and super_admin see all events
+        events = await storage.getEvents();
+      } else {
+        events = await storage.getEventsByManager(user.id);
+      }
+      res.json(events.filter((e) => e.status !== "draft" && e.status !== "archived"));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المناسبات" });
+    }
+  });
+
+  // Event organizers management
+  app.get("/api/events/:id/organizers", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "غير مصرح" });
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      // Check access - admin/super_admin bypass, event manager owns event, or organizer is assigned
+      if (!canBypassOwnership(user.role)) {
+        if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+          return res.status(403).json({ error: "غير مسموح" });
+        }
+      }
+      if (user.role === "organizer") {
+        const assignedEvents = await storage.getOrganizerEvents(user.id);
+        if (!assignedEvents.some(e => e.id === event.id)) {
+          return res.status(403).json({ error: "غير مسموح" });
+        }
+      }
+
+      const organizers = await storage.getEventOrganizers(req.params.id);
+      const gateByOrganizer = new Map(
+        (await storage.getEventOrganizerAssignments(req.params.id)).map((a) => [a.organizerId, a.gateId])
+      );
+      res.json(organizers.map((o) => ({ ...sanitizeUser(o), gateId: gateByOrganizer.get(o.id) ?? null })));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب المنظمين" });
+    }
+  });
+
+  app.post("/api/events/:id/organizers", requirePermission("organizers.assign"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const { organizerId } = req.body;
+      
+      // Event manager can only assign organizers they created
+      if (user.role === "event_manager") {
+        const organizer = await storage.getUser(organizerId);
+        if (!organizer || organizer.createdById !== user.id) {
+          return res.status(403).json({ error: "لا يمكنك تعيين منظم لم تقم بإنشائه" });
+        }
+      }
+      
+      const assignment = await storage.assignOrganizer({
+        eventId: req.params.id,
+        organizerId,
+      });
+      res.json(assignment);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تعيين المنظم" });
+    }
+  });
+
+  app.delete("/api/events/:id/organizers/:organizerId", requirePermission("organizers.assign"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      await storage.removeOrganizer(req.params.id, req.params.organizerId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إزالة المنظم" });
+    }
+  });
+
+  // Puts an assigned organizer on one gate (or back on "any gate" with gateId null)
+  app.patch("/api/events/:id/organizers/:organizerId", requirePermission("organizers.assign"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const parseResult = organizerGateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+      const { gateId } = parseResult.data;
+      const gate = gateId ? await storage.getEventGate(gateId) : undefined;
+      if (gateId && (!gate || gate.eventId !== event.id)) {
+        return res.status(400).json({ error: "البوابة غير موجودة في هذه المناسبة" });
+      }
+
+      const assignment = await storage.setOrganizerGate(event.id, req.params.organizerId, gateId);
+      if (!assignment) {
+        return res.status(404).json({ error: "المنظم غير معين لهذه المناسبة" });
+      }
+
+      const organizer = await storage.getUser(req.params.organizerId);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "assign_gate",
+        details: gate
+          ? `تعيين ${organizer?.name || "منظم"} على ${gate.name}`
+          : `إلغاء تعيين بوابة ${organizer?.name || "منظم"}`,
+      });
+      res.json(assignment);
+    } catch (error) {
+      console.error("Assign gate error:", error);
+      res.status(500).json({ error: "خطأ في تعيين البوابة" });
+    }
+  });
+
+  // Audit logs - Event manager only
+  app.get("/api/events/:id/audit-logs", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+
+      // Event manager can only see their own event logs
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const logs = await storage.getAuditLogsByEvent(req.params.id);
+      res.json(logs);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب السجلات" });
+    }
+  });
+
+  // Stats routes - Role-based
+  app.get("/api/stats/super-admin", requireRole("super_admin"), async (req, res) => {
+    try {
+      const stats = await storage.getStats("super_admin");
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  app.get("/api/stats/admin", requireRole("admin", "super_admin"), async (req, res) => {
+    try {
+      const stats = await storage.getStats("admin");
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  app.get("/api/stats/event-manager", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const stats = await storage.getStats("event_manager", user.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+    }
+  });
+
+  // System-wide statistics (reports.system, super_admin only)
+  app.get("/api/stats/comprehensive", requirePermission("reports.system"), async (req, res) => {
+    try {
+      const stats = await storage.getComprehensiveStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Comprehensive stats error:", error);
+      res.status(500).json({ error: "خطأ في جلب الإحصائيات التفصيلية" });
+    }
+  });
+
+  // Export guests to Excel with access codes
+  app.get("/api/events/:id/export-guests", requirePermission("guests.export"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const guests = await storage.getGuestsByEvent(req.params.id);
+
+      if (guests.length === 0) {
+        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
+      }
+
+      const signingKey = await storage.getActiveEventSigningKey(event.id);
+      if (!signingKey) {
+        return res.status(409).json({ error: MISSING_SIGNING_KEY_MESSAGE });
+      }
+      const sessions = await storage.getEventSessions(event.id);
+      const customFields = await storage.getEventGuestFields(event.id);
+      const attended = new Set(
+        (await storage.getSessionAttendanceByEvent(event.id)).map((a) => `${a.sessionId}:${a.guestId}`)
+      );
+      const categories = await storage.getEventCategories(event.id);
+
+      // Prepare data for Excel
+      const excelData = guests.map((guest, index) => ({
+        "#": index + 1,
+        "الاسم": guest.name,
+        "الجوال": guest.phone || "",
+        "الفئة": categoryLabel(categories, guest.category),
+        "عدد المرافقين": guest.companions || 0,
+        "ملاحظات": guest.notes || "",
+        ...customFieldCells(customFields, guest.customFields),
+        "كود الدخول": guest.qrCode,
+        "رمز QR الموقع": signAccessCode(signingKey.kid, signingKey.privateKey, guest.qrCode),
+        "الحالة": guest.isCheckedIn ? "حاضر" : "لم يحضر",
+        ...Object.fromEntries(
+          sessions.map((session) => [
+            `جلسة: ${session.name}`,
+            attended.has(`${session.id}:${guest.id}`) ? "حاضر" : "",
+          ])
+        ),
+      }));
+
+      // Create workbook
+      const workbook = XLSX.utils.book_new();
+      const worksheet = XLSX.utils.json_to_sheet(excelData);
+      
+      // Set column widths
+      worksheet["!cols"] = [
+        { wch: 5 },   // #
+        { wch: 25 },  // الاسم
+        { wch: 15 },  // الجوال
+        { wch: 10 },  // الفئة
+        { wch: 12 },  // عدد المرافقين
+        { wch: 30 },  // ملاحظات
+        ...customFields.map(() => ({ wch: 18 })),
+        { wch: 18 },  // كود الدخول
+        { wch: 40 },  // رمز QR الموقع
+        { wch: 12 },  // الحالة
+        ...sessions.map(() => ({ wch: 18 })),
+      ];
+
+      XLSX.utils.book_append_sheet(workbook, worksheet, "المدعوين");
+
+      // Generate buffer
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      // Set headers for file download
+      const filename = encodeURIComponent(`مدعوين-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+      
+      res.send(buffer);
+    } catch (error) {
+      console.error("Export error:", error);
+      res.status(500).json({ error: "خطأ في تصدير البيانات" });
+    }
+  });
+
+  // Reports download endpoints
+  app.get("/api/events/:id/reports/:type", requirePermission("reports.export"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const reportType = req.params.type as "attendance" | "absence" | "audit" | "sessions";
+      const event = await storage.getEvent(req.params.id);
+      
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      // audit.view is never granted to API keys, so a key cannot download the audit log
+      if (reportType === "audit" && (req.apiKey || !(await userCan(user, "audit.view")))) {
+        return res.status(403).json({ error: "ليس لديك صلاحية لتنفيذ هذا الإجراء" });
+      }
+
+      const categories = await storage.getEventCategories(event.id);
+
+      let excelData: any[] = [];
+      let sheetName = "";
+      // Optional first sheet (per-gate or per-session totals)
+      let summarySheet: { name: string; rows: any[] } | null = null;
+
+      if (reportType === "attendance" || reportType === "absence") {
+        const guests = await storage.getGuestsByEvent(req.params.id);
+        const filteredGuests = guests.filter(g => 
+          reportType === "attendance" ? g.isCheckedIn : !g.isCheckedIn
+        );
+
+        if (filteredGuests.length === 0) {
+          return res.status(400).json({ 
+            error: reportType === "attendance" 
+              ? "لا يوجد حضور لتصديره" 
+              : "لا يوجد غياب لتصديره" 
+          });
+        }
+        const customFields = await storage.getEventGuestFields(req.params.id);
+
+        excelData = filteredGuests.map((guest, index) => ({
+          "#": index + 1,
+          "الاسم": guest.name,
+          "الجوال": guest.phone || "",
+          "الفئة": categoryLabel(categories, guest.category),
+          "عدد المرافقين": guest.companions || 0,
+          "ملاحظات": guest.notes || "",
+          ...customFieldCells(customFields, guest.customFields),
+          ...(reportType === "attendance" ? {
+            "المرافقون الداخلون": guest.companionsCheckedIn,
+            "وقت الحضور": guest.checkedInAt 
+              ? new Date(guest.checkedInAt).toLocaleString("ar-SA")
+              : "",
+          } : {
+            // Guests whose check-in was undone are absent, but say why
+            "تم التراجع عن الحضور": guest.checkInRevertedAt
+              ? new Date(guest.checkInRevertedAt).toLocaleString("ar-SA")
+              : "",
+            "سبب التراجع": guest.checkInRevertReason || "",
+          }),
+        }));
+        sheetName = reportType === "attendance" ? "الحضور" : "الغياب";
+
+        const gates = reportType === "attendance" ? await storage.getEventGates(req.params.id) : [];
+        if (gates.length > 0) {
+          summarySheet = {
+            name: "البوابات",
+            rows: gates.map((gate, index) => ({
+              "#": index + 1,
+              "البوابة": gate.name,
+              "الفئات المسموحة": gate.allowedCategories.length
+                ? gate.allowedCategories.map((c) => categoryLabel(categories, c)).join("، ")
+                : "الكل",
+              "عمليات الدخول": gate.entries,
+              "عدد الأشخاص": gate.people,
+            })),
+          };
+        }
+      } else if (reportType === "audit") {
+        const logs = await storage.getAuditLogsByEvent(req.params.id);
+
+        if (logs.length === 0) {
+          return res.status(400).json({ error: "لا يوجد سجلات لتصديرها" });
+        }
+
+        excelData = await Promise.all(logs.map(async (log, index) => {
+          const logUser = await storage.getUser(log.userId);
+          return {
+            "#": index + 1,
+            "التاريخ": log.timestamp ? new Date(log.timestamp).toLocaleString("ar-SA") : "",
+            "المستخدم": logUser?.name || "غير معروف",
+            "العملية": auditActionLabel(log.action),
+            "التفاصيل": log.details || "",
+          };
+        }));
+        sheetName = "سجل العمليات";
+      } else if (reportType === "sessions") {
+        const sessions = await storage.getEventSessions(req.params.id);
+        if (sessions.length === 0) {
+          return res.status(400).json({ error: "لا توجد جلسات لهذه المناسبة" });
+        }
+        const attendance = await storage.getSessionAttendanceByEvent(req.params.id);
+        const guestsById = new Map((await storage.getGuestsByEvent(req.params.id)).map((g) => [g.id, g]));
+        const sessionsById = new Map(sessions.map((s) => [s.id, s]));
+        const userNames = new Map<string, string>();
+        for (const userId of Array.from(new Set(attendance.map((a) => a.checkedInBy).filter(Boolean)))) {
+          userNames.set(userId!, (await storage.getUser(userId!))?.name || "غير معروف");
+        }
+
+        summarySheet = {
+          name: "ملخص الجلسات",
+          rows: sessions.map((session, index) => ({
+            "#": index + 1,
+            "الجلسة": session.name,
+            "التاريخ": new Date(session.date).toLocaleDateString("ar-SA"),
+            "الوقت": [session.startTime, session.endTime].filter(Boolean).join(" - "),
+            "القاعة": session.room || "",
+            "السعة": session.capacity ?? "",
+            "الضيوف الحاضرون": session.attendedGuests,
+            "عدد الأشخاص": session.attendedPeople,
+          })),
+        };
+
+        excelData = attendance.map((entry, index) => {
+          const session = sessionsById.get(entry.sessionId);
+          const guest = guestsById.get(entry.guestId);
+          return {
+            "#": index + 1,
+            "الجلسة": session?.name || "",
+            "القاعة": session?.room || "",
+            "الاسم": guest?.name || "ضيف محذوف",
+            "الجوال": guest?.phone || "",
+            "الفئة": categoryLabel(categories, guest?.category),
+            "عدد الأشخاص": entry.people,
+            "وقت الدخول": entry.checkedInAt ? new Date(entry.checkedInAt).toLocaleString("ar-SA") : "",
+            "المنظم": entry.checkedInBy ? userNames.get(entry.checkedInBy) : "",
+          };
+        });
+        sheetName = "حضور الجلسات";
+      } else {
+        return res.status(400).json({ error: "نوع التقرير غير صالح" });
+      }
+
+      const workbook = XLSX.utils.book_new();
+      if (summarySheet) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summarySheet.rows), summarySheet.name);
+      }
+      const worksheet = XLSX.utils.json_to_sheet(excelData);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      const reportNames: Record<string, string> = {
+        attendance: "تقرير-الحضور",
+        absence: "تقرير-الغياب",
+        audit: "سجل-العمليات",
+        sessions: "تقرير-الجلسات",
+      };
+      const filename = encodeURIComponent(`${reportNames[reportType]}-${event.name}.xlsx`);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
+      res.setHeader("Content-Length", buffer.length);
+      
+      res.send(buffer);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تغيير حالة المستخدم" });
+      console.error("Report error:", error);
+      res.status(500).json({ error: "خطأ في تحميل التقرير" });
     }
   });
 
-  // Delete user
-  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+  // People inside the venue right now, for the live occupancy figure and limit alerts
+  app.get("/api/events/:id/occupancy", requirePermission("guests.view"), async (req, res) => {
     try {
-      const currentUser = await storage.getUser(req.session.userId!);
-      if (!currentUser) return res.status(401).json({ error: "غير مصرح" });
-
-      const targetUser = await storage.getUser(req.params.id);
-      if (!targetUser) return res.status(404).json({ error: "المستخدم غير موجود" });
-
-      // Prevent self-delete (lockout protection)
-      if (targetUser.id === currentUser.id) {
-        return res.status(403).json({ error: "لا يمكنك حذف حسابك الخاص" });
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-
-      // Permission check - super_admin can delete anyone except super_admin, admin can delete subordinates
-      const canDelete =
-        (currentUser.role === "super_admin" && targetUser.role !== "super_admin") ||
-        (currentUser.role === "admin" && ["event_manager", "organizer"].includes(targetUser.role)) ||
-        (currentUser.role === "event_manager" && targetUser.role === "organizer" && targetUser.createdById === currentUser.id);
-
-      if (!canDelete) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      await storage.deleteUser(req.params.id);
-      res.json({ success: true, message: "تم حذف المستخدم بنجاح" });
+      const guests = await storage.getGuestsByEvent(event.id);
+      res.json(occupancyOf(event, guests));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في حذف المستخدم" });
+      console.error("Get occupancy error:", error);
+      res.status(500).json({ error: "خطأ في جلب عدد الحاضرين داخل المكان" });
     }
   });
 
-  // Event routes - Event Manager role
-  app.get("/api/events", requireAuth, async (req, res) => {
-    try {
-      const user = await storage.getUser(req.session.userId!);
-      if (!user) return res.status(401).json({ error: "غير مصرح" });
+  // ============ GUEST FIELDS ============
 
-      let eventList;
-      if (user.role === "event_manager") {
-        eventList = await storage.getEventsByManager(user.id);
-      } else if (user.role === "organizer") {
-        eventList = await storage.getOrganizerEvents(user.id);
-      } else {
-        eventList = await storage.getEvents();
+  // Custom guest fields of an event
+  app.get("/api/events/:id/guest-fields", requirePermission("guests.view"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-      res.json(eventList);
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      res.json(await storage.getEventGuestFields(event.id));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المناسبات" });
+      console.error("Get guest fields error:", error);
+      res.status(500).json({ error: "خطأ في جلب حقول الضيوف" });
     }
   });
 
-  app.get("/api/events/:id", requireAuth, async (req, res) => {
+  app.post("/api/events/:id/guest-fields", requirePermission("events.edit"), async (req, res) => {
     try {
+      const user = req.user!;
       const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
 
-      const user = await storage.getUser(req.session.userId!);
-      if (!user) return res.status(401).json({ error: "غير مصرح" });
-
-      // Check access - admin and super_admin can access all events
-      if (!canBypassOwnership(user.role)) {
-        if (user.role === "event_manager" && event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-        if (user.role === "organizer") {
-          const assignedEvents = await storage.getOrganizerEvents(user.id);
-          if (!assignedEvents.some(e => e.id === event.id)) {
-            return res.status(403).json({ error: "غير مسموح" });
-          }
-        }
+      const parseResult = eventGuestFieldSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الحقل غير صالحة" });
+      }
+      const existing = await storage.getEventGuestFields(event.id);
+      if (existing.some((f) => f.label === parseResult.data.label)) {
+        return res.status(400).json({ error: "يوجد حقل بنفس الاسم في هذه المناسبة" });
       }
 
-      res.json(event);
+      const field = await storage.createEventGuestField({ ...parseResult.data, eventId: event.id });
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "create_guest_field",
+        details: `تم إضافة حقل للضيوف: ${field.label}`,
+      });
+      res.json(field);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المناسبة" });
+      console.error("Create guest field error:", error);
+      res.status(500).json({ error: "خطأ في إضافة الحقل" });
     }
   });
 
-  app.post("/api/events", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.patch("/api/guest-fields/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-
-      // Validate capacity tier for event managers
-      if (user.role === "event_manager" && !req.body.capacityTierId) {
-        return res.status(400).json({ error: "يجب اختيار باقة سعة المناسبة" });
+      const user = req.user!;
+      const field = await storage.getEventGuestField(req.params.id);
+      if (!field) {
+        return res.status(404).json({ error: "الحقل غير موجود" });
+      }
+      const event = await storage.getEvent(field.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
       }
 
-      // If capacity tier provided, verify it exists
-      if (req.body.capacityTierId) {
-        const tier = await storage.getCapacityTier(req.body.capacityTierId);
-        if (!tier || !tier.isActive) {
-          return res.status(400).json({ error: "باقة السعة غير صالحة" });
-        }
-        
-        // Check tier-specific quota for event managers
-        if (user.role === "event_manager") {
-          const userTierQuotas = await storage.getUserTierQuotas(user.id);
-          const tierQuota = userTierQuotas.find(q => String(q.capacityTierId) === String(req.body.capacityTierId));
-          const quota = tierQuota?.quota || 0;
-          
-          if (quota === 0) {
-            return res.status(403).json({ 
-              error: `ليس لديك صلاحية إنشاء مناسبات من باقة "${tier.name}". تواصل مع مالك النظام.` 
-            });
-          }
-          
-          const tierEventCount = await storage.getEventCountByManagerAndTier(user.id, req.body.capacityTierId);
-          if (tierEventCount >= quota) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من باقة "${tier.name}" (${quota}). تواصل مع مالك النظام لزيادة حصتك.` 
-            });
-          }
-        }
+      const parseResult = eventGuestFieldSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الحقل غير صالحة" });
+      }
+      const existing = await storage.getEventGuestFields(event.id);
+      if (existing.some((f) => f.id !== field.id && f.label === parseResult.data.label)) {
+        return res.status(400).json({ error: "يوجد حقل بنفس الاسم في هذه المناسبة" });
       }
 
-      // Parse date string to Date object
-      const eventData = {
-        ...req.body,
-        eventManagerId: user.id,
-        date: req.body.date ? new Date(req.body.date) : undefined,
-        isActive: true,
-      };
+      // Values already saved stay as they are when the type or the options change
+      const updated = await storage.updateEventGuestField(field.id, parseResult.data);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "update_guest_field",
+        details: `تم تعديل حقل الضيوف: ${updated?.label ?? field.label}`,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update guest field error:", error);
+      res.status(500).json({ error: "خطأ في تعديل الحقل" });
+    }
+  });
 
-      // Validate required fields
-      if (!eventData.name || !eventData.date) {
-        return res.status(400).json({ error: "اسم المناسبة والتاريخ مطلوبان" });
+  app.delete("/api/guest-fields/:id", requirePermission("events.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const field = await storage.getEventGuestField(req.params.id);
+      if (!field) {
+        return res.status(404).json({ error: "الحقل غير موجود" });
+      }
+      const event = await storage.getEvent(field.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
       }
 
-      const event = await storage.createEvent(eventData);
-
+      await storage.deleteEventGuestField(field);
       await storage.createAuditLog({
         eventId: event.id,
         userId: user.id,
-        action: "create_event",
-        details: `تم إنشاء المناسبة: ${event.name}`,
+        action: "delete_guest_field",
+        details: `تم حذف حقل الضيوف: ${field.label}`,
       });
-
-      res.json(event);
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في إنشاء المناسبة" });
+      console.error("Delete guest field error:", error);
+      res.status(500).json({ error: "خطأ في حذف الحقل" });
     }
   });
 
-  app.patch("/api/events/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // ============ CATEGORIES ============
+
+  // Guest categories of an event
+  app.get("/api/events/:id/categories", requirePermission("guests.view"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const updateData = {
-        ...req.body,
-        date: req.body.date ? new Date(req.body.date) : undefined,
-      };
-
-      const updated = await storage.updateEvent(req.params.id, updateData);
-      res.json(updated);
+      res.json(await storage.getEventCategoriesWithCounts(event.id));
     } catch (error) {
-      console.error("Update event error:", error);
-      res.status(500).json({ error: "خطأ في تحديث المناسبة" });
+      console.error("Get categories error:", error);
+      res.status(500).json({ error: "خطأ في جلب الفئات" });
     }
   });
 
-  app.delete("/api/events/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/events/:id/categories", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
+      const user = req.user!;
       const event = await storage.getEvent(req.params.id);
-      
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
 
-      await storage.deleteEvent(req.params.id);
-      res.json({ success: true });
+      const parseResult = eventCategorySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الفئة غير صالحة" });
+      }
+      const existing = await storage.getEventCategories(event.id);
+      if (existing.some((c) => c.label === parseResult.data.label)) {
+        return res.status(400).json({ error: "توجد فئة بنفس الاسم في هذه المناسبة" });
+      }
+
+      const category = await storage.createEventCategory({ ...parseResult.data, eventId: event.id });
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "create_category",
+        details: `تم إضافة فئة: ${category.label}`,
+      });
+      res.json(category);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في حذف المناسبة" });
+      console.error("Create category error:", error);
+      res.status(500).json({ error: "خطأ في إضافة الفئة" });
     }
   });
 
-  // Guest routes
-  app.get("/api/events/:id/guests", requireAuth, async (req, res) => {
+  app.patch("/api/event-categories/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = await storage.getUser(req.session.userId!);
-      if (!user) return res.status(401).json({ error: "غير مصرح" });
-
-      const event = await storage.getEvent(req.params.id);
-      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
-
-      // Check access - admin and super_admin bypass ownership
-      if (!canBypassOwnership(user.role) && user.role === "event_manager" && event.eventManagerId !== user.id) {
+      const user = req.user!;
+      const category = await storage.getEventCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ error: "الفئة غير موجودة" });
+      }
+      const event = await storage.getEvent(category.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
 
-      const guests = await storage.getGuestsByEvent(req.params.id);
-      res.json(guests);
+      const parseResult = eventCategorySchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الفئة غير صالحة" });
+      }
+      const { label } = parseResult.data;
+      const existing = await storage.getEventCategories(event.id);
+      if (label && existing.some((c) => c.id !== category.id && c.label === label)) {
+        return res.status(400).json({ error: "توجد فئة بنفس الاسم في هذه المناسبة" });
+      }
+
+      // The key stays, so guests and gate rules keep pointing at the renamed category
+      const updated = await storage.updateEventCategory(category.id, parseResult.data);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "update_category",
+        details:
+          label && label !== category.label
+            ? `تم تغيير اسم الفئة من ${category.label} إلى ${label}`
+            : `تم تعديل الفئة: ${category.label}`,
+      });
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الضيوف" });
+      console.error("Update category error:", error);
+      res.status(500).json({ error: "خطأ في تعديل الفئة" });
     }
   });
 
-  app.post("/api/events/:id/upload-guests", requireRole("event_manager", "admin", "super_admin"), upload.single("file"), async (req, res) => {
+  // A category still used by guests or gates needs `?moveTo=<key>`: its guests and gate rules
+  // move to that category
+  app.delete("/api/event-categories/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const event = await storage.getEvent(req.params.id);
-      
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      const user = req.user!;
+      const category = await storage.getEventCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ error: "الفئة غير موجودة" });
       }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      const event = await storage.getEvent(category.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
-
-      if (!req.file) {
-        return res.status(400).json({ error: "لم يتم رفع ملف" });
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
       }
 
-      const workbook = XLSX.read(req.file.buffer, { type: "buffer" });
-      const sheetName = workbook.SheetNames[0];
-      const sheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(sheet) as Record<string, any>[];
-
-      // Check capacity limit if event has a capacity tier
-      let maxAllowedGuests = Infinity;
-      if (event.capacityTierId) {
-        const tier = await storage.getCapacityTier(event.capacityTierId);
-        if (tier && !tier.isUnlimited && tier.maxGuests) {
-          const currentGuests = await storage.getGuestsByEvent(req.params.id);
-          const remainingCapacity = tier.maxGuests - currentGuests.length;
-          if (remainingCapacity <= 0) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${tier.maxGuests}). يمكنك ترقية باقة السعة.` 
-            });
-          }
-          maxAllowedGuests = remainingCapacity;
-        }
+      const categories = await storage.getEventCategoriesWithCounts(event.id);
+      if (categories.length <= 1) {
+        return res.status(400).json({ error: "يجب أن تبقى فئة واحدة على الأقل" });
       }
-
-      let guestsToCreate = data.map((row) => ({
-        eventId: req.params.id,
-        name: String(row["الاسم"] || row["Name"] || row["name"] || ""),
-        phone: String(row["الجوال"] || row["Phone"] || row["phone"] || ""),
-        category: ((row["الفئة"] || row["Category"] || "regular").toString().toLowerCase()) as any,
-        companions: parseInt(row["عدد المرافقين"] || row["Companions"] || "0") || 0,
-        notes: String(row["ملاحظات"] || row["Notes"] || ""),
-        qrCode: generateAccessCode(),
-      }));
-
-      // Limit guests to remaining capacity
-      let limitedMessage = "";
-      if (guestsToCreate.length > maxAllowedGuests) {
-        const originalCount = guestsToCreate.length;
-        guestsToCreate = guestsToCreate.slice(0, maxAllowedGuests);
-        limitedMessage = ` (تم إضافة ${guestsToCreate.length} فقط من ${originalCount} بسبب حد السعة)`;
+      const target = categories.find((c) => c.key === req.query.moveTo && c.id !== category.id);
+      if (req.query.moveTo !== undefined && !target) {
+        return res.status(400).json({ error: "الفئة البديلة غير موجودة" });
+      }
+      const inUse =
+        (categories.find((c) => c.id === category.id)?.guests ?? 0) > 0 ||
+        (await storage.getEventGates(event.id)).some((g) => g.allowedCategories.includes(category.key));
+      if (inUse && !target) {
+        return res.status(409).json({ error: "الفئة مستخدمة لضيوف أو بوابات، اختر فئة بديلة لنقلهم إليها" });
       }
 
-      const createdGuests = await storage.createGuests(guestsToCreate);
-
+      await storage.deleteEventCategory(category, target?.key ?? null);
       await storage.createAuditLog({
-        eventId: req.params.id,
+        eventId: event.id,
         userId: user.id,
-        action: "upload_guests",
-        details: `تم رفع ${createdGuests.length} ضيف`,
+        action: "delete_category",
+        details: target
+          ? `تم حذف الفئة: ${category.label} ونقل ضيوفها إلى ${target.label}`
+          : `تم حذف الفئة: ${category.label}`,
       });
-
-      res.json({ count: createdGuests.length, guests: createdGuests });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Upload error:", error);
-      res.status(500).json({ error: "خطأ في معالجة الملف" });
+      console.error("Delete category error:", error);
+      res.status(500).json({ error: "خطأ في حذف الفئة" });
     }
   });
 
-  // Add single guest
-  app.post("/api/events/:id/guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // ============ GATES / ZONES ============
+
+  app.get("/api/events/:id/gates", requirePermission("guests.view"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      // Check capacity limit if event has a capacity tier
-      if (event.capacityTierId) {
-        const tier = await storage.getCapacityTier(event.capacityTierId);
-        if (tier && !tier.isUnlimited && tier.maxGuests) {
-          const currentGuests = await storage.getGuestsByEvent(req.params.id);
-          if (currentGuests.length >= tier.maxGuests) {
-            return res.status(403).json({ 
-              error: `لقد وصلت للحد الأقصى من الضيوف لهذه المناسبة (${tier.maxGuests}). يمكنك ترقية باقة السعة.` 
-            });
-          }
-        }
-      }
-
-      const { name, phone, category, companions, notes } = req.body;
+      res.json(await storage.getEventGates(event.id));
+    } catch (error) {
+      console.error("Get gates error:", error);
+      res.status(500).json({ error: "خطأ في جلب البوابات" });
+    }
+  });
 
-      if (!name || name.trim() === "") {
-        return res.status(400).json({ error: "اسم الضيف مطلوب" });
+  app.post("/api/events/:id/gates", requirePermission("events.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const guest = await storage.createGuest({
-        eventId: req.params.id,
-        name: name.trim(),
-        phone: phone || "",
-        category: category || "regular",
-        companions: companions || 0,
-        notes: notes || "",
-        qrCode: generateAccessCode(),
-      });
+      const parseResult = eventGateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات البوابة غير صالحة" });
+      }
+      if (await unknownGateCategory(event.id, parseResult.data.allowedCategories)) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
+      }
 
+      const gate = await storage.createEventGate({ ...parseResult.data, eventId: event.id });
       await storage.createAuditLog({
-        eventId: req.params.id,
-        userId: user.id,
-        action: "add_guest",
-        details: `تم إضافة ضيف: ${guest.name}`,
-        guestId: guest.id,
+        eventId: event.id,
+        userId: user.id,
+        action: "create_gate",
+        details: `تم إضافة بوابة: ${gate.name}`,
       });
-
-      res.json(guest);
+      res.json(gate);
     } catch (error) {
-      console.error("Add guest error:", error);
-      res.status(500).json({ error: "خطأ في إضافة الضيف" });
+      console.error("Create gate error:", error);
+      res.status(500).json({ error: "خطأ في إضافة البوابة" });
     }
   });
 
-  app.post("/api/guests/:id/check-in", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+  app.patch("/api/event-gates/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
-      
-      if (!guest) {
-        return res.status(404).json({
-          status: "invalid",
-          message: "الضيف غير موجود",
-        });
+      const user = req.user!;
+      const gate = await storage.getEventGate(req.params.id);
+      if (!gate) {
+        return res.status(404).json({ error: "البوابة غير موجودة" });
       }
-
-      // Verify access to this event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
+      const event = await storage.getEvent(gate.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
+      const parseResult = eventGateSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات البوابة غير صالحة" });
+      }
+      if (await unknownGateCategory(event.id, parseResult.data.allowedCategories)) {
+        return res.status(400).json({ error: "الفئة غير موجودة في هذه المناسبة" });
       }
 
-      const updatedGuest = await storage.checkInGuest(req.params.id, user.id);
-
+      const updated = await storage.updateEventGate(gate.id, parseResult.data);
       await storage.createAuditLog({
-        eventId: guest.eventId,
+        eventId: event.id,
         userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور: ${guest.name}`,
-        guestId: guest.id,
-      });
-
-      res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
+        action: "update_gate",
+        details: `تم تعديل البوابة: ${updated?.name ?? gate.name}`,
       });
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تسجيل الحضور" });
+      console.error("Update gate error:", error);
+      res.status(500).json({ error: "خطأ في تعديل البوابة" });
     }
   });
 
-  // Get single guest
-  app.get("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.delete("/api/event-gates/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const guest = await storage.getGuest(req.params.id);
-      
-      if (!guest) {
-        return res.status(404).json({ error: "الضيف غير موجود" });
+      const user = req.user!;
+      const gate = await storage.getEventGate(req.params.id);
+      if (!gate) {
+        return res.status(404).json({ error: "البوابة غير موجودة" });
+      }
+      const event = await storage.getEvent(gate.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const event = await storage.getEvent(guest.eventId);
+      await storage.deleteEventGate(gate.id);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "delete_gate",
+        details: `تم حذف البوابة: ${gate.name}`,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete gate error:", error);
+      res.status(500).json({ error: "خطأ في حذف البوابة" });
+    }
+  });
+
+  // The calling organizer's gate and its per-guest overrides; cached on the device for offline scans
+  app.get("/api/events/:id/my-gate", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      res.json(guest);
+      const gate = (await storage.getOrganizerGate(event.id, user.id)) ?? null;
+      const overrides = gate ? await storage.getGateOverridesByGate(gate.id) : [];
+      const access: GateAccess = {
+        gate,
+        overrides: overrides.map(({ guestId, allowed }) => ({ guestId, allowed })),
+      };
+      res.json(access);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب بيانات الضيف" });
+      console.error("Get organizer gate error:", error);
+      res.status(500).json({ error: "خطأ في جلب بوابة المنظم" });
     }
   });
 
-  // Update guest
-  app.patch("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Per-guest exceptions to the gates' category rules
+  app.get("/api/guests/:id/gate-access", requirePermission("guests.view"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const guest = await storage.getGuest(req.params.id);
-      
       if (!guest) {
         return res.status(404).json({ error: "الضيف غير موجود" });
       }
-
       const event = await storage.getEvent(guest.eventId);
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
-      }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const { name, phone, category, companions, notes } = req.body;
-      const updated = await storage.updateGuest(req.params.id, {
-        name,
-        phone,
-        category,
-        companions,
-        notes,
-      });
-
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "update_guest",
-        details: `تم تعديل ضيف: ${guest.name}`,
-        guestId: guest.id,
-      });
-
-      res.json(updated);
+      res.json(await storage.getGateOverridesByGuest(guest.id));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تحديث الضيف" });
+      console.error("Get gate access error:", error);
+      res.status(500).json({ error: "خطأ في جلب صلاحيات البوابات" });
     }
   });
 
-  // Delete guest
-  app.delete("/api/guests/:id", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.put("/api/guests/:id/gate-access/:gateId", requirePermission("guests.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
+      const user = req.user!;
+      const parseResult = gateOverrideSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+
       const guest = await storage.getGuest(req.params.id);
-      
       if (!guest) {
         return res.status(404).json({ error: "الضيف غير موجود" });
       }
-
       const event = await storage.getEvent(guest.eventId);
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
-      }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
+      const readOnly = readOnlyEventMessage(event);
+      if (readOnly) {
+        return res.status(403).json({ error: readOnly });
+      }
+      const gate = await storage.getEventGate(req.params.gateId);
+      if (!gate || gate.eventId !== guest.eventId) {
+        return res.status(404).json({ error: "البوابة غير موجودة في هذه المناسبة" });
+      }
 
-      await storage.deleteGuest(req.params.id);
-
+      const { allowed } = parseResult.data;
+      await storage.setGateOverride(gate.id, guest.id, allowed);
       await storage.createAuditLog({
-        eventId: guest.eventId,
+        eventId: event.id,
         userId: user.id,
-        action: "delete_guest",
-        details: `تم حذف ضيف: ${guest.name}`,
+        action: "update_gate_access",
+        details:
+          allowed === null
+            ? `إعادة ${guest.name} لقواعد ${gate.name}`
+            : `${allowed ? "السماح" : "منع"} ${guest.name} ${allowed ? "بدخول" : "من دخول"} ${gate.name}`,
         guestId: guest.id,
       });
-
-      res.json({ success: true });
+      res.json(await storage.getGateOverridesByGuest(guest.id));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في حذف الضيف" });
+      console.error("Update gate access error:", error);
+      res.status(500).json({ error: "خطأ في تحديث صلاحيات البوابة" });
     }
   });
 
-  // Organizer events
-  app.get("/api/organizer/events", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
-    try {
-      const user = (req as any).user;
-
-      if (user.role === "organizer") {
-        const events = await storage.getOrganizerEvents(user.id);
-        res.json(events);
-      } else if (canBypassOwnership(user.role)) {
-        // Admin and super_admin see all events
-        const events = await storage.getEvents();
-        res.json(events);
-      } else {
-        const events = await storage.getEventsByManager(user.id);
-        res.json(events);
-      }
-    } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المناسبات" });
-    }
-  });
+  // ============ EVENT SESSIONS ============
 
-  // Event organizers management
-  app.get("/api/events/:id/organizers", requireAuth, async (req, res) => {
+  app.get("/api/events/:id/sessions", requirePermission("guests.view"), async (req, res) => {
     try {
-      const user = await storage.getUser(req.session.userId!);
-      if (!user) return res.status(401).json({ error: "غير مصرح" });
-
       const event = await storage.getEvent(req.params.id);
-      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
-
-      // Check access - admin/super_admin bypass, event manager owns event, or organizer is assigned
-      if (!canBypassOwnership(user.role)) {
-        if (user.role === "event_manager" && event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
+      if (!event) {
+        return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === event.id)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const organizers = await storage.getEventOrganizers(req.params.id);
-      res.json(organizers.map((u) => ({ ...u, password: undefined })));
+      res.json(await storage.getEventSessions(event.id));
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب المنظمين" });
+      console.error("Get sessions error:", error);
+      res.status(500).json({ error: "خطأ في جلب الجلسات" });
     }
   });
 
-  app.post("/api/events/:id/organizers", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/events/:id/sessions", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
+      const user = req.user!;
       const event = await storage.getEvent(req.params.id);
-      
       if (!event) {
         return res.status(404).json({ error: "المناسبة غير موجودة" });
       }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const { organizerId } = req.body;
-      
-      // Event manager can only assign organizers they created
-      if (user.role === "event_manager") {
-        const organizer = await storage.getUser(organizerId);
-        if (!organizer || organizer.createdById !== user.id) {
-          return res.status(403).json({ error: "لا يمكنك تعيين منظم لم تقم بإنشائه" });
-        }
+      const parseResult = eventSessionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الجلسة غير صالحة" });
       }
-      
-      const assignment = await storage.assignOrganizer({
-        eventId: req.params.id,
-        organizerId,
+
+      const session = await storage.createEventSession({ ...parseResult.data, eventId: event.id });
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "create_session",
+        details: `تم إضافة جلسة: ${session.name}`,
       });
-      res.json(assignment);
+      res.json(session);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في تعيين المنظم" });
+      console.error("Create session error:", error);
+      res.status(500).json({ error: "خطأ في إضافة الجلسة" });
     }
   });
 
-  app.delete("/api/events/:id/organizers/:organizerId", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  app.patch("/api/event-sessions/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const event = await storage.getEvent(req.params.id);
-      
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
+      const user = req.user!;
+      const session = await storage.getEventSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "الجلسة غير موجودة" });
       }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      const event = await storage.getEvent(session.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      await storage.removeOrganizer(req.params.id, req.params.organizerId);
-      res.json({ success: true });
+      const parseResult = eventSessionSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors[0]?.message || "بيانات الجلسة غير صالحة" });
+      }
+
+      const updated = await storage.updateEventSession(session.id, parseResult.data);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "update_session",
+        details: `تم تعديل الجلسة: ${updated?.name ?? session.name}`,
+      });
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "خطأ في إزالة المنظم" });
+      console.error("Update session error:", error);
+      res.status(500).json({ error: "خطأ في تعديل الجلسة" });
     }
   });
 
-  // Audit logs - Event manager only
-  app.get("/api/events/:id/audit-logs", requireRole("event_manager", "super_admin", "admin"), async (req, res) => {
+  app.delete("/api/event-sessions/:id", requirePermission("events.edit"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const event = await storage.getEvent(req.params.id);
-      
-      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
-
-      // Event manager can only see their own event logs
-      if (user.role === "event_manager" && event.eventManagerId !== user.id) {
+      const user = req.user!;
+      const session = await storage.getEventSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "الجلسة غير موجودة" });
+      }
+      const event = await storage.getEvent(session.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const logs = await storage.getAuditLogsByEvent(req.params.id);
-      res.json(logs);
-    } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب السجلات" });
-    }
-  });
-
-  // Stats routes - Role-based
-  app.get("/api/stats/super-admin", requireRole("super_admin"), async (req, res) => {
-    try {
-      const stats = await storage.getStats("super_admin");
-      res.json(stats);
+      await storage.deleteEventSession(session.id);
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "delete_session",
+        details: `تم حذف الجلسة: ${session.name}`,
+      });
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
+      console.error("Delete session error:", error);
+      res.status(500).json({ error: "خطأ في حذف الجلسة" });
     }
   });
 
-  app.get("/api/stats/admin", requireRole("admin", "super_admin"), async (req, res) => {
+  // Session admission by guest id (organizer list) or scanned code; same idempotency rules as check-in
+  app.post("/api/event-sessions/:id/check-in", requirePermission("checkin.perform"), async (req, res) => {
     try {
-      const stats = await storage.getStats("admin");
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
-    }
-  });
+      const session = await storage.getEventSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ status: "invalid", message: "الجلسة غير موجودة" });
+      }
 
-  app.get("/api/stats/event-manager", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
-    try {
-      const user = (req as any).user;
-      const stats = await storage.getStats("event_manager", user.id);
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات" });
-    }
-  });
+      const { code, guestId } = req.body;
+      if (typeof guestId !== "string" && (!code || typeof code !== "string")) {
+        return res.status(400).json({ status: "invalid", message: "الكود مطلوب" });
+      }
 
-  app.get("/api/stats/comprehensive", requireRole("super_admin"), async (req, res) => {
-    try {
-      const stats = await storage.getComprehensiveStats();
-      res.json(stats);
+      const outcome = await handleAtDoor(
+        req,
+        () => (typeof guestId === "string" ? resolveGuestById(guestId) : resolveInvitationForEvent(code, session.eventId)),
+        (guest, event, user) => admitToSession(guest, event, session, user)
+      );
+      sendCheckInOutcome(res, outcome);
     } catch (error) {
-      console.error("Comprehensive stats error:", error);
-      res.status(500).json({ error: "خطأ في جلب الإحصائيات التفصيلية" });
+      console.error("Session check-in error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في تسجيل دخول الجلسة" });
     }
   });
 
-  // Export guests to Excel with access codes
-  app.get("/api/events/:id/export-guests", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Public signing keys for offline verification on organizer devices
+  app.get("/api/events/:id/qr-keys", requirePermission("checkin.perform"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const event = await storage.getEvent(req.params.id);
-      
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
-      }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+      if (!(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const guests = await storage.getGuestsByEvent(req.params.id);
-
-      if (guests.length === 0) {
-        return res.status(400).json({ error: "لا يوجد مدعوين للتصدير" });
-      }
-
-      const categoryLabels: Record<string, string> = {
-        vip: "VIP",
-        regular: "عادي",
-        media: "إعلام",
-        sponsor: "راعي",
+      const key = await storage.getActiveEventSigningKey(event.id);
+      const body: EventPublicKeys = {
+        eventId: event.id,
+        requireSignedQr: !!event.requireSignedQr,
+        keys: key ? [{ kid: key.kid, publicKey: key.publicKey, createdAt: key.createdAt?.toISOString() || null }] : [],
       };
+      res.json(body);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب مفاتيح التحقق" });
+    }
+  });
 
-      // Prepare data for Excel
-      const excelData = guests.map((guest, index) => ({
-        "#": index + 1,
-        "الاسم": guest.name,
-        "الجوال": guest.phone || "",
-        "الفئة": categoryLabels[guest.category || "regular"],
-        "عدد المرافقين": guest.companions || 0,
-        "ملاحظات": guest.notes || "",
-        "كود الدخول": guest.qrCode,
-        "الحالة": guest.isCheckedIn ? "حاضر" : "لم يحضر",
-      }));
-
-      // Create workbook
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(excelData);
-      
-      // Set column widths
-      worksheet["!cols"] = [
-        { wch: 5 },   // #
-        { wch: 25 },  // الاسم
-        { wch: 15 },  // الجوال
-        { wch: 10 },  // الفئة
-        { wch: 12 },  // عدد المرافقين
-        { wch: 30 },  // ملاحظات
-        { wch: 18 },  // كود الدخول
-        { wch: 12 },  // الحالة
-      ];
+  // Replace the event's signing key; every previously issued signed QR stops working
+  app.post("/api/events/:id/qr-keys/rotate", requirePermission("events.edit"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const event = await storage.getEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "المناسبة غير موجودة" });
+      if (!(await canAccessEvent(req, event))) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
 
-      XLSX.utils.book_append_sheet(workbook, worksheet, "المدعوين");
+      const key = await storage.rotateEventSigningKey(event.id, {
+        eventId: event.id,
+        createdById: user.id,
+        ...generateSigningKey(),
+      });
 
-      // Generate buffer
-      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+      await storage.createAuditLog({
+        eventId: event.id,
+        userId: user.id,
+        action: "rotate_qr_key",
+        details: `تم تغيير مفتاح توقيع الدعوات (${key.kid})`,
+      });
 
-      // Set headers for file download
-      const filename = encodeURIComponent(`مدعوين-${event.name}.xlsx`);
-      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
-      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
-      res.setHeader("Content-Length", buffer.length);
-      
-      res.send(buffer);
+      res.json({ kid: key.kid, publicKey: key.publicKey, createdAt: key.createdAt });
     } catch (error) {
-      console.error("Export error:", error);
-      res.status(500).json({ error: "خطأ في تصدير البيانات" });
+      res.status(500).json({ error: "خطأ في تغيير مفتاح التوقيع" });
     }
   });
 
-  // Reports download endpoints
-  app.get("/api/events/:id/reports/:type", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
+  // Signed invitation QR for a single guest
+  app.get("/api/guests/:id/signed-qr", requirePermission("guests.view"), async (req, res) => {
     try {
-      const user = (req as any).user;
-      const reportType = req.params.type as "attendance" | "absence" | "audit";
-      const event = await storage.getEvent(req.params.id);
-      
-      if (!event) {
-        return res.status(404).json({ error: "المناسبة غير موجودة" });
-      }
-      if (!canBypassOwnership(user.role) && event.eventManagerId !== user.id) {
+      const guest = await storage.getGuest(req.params.id);
+      if (!guest) return res.status(404).json({ error: "الضيف غير موجود" });
+
+      const event = await storage.getEvent(guest.eventId);
+      if (!event || !(await canAccessEvent(req, event))) {
         return res.status(403).json({ error: "غير مسموح" });
       }
 
-      const categoryLabels: Record<string, string> = {
-        vip: "VIP",
-        regular: "عادي",
-        media: "إعلام",
-        sponsor: "راعي",
-      };
+      const key = await storage.getActiveEventSigningKey(event.id);
+      if (!key) {
+        return res.status(409).json({ error: MISSING_SIGNING_KEY_MESSAGE });
+      }
+      const payload = signAccessCode(key.kid, key.privateKey, guest.qrCode);
+      const image = await QRCode.toDataURL(payload, { margin: 1, width: 320 });
 
-      let excelData: any[] = [];
-      let sheetName = "";
+      res.json({ payload, image });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء رمز الدعوة" });
+    }
+  });
 
-      if (reportType === "attendance" || reportType === "absence") {
-        const guests = await storage.getGuestsByEvent(req.params.id);
-        const filteredGuests = guests.filter(g => 
-          reportType === "attendance" ? g.isCheckedIn : !g.isCheckedIn
-        );
+  // Replay check-ins recorded offline on an organizer device. The admission already on the guest
+  // record stays as it is (the device's clock cannot be trusted to rewrite it); another admission
+  // of the same guest is stored as a duplicate and both times are audited. Entries are keyed by
+  // clientId, so a resent batch is safe.
+  app.post("/api/check-in/sync", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parseResult = checkInSyncSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات المزامنة غير صالحة" });
+      }
+      const { deviceId, entries } = parseResult.data;
 
-        if (filteredGuests.length === 0) {
-          return res.status(400).json({ 
-            error: reportType === "attendance" 
-              ? "لا يوجد حضور لتصديره" 
-              : "لا يوجد غياب لتصديره" 
+      const results: CheckInSyncResult[] = [];
+      const eventAccess = new Map<string, boolean>();
+
+      for (const entry of entries) {
+        const existing = await storage.getOfflineCheckInByClientId(entry.clientId);
+        if (existing) {
+          results.push({ clientId: entry.clientId, status: existing.status, message: existing.message });
+          continue;
+        }
+
+        // Device clocks can run ahead; never record an admission in the future. Times before the
+        // check-in window opened are refused by the window check below.
+        const clientCheckedInAt = new Date(Math.min(new Date(entry.checkedInAt).getTime(), Date.now()));
+
+        const record = async (status: CheckInSyncResult["status"], message: string | null) => {
+          await storage.createOfflineCheckIn({
+            clientId: entry.clientId,
+            deviceId,
+            eventId: entry.eventId,
+            guestId: entry.guestId,
+            userId: user.id,
+            clientCheckedInAt,
+            status,
+            message,
           });
+          results.push({ clientId: entry.clientId, status, message });
+        };
+
+        if (clientCheckedInAt.getTime() < Date.now() - MAX_OFFLINE_CHECK_IN_AGE_MS) {
+          await record("rejected", "مضى على هذا التسجيل وقت طويل ولا يمكن مزامنته، يرجى تسجيل الضيف مباشرة");
+          continue;
         }
 
-        excelData = filteredGuests.map((guest, index) => ({
-          "#": index + 1,
-          "الاسم": guest.name,
-          "الجوال": guest.phone || "",
-          "الفئة": categoryLabels[guest.category || "regular"],
-          "عدد المرافقين": guest.companions || 0,
-          "ملاحظات": guest.notes || "",
-          ...(reportType === "attendance" ? {
-            "وقت الحضور": guest.checkedInAt 
-              ? new Date(guest.checkedInAt).toLocaleString("ar-SA")
-              : "",
-          } : {}),
-        }));
-        sheetName = reportType === "attendance" ? "الحضور" : "الغياب";
-      } else if (reportType === "audit") {
-        const logs = await storage.getAuditLogsByEvent(req.params.id);
+        const guest = await storage.getGuest(entry.guestId);
+        if (!guest || guest.eventId !== entry.eventId) {
+          await record("rejected", "الضيف غير موجود في هذه المناسبة");
+          continue;
+        }
 
-        if (logs.length === 0) {
-          return res.status(400).json({ error: "لا يوجد سجلات لتصديرها" });
+        if (!eventAccess.has(guest.eventId)) {
+          const event = await storage.getEvent(guest.eventId);
+          eventAccess.set(guest.eventId, !!event && (await canAccessEvent(req, event)));
+        }
+        if (!eventAccess.get(guest.eventId)) {
+          await record("rejected", "غير مسموح لك بتسجيل الحضور في هذه المناسبة");
+          continue;
         }
 
-        const actionLabels: Record<string, string> = {
-          check_in: "تسجيل حضور",
-          upload_guests: "رفع ضيوف",
-          add_guest: "إضافة ضيف",
-          delete_guest: "حذف ضيف",
-          assign_organizer: "تعيين منظم",
-          remove_organizer: "إزالة منظم",
-        };
+        // The device queues a check-in under the idempotency key of the online attempt it
+        // replaces, so an attempt that did reach the server is not reported as a conflict
+        const onlineAttempt = await storage.getCheckInRequest(user.id, entry.clientId);
+        if (onlineAttempt?.guestId === guest.id && onlineAttempt.response?.status === "success") {
+          await record("synced", null);
+          continue;
+        }
 
-        excelData = await Promise.all(logs.map(async (log, index) => {
-          const logUser = await storage.getUser(log.userId);
-          return {
-            "#": index + 1,
-            "التاريخ": log.timestamp ? new Date(log.timestamp).toLocaleString("ar-SA") : "",
-            "المستخدم": logUser?.name || "غير معروف",
-            "العملية": actionLabels[log.action] || log.action,
-            "التفاصيل": log.details || "",
-          };
-        }));
-        sheetName = "سجل العمليات";
-      } else {
-        return res.status(400).json({ error: "نوع التقرير غير صالح" });
-      }
+        // Judged at the time of the scan: an event closed since then still takes the check-ins
+        // its devices made while the window was open
+        const event = (await storage.getEvent(guest.eventId))!;
+        const windowRefusal = await checkInWindowRefusal(
+          event.status === "closed" ? { ...event, status: "live" } : event,
+          clientCheckedInAt
+        );
+        if (windowRefusal) {
+          await record("rejected", windowRefusal);
+          continue;
+        }
 
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(excelData);
-      XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+        // The device applies its gate's rules offline too, but the server has the latest ones
+        const { gate, refusal } = await checkGateAccess(guest, event, user);
+        if (refusal) {
+          await record("rejected", String(refusal.body.message));
+          continue;
+        }
 
-      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+        const admitted = await storage.checkInGuestIfPending(guest.id, user.id, clientCheckedInAt);
+        if (admitted) {
+          await storage.createGuestMovement({
+            eventId: guest.eventId,
+            guestId: guest.id,
+            direction: "entry",
+            people: arrivedHeadcount(admitted),
+            userId: user.id,
+            gateId: gate?.id ?? null,
+          });
+          await storage.createAuditLog({
+            eventId: guest.eventId,
+            userId: user.id,
+            action: "check_in",
+            details: `تم تسجيل حضور (مزامنة من جهاز غير متصل): ${guest.name}`,
+            guestId: guest.id,
+          });
+          await record("synced", null);
+          continue;
+        }
 
-      const reportNames: Record<string, string> = {
-        attendance: "تقرير-الحضور",
-        absence: "تقرير-الغياب",
-        audit: "سجل-العمليات",
-      };
-      const filename = encodeURIComponent(`${reportNames[reportType]}-${event.name}.xlsx`);
-      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
-      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${filename}`);
-      res.setHeader("Content-Length", buffer.length);
-      
-      res.send(buffer);
+        // Someone else admitted this guest already (online or from another device)
+        const current = await storage.getGuest(guest.id);
+        const previousBy = current?.checkedInBy ? await storage.getUser(current.checkedInBy) : undefined;
+        const previousName = previousBy?.name || "غير معروف";
+        const recordedAt = current?.checkedInAt ? formatVenueTime(new Date(current.checkedInAt)) : "غير معروف";
+
+        await storage.createAuditLog({
+          eventId: guest.eventId,
+          userId: user.id,
+          action: "check_in_conflict",
+          details: `تعارض في المزامنة: تم تسجيل دخول ${guest.name} من جهازين (${previousName} ${recordedAt}، و${user.name} ${formatVenueTime(clientCheckedInAt)} حسب وقت الجهاز)`,
+          guestId: guest.id,
+        });
+        await record("duplicate", `سبق تسجيل دخول الضيف بواسطة ${previousName} (${recordedAt})`);
+      }
+
+      res.json({ results });
     } catch (error) {
-      console.error("Report error:", error);
-      res.status(500).json({ error: "خطأ في تحميل التقرير" });
+      console.error("Check-in sync error:", error);
+      res.status(500).json({ error: "خطأ في مزامنة تسجيلات الحضور" });
     }
   });
 
   // Check-in by text code (QR scanner reads the code directly)
-  app.post("/api/check-in/code", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/check-in/code", requirePermission("checkin.perform"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const { code, eventId } = req.body;
 
-      if (!code) {
+      if (!code || typeof code !== "string") {
         return res.status(400).json({ status: "invalid", message: "الكود مطلوب" });
       }
 
-      // Find guest by QR code
-      const guest = await storage.getGuestByQrCode(code.toUpperCase());
-      if (!guest) {
-        return res.status(404).json({ status: "invalid", message: "الكود غير صالح أو غير موجود" });
-      }
-
-      // Verify guest belongs to the selected event
-      if (eventId && guest.eventId !== eventId) {
-        return res.status(400).json({ status: "invalid", message: "هذا الكود ليس لهذه المناسبة" });
-      }
-
-      // Verify access to the event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      }
+      const outcome = await checkInResolved(
+        req,
+        () => resolveInvitationForEvent(code, eventId),
+        (guest) => `تم تسجيل حضور عبر المسح: ${guest.name}`
+      );
+      sendCheckInOutcome(res, outcome);
+    } catch (error) {
+      console.error("Check-in by code error:", error);
+      res.status(500).json({ status: "invalid", message: "خطأ في التحقق من الكود" });
+    }
+  });
 
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
+  // Check-out by scanning the same invitation on the way out
+  app.post("/api/check-out/code", requirePermission("checkin.perform"), async (req, res) => {
+    try {
+      const { code, eventId } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ status: "invalid", message: "الكود مطلوب" });
       }
 
-      const updatedGuest = await storage.checkInGuest(guest.id, user.id);
-
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور عبر المسح: ${guest.name}`,
-        guestId: guest.id,
-      });
-
-      res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
-      });
+      const outcome = await handleAtDoor(req, () => resolveInvitationForEvent(code, eventId), checkOutGuest);
+      sendCheckInOutcome(res, outcome);
     } catch (error) {
-      console.error("Check-in by code error:", error);
+      console.error("Check-out by code error:", error);
       res.status(500).json({ status: "invalid", message: "خطأ في التحقق من الكود" });
     }
   });
 
   // Verify QR code (for check-in by scanning)
-  app.post("/api/check-in/verify-qr", requireRole("organizer", "event_manager", "admin", "super_admin"), async (req, res) => {
+  app.post("/api/check-in/verify-qr", requirePermission("checkin.perform"), async (req, res) => {
     try {
-      const user = (req as any).user;
       const { qrData } = req.body;
-
-      let parsedData;
-      try {
-        parsedData = JSON.parse(qrData);
-      } catch {
+      if (!qrData || typeof qrData !== "string") {
         return res.status(400).json({ status: "invalid", message: "كود غير صالح" });
       }
 
-      const guest = await storage.getGuest(parsedData.id);
-      if (!guest || guest.qrCode !== parsedData.code) {
-        return res.status(404).json({ status: "invalid", message: "الدعوة غير صالحة" });
-      }
-
-      // Verify access to the event
-      if (user.role === "organizer") {
-        const assignedEvents = await storage.getOrganizerEvents(user.id);
-        if (!assignedEvents.some(e => e.id === guest.eventId)) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      } else if (user.role === "event_manager") {
-        const event = await storage.getEvent(guest.eventId);
-        if (!event || event.eventManagerId !== user.id) {
-          return res.status(403).json({ error: "غير مسموح" });
-        }
-      }
-
-      if (guest.isCheckedIn) {
-        const checkedInByUser = guest.checkedInBy
-          ? await storage.getUser(guest.checkedInBy)
-          : null;
-        return res.json({
-          status: "duplicate",
-          guest,
-          message: "تم استخدام هذه الدعوة مسبقاً!",
-          checkedInAt: guest.checkedInAt,
-          checkedInBy: checkedInByUser?.name || "غير معروف",
-        });
-      }
-
-      const updatedGuest = await storage.checkInGuest(guest.id, user.id);
-
-      await storage.createAuditLog({
-        eventId: guest.eventId,
-        userId: user.id,
-        action: "check_in",
-        details: `تم تسجيل حضور: ${guest.name}`,
-        guestId: guest.id,
-      });
-
-      res.json({
-        status: "success",
-        guest: updatedGuest,
-        message: "تم تسجيل الحضور بنجاح",
-      });
+      const outcome = await checkInResolved(
+        req,
+        () => resolveInvitation(qrData),
+        (guest) => `تم تسجيل حضور: ${guest.name}`
+      );
+      sendCheckInOutcome(res, outcome);
     } catch (error) {
+      console.error("Verify QR error:", error);
       res.status(500).json({ error: "خطأ في التحقق من الكود" });
     }
   });
 
   // ============ REPORTS ENDPOINTS ============
 
-  // Get admin report (super_admin only)
-  app.get("/api/reports/admin/:id", requireRole("super_admin"), async (req, res) => {
+  // Get admin report (reports.system, which only super_admin holds: not scoped to the user's events)
+  app.get("/api/reports/admin/:id", requirePermission("reports.system"), async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       const start = startDate ? new Date(startDate as string) : undefined;
@@ -1275,8 +3934,8 @@ export async function registerRoutes(
     }
   });
 
-  // Get event manager report (super_admin only)
-  app.get("/api/reports/event-manager/:id", requireRole("super_admin"), async (req, res) => {
+  // Get event manager report (reports.system, super_admin only)
+  app.get("/api/reports/event-manager/:id", requirePermission("reports.system"), async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       const start = startDate ? new Date(startDate as string) : undefined;
@@ -1292,8 +3951,8 @@ export async function registerRoutes(
     }
   });
 
-  // Get events report (super_admin only)
-  app.get("/api/reports/events", requireRole("super_admin"), async (req, res) => {
+  // Get events report (reports.system, super_admin only)
+  app.get("/api/reports/events", requirePermission("reports.system"), async (req, res) => {
     try {
       const { startDate, endDate, eventId } = req.query;
       const start = startDate ? new Date(startDate as string) : undefined;
@@ -1306,8 +3965,8 @@ export async function registerRoutes(
     }
   });
 
-  // Get guests report for a specific event (super_admin only)
-  app.get("/api/reports/guests/:eventId", requireRole("super_admin"), async (req, res) => {
+  // Get guests report for a specific event (reports.system, super_admin only)
+  app.get("/api/reports/guests/:eventId", requirePermission("reports.system"), async (req, res) => {
     try {
       const { startDate, endDate, checkedInOnly } = req.query;
       const start = startDate ? new Date(startDate as string) : undefined;
@@ -1328,8 +3987,8 @@ export async function registerRoutes(
     }
   });
 
-  // Get audit report (super_admin only)
-  app.get("/api/reports/audit", requireRole("super_admin"), async (req, res) => {
+  // Get audit report (reports.system, super_admin only)
+  app.get("/api/reports/audit", requirePermission("reports.system"), async (req, res) => {
     try {
       const { startDate, endDate, userId, eventId } = req.query;
       const start = startDate ? new Date(startDate as string) : undefined;
@@ -1347,9 +4006,9 @@ export async function registerRoutes(
     }
   });
 
-  // Export report to Excel (super_admin only)
+  // Export report to Excel (reports.system, super_admin only)
   // Security: Server regenerates data instead of trusting client-supplied data
-  app.post("/api/reports/export", requireRole("super_admin"), async (req, res) => {
+  app.post("/api/reports/export", requirePermission("reports.system"), async (req, res) => {
     try {
       const { reportType, params, fileName } = req.body;
       
@@ -1410,7 +4069,8 @@ export async function registerRoutes(
             ["المنظمون", reportData.summary?.organizersCount || 0],
             ["المناسبات", reportData.summary?.eventsCount || 0],
             ["إجمالي الضيوف", reportData.summary?.totalGuests || 0],
-            ["الحاضرون", reportData.summary?.checkedInGuests || 0],
+            ["العدد المتوقع مع المرافقين", reportData.summary?.expectedAttendees || 0],
+            ["الحاضرون (أشخاص)", reportData.summary?.checkedInGuests || 0],
             ["نسبة الحضور", (reportData.summary?.checkInRate || 0) + "%"],
             [],
             ["مديرو المناسبات"],
@@ -1435,15 +4095,15 @@ export async function registerRoutes(
             ["المناسبات", reportData.summary?.eventsCount || 0],
             ["المناسبات النشطة", reportData.summary?.activeEventsCount || 0],
             ["إجمالي الضيوف", reportData.summary?.totalGuests || 0],
-            ["الحاضرون", reportData.summary?.checkedInGuests || 0],
+            ["العدد المتوقع مع المرافقين", reportData.summary?.expectedAttendees || 0],
+            ["الحاضرون (أشخاص)", reportData.summary?.checkedInGuests || 0],
             ["نسبة الحضور", (reportData.summary?.checkInRate || 0) + "%"],
             [],
             ["المناسبات"],
-            ["الاسم", "التاريخ", "الموقع", "الضيوف", "الحاضرون", "VIP", "عادي", "إعلام", "راعي"],
+            ["الاسم", "التاريخ", "الموقع", "الضيوف", "الحاضرون", "الفئات"],
             ...(reportData.events || []).map((e: any) => [
               e.name, e.date, e.location, e.totalGuests, e.checkedIn,
-              e.categoryBreakdown?.vip || 0, e.categoryBreakdown?.regular || 0,
-              e.categoryBreakdown?.media || 0, e.categoryBreakdown?.sponsor || 0
+              formatCategoryBreakdown(e.categoryBreakdown || [])
             ]),
           ];
           break;
@@ -1456,7 +4116,8 @@ export async function registerRoutes(
             ["إجمالي المناسبات", reportData.summary?.eventsCount || 0],
             ["المناسبات النشطة", reportData.summary?.activeEventsCount || 0],
             ["إجمالي الضيوف", reportData.summary?.totalGuests || 0],
-            ["الحاضرون", reportData.summary?.checkedInGuests || 0],
+            ["العدد المتوقع مع المرافقين", reportData.summary?.expectedAttendees || 0],
+            ["الحاضرون (أشخاص)", reportData.summary?.checkedInGuests || 0],
             ["نسبة الحضور", (reportData.summary?.checkInRate || 0) + "%"],
             [],
             ["المناسبات"],
@@ -1478,14 +4139,19 @@ export async function registerRoutes(
             [],
             ["ملخص"],
             ["إجمالي الضيوف", reportData.summary?.totalGuests || 0],
-            ["الحاضرون", reportData.summary?.checkedIn || 0],
+            ["العدد المتوقع مع المرافقين", reportData.summary?.expectedAttendees || 0],
+            ["الحاضرون (أشخاص)", reportData.summary?.checkedIn || 0],
             ["المتبقون", reportData.summary?.pending || 0],
             ["إجمالي المرافقين", reportData.summary?.totalCompanions || 0],
+            ["المرافقون الداخلون", reportData.summary?.companionsCheckedIn || 0],
+            [],
+            ["الفئات"],
+            ...(reportData.summary?.categoryBreakdown || []).map((c: any) => [c.label, c.count]),
             [],
             ["الضيوف"],
-            ["الاسم", "الهاتف", "الفئة", "المرافقين", "الملاحظات", "الحالة", "وقت الحضور"],
+            ["الاسم", "الهاتف", "الفئة", "المرافقين", "المرافقون الداخلون", "الملاحظات", "الحالة", "وقت الحضور"],
             ...(reportData.guests || []).map((g: any) => [
-              g.name, g.phone, g.category, g.companions, g.notes,
+              g.name, g.phone, categoryLabel(reportData.summary?.categoryBreakdown || [], g.category), g.companions, g.isCheckedIn ? g.companionsCheckedIn : "", g.notes,
               g.isCheckedIn ? "حاضر" : "غير حاضر", g.checkedInAt || ""
             ]),
           ];
@@ -1536,7 +4202,7 @@ export async function registerRoutes(
   });
 
   // Get list of admins for report selection
-  app.get("/api/reports/admins-list", requireRole("super_admin"), async (req, res) => {
+  app.get("/api/reports/admins-list", requirePermission("reports.system"), async (req, res) => {
     try {
       const admins = await storage.getUsersByRole("admin");
       res.json(admins.map(a => ({ id: a.id, name: a.name, username: a.username })));
@@ -1546,7 +4212,7 @@ export async function registerRoutes(
   });
 
   // Get list of event managers for report selection
-  app.get("/api/reports/event-managers-list", requireRole("super_admin"), async (req, res) => {
+  app.get("/api/reports/event-managers-list", requirePermission("reports.system"), async (req, res) => {
     try {
       const managers = await storage.getUsersByRole("event_manager");
       res.json(managers.map(m => ({ id: m.id, name: m.name, username: m.username })));
@@ -1556,7 +4222,7 @@ export async function registerRoutes(
   });
 
   // Get list of events for report selection
-  app.get("/api/reports/events-list", requireRole("super_admin"), async (req, res) => {
+  app.get("/api/reports/events-list", requirePermission("reports.system"), async (req, res) => {
     try {
       const events = await storage.getEvents();
       res.json(events.map(e => ({ id: e.id, name: e.name, date: e.date })));
@@ -1565,11 +4231,18 @@ export async function registerRoutes(
     }
   });
 
-  // Site Settings - Public endpoint for login page
+  // Site Settings - Public endpoint for login page. Only the social links: the same row holds
+  // security settings (2FA roles, permission matrix) that must not leave the server unauthenticated.
   app.get("/api/settings/public", async (req, res) => {
     try {
       const settings = await storage.getSiteSettings();
-      res.json(settings || {});
+      res.json({
+        whatsapp: settings?.whatsapp ?? null,
+        instagram: settings?.instagram ?? null,
+        facebook: settings?.facebook ?? null,
+        twitter: settings?.twitter ?? null,
+        linkedin: settings?.linkedin ?? null,
+      });
     } catch (error) {
       res.status(500).json({ error: "خطأ في جلب الإعدادات" });
     }
@@ -1620,6 +4293,181 @@ export async function registerRoutes(
     }
   });
 
+  // Site Settings - Two-factor enforcement per role (super_admin only)
+  app.put("/api/settings/two-factor", requireRole("super_admin"), async (req, res) => {
+    try {
+      const parseResult = z.object({
+        requiredRoles: z.array(z.enum(twoFactorRoles)),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+
+      const settings = await storage.updateSiteSettings({
+        twoFactorRequiredRoles: parseResult.data.requiredRoles,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_two_factor_policy",
+        details: `تم تحديث أدوار التحقق بخطوتين الإلزامي: ${parseResult.data.requiredRoles.join(", ") || "لا يوجد"}`,
+      });
+
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الإعدادات" });
+    }
+  });
+
+  // Permission matrix - Get (super_admin only)
+  app.get("/api/permissions", requireRole("super_admin"), async (req, res) => {
+    try {
+      res.json(await getPermissionMatrix());
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب الصلاحيات" });
+    }
+  });
+
+  // Permission matrix - Update (super_admin only). super_admin keeps every permission.
+  app.put("/api/permissions", requireRole("super_admin"), async (req, res) => {
+    try {
+      const parseResult = z.object({
+        matrix: z.record(z.string(), z.array(z.enum(editableRoles))),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+
+      const unknownKey = Object.keys(parseResult.data.matrix).find((key) => !isPermissionKey(key));
+      if (unknownKey) {
+        return res.status(400).json({ error: `صلاحية غير معروفة: ${unknownKey}` });
+      }
+
+      const lockedKey = Object.entries(parseResult.data.matrix).find(
+        ([key, roles]) => roles.length > 0 && isSuperAdminOnlyPermission(key as PermissionKey)
+      )?.[0];
+      if (lockedKey) {
+        return res.status(400).json({ error: `الصلاحية ${lockedKey} خاصة بمالك النظام ولا يمكن منحها لدور آخر` });
+      }
+
+      const matrix = resolvePermissionMatrix(parseResult.data.matrix);
+      await storage.updateSiteSettings({ permissionMatrix: matrix });
+      permissionMatrixCache = matrix;
+
+      const summary = permissionDefinitions
+        .map((p) => `${p.label}: ${matrix[p.key].filter((r) => r !== "super_admin").length}`)
+        .join("، ");
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_permissions",
+        details: `تم تحديث مصفوفة الصلاحيات (${summary})`,
+      });
+
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في تحديث الصلاحيات" });
+    }
+  });
+
+  // API keys - super_admin sees every key, event managers their own
+  app.get("/api/api-keys", requireRole("super_admin", "event_manager"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const keys = await storage.getApiKeys(currentUser.role === "super_admin" ? undefined : currentUser.id);
+
+      const ownerNames = new Map<string, string>();
+      for (const key of keys) {
+        if (!ownerNames.has(key.createdById)) {
+          const owner = await storage.getUser(key.createdById);
+          ownerNames.set(key.createdById, owner?.name || "");
+        }
+      }
+
+      res.json(keys.map((key) => ({ ...toApiKeyInfo(key), createdByName: ownerNames.get(key.createdById) })));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في جلب مفاتيح API" });
+    }
+  });
+
+  app.post("/api/api-keys", requireRole("super_admin", "event_manager"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const parseResult = z.object({
+        name: z.string().trim().min(2),
+        eventIds: z.array(z.string()).min(1),
+        permissions: z.array(z.string()).min(1),
+        expiresInDays: z.number().int().min(1).max(365).nullable(),
+      }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "بيانات غير صالحة" });
+      }
+      const { name, eventIds, permissions, expiresInDays } = parseResult.data;
+
+      for (const permission of permissions) {
+        if (!isPermissionKey(permission) || !apiKeyPermissionKeys.includes(permission)) {
+          return res.status(400).json({ error: `صلاحية غير متاحة لمفاتيح API: ${permission}` });
+        }
+        if (!(await userCan(currentUser, permission))) {
+          return res.status(403).json({ error: "لا يمكنك منح صلاحية لا تملكها" });
+        }
+      }
+
+      for (const eventId of eventIds) {
+        const event = await storage.getEvent(eventId);
+        if (!event || !(await canAccessEvent(req, event))) {
+          return res.status(403).json({ error: "لا يمكنك ربط المفتاح بمناسبة لا تديرها" });
+        }
+      }
+
+      const token = API_KEY_PREFIX + randomBytes(32).toString("base64url");
+      const apiKey = await storage.createApiKey({
+        name,
+        keyPrefix: token.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashApiKey(token),
+        createdById: currentUser.id,
+        eventIds: Array.from(new Set(eventIds)),
+        permissions: Array.from(new Set(permissions)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "create_api_key",
+        details: `تم إنشاء مفتاح API: ${name} (${apiKey.keyPrefix}...)`,
+      });
+
+      // The key itself is only returned once
+      res.locals.redactLog = true;
+      res.json({ ...toApiKeyInfo(apiKey), token });
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إنشاء مفتاح API" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", requireRole("super_admin", "event_manager"), async (req, res) => {
+    try {
+      const currentUser = req.user!;
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey) return res.status(404).json({ error: "المفتاح غير موجود" });
+      if (currentUser.role !== "super_admin" && apiKey.createdById !== currentUser.id) {
+        return res.status(403).json({ error: "غير مسموح" });
+      }
+
+      const revoked = await storage.revokeApiKey(apiKey.id, currentUser.id);
+      if (!revoked) return res.status(400).json({ error: "المفتاح ملغى مسبقاً" });
+
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: "revoke_api_key",
+        details: `تم إلغاء مفتاح API: ${apiKey.name} (${apiKey.keyPrefix}...)`,
+      });
+
+      res.json(toApiKeyInfo(revoked));
+    } catch (error) {
+      res.status(500).json({ error: "خطأ في إلغاء مفتاح API" });
+    }
+  });
+
   // Capacity Tiers - Get all (public for event creation form)
   app.get("/api/capacity-tiers", requireAuth, async (req, res) => {
     try {
@@ -1697,7 +4545,7 @@ export async function registerRoutes(
   // Event Manager Quota Info with tier details
   app.get("/api/quota/info", requireRole("event_manager", "admin", "super_admin"), async (req, res) => {
     try {
-      const user = (req as any).user;
+      const user = req.user!;
       
       if (user.role !== "event_manager") {
         return res.json({ hasQuota: false });
@@ -1864,7 +4712,7 @@ export async function registerRoutes(
       const totalQuota = tierQuotas.reduce((sum, tq) => sum + tq.quota, 0);
       
       await storage.createAuditLog({
-        userId: (req as any).user.id,
+        userId: req.user!.id,
         action: "update_tier_quotas",
         details: `تم تحديث حصص الباقات لـ ${user.name} (إجمالي: ${totalQuota} مناسبة)`,
       });
@@ -1,10 +1,6 @@
 import { db } from "./db";
 import { users } from "@shared/schema";
-import { createHash } from "crypto";
-
-function hashPassword(password: string): string {
-  return createHash("sha256").update(password).digest("hex");
-}
+import { hashPassword } from "./password";
 
 async function seed() {
   console.log("Seeding database...");
@@ -16,14 +12,14 @@ async function seed() {
     await db.insert(users).values([
       {
         username: "admin",
-        password: hashPassword("admin123"),
+        password: await hashPassword("admin123"),
         name: "مالك النظام",
         role: "super_admin",
         isActive: true,
       },
       {
         username: "manager",
-        password: hashPassword("manager123"),
+        password: await hashPassword("manager123"),
         name: "مدير المناسبات",
         role: "event_manager",
         eventQuota: 10,
@@ -7,6 +7,18 @@ import {
   siteSettings,
   capacityTiers,
   userTierQuotas,
+  sessions,
+  loginHistory,
+  passwordResetTokens,
+  apiKeys,
+  eventSigningKeys,
+  offlineCheckIns,
+  checkInRequests,
+  guestMovements,
+  eventSessions,
+  sessionAttendance,
+  eventGates,
+  gateAccessOverrides,
   type User,
   type InsertUser,
   type Event,
@@ -23,9 +35,63 @@ import {
   type InsertCapacityTier,
   type UserTierQuota,
   type InsertUserTierQuota,
+  type UserSession,
+  type LoginHistoryEntry,
+  type InsertLoginHistoryEntry,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type ApiKey,
+  type InsertApiKey,
+  type EventSigningKey,
+  type InsertEventSigningKey,
+  type OfflineCheckIn,
+  type InsertOfflineCheckIn,
+  type CheckInRequest,
+  type GuestMovement,
+  type InsertGuestMovement,
+  type EventSession,
+  type InsertEventSession,
+  type EventSessionWithAttendance,
+  type SessionAttendance,
+  type SessionAdmission,
+  type EventGate,
+  type InsertEventGate,
+  type EventGateWithCounts,
+  type GateAccessOverride,
+  guestImports,
+  type GuestImport,
+  type InsertGuestImport,
+  type GuestImportMapping,
+  type GuestImportRejection,
+  retiredAccessCodes,
+  type RetiredAccessCode,
+  eventGuestFields,
+  type EventGuestField,
+  type InsertEventGuestField,
+  eventCategories,
+  type EventCategory,
+  type InsertEventCategory,
+  type EventCategoryWithCount,
 } from "@shared/schema";
+import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, and, desc, gte, lte, sql } from "drizzle-orm";
+import { arrivedHeadcount, summarizeHeadcount } from "@shared/headcount";
+import { countByCategory, defaultEventCategories, sortCategories } from "@shared/categories";
+import { auditActionLabels } from "@shared/audit-actions";
+import { eq, and, desc, gte, lte, gt, ne, isNull, inArray, sql } from "drizzle-orm";
+
+const STALE_GUEST_IMPORT_MS = 24 * 60 * 60 * 1000;
+
+export interface GuestUpdate {
+  id: string;
+  data: Partial<InsertGuest>;
+}
+
+// Lowering a guest's invited companions never leaves more of them admitted than invited
+function withCompanionsClamped<T extends { companions?: number | null }>(data: T) {
+  if (data.companions === undefined || data.companions === null) return data;
+  return { ...data, companionsCheckedIn: sql`least(${guests.companionsCheckedIn}, ${data.companions})` };
+}
 
 export interface IStorage {
   // Users
@@ -36,14 +102,18 @@ export interface IStorage {
   getUsersByCreator(createdById: string): Promise<User[]>;
   updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
+  suspendCreatedOrganizers(managerId: string): Promise<User[]>;
+  restoreSuspendedOrganizers(managerId: string): Promise<User[]>;
 
   // Events
   getEvent(id: string): Promise<Event | undefined>;
   getEvents(): Promise<Event[]>;
   getEventsByManager(managerId: string): Promise<Event[]>;
-  createEvent(event: InsertEvent): Promise<Event>;
+  createEvent(event: InsertEvent, signingKey: Omit<InsertEventSigningKey, "eventId">): Promise<Event>;
   updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event | undefined>;
   deleteEvent(id: string): Promise<void>;
+  getEventsByStatus(statuses: Event["status"][]): Promise<Event[]>;
+  transitionEventStatus(id: string, from: Event["status"], to: Event["status"]): Promise<Event | undefined>;
 
   // Guests
   getGuest(id: string): Promise<Guest | undefined>;
@@ -53,10 +123,69 @@ export interface IStorage {
   createGuests(guests: InsertGuest[]): Promise<Guest[]>;
   updateGuest(id: string, data: Partial<Guest>): Promise<Guest | undefined>;
   deleteGuest(id: string): Promise<void>;
-  checkInGuest(id: string, organizerId: string): Promise<Guest | undefined>;
+  mergeGuests(keepId: string, duplicate: Guest, data: Partial<Guest>, mergedBy: string): Promise<Guest | undefined>;
+  getRetiredAccessCode(code: string): Promise<RetiredAccessCode | undefined>;
+  checkInGuestIfPending(id: string, organizerId: string, checkedInAt?: Date, companions?: number): Promise<Guest | undefined>;
+  admitRemainingCompanions(id: string, count: number): Promise<Guest | undefined>;
+  setCompanionsCheckedIn(id: string, count: number): Promise<Guest | undefined>;
+  setGuestInside(id: string, inside: boolean): Promise<Guest | undefined>;
+  createGuestMovement(movement: InsertGuestMovement): Promise<GuestMovement>;
+  getGuestMovements(guestId: string): Promise<GuestMovement[]>;
+  revertCheckIn(id: string, revertedBy: string, reason: string): Promise<Guest | undefined>;
+
+  // Event sessions
+  getEventSessions(eventId: string): Promise<EventSessionWithAttendance[]>;
+  getEventSession(id: string): Promise<EventSession | undefined>;
+  createEventSession(session: InsertEventSession): Promise<EventSession>;
+  updateEventSession(id: string, data: Partial<InsertEventSession>): Promise<EventSession | undefined>;
+  deleteEventSession(id: string): Promise<void>;
+  admitToSession(sessionId: string, guestId: string, people: number, checkedInBy: string): Promise<SessionAdmission>;
+  getSessionAttendanceByEvent(eventId: string): Promise<SessionAttendance[]>;
+
+  // Custom guest fields
+  getEventGuestFields(eventId: string): Promise<EventGuestField[]>;
+  getEventGuestField(id: string): Promise<EventGuestField | undefined>;
+  createEventGuestField(field: InsertEventGuestField): Promise<EventGuestField>;
+  updateEventGuestField(id: string, data: Partial<InsertEventGuestField>): Promise<EventGuestField | undefined>;
+  deleteEventGuestField(field: EventGuestField): Promise<void>;
+
+  // Guest categories
+  getEventCategories(eventId: string): Promise<EventCategory[]>;
+  getEventCategoriesWithCounts(eventId: string): Promise<EventCategoryWithCount[]>;
+  getAllEventCategories(): Promise<EventCategory[]>;
+  getEventCategory(id: string): Promise<EventCategory | undefined>;
+  createEventCategory(category: Omit<InsertEventCategory, "key">): Promise<EventCategory>;
+  updateEventCategory(id: string, data: Partial<InsertEventCategory>): Promise<EventCategory | undefined>;
+  deleteEventCategory(category: EventCategory, moveTo: string | null): Promise<void>;
+
+  // Gates / zones
+  getEventGates(eventId: string): Promise<EventGateWithCounts[]>;
+  getEventGate(id: string): Promise<EventGate | undefined>;
+  createEventGate(gate: InsertEventGate): Promise<EventGate>;
+  updateEventGate(id: string, data: Partial<InsertEventGate>): Promise<EventGate | undefined>;
+  deleteEventGate(id: string): Promise<void>;
+  getGateOverride(gateId: string, guestId: string): Promise<GateAccessOverride | undefined>;
+  getGateOverridesByGate(gateId: string): Promise<GateAccessOverride[]>;
+  getGateOverridesByGuest(guestId: string): Promise<GateAccessOverride[]>;
+  setGateOverride(gateId: string, guestId: string, allowed: boolean | null): Promise<void>;
+
+  // Staged guest imports
+  createGuestImport(guestImport: InsertGuestImport): Promise<GuestImport>;
+  getGuestImport(id: string): Promise<GuestImport | undefined>;
+  updateGuestImportMapping(id: string, mapping: GuestImportMapping): Promise<GuestImport | undefined>;
+  commitGuestImport(
+    id: string,
+    newGuests: InsertGuest[],
+    updates: GuestUpdate[],
+    rejected: GuestImportRejection[]
+  ): Promise<{ created: Guest[]; updated: Guest[] } | undefined>;
+  deleteGuestImport(id: string): Promise<void>;
 
   // Event Organizers
   getEventOrganizers(eventId: string): Promise<User[]>;
+  getEventOrganizerAssignments(eventId: string): Promise<EventOrganizer[]>;
+  getOrganizerGate(eventId: string, organizerId: string): Promise<EventGate | undefined>;
+  setOrganizerGate(eventId: string, organizerId: string, gateId: string | null): Promise<EventOrganizer | undefined>;
   getOrganizerEvents(organizerId: string): Promise<Event[]>;
   assignOrganizer(data: InsertEventOrganizer): Promise<EventOrganizer>;
   removeOrganizer(eventId: string, organizerId: string): Promise<void>;
@@ -94,6 +223,45 @@ export interface IStorage {
   setUserTierQuota(userId: string, capacityTierId: string, quota: number): Promise<UserTierQuota>;
   deleteUserTierQuotas(userId: string): Promise<void>;
   getEventCountByManagerAndTier(managerId: string, capacityTierId: string): Promise<number>;
+
+  // Sessions
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<void>;
+
+  // Login history
+  createLoginHistoryEntry(entry: InsertLoginHistoryEntry): Promise<LoginHistoryEntry>;
+  getLoginHistory(userId: string, limit: number): Promise<LoginHistoryEntry[]>;
+
+  // Password reset tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<PasswordResetToken | undefined>;
+  deletePendingPasswordResetTokens(userId: string): Promise<void>;
+
+  // API keys
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getApiKeys(createdById?: string): Promise<ApiKey[]>;
+  touchApiKey(id: string, ip: string | null): Promise<void>;
+  revokeApiKey(id: string, revokedById: string): Promise<ApiKey | undefined>;
+
+  // QR signing keys
+  getActiveEventSigningKey(eventId: string): Promise<EventSigningKey | undefined>;
+  getEventSigningKeyByKid(kid: string): Promise<EventSigningKey | undefined>;
+  createEventSigningKey(key: InsertEventSigningKey): Promise<EventSigningKey>;
+
+  // Offline check-ins
+  getOfflineCheckInByClientId(clientId: string): Promise<OfflineCheckIn | undefined>;
+  createOfflineCheckIn(entry: InsertOfflineCheckIn): Promise<OfflineCheckIn>;
+
+  // Check-in idempotency
+  reserveCheckInRequest(userId: string, idempotencyKey: string, requestHash: string): Promise<CheckInRequest | undefined>;
+  getCheckInRequest(userId: string, idempotencyKey: string): Promise<CheckInRequest | undefined>;
+  completeCheckInRequest(id: string, guestId: string | null, responseStatus: number, response: Record<string, unknown>): Promise<void>;
+  deleteCheckInRequest(id: string): Promise<void>;
+  rotateEventSigningKey(eventId: string, key: InsertEventSigningKey): Promise<EventSigningKey>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -130,6 +298,26 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  async suspendCreatedOrganizers(managerId: string): Promise<User[]> {
+    return db
+      .update(users)
+      .set({ isActive: false, suspendedByUserId: managerId })
+      .where(and(
+        eq(users.createdById, managerId),
+        eq(users.role, "organizer"),
+        eq(users.isActive, true)
+      ))
+      .returning();
+  }
+
+  async restoreSuspendedOrganizers(managerId: string): Promise<User[]> {
+    return db
+      .update(users)
+      .set({ isActive: true, suspendedByUserId: null })
+      .where(eq(users.suspendedByUserId, managerId))
+      .returning();
+  }
+
   // Events
   async getEvent(id: string): Promise<Event | undefined> {
     const [event] = await db.select().from(events).where(eq(events.id, id));
@@ -144,9 +332,15 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(events).where(eq(events.eventManagerId, managerId)).orderBy(desc(events.date));
   }
 
-  async createEvent(insertEvent: InsertEvent): Promise<Event> {
-    const [event] = await db.insert(events).values(insertEvent).returning();
-    return event;
+  // New events start with the default guest categories (shared/categories.ts)
+  // A new event gets the default guest categories and its first QR signing key
+  async createEvent(insertEvent: InsertEvent, signingKey: Omit<InsertEventSigningKey, "eventId">): Promise<Event> {
+    return db.transaction(async (tx) => {
+      const [event] = await tx.insert(events).values(insertEvent).returning();
+      await tx.insert(eventCategories).values(defaultEventCategories.map((c) => ({ ...c, eventId: event.id })));
+      await tx.insert(eventSigningKeys).values({ ...signingKey, eventId: event.id });
+      return event;
+    });
   }
 
   async updateEvent(id: string, data: Partial<InsertEvent>): Promise<Event | undefined> {
@@ -158,6 +352,20 @@ export class DatabaseStorage implements IStorage {
     await db.delete(events).where(eq(events.id, id));
   }
 
+  async getEventsByStatus(statuses: Event["status"][]): Promise<Event[]> {
+    return db.select().from(events).where(inArray(events.status, statuses));
+  }
+
+  // Only moves the event if nobody changed its status in the meantime
+  async transitionEventStatus(id: string, from: Event["status"], to: Event["status"]): Promise<Event | undefined> {
+    const [event] = await db
+      .update(events)
+      .set({ status: to })
+      .where(and(eq(events.id, id), eq(events.status, from)))
+      .returning();
+    return event || undefined;
+  }
+
   // Guests
   async getGuest(id: string): Promise<Guest | undefined> {
     const [guest] = await db.select().from(guests).where(eq(guests.id, id));
@@ -184,7 +392,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateGuest(id: string, data: Partial<Guest>): Promise<Guest | undefined> {
-    const [guest] = await db.update(guests).set(data).where(eq(guests.id, id)).returning();
+    const [guest] = await db.update(guests).set(withCompanionsClamped(data)).where(eq(guests.id, id)).returning();
     return guest || undefined;
   }
 
@@ -192,19 +400,467 @@ export class DatabaseStorage implements IStorage {
     await db.delete(guests).where(eq(guests.id, id));
   }
 
-  async checkInGuest(id: string, organizerId: string): Promise<Guest | undefined> {
+  // Folds `duplicate` into the kept guest: its history (audit log, movements, session
+  // attendance, gate overrides, offline and idempotent check-ins) moves over, its invitation
+  // code is retired and its record removed. Where both guests have a session admission or a
+  // gate override, the kept guest's stays.
+  async mergeGuests(keepId: string, duplicate: Guest, data: Partial<Guest>, mergedBy: string): Promise<Guest | undefined> {
+    return db.transaction(async (tx) => {
+      const [kept] = await tx.update(guests).set(data).where(eq(guests.id, keepId)).returning();
+      if (!kept) return undefined;
+
+      const keptSessions = tx
+        .select({ sessionId: sessionAttendance.sessionId })
+        .from(sessionAttendance)
+        .where(eq(sessionAttendance.guestId, keepId));
+      await tx
+        .delete(sessionAttendance)
+        .where(and(eq(sessionAttendance.guestId, duplicate.id), inArray(sessionAttendance.sessionId, keptSessions)));
+      await tx.update(sessionAttendance).set({ guestId: keepId }).where(eq(sessionAttendance.guestId, duplicate.id));
+
+      const keptGates = tx
+        .select({ gateId: gateAccessOverrides.gateId })
+        .from(gateAccessOverrides)
+        .where(eq(gateAccessOverrides.guestId, keepId));
+      await tx
+        .delete(gateAccessOverrides)
+        .where(and(eq(gateAccessOverrides.guestId, duplicate.id), inArray(gateAccessOverrides.gateId, keptGates)));
+      await tx.update(gateAccessOverrides).set({ guestId: keepId }).where(eq(gateAccessOverrides.guestId, duplicate.id));
+
+      await tx.update(auditLogs).set({ guestId: keepId }).where(eq(auditLogs.guestId, duplicate.id));
+      await tx.update(guestMovements).set({ guestId: keepId }).where(eq(guestMovements.guestId, duplicate.id));
+      await tx.update(offlineCheckIns).set({ guestId: keepId }).where(eq(offlineCheckIns.guestId, duplicate.id));
+      await tx.update(checkInRequests).set({ guestId: keepId }).where(eq(checkInRequests.guestId, duplicate.id));
+      // Codes retired by earlier merges into the duplicate now point at the kept guest
+      await tx.update(retiredAccessCodes).set({ guestId: keepId }).where(eq(retiredAccessCodes.guestId, duplicate.id));
+
+      await tx.insert(retiredAccessCodes).values({
+        code: duplicate.qrCode,
+        eventId: duplicate.eventId,
+        guestId: keepId,
+        retiredBy: mergedBy,
+      });
+      await tx.delete(guests).where(eq(guests.id, duplicate.id));
+      return kept;
+    });
+  }
+
+  async getRetiredAccessCode(code: string): Promise<RetiredAccessCode | undefined> {
+    const [retired] = await db.select().from(retiredAccessCodes).where(eq(retiredAccessCodes.code, code));
+    return retired || undefined;
+  }
+
+  // Only succeeds for a guest who has not been admitted yet, so two devices scanning the
+  // same invitation at once cannot both win; companions defaults to every invited companion
+  async checkInGuestIfPending(
+    id: string,
+    organizerId: string,
+    checkedInAt: Date = new Date(),
+    companions?: number
+  ): Promise<Guest | undefined> {
     const [guest] = await db
       .update(guests)
       .set({
         isCheckedIn: true,
-        checkedInAt: new Date(),
+        isInside: true,
+        checkedInAt,
         checkedInBy: organizerId,
+        companionsCheckedIn:
+          companions === undefined
+            ? sql`coalesce(${guests.companions}, 0)`
+            : sql`least(coalesce(${guests.companions}, 0), ${companions})`,
+        checkInRevertedAt: null,
+        checkInRevertedBy: null,
+        checkInRevertReason: null,
+      })
+      .where(and(eq(guests.id, id), eq(guests.isCheckedIn, false)))
+      .returning();
+    return guest || undefined;
+  }
+
+  // Lets companions who came later in on the guest's code. Only matches while some companions
+  // are still outstanding.
+  async admitRemainingCompanions(id: string, count: number): Promise<Guest | undefined> {
+    const [guest] = await db
+      .update(guests)
+      .set({
+        companionsCheckedIn: sql`least(coalesce(${guests.companions}, 0), ${guests.companionsCheckedIn} + ${count})`,
+      })
+      .where(
+        and(
+          eq(guests.id, id),
+          eq(guests.isCheckedIn, true),
+          sql`${guests.companionsCheckedIn} < coalesce(${guests.companions}, 0)`
+        )
+      )
+      .returning();
+    return guest || undefined;
+  }
+
+  // Door correction: sets how many companions actually came in with an admitted guest
+  async setCompanionsCheckedIn(id: string, count: number): Promise<Guest | undefined> {
+    const [guest] = await db
+      .update(guests)
+      .set({ companionsCheckedIn: sql`least(coalesce(${guests.companions}, 0), ${count})` })
+      .where(and(eq(guests.id, id), eq(guests.isCheckedIn, true)))
+      .returning();
+    return guest || undefined;
+  }
+
+  // Check-out / re-entry for an admitted guest; only matches when the state actually changes
+  async setGuestInside(id: string, inside: boolean): Promise<Guest | undefined> {
+    const [guest] = await db
+      .update(guests)
+      .set({ isInside: inside })
+      .where(and(eq(guests.id, id), eq(guests.isCheckedIn, true), eq(guests.isInside, !inside)))
+      .returning();
+    return guest || undefined;
+  }
+
+  async createGuestMovement(movement: InsertGuestMovement): Promise<GuestMovement> {
+    const [created] = await db.insert(guestMovements).values(movement).returning();
+    return created;
+  }
+
+  async getGuestMovements(guestId: string): Promise<GuestMovement[]> {
+    return db
+      .select()
+      .from(guestMovements)
+      .where(eq(guestMovements.guestId, guestId))
+      .orderBy(desc(guestMovements.createdAt));
+  }
+
+  // Only succeeds while the guest is admitted, so two concurrent undos cannot both be recorded
+  async revertCheckIn(id: string, revertedBy: string, reason: string): Promise<Guest | undefined> {
+    const [guest] = await db
+      .update(guests)
+      .set({
+        isCheckedIn: false,
+        isInside: false,
+        checkedInAt: null,
+        checkedInBy: null,
+        companionsCheckedIn: 0,
+        checkInRevertedAt: new Date(),
+        checkInRevertedBy: revertedBy,
+        checkInRevertReason: reason,
       })
-      .where(eq(guests.id, id))
+      .where(and(eq(guests.id, id), eq(guests.isCheckedIn, true)))
       .returning();
     return guest || undefined;
   }
 
+  // Event sessions
+  async getEventSessions(eventId: string): Promise<EventSessionWithAttendance[]> {
+    const rows = await db
+      .select({
+        session: eventSessions,
+        attendedGuests: sql<number>`count(${sessionAttendance.id})::int`,
+        attendedPeople: sql<number>`coalesce(sum(${sessionAttendance.people}), 0)::int`,
+      })
+      .from(eventSessions)
+      .leftJoin(sessionAttendance, eq(sessionAttendance.sessionId, eventSessions.id))
+      .where(eq(eventSessions.eventId, eventId))
+      .groupBy(eventSessions.id)
+      .orderBy(eventSessions.date, eventSessions.startTime);
+    return rows.map(({ session, attendedGuests, attendedPeople }) => ({ ...session, attendedGuests, attendedPeople }));
+  }
+
+  async getEventSession(id: string): Promise<EventSession | undefined> {
+    const [session] = await db.select().from(eventSessions).where(eq(eventSessions.id, id));
+    return session || undefined;
+  }
+
+  async createEventSession(session: InsertEventSession): Promise<EventSession> {
+    const [created] = await db.insert(eventSessions).values(session).returning();
+    return created;
+  }
+
+  async updateEventSession(id: string, data: Partial<InsertEventSession>): Promise<EventSession | undefined> {
+    const [session] = await db.update(eventSessions).set(data).where(eq(eventSessions.id, id)).returning();
+    return session || undefined;
+  }
+
+  async deleteEventSession(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(sessionAttendance).where(eq(sessionAttendance.sessionId, id));
+      await tx.delete(eventSessions).where(eq(eventSessions.id, id));
+    });
+  }
+
+  // The session row is locked while capacity is checked, so parallel scans cannot overfill it.
+  // A guest already admitted gets their existing row back as "duplicate".
+  async admitToSession(sessionId: string, guestId: string, people: number, checkedInBy: string): Promise<SessionAdmission> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx.select().from(eventSessions).where(eq(eventSessions.id, sessionId)).for("update");
+      if (!session) return { status: "not_found" as const };
+
+      const [existing] = await tx
+        .select()
+        .from(sessionAttendance)
+        .where(and(eq(sessionAttendance.sessionId, sessionId), eq(sessionAttendance.guestId, guestId)));
+      if (existing) return { status: "duplicate" as const, attendance: existing };
+
+      if (session.capacity) {
+        const [{ total }] = await tx
+          .select({ total: sql<number>`coalesce(sum(${sessionAttendance.people}), 0)::int` })
+          .from(sessionAttendance)
+          .where(eq(sessionAttendance.sessionId, sessionId));
+        if (total + people > session.capacity) return { status: "full" as const };
+      }
+
+      const [attendance] = await tx
+        .insert(sessionAttendance)
+        .values({ sessionId, eventId: session.eventId, guestId, people, checkedInBy })
+        .returning();
+      return { status: "admitted" as const, attendance };
+    });
+  }
+
+  async getSessionAttendanceByEvent(eventId: string): Promise<SessionAttendance[]> {
+    return db
+      .select()
+      .from(sessionAttendance)
+      .where(eq(sessionAttendance.eventId, eventId))
+      .orderBy(sessionAttendance.checkedInAt);
+  }
+
+  // Custom guest fields
+  async getEventGuestFields(eventId: string): Promise<EventGuestField[]> {
+    return db
+      .select()
+      .from(eventGuestFields)
+      .where(eq(eventGuestFields.eventId, eventId))
+      .orderBy(eventGuestFields.sortOrder, eventGuestFields.createdAt);
+  }
+
+  async getEventGuestField(id: string): Promise<EventGuestField | undefined> {
+    const [field] = await db.select().from(eventGuestFields).where(eq(eventGuestFields.id, id));
+    return field || undefined;
+  }
+
+  async createEventGuestField(field: InsertEventGuestField): Promise<EventGuestField> {
+    const [created] = await db.insert(eventGuestFields).values(field).returning();
+    return created;
+  }
+
+  async updateEventGuestField(id: string, data: Partial<InsertEventGuestField>): Promise<EventGuestField | undefined> {
+    const [field] = await db.update(eventGuestFields).set(data).where(eq(eventGuestFields.id, id)).returning();
+    return field || undefined;
+  }
+
+  // The field's values are removed from the event's guests along with it
+  async deleteEventGuestField(field: EventGuestField): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(guests)
+        .set({ customFields: sql`(${guests.customFields}::jsonb - ${field.id})::json` })
+        .where(eq(guests.eventId, field.eventId));
+      await tx.delete(eventGuestFields).where(eq(eventGuestFields.id, field.id));
+    });
+  }
+
+  // Guest categories
+  async getEventCategories(eventId: string): Promise<EventCategory[]> {
+    return db
+      .select()
+      .from(eventCategories)
+      .where(eq(eventCategories.eventId, eventId))
+      .orderBy(eventCategories.sortOrder, eventCategories.createdAt);
+  }
+
+  async getEventCategoriesWithCounts(eventId: string): Promise<EventCategoryWithCount[]> {
+    const categories = await this.getEventCategories(eventId);
+    const counts = await db
+      .select({ category: guests.category, count: sql<number>`count(*)::int` })
+      .from(guests)
+      .where(eq(guests.eventId, eventId))
+      .groupBy(guests.category);
+    const byKey = new Map(counts.map((c) => [c.category, c.count]));
+    return categories.map((category) => ({ ...category, guests: byKey.get(category.key) ?? 0 }));
+  }
+
+  async getAllEventCategories(): Promise<EventCategory[]> {
+    return db.select().from(eventCategories).orderBy(eventCategories.sortOrder, eventCategories.createdAt);
+  }
+
+  async getEventCategory(id: string): Promise<EventCategory | undefined> {
+    const [category] = await db.select().from(eventCategories).where(eq(eventCategories.id, id));
+    return category || undefined;
+  }
+
+  // Categories added later are keyed by their id, which is as stable as a key needs to be
+  async createEventCategory(category: Omit<InsertEventCategory, "key">): Promise<EventCategory> {
+    const id = randomUUID();
+    const [created] = await db.insert(eventCategories).values({ ...category, id, key: id }).returning();
+    return created;
+  }
+
+  async updateEventCategory(id: string, data: Partial<InsertEventCategory>): Promise<EventCategory | undefined> {
+    const [category] = await db.update(eventCategories).set(data).where(eq(eventCategories.id, id)).returning();
+    return category || undefined;
+  }
+
+  // Guests of a deleted category move to `moveTo`, and gates that admitted it admit `moveTo`
+  // instead, so a gate never opens to everyone because its only category went away
+  async deleteEventCategory(category: EventCategory, moveTo: string | null): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (moveTo) {
+        await tx
+          .update(guests)
+          .set({ category: moveTo })
+          .where(and(eq(guests.eventId, category.eventId), eq(guests.category, category.key)));
+      }
+      const gates = await tx.select().from(eventGates).where(eq(eventGates.eventId, category.eventId));
+      for (const gate of gates) {
+        if (!gate.allowedCategories.includes(category.key)) continue;
+        const allowed = gate.allowedCategories.filter((c) => c !== category.key);
+        if (moveTo && !allowed.includes(moveTo)) allowed.push(moveTo);
+        await tx.update(eventGates).set({ allowedCategories: allowed }).where(eq(eventGates.id, gate.id));
+      }
+      await tx.delete(eventCategories).where(eq(eventCategories.id, category.id));
+    });
+  }
+
+  // Gates / zones
+  async getEventGates(eventId: string): Promise<EventGateWithCounts[]> {
+    const gates = await db.select().from(eventGates).where(eq(eventGates.eventId, eventId)).orderBy(eventGates.createdAt);
+    const counts = await db
+      .select({
+        gateId: guestMovements.gateId,
+        entries: sql<number>`count(*)::int`,
+        people: sql<number>`coalesce(sum(${guestMovements.people}), 0)::int`,
+      })
+      .from(guestMovements)
+      .where(and(eq(guestMovements.eventId, eventId), eq(guestMovements.direction, "entry")))
+      .groupBy(guestMovements.gateId);
+    const byGate = new Map(counts.map((c) => [c.gateId, c]));
+    return gates.map((gate) => ({
+      ...gate,
+      entries: byGate.get(gate.id)?.entries ?? 0,
+      people: byGate.get(gate.id)?.people ?? 0,
+    }));
+  }
+
+  async getEventGate(id: string): Promise<EventGate | undefined> {
+    const [gate] = await db.select().from(eventGates).where(eq(eventGates.id, id));
+    return gate || undefined;
+  }
+
+  async createEventGate(gate: InsertEventGate): Promise<EventGate> {
+    const [created] = await db.insert(eventGates).values(gate).returning();
+    return created;
+  }
+
+  async updateEventGate(id: string, data: Partial<InsertEventGate>): Promise<EventGate | undefined> {
+    const [gate] = await db.update(eventGates).set(data).where(eq(eventGates.id, id)).returning();
+    return gate || undefined;
+  }
+
+  // Organizers at a deleted gate go back to "any gate"; recorded movements keep the gate id
+  async deleteEventGate(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(eventOrganizers).set({ gateId: null }).where(eq(eventOrganizers.gateId, id));
+      await tx.delete(gateAccessOverrides).where(eq(gateAccessOverrides.gateId, id));
+      await tx.delete(eventGates).where(eq(eventGates.id, id));
+    });
+  }
+
+  async getGateOverride(gateId: string, guestId: string): Promise<GateAccessOverride | undefined> {
+    const [override] = await db
+      .select()
+      .from(gateAccessOverrides)
+      .where(and(eq(gateAccessOverrides.gateId, gateId), eq(gateAccessOverrides.guestId, guestId)));
+    return override || undefined;
+  }
+
+  async getGateOverridesByGate(gateId: string): Promise<GateAccessOverride[]> {
+    return db.select().from(gateAccessOverrides).where(eq(gateAccessOverrides.gateId, gateId));
+  }
+
+  async getGateOverridesByGuest(guestId: string): Promise<GateAccessOverride[]> {
+    return db.select().from(gateAccessOverrides).where(eq(gateAccessOverrides.guestId, guestId));
+  }
+
+  async setGateOverride(gateId: string, guestId: string, allowed: boolean | null): Promise<void> {
+    if (allowed === null) {
+      await db
+        .delete(gateAccessOverrides)
+        .where(and(eq(gateAccessOverrides.gateId, gateId), eq(gateAccessOverrides.guestId, guestId)));
+      return;
+    }
+    await db
+      .insert(gateAccessOverrides)
+      .values({ gateId, guestId, allowed })
+      .onConflictDoUpdate({
+        target: [gateAccessOverrides.gateId, gateAccessOverrides.guestId],
+        set: { allowed },
+      });
+  }
+
+  // Staged guest imports. Previews that were never committed are cleared a day later,
+  // whenever someone uploads a new file.
+  async createGuestImport(guestImport: InsertGuestImport): Promise<GuestImport> {
+    await db
+      .delete(guestImports)
+      .where(
+        and(
+          eq(guestImports.status, "pending"),
+          lte(guestImports.createdAt, new Date(Date.now() - STALE_GUEST_IMPORT_MS))
+        )
+      );
+    const [created] = await db.insert(guestImports).values(guestImport).returning();
+    return created;
+  }
+
+  async getGuestImport(id: string): Promise<GuestImport | undefined> {
+    const [guestImport] = await db.select().from(guestImports).where(eq(guestImports.id, id));
+    return guestImport || undefined;
+  }
+
+  async updateGuestImportMapping(id: string, mapping: GuestImportMapping): Promise<GuestImport | undefined> {
+    const [updated] = await db
+      .update(guestImports)
+      .set({ mapping })
+      .where(and(eq(guestImports.id, id), eq(guestImports.status, "pending")))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Marks the import committed, creates its guests and applies its updates in one go;
+  // undefined if it had already been committed
+  async commitGuestImport(
+    id: string,
+    newGuests: InsertGuest[],
+    updates: GuestUpdate[],
+    rejected: GuestImportRejection[]
+  ): Promise<{ created: Guest[]; updated: Guest[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(guestImports)
+        .set({ status: "committed", rejected, committedAt: new Date() })
+        .where(and(eq(guestImports.id, id), eq(guestImports.status, "pending")))
+        .returning();
+      if (!claimed) return undefined;
+
+      const created = newGuests.length === 0 ? [] : await tx.insert(guests).values(newGuests).returning();
+      const updated: Guest[] = [];
+      for (const { id: guestId, data } of updates) {
+        const inEvent = and(eq(guests.id, guestId), eq(guests.eventId, claimed.eventId));
+        // Only the name column mapped leaves nothing to write
+        const [guest] =
+          Object.keys(data).length === 0
+            ? await tx.select().from(guests).where(inEvent)
+            : await tx.update(guests).set(withCompanionsClamped(data)).where(inEvent).returning();
+        if (guest) updated.push(guest);
+      }
+      return { created, updated };
+    });
+  }
+
+  async deleteGuestImport(id: string): Promise<void> {
+    await db.delete(guestImports).where(eq(guestImports.id, id));
+  }
+
   // Event Organizers
   async getEventOrganizers(eventId: string): Promise<User[]> {
     const assignments = await db
@@ -236,6 +892,28 @@ export class DatabaseStorage implements IStorage {
     return eventList.filter((e): e is Event => e !== undefined && e.isActive === true);
   }
 
+  async getEventOrganizerAssignments(eventId: string): Promise<EventOrganizer[]> {
+    return db.select().from(eventOrganizers).where(eq(eventOrganizers.eventId, eventId));
+  }
+
+  async getOrganizerGate(eventId: string, organizerId: string): Promise<EventGate | undefined> {
+    const [row] = await db
+      .select({ gate: eventGates })
+      .from(eventOrganizers)
+      .innerJoin(eventGates, eq(eventGates.id, eventOrganizers.gateId))
+      .where(and(eq(eventOrganizers.eventId, eventId), eq(eventOrganizers.organizerId, organizerId)));
+    return row?.gate;
+  }
+
+  async setOrganizerGate(eventId: string, organizerId: string, gateId: string | null): Promise<EventOrganizer | undefined> {
+    const [assignment] = await db
+      .update(eventOrganizers)
+      .set({ gateId })
+      .where(and(eq(eventOrganizers.eventId, eventId), eq(eventOrganizers.organizerId, organizerId)))
+      .returning();
+    return assignment || undefined;
+  }
+
   async assignOrganizer(data: InsertEventOrganizer): Promise<EventOrganizer> {
     const [assignment] = await db.insert(eventOrganizers).values(data).returning();
     return assignment;
@@ -302,9 +980,9 @@ export class DatabaseStorage implements IStorage {
         totalEvents: userEvents.length,
         activeEvents: userEvents.filter((e) => e.isActive).length,
         totalGuests: userGuests.length,
-        checkedInToday: userGuests.filter(
+        checkedInToday: summarizeHeadcount(userGuests.filter(
           (g) => g.isCheckedIn && g.checkedInAt && new Date(g.checkedInAt) >= today
-        ).length,
+        )).arrived,
       };
     }
 
@@ -316,6 +994,8 @@ export class DatabaseStorage implements IStorage {
     const allEvents = await db.select().from(events);
     const allGuests = await db.select().from(guests);
     const allAssignments = await db.select().from(eventOrganizers);
+    const allCategories = await this.getAllEventCategories();
+    const categoriesOf = (eventId: string) => sortCategories(allCategories.filter((c) => c.eventId === eventId));
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -343,7 +1023,7 @@ export class DatabaseStorage implements IStorage {
       const managerEventIds = managerEvents.map((e) => e.id);
       const managerGuests = allGuests.filter((g) => managerEventIds.includes(g.eventId));
       const managerOrganizers = organizers.filter((o) => o.createdById === manager.id);
-      const checkedInGuests = managerGuests.filter((g) => g.isCheckedIn);
+      const headcount = summarizeHeadcount(managerGuests);
       
       return {
         id: manager.id,
@@ -354,11 +1034,13 @@ export class DatabaseStorage implements IStorage {
         eventsCount: managerEvents.length,
         activeEventsCount: managerEvents.filter((e) => e.isActive).length,
         totalGuests: managerGuests.length,
-        checkedInGuests: checkedInGuests.length,
+        expectedAttendees: headcount.expected,
+        checkedInGuests: headcount.arrived,
         organizersCount: managerOrganizers.length,
         events: managerEvents.map((event) => {
           const eventGuests = allGuests.filter((g) => g.eventId === event.id);
           const eventOrgs = allAssignments.filter((a) => a.eventId === event.id);
+          const eventHeadcount = summarizeHeadcount(eventGuests);
           return {
             id: event.id,
             name: event.name,
@@ -366,7 +1048,8 @@ export class DatabaseStorage implements IStorage {
             location: event.location,
             isActive: event.isActive,
             totalGuests: eventGuests.length,
-            checkedIn: eventGuests.filter((g) => g.isCheckedIn).length,
+            expectedAttendees: eventHeadcount.expected,
+            checkedIn: eventHeadcount.arrived,
             organizersCount: eventOrgs.length,
           };
         }),
@@ -377,14 +1060,9 @@ export class DatabaseStorage implements IStorage {
       const eventGuests = allGuests.filter((g) => g.eventId === event.id);
       const eventOrgs = allAssignments.filter((a) => a.eventId === event.id);
       const manager = eventManagers.find((m) => m.id === event.eventManagerId);
-      const checkedIn = eventGuests.filter((g) => g.isCheckedIn);
+      const headcount = summarizeHeadcount(eventGuests);
       
-      const categoryBreakdown = {
-        vip: eventGuests.filter((g) => g.category === "vip").length,
-        regular: eventGuests.filter((g) => g.category === "regular").length,
-        media: eventGuests.filter((g) => g.category === "media").length,
-        sponsor: eventGuests.filter((g) => g.category === "sponsor").length,
-      };
+      const categoryBreakdown = countByCategory(categoriesOf(event.id), eventGuests);
 
       return {
         id: event.id,
@@ -396,9 +1074,10 @@ export class DatabaseStorage implements IStorage {
         managerName: manager?.name || "غير معروف",
         managerId: event.eventManagerId,
         totalGuests: eventGuests.length,
-        checkedIn: checkedIn.length,
-        pending: eventGuests.length - checkedIn.length,
-        checkInRate: eventGuests.length > 0 ? Math.round((checkedIn.length / eventGuests.length) * 100) : 0,
+        expectedAttendees: headcount.expected,
+        checkedIn: headcount.arrived,
+        pending: headcount.pending,
+        checkInRate: headcount.rate,
         organizersCount: eventOrgs.length,
         categoryBreakdown,
       };
@@ -420,10 +1099,10 @@ export class DatabaseStorage implements IStorage {
       };
     });
 
-    const totalCheckedIn = allGuests.filter((g) => g.isCheckedIn).length;
-    const todayCheckIns = allGuests.filter(
+    const headcount = summarizeHeadcount(allGuests);
+    const todayCheckIns = summarizeHeadcount(allGuests.filter(
       (g) => g.isCheckedIn && g.checkedInAt && new Date(g.checkedInAt) >= today
-    ).length;
+    )).arrived;
 
     return {
       overview: {
@@ -436,9 +1115,10 @@ export class DatabaseStorage implements IStorage {
         totalEvents: allEvents.length,
         activeEvents: allEvents.filter((e) => e.isActive).length,
         totalGuests: allGuests.length,
-        totalCheckedIn,
+        expectedAttendees: headcount.expected,
+        totalCheckedIn: headcount.arrived,
         todayCheckIns,
-        checkInRate: allGuests.length > 0 ? Math.round((totalCheckedIn / allGuests.length) * 100) : 0,
+        checkInRate: headcount.rate,
       },
       admins: adminStats,
       eventManagers: eventManagerStats,
@@ -481,7 +1161,7 @@ export class DatabaseStorage implements IStorage {
 
     const relatedEventIds = relatedEvents.map((e) => e.id);
     const relatedGuests = allGuests.filter((g) => relatedEventIds.includes(g.eventId));
-    const checkedInGuests = relatedGuests.filter((g) => g.isCheckedIn);
+    const headcount = summarizeHeadcount(relatedGuests);
 
     return {
       admin: {
@@ -496,8 +1176,9 @@ export class DatabaseStorage implements IStorage {
         organizersCount: organizersCreated.length,
         eventsCount: relatedEvents.length,
         totalGuests: relatedGuests.length,
-        checkedInGuests: checkedInGuests.length,
-        checkInRate: relatedGuests.length > 0 ? Math.round((checkedInGuests.length / relatedGuests.length) * 100) : 0,
+        expectedAttendees: headcount.expected,
+        checkedInGuests: headcount.arrived,
+        checkInRate: headcount.rate,
       },
       eventManagers: eventManagersCreated.map((m) => {
         const mEvents = relatedEvents.filter((e) => e.eventManagerId === m.id);
@@ -510,7 +1191,7 @@ export class DatabaseStorage implements IStorage {
           isActive: m.isActive,
           eventsCount: mEvents.length,
           totalGuests: mGuests.length,
-          checkedIn: mGuests.filter((g) => g.isCheckedIn).length,
+          checkedIn: summarizeHeadcount(mGuests).arrived,
         };
       }),
       events: relatedEvents.map((e) => {
@@ -524,7 +1205,7 @@ export class DatabaseStorage implements IStorage {
           isActive: e.isActive,
           managerName: manager?.name,
           totalGuests: eGuests.length,
-          checkedIn: eGuests.filter((g) => g.isCheckedIn).length,
+          checkedIn: summarizeHeadcount(eGuests).arrived,
         };
       }),
     };
@@ -537,6 +1218,8 @@ export class DatabaseStorage implements IStorage {
     const allUsers = await db.select().from(users);
     const allGuests = await db.select().from(guests);
     const allAssignments = await db.select().from(eventOrganizers);
+    const allCategories = await this.getAllEventCategories();
+    const categoriesOf = (eventId: string) => sortCategories(allCategories.filter((c) => c.eventId === eventId));
     
     let managerEvents = await db.select().from(events).where(eq(events.eventManagerId, managerId));
     
@@ -550,7 +1233,7 @@ export class DatabaseStorage implements IStorage {
 
     const eventIds = managerEvents.map((e) => e.id);
     const eventGuests = allGuests.filter((g) => eventIds.includes(g.eventId));
-    const checkedInGuests = eventGuests.filter((g) => g.isCheckedIn);
+    const headcount = summarizeHeadcount(eventGuests);
     
     // Organizers created by this manager
     const createdOrganizers = allUsers.filter(
@@ -576,20 +1259,16 @@ export class DatabaseStorage implements IStorage {
         eventsCount: managerEvents.length,
         activeEventsCount: managerEvents.filter((e) => e.isActive).length,
         totalGuests: eventGuests.length,
-        checkedInGuests: checkedInGuests.length,
-        checkInRate: eventGuests.length > 0 ? Math.round((checkedInGuests.length / eventGuests.length) * 100) : 0,
+        expectedAttendees: headcount.expected,
+        checkedInGuests: headcount.arrived,
+        checkInRate: headcount.rate,
         createdOrganizersCount: createdOrganizers.length,
         assignedOrganizersCount: assignedOrganizers.length,
       },
       events: managerEvents.map((e) => {
         const eGuests = eventGuests.filter((g) => g.eventId === e.id);
         const eOrgs = allAssignments.filter((a) => a.eventId === e.id);
-        const categoryBreakdown = {
-          vip: eGuests.filter((g) => g.category === "vip").length,
-          regular: eGuests.filter((g) => g.category === "regular").length,
-          media: eGuests.filter((g) => g.category === "media").length,
-          sponsor: eGuests.filter((g) => g.category === "sponsor").length,
-        };
+        const categoryBreakdown = countByCategory(categoriesOf(e.id), eGuests);
         return {
           id: e.id,
           name: e.name,
@@ -597,7 +1276,7 @@ export class DatabaseStorage implements IStorage {
           location: e.location,
           isActive: e.isActive,
           totalGuests: eGuests.length,
-          checkedIn: eGuests.filter((g) => g.isCheckedIn).length,
+          checkedIn: summarizeHeadcount(eGuests).arrived,
           organizersCount: eOrgs.length,
           categoryBreakdown,
         };
@@ -619,6 +1298,8 @@ export class DatabaseStorage implements IStorage {
     const allUsers = await db.select().from(users);
     const allGuests = await db.select().from(guests);
     const allAssignments = await db.select().from(eventOrganizers);
+    const allCategories = await this.getAllEventCategories();
+    const categoriesOf = (eventId: string) => sortCategories(allCategories.filter((c) => c.eventId === eventId));
     
     let allEvents = await db.select().from(events);
     
@@ -634,7 +1315,7 @@ export class DatabaseStorage implements IStorage {
 
     const eventIds = allEvents.map((e) => e.id);
     const filteredGuests = allGuests.filter((g) => eventIds.includes(g.eventId));
-    const checkedInGuests = filteredGuests.filter((g) => g.isCheckedIn);
+    const headcount = summarizeHeadcount(filteredGuests);
 
     const eventManagers = allUsers.filter((u) => u.role === "event_manager");
 
@@ -643,19 +1324,16 @@ export class DatabaseStorage implements IStorage {
         eventsCount: allEvents.length,
         activeEventsCount: allEvents.filter((e) => e.isActive).length,
         totalGuests: filteredGuests.length,
-        checkedInGuests: checkedInGuests.length,
-        checkInRate: filteredGuests.length > 0 ? Math.round((checkedInGuests.length / filteredGuests.length) * 100) : 0,
+        expectedAttendees: headcount.expected,
+        checkedInGuests: headcount.arrived,
+        checkInRate: headcount.rate,
       },
       events: allEvents.map((e) => {
         const eGuests = filteredGuests.filter((g) => g.eventId === e.id);
         const eOrgs = allAssignments.filter((a) => a.eventId === e.id);
         const manager = eventManagers.find((m) => m.id === e.eventManagerId);
-        const categoryBreakdown = {
-          vip: eGuests.filter((g) => g.category === "vip").length,
-          regular: eGuests.filter((g) => g.category === "regular").length,
-          media: eGuests.filter((g) => g.category === "media").length,
-          sponsor: eGuests.filter((g) => g.category === "sponsor").length,
-        };
+        const eHeadcount = summarizeHeadcount(eGuests);
+        const categoryBreakdown = countByCategory(categoriesOf(e.id), eGuests);
         return {
           id: e.id,
           name: e.name,
@@ -666,9 +1344,10 @@ export class DatabaseStorage implements IStorage {
           managerName: manager?.name || "غير معروف",
           managerId: e.eventManagerId,
           totalGuests: eGuests.length,
-          checkedIn: eGuests.filter((g) => g.isCheckedIn).length,
-          pending: eGuests.length - eGuests.filter((g) => g.isCheckedIn).length,
-          checkInRate: eGuests.length > 0 ? Math.round((eGuests.filter((g) => g.isCheckedIn).length / eGuests.length) * 100) : 0,
+          expectedAttendees: eHeadcount.expected,
+          checkedIn: eHeadcount.arrived,
+          pending: eHeadcount.pending,
+          checkInRate: eHeadcount.rate,
           organizersCount: eOrgs.length,
           categoryBreakdown,
         };
@@ -700,12 +1379,8 @@ export class DatabaseStorage implements IStorage {
     const manager = await this.getUser(event.eventManagerId);
     const organizers = await this.getEventOrganizers(eventId);
 
-    const categoryBreakdown = {
-      vip: eventGuests.filter((g) => g.category === "vip").length,
-      regular: eventGuests.filter((g) => g.category === "regular").length,
-      media: eventGuests.filter((g) => g.category === "media").length,
-      sponsor: eventGuests.filter((g) => g.category === "sponsor").length,
-    };
+    const categoryBreakdown = countByCategory(await this.getEventCategories(eventId), eventGuests);
+    const headcount = summarizeHeadcount(eventGuests);
 
     return {
       event: {
@@ -718,9 +1393,11 @@ export class DatabaseStorage implements IStorage {
       },
       summary: {
         totalGuests: eventGuests.length,
-        checkedIn: eventGuests.filter((g) => g.isCheckedIn).length,
-        pending: eventGuests.filter((g) => !g.isCheckedIn).length,
+        expectedAttendees: headcount.expected,
+        checkedIn: headcount.arrived,
+        pending: headcount.pending,
         totalCompanions: eventGuests.reduce((sum, g) => sum + (g.companions || 0), 0),
+        companionsCheckedIn: eventGuests.reduce((sum, g) => sum + (g.isCheckedIn ? g.companionsCheckedIn : 0), 0),
         categoryBreakdown,
       },
       guests: eventGuests.map((g) => ({
@@ -729,6 +1406,8 @@ export class DatabaseStorage implements IStorage {
         phone: g.phone,
         category: g.category,
         companions: g.companions,
+        companionsCheckedIn: g.companionsCheckedIn,
+        arrived: arrivedHeadcount(g),
         notes: g.notes,
         isCheckedIn: g.isCheckedIn,
         checkedInAt: g.checkedInAt,
@@ -764,13 +1443,9 @@ export class DatabaseStorage implements IStorage {
     return {
       summary: {
         totalActions: logs.length,
-        actionTypes: {
-          check_in: logs.filter((l) => l.action === "check_in").length,
-          create_event: logs.filter((l) => l.action === "create_event").length,
-          update_event: logs.filter((l) => l.action === "update_event").length,
-          create_guest: logs.filter((l) => l.action === "create_guest").length,
-          upload_guests: logs.filter((l) => l.action === "upload_guests").length,
-        },
+        actionTypes: Object.fromEntries(
+          Object.keys(auditActionLabels).map((action) => [action, logs.filter((l) => l.action === action).length]),
+        ),
       },
       logs: logs.map((l) => {
         const user = allUsers.find((u) => u.id === l.userId);
@@ -892,6 +1567,191 @@ export class DatabaseStorage implements IStorage {
       ));
     return managerEvents.length;
   }
+
+  // Sessions
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(
+        sql`${sessions.sess}->>'userId' = ${userId}`,
+        // "View as" sessions belong to the super_admin, not the impersonated user
+        sql`${sessions.sess}->>'impersonatorId' is null`,
+        gt(sessions.expire, new Date())
+      ))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<void> {
+    await db
+      .delete(sessions)
+      .where(and(
+        sql`${sessions.sess}->>'userId' = ${userId}`,
+        exceptSid ? ne(sessions.sid, exceptSid) : undefined
+      ));
+  }
+
+  // Login history
+  async createLoginHistoryEntry(entry: InsertLoginHistoryEntry): Promise<LoginHistoryEntry> {
+    const [created] = await db.insert(loginHistory).values(entry).returning();
+    return created;
+  }
+
+  async getLoginHistory(userId: string, limit: number): Promise<LoginHistoryEntry[]> {
+    return db
+      .select()
+      .from(loginHistory)
+      .where(eq(loginHistory.userId, userId))
+      .orderBy(desc(loginHistory.createdAt))
+      .limit(limit);
+  }
+
+  // Password reset tokens
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [created] = await db.insert(passwordResetTokens).values(token).returning();
+    return created;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Conditional update so two concurrent submissions cannot both use the same token
+  async markPasswordResetTokenUsed(id: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return token || undefined;
+  }
+
+  async deletePendingPasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .delete(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // API keys
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(apiKey).returning();
+    return created;
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || undefined;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+
+  async getApiKeys(createdById?: string): Promise<ApiKey[]> {
+    if (createdById) {
+      return db
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.createdById, createdById))
+        .orderBy(desc(apiKeys.createdAt));
+    }
+    return db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async touchApiKey(id: string, ip: string | null): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async revokeApiKey(id: string, revokedById: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), revokedById })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return apiKey || undefined;
+  }
+
+  // QR signing keys
+  async getActiveEventSigningKey(eventId: string): Promise<EventSigningKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(eventSigningKeys)
+      .where(and(eq(eventSigningKeys.eventId, eventId), isNull(eventSigningKeys.retiredAt)))
+      .orderBy(desc(eventSigningKeys.createdAt))
+      .limit(1);
+    return key || undefined;
+  }
+
+  async getEventSigningKeyByKid(kid: string): Promise<EventSigningKey | undefined> {
+    const [key] = await db.select().from(eventSigningKeys).where(eq(eventSigningKeys.kid, kid));
+    return key || undefined;
+  }
+
+  async createEventSigningKey(key: InsertEventSigningKey): Promise<EventSigningKey> {
+    const [created] = await db.insert(eventSigningKeys).values(key).returning();
+    return created;
+  }
+
+  // Retires the event's current key and stores the new one in a single transaction
+  async rotateEventSigningKey(eventId: string, key: InsertEventSigningKey): Promise<EventSigningKey> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(eventSigningKeys)
+        .set({ retiredAt: new Date() })
+        .where(and(eq(eventSigningKeys.eventId, eventId), isNull(eventSigningKeys.retiredAt)));
+      const [created] = await tx.insert(eventSigningKeys).values(key).returning();
+      return created;
+    });
+  }
+
+  // Offline check-ins
+  async getOfflineCheckInByClientId(clientId: string): Promise<OfflineCheckIn | undefined> {
+    const [entry] = await db.select().from(offlineCheckIns).where(eq(offlineCheckIns.clientId, clientId));
+    return entry || undefined;
+  }
+
+  async createOfflineCheckIn(entry: InsertOfflineCheckIn): Promise<OfflineCheckIn> {
+    const [created] = await db.insert(offlineCheckIns).values(entry).returning();
+    return created;
+  }
+
+  // Check-in idempotency. Returns undefined when the key was already used by this user.
+  async reserveCheckInRequest(userId: string, idempotencyKey: string, requestHash: string): Promise<CheckInRequest | undefined> {
+    const [created] = await db
+      .insert(checkInRequests)
+      .values({ userId, idempotencyKey, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async getCheckInRequest(userId: string, idempotencyKey: string): Promise<CheckInRequest | undefined> {
+    const [entry] = await db
+      .select()
+      .from(checkInRequests)
+      .where(and(eq(checkInRequests.userId, userId), eq(checkInRequests.idempotencyKey, idempotencyKey)));
+    return entry || undefined;
+  }
+
+  async completeCheckInRequest(id: string, guestId: string | null, responseStatus: number, response: Record<string, unknown>): Promise<void> {
+    await db.update(checkInRequests).set({ guestId, responseStatus, response }).where(eq(checkInRequests.id, id));
+  }
+
+  async deleteCheckInRequest(id: string): Promise<void> {
+    await db.delete(checkInRequests).where(eq(checkInRequests.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
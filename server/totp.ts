@@ -0,0 +1,133 @@
+import { createHmac, createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s step),
+// compatible with Google Authenticator, Microsoft Authenticator, Authy, etc.
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const TOTP_WINDOW = 1;
+const SECRET_LENGTH = 20;
+
+const ISSUER = "نظام المناسبات";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const RECOVERY_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+}
+
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_LENGTH));
+}
+
+export function buildOtpAuthUrl(secret: string, username: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Verify a code against the secret, allowing one step of clock drift either way.
+// Returns the matched time step (to reject replays), or null if the code is invalid.
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentStep();
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = now + offset;
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(generateCode(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Generates a fresh set of single-use recovery codes formatted as XXXXX-XXXXX
+export function generateRecoveryCodes(): string[] {
+  const codes: string[] = [];
+  for (let n = 0; n < RECOVERY_CODE_COUNT; n++) {
+    const bytes = randomBytes(10);
+    let code = "";
+    for (let i = 0; i < 10; i++) {
+      code += RECOVERY_CODE_CHARS[bytes[i] % RECOVERY_CODE_CHARS.length];
+    }
+    codes.push(`${code.slice(0, 5)}-${code.slice(5)}`);
+  }
+  return codes;
+}
+
+// Consumes a recovery code from the stored (JSON-encoded, hashed) list.
+// Returns the remaining list if the code matched, or null otherwise.
+export function consumeRecoveryCode(storedCodes: string | null, code: string): string[] | null {
+  if (!storedCodes) return null;
+  const hashes: string[] = JSON.parse(storedCodes);
+  const hashed = hashRecoveryCode(code);
+  const index = hashes.indexOf(hashed);
+  if (index === -1) return null;
+  return [...hashes.slice(0, index), ...hashes.slice(index + 1)];
+}
@@ -0,0 +1,79 @@
+// Arabic labels for every audit log action. Anything written with createAuditLog needs an entry
+// here so the audit export and the reports page never show a raw action key.
+export const auditActionLabels: Record<string, string> = {
+  // Check-in
+  check_in: "تسجيل حضور",
+  check_in_companions: "تسجيل حضور مرافقين",
+  update_companions: "تعديل عدد المرافقين",
+  re_entry: "إعادة دخول",
+  check_out: "تسجيل خروج",
+  check_in_reverted: "تراجع عن تسجيل حضور",
+  check_in_conflict: "تعارض في مزامنة الحضور",
+  check_in_denied_zone: "رفض دخول منطقة",
+  session_check_in: "دخول جلسة",
+
+  // Events
+  create_event: "إنشاء مناسبة",
+  update_event: "تحديث مناسبة",
+  event_status: "تغيير حالة المناسبة",
+  event_status_auto: "تغيير تلقائي لحالة المناسبة",
+  rotate_qr_key: "تجديد مفتاح توقيع الدعوات",
+  assign_organizer: "تعيين منظم",
+  remove_organizer: "إزالة منظم",
+  create_session: "إضافة جلسة",
+  update_session: "تعديل جلسة",
+  delete_session: "حذف جلسة",
+
+  // Guests
+  upload_guests: "رفع ضيوف",
+  add_guest: "إضافة ضيف",
+  create_guest: "إضافة ضيف",
+  update_guest: "تعديل ضيف",
+  delete_guest: "حذف ضيف",
+  merge_guests: "دمج ضيفين",
+
+  // Gates, categories and guest fields
+  create_gate: "إضافة بوابة",
+  update_gate: "تعديل بوابة",
+  delete_gate: "حذف بوابة",
+  assign_gate: "تعيين بوابة لمنظم",
+  update_gate_access: "تعديل فئات دخول البوابة",
+  create_category: "إضافة فئة",
+  update_category: "تعديل فئة",
+  delete_category: "حذف فئة",
+  create_guest_field: "إضافة حقل ضيوف",
+  update_guest_field: "تعديل حقل ضيوف",
+  delete_guest_field: "حذف حقل ضيوف",
+
+  // Accounts
+  login_failed: "محاولة دخول فاشلة",
+  account_locked: "قفل الحساب",
+  unlock_account: "فك قفل الحساب",
+  change_password: "تغيير كلمة المرور",
+  update_profile: "تحديث الملف الشخصي",
+  issue_password_reset: "إصدار رابط استعادة كلمة المرور",
+  password_reset_used: "استعادة كلمة المرور",
+  two_factor_enabled: "تفعيل التحقق بخطوتين",
+  two_factor_disabled: "إيقاف التحقق بخطوتين",
+  two_factor_recovery_used: "استخدام رمز استرداد",
+  two_factor_recovery_regenerated: "إعادة إنشاء رموز الاسترداد",
+  revoke_session: "تسجيل خروج من جهاز",
+  revoke_sessions: "تسجيل خروج من جميع الأجهزة",
+  impersonation_start: "بدء الدخول بصفة مستخدم",
+  impersonation_end: "إنهاء الدخول بصفة مستخدم",
+  impersonation_expired: "انتهاء الدخول بصفة مستخدم",
+  activate_user: "تفعيل مستخدم",
+  deactivate_user: "تعطيل مستخدم",
+  delete_user: "حذف مستخدم",
+
+  // Administration
+  update_permissions: "تعديل الصلاحيات",
+  update_two_factor_policy: "تعديل سياسة التحقق بخطوتين",
+  update_tier_quotas: "تعديل حصص الباقات",
+  create_api_key: "إنشاء مفتاح API",
+  revoke_api_key: "إلغاء مفتاح API",
+};
+
+export function auditActionLabel(action: string): string {
+  return auditActionLabels[action] ?? action;
+}
@@ -0,0 +1,100 @@
+import type { CategoryCount, EventCategory, InsertEventCategory } from "./schema";
+
+// Guest categories are defined per event (event_categories). Every event starts with these four,
+// keyed as guests were stored before categories became configurable.
+export const defaultEventCategories: Omit<InsertEventCategory, "eventId">[] = [
+  { key: "regular", label: "عادي", color: "#3B82F6", sortOrder: 0 },
+  { key: "vip", label: "VIP", color: "#EAB308", sortOrder: 1 },
+  { key: "media", label: "إعلام", color: "#A855F7", sortOrder: 2 },
+  { key: "sponsor", label: "راعي", color: "#22C55E", sortOrder: 3 },
+];
+
+// Colors offered when adding a category
+export const categoryColorPresets = [
+  "#3B82F6",
+  "#EAB308",
+  "#A855F7",
+  "#22C55E",
+  "#EF4444",
+  "#F97316",
+  "#EC4899",
+  "#14B8A6",
+  "#64748B",
+];
+
+// Import spellings of the default categories, used while the event still has them
+const legacyCategoryAliases: Record<string, string[]> = {
+  vip: ["كبار الشخصيات", "كبار الزوار", "في آي بي"],
+  regular: ["عام", "ضيف"],
+  media: ["اعلام", "إعلامي", "اعلامي", "صحافة"],
+  sponsor: ["الراعي", "رعاة"],
+};
+
+export type CategoryDisplay = Pick<EventCategory, "key" | "label" | "color">;
+
+// The event's categories in display order
+export function sortCategories<T extends Pick<EventCategory, "sortOrder" | "createdAt">>(categories: T[]): T[] {
+  return [...categories].sort(
+    (a, b) => a.sortOrder - b.sortOrder || (a.createdAt?.valueOf() ?? 0) - (b.createdAt?.valueOf() ?? 0)
+  );
+}
+
+// New guests without a category go to the first one; an event with no categories has no default
+export function defaultCategoryKey(categories: Pick<EventCategory, "key">[]): string | null {
+  return categories[0]?.key ?? null;
+}
+
+export function findCategory(categories: CategoryDisplay[], key: string | null | undefined): CategoryDisplay | null {
+  if (!key) return null;
+  return categories.find((c) => c.key === key) ?? null;
+}
+
+// A guest whose key is no longer defined still shows the key rather than nothing
+export function categoryLabel(categories: CategoryDisplay[], key: string | null | undefined): string {
+  return findCategory(categories, key)?.label ?? key ?? "";
+}
+
+function normalizeCategoryName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// The category a typed or imported value refers to: its key, its label or, for the default
+// categories, one of their usual spellings
+export function matchCategory<T extends CategoryDisplay>(categories: T[], value: string): T | undefined {
+  const wanted = normalizeCategoryName(value);
+  return categories.find(
+    (c) =>
+      normalizeCategoryName(c.key) === wanted ||
+      normalizeCategoryName(c.label) === wanted ||
+      (legacyCategoryAliases[c.key] ?? []).includes(wanted)
+  );
+}
+
+// Guests per category in the event's order. Guests whose category was never defined (data
+// from before the migration) are counted under their key at the end.
+export function countByCategory(
+  categories: CategoryDisplay[],
+  guests: { category: string | null }[]
+): CategoryCount[] {
+  const counts = new Map<string, number>();
+  for (const guest of guests) {
+    const key = guest.category ?? "";
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const breakdown: CategoryCount[] = categories.map((c) => ({
+    key: c.key,
+    label: c.label,
+    color: c.color,
+    count: counts.get(c.key) ?? 0,
+  }));
+  counts.forEach((count, key) => {
+    if (!categories.some((c) => c.key === key)) {
+      breakdown.push({ key, label: key || "بدون فئة", color: "#64748B", count });
+    }
+  });
+  return breakdown;
+}
+
+export function formatCategoryBreakdown(breakdown: CategoryCount[]): string {
+  return breakdown.map((c) => `${c.label}: ${c.count}`).join("، ");
+}
@@ -0,0 +1,90 @@
+import { toWesternDigits } from "./phone";
+import type { EventGuestField, GuestCustomFieldValue, GuestCustomFieldValues, GuestFieldType } from "./schema";
+
+export const guestFieldTypeLabels: Record<GuestFieldType, string> = {
+  text: "نص",
+  number: "رقم",
+  select: "قائمة اختيار",
+  boolean: "نعم / لا",
+};
+
+const MAX_TEXT_LENGTH = 500;
+
+// Spreadsheet and form spellings of a yes/no answer, compared in lower case
+const trueValues = ["true", "yes", "y", "1", "نعم", "اي", "أي", "ايوه", "✓", "x"];
+const falseValues = ["false", "no", "n", "0", "لا"];
+
+export type ParsedCustomFieldValue = { value: GuestCustomFieldValue | undefined } | { error: string };
+
+// The stored value of one field from form input or a spreadsheet cell: undefined for an empty
+// value, otherwise the typed value or the validation message. Select values are matched to
+// their option ignoring case and surrounding spaces.
+export function parseCustomFieldValue(field: EventGuestField, raw: unknown): ParsedCustomFieldValue {
+  if (raw === undefined || raw === null || (typeof raw === "string" && raw.trim() === "")) {
+    return { value: undefined };
+  }
+
+  switch (field.type) {
+    case "text": {
+      const value = String(raw).trim();
+      return value.length > MAX_TEXT_LENGTH ? { error: `${field.label}: النص طويل جداً` } : { value };
+    }
+    case "number": {
+      const value =
+        typeof raw === "number"
+          ? raw
+          : Number(toWesternDigits(String(raw).trim()).replace(/[,٬]/g, "").replace("٫", "."));
+      return Number.isFinite(value) ? { value } : { error: `${field.label}: يجب أن يكون رقماً` };
+    }
+    case "select": {
+      const wanted = String(raw).trim().toLowerCase();
+      const option = field.options.find((o) => o.trim().toLowerCase() === wanted);
+      return option !== undefined ? { value: option } : { error: `${field.label}: "${String(raw).trim()}" ليس من الخيارات` };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const normalized = String(raw).trim().toLowerCase();
+      if (trueValues.includes(normalized)) return { value: true };
+      if (falseValues.includes(normalized)) return { value: false };
+      return { error: `${field.label}: يجب أن تكون القيمة نعم أو لا` };
+    }
+  }
+}
+
+// All of a guest's custom values from a form body, or the first validation message. Values of
+// fields the event no longer has are dropped.
+export function parseCustomFields(
+  fields: EventGuestField[],
+  input: Record<string, unknown> | null | undefined
+): { values: GuestCustomFieldValues } | { error: string } {
+  const values: GuestCustomFieldValues = {};
+  for (const field of fields) {
+    const parsed = parseCustomFieldValue(field, input?.[field.id]);
+    if ("error" in parsed) return parsed;
+    if (parsed.value === undefined) {
+      if (field.required) return { error: `${field.label} مطلوب` };
+      continue;
+    }
+    values[field.id] = parsed.value;
+  }
+  return { values };
+}
+
+export function formatCustomFieldValue(field: EventGuestField, value: GuestCustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  if (field.type === "boolean" || typeof value === "boolean") return value ? "نعم" : "لا";
+  return String(value);
+}
+
+// Export columns for the custom fields, headed by each field's label
+export function customFieldCells(fields: EventGuestField[], values: GuestCustomFieldValues): Record<string, string> {
+  return Object.fromEntries(fields.map((field) => [field.label, formatCustomFieldValue(field, values[field.id])]));
+}
+
+export function customFieldsMatchSearch(fields: EventGuestField[], values: GuestCustomFieldValues, query: string): boolean {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return false;
+  return fields.some(
+    (field) => field.searchable && formatCustomFieldValue(field, values[field.id]).toLowerCase().includes(wanted)
+  );
+}
@@ -0,0 +1,125 @@
+import type { Event, EventSession } from "./schema";
+
+export type EventStatus = Event["status"];
+
+export const eventStatusLabels: Record<EventStatus, string> = {
+  draft: "مسودة",
+  published: "منشورة",
+  live: "جارية",
+  closed: "مغلقة",
+  archived: "مؤرشفة",
+};
+
+// Event dates are stored as midnight UTC of the chosen day and times as "HH:MM" at the venue.
+// Venues are in Saudi Arabia (UTC+3, no daylight saving).
+const VENUE_UTC_OFFSET_MINUTES = 180;
+const VENUE_TIME_ZONE = "Asia/Riyadh";
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 24 * 60;
+
+// A closed event is archived this long after its check-in window closed
+export const ARCHIVE_AFTER_DAYS = 30;
+
+type Scheduled = Pick<Event | EventSession, "date" | "startTime" | "endTime">;
+type WindowedEvent = Scheduled & Pick<Event, "status" | "checkInOpensMinutesBefore" | "checkInClosesMinutesAfter">;
+
+export interface CheckInWindow {
+  opensAt: Date;
+  closesAt: Date;
+}
+
+function minutesOfDay(time: string | null | undefined): number | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function venueTime(date: Date | string, minutes: number): Date {
+  const day = new Date(date);
+  const midnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  return new Date(midnight + (minutes - VENUE_UTC_OFFSET_MINUTES) * MINUTE_MS);
+}
+
+// Without a start time the item spans the whole day; an end time earlier than the start
+// (a wedding running past midnight) falls on the next day
+export function scheduleSpan(item: Scheduled): { start: Date; end: Date } {
+  const startMinutes = minutesOfDay(item.startTime);
+  let endMinutes = minutesOfDay(item.endTime) ?? DAY_MINUTES;
+  if (startMinutes !== null && endMinutes <= startMinutes) endMinutes += DAY_MINUTES;
+  return { start: venueTime(item.date, startMinutes ?? 0), end: venueTime(item.date, endMinutes) };
+}
+
+// Sessions scheduled after the event's own end keep check-in open until the last one ends
+export function checkInWindow(event: WindowedEvent, sessions: Scheduled[] = []): CheckInWindow {
+  const { start, end } = scheduleSpan(event);
+  const lastEnd = sessions.reduce((latest, session) => {
+    const sessionEnd = scheduleSpan(session).end;
+    return sessionEnd > latest ? sessionEnd : latest;
+  }, end);
+  return {
+    opensAt: new Date(start.getTime() - event.checkInOpensMinutesBefore * MINUTE_MS),
+    closesAt: new Date(lastEnd.getTime() + event.checkInClosesMinutesAfter * MINUTE_MS),
+  };
+}
+
+export function formatVenueTime(at: Date): string {
+  return at.toLocaleString("ar-SA", { timeZone: VENUE_TIME_ZONE, dateStyle: "medium", timeStyle: "short" });
+}
+
+// Arabic reason a scan is refused, or null while check-in is open. Only published and live
+// events take check-ins, and only inside their window.
+export function checkInRefusal(event: WindowedEvent, now: Date = new Date(), sessions: Scheduled[] = []): string | null {
+  switch (event.status) {
+    case "draft":
+      return "المناسبة لم تُنشر بعد، لا يمكن تسجيل الحضور";
+    case "closed":
+      return "تم إغلاق المناسبة، لا يمكن تسجيل الحضور";
+    case "archived":
+      return "المناسبة مؤرشفة، لا يمكن تسجيل الحضور";
+  }
+
+  const { opensAt, closesAt } = checkInWindow(event, sessions);
+  if (now < opensAt) return `لم يبدأ تسجيل الحضور بعد، يفتح ${formatVenueTime(opensAt)}`;
+  if (now >= closesAt) return "انتهت فترة تسجيل الحضور لهذه المناسبة";
+  return null;
+}
+
+// The status the clock moves the event to: published goes live when check-in opens, published
+// and live close when it ends, and closed events are archived ARCHIVE_AFTER_DAYS later.
+// Drafts and archived events only change by hand.
+export function scheduledStatus(event: WindowedEvent, now: Date = new Date(), sessions: Scheduled[] = []): EventStatus {
+  if (event.status === "draft" || event.status === "archived") return event.status;
+
+  const { opensAt, closesAt } = checkInWindow(event, sessions);
+  if (now.getTime() >= closesAt.getTime() + ARCHIVE_AFTER_DAYS * DAY_MINUTES * MINUTE_MS) return "archived";
+  if (now >= closesAt) return "closed";
+  if (event.status === "published" && now >= opensAt) return "live";
+  return event.status;
+}
+
+// Why a manager cannot move the event to `status` by hand, or null. Opening an event the
+// schedule would close again straight away needs a longer window first.
+export function statusChangeRefusal(
+  event: WindowedEvent,
+  status: EventStatus,
+  now: Date = new Date(),
+  sessions: Scheduled[] = []
+): string | null {
+  if (status !== "published" && status !== "live") return null;
+
+  const { opensAt, closesAt } = checkInWindow(event, sessions);
+  if (now >= closesAt) return "انتهت فترة تسجيل الحضور، مدّد وقت الإغلاق أولاً لإعادة فتح المناسبة";
+  if (status === "live" && now < opensAt) {
+    return `لا يمكن بدء المناسبة قبل فتح تسجيل الحضور (${formatVenueTime(opensAt)})`;
+  }
+  return null;
+}
+
+// Closed and archived events are kept as they were at the door
+export function readOnlyEventMessage(event: Pick<Event, "status">): string | null {
+  if (event.status === "closed") return "المناسبة مغلقة، لا يمكن تعديل الضيوف وإعداداتهم";
+  if (event.status === "archived") return "المناسبة مؤرشفة، لا يمكن تعديل الضيوف وإعداداتهم";
+  return null;
+}
@@ -0,0 +1,21 @@
+import type { EventCategory, EventGate, Guest } from "./schema";
+import { defaultCategoryKey } from "./categories";
+
+// Zone access at a gate. A per-guest override (allowed or refused) wins over the gate's
+// category rule, and a gate without categories admits everyone. A guest without a category
+// counts as the event's default category.
+export function canEnterGate(
+  gate: Pick<EventGate, "allowedCategories">,
+  guest: Pick<Guest, "category">,
+  categories: Pick<EventCategory, "key">[],
+  override?: boolean | null
+): boolean {
+  if (override !== undefined && override !== null) return override;
+  if (gate.allowedCategories.length === 0) return true;
+  const category = guest.category || defaultCategoryKey(categories);
+  return !!category && gate.allowedCategories.includes(category);
+}
+
+export function gateRefusalMessage(gate: Pick<EventGate, "name">): string {
+  return `غير مسموح لهذا الضيف بدخول هذه المنطقة (${gate.name})`;
+}
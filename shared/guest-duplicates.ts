@@ -0,0 +1,181 @@
+import type { Guest } from "./schema";
+import { parsePhone, toWesternDigits } from "./phone";
+
+// Duplicate guest detection, shared by the import preview, single add and the merge tool.
+// Two guests are the same person when their phone numbers match, or when their names match
+// closely and neither phone contradicts it.
+
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+export type DuplicateReason = "phone" | "name";
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  phone: "نفس رقم الجوال",
+  name: "اسم مشابه",
+};
+
+export type DuplicateCandidate = Pick<Guest, "name" | "phone">;
+
+export interface DuplicateMatch<T extends DuplicateCandidate> {
+  guest: T;
+  reason: DuplicateReason;
+  // 1 for a phone match, the name similarity otherwise
+  score: number;
+}
+
+// The E.164 form (see shared/phone.ts), so the same number typed two ways gives the same key.
+// Numbers that do not parse fall back to their digits.
+export function phoneKey(phone: string | null | undefined): string | null {
+  const parsed = parsePhone(phone);
+  if ("phone" in parsed) return parsed.phone;
+  const digits = toWesternDigits(phone ?? "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits : null;
+}
+
+// Spelling differences that do not make a different name: diacritics and tatweel, the forms
+// of alef and hamza, ta marbuta / ha, alef maksura / ya, and spacing around "عبد"
+export function normalizeArabicName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[\u0610-\u061A\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ؤ/g, "و")
+    .replace(/[ئى]/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/[^\u0621-\u064A\u0660-\u0669a-z0-9\s]/g, " ")
+    .replace(/(^|\s)عبد\s+/g, "$1عبد")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Levenshtein distance, giving up (Infinity) as soon as it must exceed `limit`
+function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return Infinity;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return Infinity;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity of two normalized names between 0 and 1. The same words in another order
+// count as the same name. Below `threshold` the exact value is not worked out and 0 is returned.
+export function nameSimilarity(a: string, b: string, threshold = 0): number {
+  if (!a || !b) return 0;
+  if (a === b || sortedWords(a) === sortedWords(b)) return 1;
+  const longest = Math.max(a.length, b.length);
+  const distance = editDistance(a, b, Math.floor((1 - threshold) * longest));
+  return distance === Infinity ? 0 : 1 - distance / longest;
+}
+
+function sortedWords(name: string): string {
+  return name.split(" ").sort().join(" ");
+}
+
+interface IndexedGuest<T> {
+  guest: T;
+  name: string;
+  phone: string | null;
+}
+
+// Lookup over a guest list. Names are only compared within the same block (the first letters
+// of the first and last words), which keeps matching a large file against a large event fast;
+// the same words in another order are found through their sorted form.
+export class DuplicateIndex<T extends DuplicateCandidate> {
+  private byPhone = new Map<string, IndexedGuest<T>>();
+  private byWords = new Map<string, IndexedGuest<T>[]>();
+  private byBlock = new Map<string, IndexedGuest<T>[]>();
+
+  constructor(guests: T[] = []) {
+    guests.forEach((guest) => this.add(guest));
+  }
+
+  add(guest: T): void {
+    const entry = { guest, name: normalizeArabicName(guest.name), phone: phoneKey(guest.phone) };
+    if (entry.phone && !this.byPhone.has(entry.phone)) {
+      this.byPhone.set(entry.phone, entry);
+    }
+    if (isMatchableName(entry.name)) {
+      append(this.byWords, sortedWords(entry.name), entry);
+      append(this.byBlock, nameBlock(entry.name), entry);
+    }
+  }
+
+  // The closest guest that looks like the same person, or null. `except` leaves a guest out
+  // (the candidate itself when scanning an event against its own list).
+  find(candidate: DuplicateCandidate, except?: T): DuplicateMatch<T> | null {
+    const phone = phoneKey(candidate.phone);
+    if (phone) {
+      const samePhone = this.byPhone.get(phone);
+      if (samePhone && samePhone.guest !== except) {
+        return { guest: samePhone.guest, reason: "phone", score: 1 };
+      }
+    }
+
+    const name = normalizeArabicName(candidate.name);
+    if (!isMatchableName(name)) return null;
+
+    const entries = [...(this.byWords.get(sortedWords(name)) ?? []), ...(this.byBlock.get(nameBlock(name)) ?? [])];
+    let best: DuplicateMatch<T> | null = null;
+    for (const entry of entries) {
+      if (entry.guest === except) continue;
+      // Two different phone numbers mean two people who happen to share a name
+      if (phone && entry.phone && phone !== entry.phone) continue;
+      const score = nameSimilarity(name, entry.name, NAME_MATCH_THRESHOLD);
+      if (score >= NAME_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { guest: entry.guest, reason: "name", score };
+      }
+    }
+    return best;
+  }
+}
+
+// A single word ("محمد") matches far too many guests to be flagged on its own
+function isMatchableName(name: string): boolean {
+  return name.includes(" ");
+}
+
+// The family name's "ال" is left out, or nearly every name would share its block
+function nameBlock(name: string): string {
+  const words = name.split(" ");
+  return `${words[0].slice(0, 2)} ${words[words.length - 1].replace(/^ال/, "").slice(0, 2)}`;
+}
+
+function append<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+export interface DuplicatePair<T> {
+  guest: T;
+  duplicate: T;
+  reason: DuplicateReason;
+  score: number;
+}
+
+// Pairs of guests in one list that look like the same person, each pair reported once with
+// the earlier guest first
+export function findDuplicatePairs<T extends DuplicateCandidate>(guests: T[]): DuplicatePair<T>[] {
+  const index = new DuplicateIndex<T>();
+  const pairs: DuplicatePair<T>[] = [];
+  for (const guest of guests) {
+    const match = index.find(guest);
+    if (match) {
+      pairs.push({ guest: match.guest, duplicate: guest, reason: match.reason, score: match.score });
+    }
+    index.add(guest);
+  }
+  return pairs;
+}
@@ -0,0 +1,48 @@
+import type { EventCategory, EventGuestField, GuestImportField, GuestImportMapping } from "./schema";
+import { defaultCategoryKey, matchCategory } from "./categories";
+
+export const guestImportFieldLabels: Record<GuestImportField, string> = {
+  name: "الاسم",
+  phone: "الجوال",
+  category: "الفئة",
+  companions: "عدد المرافقين",
+  notes: "ملاحظات",
+};
+
+// Header names recognised when a file is uploaded, compared after normalizeHeader
+const headerAliases: Record<GuestImportField, string[]> = {
+  name: ["الاسم", "اسم", "اسم الضيف", "الاسم الكامل", "name", "full name", "guest name", "guest"],
+  phone: ["الجوال", "رقم الجوال", "الهاتف", "رقم الهاتف", "جوال", "phone", "mobile", "phone number", "mobile number"],
+  category: ["الفئة", "فئة", "التصنيف", "category", "type", "class"],
+  companions: ["عدد المرافقين", "المرافقين", "المرافقون", "مرافقين", "companions", "plus ones"],
+  notes: ["ملاحظات", "ملاحظة", "notes", "note", "comments"],
+};
+
+export function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// The column whose header matches each field, or null when none does. Custom fields match on
+// their label.
+export function detectImportMapping(columns: string[], customFields: EventGuestField[] = []): GuestImportMapping {
+  const normalized = columns.map(normalizeHeader);
+  const find = (aliases: string[]) => {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    return index === -1 ? null : columns[index];
+  };
+  return {
+    name: find(headerAliases.name),
+    phone: find(headerAliases.phone),
+    category: find(headerAliases.category),
+    companions: find(headerAliases.companions),
+    notes: find(headerAliases.notes),
+    custom: Object.fromEntries(customFields.map((field) => [field.id, find([normalizeHeader(field.label)])])),
+  };
+}
+
+// The key of the event category a cell names (see matchCategory). Empty cells mean the
+// default category; unknown values give undefined.
+export function parseImportCategory(value: string, categories: EventCategory[]): string | null | undefined {
+  if (!normalizeHeader(value)) return defaultCategoryKey(categories);
+  return matchCategory(categories, value)?.key;
+}
@@ -0,0 +1,52 @@
+import type { Guest, Event, EventOccupancy } from "./schema";
+
+// An invitation covers the guest plus their companions, and companions may arrive later than
+// the guest (or not at all). Attendance figures count people, not invitations.
+
+type HeadcountGuest = Pick<Guest, "isCheckedIn" | "companions" | "companionsCheckedIn">;
+
+export function expectedHeadcount(guest: HeadcountGuest): number {
+  return 1 + (guest.companions || 0);
+}
+
+export function arrivedHeadcount(guest: HeadcountGuest): number {
+  return guest.isCheckedIn ? 1 + (guest.companionsCheckedIn || 0) : 0;
+}
+
+export function remainingCompanions(guest: HeadcountGuest): number {
+  return guest.isCheckedIn ? Math.max((guest.companions || 0) - (guest.companionsCheckedIn || 0), 0) : 0;
+}
+
+export interface HeadcountSummary {
+  expected: number;
+  arrived: number;
+  pending: number;
+  rate: number;
+}
+
+export function summarizeHeadcount(guests: HeadcountGuest[]): HeadcountSummary {
+  const expected = guests.reduce((sum, g) => sum + expectedHeadcount(g), 0);
+  const arrived = guests.reduce((sum, g) => sum + arrivedHeadcount(g), 0);
+  return {
+    expected,
+    arrived,
+    pending: expected - arrived,
+    rate: expected > 0 ? Math.round((arrived / expected) * 100) : 0,
+  };
+}
+
+// People currently in the venue: parties marked inside, with the companions who came in
+export function occupancyOf(
+  event: Pick<Event, "trackExits" | "occupancyLimit" | "occupancyAlertPercent">,
+  guests: Array<HeadcountGuest & Pick<Guest, "isInside">>
+): EventOccupancy {
+  const inside = guests.reduce((sum, g) => sum + (g.isInside ? arrivedHeadcount(g) : 0), 0);
+  const limit = event.occupancyLimit ?? null;
+  const alertPercent = event.occupancyAlertPercent ?? 90;
+  let level: EventOccupancy["level"] = "ok";
+  if (limit) {
+    if (inside >= limit) level = "full";
+    else if (inside * 100 >= limit * alertPercent) level = "warning";
+  }
+  return { trackExits: !!event.trackExits, inside, limit, alertPercent, level };
+}
@@ -0,0 +1,90 @@
+// Central permission registry shared by the server (enforcement) and the client (hiding UI).
+// super_admin always holds every permission; the other roles can be adjusted from /permissions.
+
+export const userRoles = ["super_admin", "admin", "event_manager", "organizer"] as const;
+export type UserRole = typeof userRoles[number];
+
+// Roles whose permissions can be edited in the matrix
+export const editableRoles = ["admin", "event_manager", "organizer"] as const;
+
+export const roleLabels: Record<UserRole, string> = {
+  super_admin: "مالك النظام",
+  admin: "مدير النظام",
+  event_manager: "مدير المناسبة",
+  organizer: "المنظم",
+};
+
+const managers: UserRole[] = ["super_admin", "admin", "event_manager"];
+
+export const permissionDefinitions = [
+  { key: "events.create", label: "إنشاء مناسبة", group: "المناسبات", defaultRoles: managers },
+  { key: "events.edit", label: "تعديل المناسبة", group: "المناسبات", defaultRoles: managers },
+  { key: "events.delete", label: "حذف المناسبة", group: "المناسبات", defaultRoles: managers },
+  { key: "organizers.assign", label: "تعيين المنظمين للمناسبة", group: "المناسبات", defaultRoles: managers },
+  { key: "guests.view", label: "عرض قائمة الضيوف", group: "الضيوف", defaultRoles: [...managers, "organizer"] },
+  { key: "guests.add", label: "إضافة ضيف", group: "الضيوف", defaultRoles: managers },
+  { key: "guests.edit", label: "تعديل بيانات الضيف", group: "الضيوف", defaultRoles: managers },
+  { key: "guests.delete", label: "حذف ضيف", group: "الضيوف", defaultRoles: managers },
+  { key: "guests.import", label: "استيراد الضيوف من Excel", group: "الضيوف", defaultRoles: managers },
+  { key: "guests.export", label: "تصدير قائمة الضيوف", group: "الضيوف", defaultRoles: managers },
+  { key: "checkin.perform", label: "تسجيل دخول الضيوف", group: "تسجيل الدخول", defaultRoles: [...managers, "organizer"] },
+  { key: "checkin.undo", label: "التراجع عن تسجيل الدخول", group: "تسجيل الدخول", defaultRoles: [...managers, "organizer"] },
+  { key: "reports.export", label: "تنزيل تقارير المناسبة", group: "التقارير", defaultRoles: managers },
+  { key: "audit.view", label: "عرض سجل العمليات", group: "التقارير", defaultRoles: managers },
+  { key: "reports.system", label: "التقارير والإحصائيات الشاملة", group: "التقارير", defaultRoles: ["super_admin"] },
+] as const satisfies ReadonlyArray<{ key: string; label: string; group: string; defaultRoles: ReadonlyArray<UserRole> }>;
+
+export type PermissionKey = typeof permissionDefinitions[number]["key"];
+
+// Held by super_admin alone and not editable in the matrix: the system reports read any
+// event or manager by id, without scoping to the user's own events
+export const superAdminOnlyPermissions: PermissionKey[] = ["reports.system"];
+
+export function isSuperAdminOnlyPermission(key: PermissionKey): boolean {
+  return superAdminOnlyPermissions.includes(key);
+}
+
+// Organizers may only undo their own check-ins, and only this soon after admitting the guest
+export const ORGANIZER_UNDO_WINDOW_MINUTES = 10;
+
+// Stored form: permission key -> roles granted
+export type PermissionMatrix = Record<PermissionKey, UserRole[]>;
+
+export const permissionKeys = permissionDefinitions.map((p) => p.key) as PermissionKey[];
+
+export function isPermissionKey(value: string): value is PermissionKey {
+  return (permissionKeys as string[]).includes(value);
+}
+
+// Merge a stored (possibly partial or outdated) matrix with the registry defaults
+export function resolvePermissionMatrix(stored?: Record<string, string[]> | null): PermissionMatrix {
+  const matrix = {} as PermissionMatrix;
+  for (const definition of permissionDefinitions) {
+    if (isSuperAdminOnlyPermission(definition.key)) {
+      matrix[definition.key] = ["super_admin"];
+      continue;
+    }
+    const storedRoles = stored?.[definition.key];
+    const roles = storedRoles
+      ? storedRoles.filter((role): role is UserRole => (userRoles as readonly string[]).includes(role))
+      : [...definition.defaultRoles];
+    matrix[definition.key] = roles.includes("super_admin") ? roles : ["super_admin", ...roles];
+  }
+  return matrix;
+}
+
+// Permissions that can be granted to an API key. Keys are always limited to specific events,
+// so system-wide and event-structure permissions are left out.
+export const apiKeyPermissionKeys: PermissionKey[] = [
+  "guests.view",
+  "guests.add",
+  "guests.edit",
+  "guests.import",
+  "guests.export",
+  "checkin.perform",
+  "reports.export",
+];
+
+export function getRolePermissions(matrix: PermissionMatrix, role: string): PermissionKey[] {
+  return permissionKeys.filter((key) => (matrix[key] as string[]).includes(role));
+}
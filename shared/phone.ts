@@ -0,0 +1,79 @@
+// Phone numbers are stored in E.164 (+9665XXXXXXXX). Input comes from forms and spreadsheets
+// in every shape people type: 05XXXXXXXX, 5XXXXXXXX, 9665..., +966 5X XXX XXXX, 00966...,
+// Arabic-Indic digits, and stray separators or direction marks copied from WhatsApp.
+
+export const INVALID_PHONE_MESSAGE = "رقم الجوال غير صالح، مثال: 05XXXXXXXX أو +9665XXXXXXXX";
+
+// National numbers accepted for each GCC country code (mobile and landline)
+const gccNumberPatterns: Record<string, RegExp> = {
+  "966": /^(5\d{8}|1\d{8})$/, // Saudi Arabia
+  "971": /^(5\d{8}|[234679]\d{7})$/, // United Arab Emirates
+  "965": /^[124569]\d{7}$/, // Kuwait
+  "974": /^[3-7]\d{7}$/, // Qatar
+  "973": /^[136]\d{7}$/, // Bahrain
+  "968": /^[279]\d{7}$/, // Oman
+};
+
+const SAUDI_CODE = "966";
+
+export function toWesternDigits(value: string): string {
+  return value
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+}
+
+// E.164 digits (without the +) for a full international number, or null when a GCC number has
+// the wrong length or prefix for its country. Numbers outside the GCC only get the E.164 length check.
+function internationalDigits(digits: string): string | null {
+  const code = Object.keys(gccNumberPatterns).find((c) => digits.startsWith(c));
+  if (code) return gccNumberPatterns[code].test(digits.slice(code.length)) ? digits : null;
+  return /^[1-9]\d{7,14}$/.test(digits) ? digits : null;
+}
+
+export type ParsedPhone = { phone: string | null } | { error: string };
+
+// The number in E.164, null for an empty value, or the validation message. Local numbers
+// without a country code are read as Saudi.
+export function parsePhone(value: string | null | undefined): ParsedPhone {
+  const compact = toWesternDigits(value ?? "").replace(/[\s\-().\u200E\u200F\u202A-\u202E]/g, "");
+  if (!compact) return { phone: null };
+  if (!/^(\+|00)?\d+$/.test(compact)) return { error: INVALID_PHONE_MESSAGE };
+
+  let digits: string | null;
+  if (compact.startsWith("+") || compact.startsWith("00")) {
+    digits = internationalDigits(compact.replace(/^(\+|00)/, ""));
+  } else if (compact.startsWith("0")) {
+    const national = compact.slice(1);
+    digits = gccNumberPatterns[SAUDI_CODE].test(national) ? SAUDI_CODE + national : null;
+  } else if (gccNumberPatterns[SAUDI_CODE].test(compact)) {
+    digits = SAUDI_CODE + compact;
+  } else {
+    // A country code typed without the + (9665XXXXXXXX); only GCC codes are recognised
+    const code = Object.keys(gccNumberPatterns).find((c) => compact.startsWith(c));
+    digits = code ? internationalDigits(compact) : null;
+  }
+  return digits ? { phone: `+${digits}` } : { error: INVALID_PHONE_MESSAGE };
+}
+
+// The E.164 form, or the value as typed when it cannot be read as a phone number
+export function normalizePhone(value: string): string {
+  const parsed = parsePhone(value);
+  return "phone" in parsed && parsed.phone ? parsed.phone : value;
+}
+
+// Digits of a search query with the country code or leading zero dropped, so "0501234567",
+// "+966 50 123 4567" and "٥٠١٢٣" all look for the national number; null when too short to search.
+// A country code is only dropped from a full number, since a few digits may just be part of one.
+export function phoneSearchDigits(query: string): string | null {
+  const parsed = parsePhone(query);
+  let digits = "phone" in parsed && parsed.phone ? parsed.phone.slice(1) : toWesternDigits(query).replace(/\D/g, "");
+  const code = Object.keys(gccNumberPatterns).find((c) => digits.startsWith(c));
+  if (code && "phone" in parsed) digits = digits.slice(code.length);
+  digits = digits.replace(/^0/, "");
+  return digits.length >= 3 ? digits : null;
+}
+
+export function phoneMatchesSearch(phone: string | null | undefined, query: string): boolean {
+  const digits = phoneSearchDigits(query);
+  return !!phone && !!digits && toWesternDigits(phone).replace(/\D/g, "").includes(digits);
+}
@@ -1,17 +1,17 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, pgEnum, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // User roles enum
 export const userRoleEnum = pgEnum("user_role", ["super_admin", "admin", "event_manager", "organizer"]);
 
-// Guest category enum
-export const guestCategoryEnum = pgEnum("guest_category", ["vip", "regular", "media", "sponsor"]);
-
 // Check-in status enum  
 export const checkInStatusEnum = pgEnum("check_in_status", ["pending", "checked_in", "duplicate", "invalid"]);
 
+// Event lifecycle: draft → published → live → closed → archived (see shared/event-lifecycle.ts)
+export const eventStatusEnum = pgEnum("event_status", ["draft", "published", "live", "closed", "archived"]);
+
 // Users table - all system users
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -22,6 +22,17 @@ export const users = pgTable("users", {
   createdById: varchar("created_by_id"),
   eventQuota: integer("event_quota").default(5),
   isActive: boolean("is_active").default(true),
+  // Set when the account was suspended together with the event manager who created it
+  suspendedByUserId: varchar("suspended_by_user_id"),
+  failedLoginAttempts: integer("failed_login_attempts").default(0),
+  lockedUntil: timestamp("locked_until"),
+  totpEnabled: boolean("totp_enabled").default(false),
+  totpSecret: text("totp_secret"),
+  totpRecoveryCodes: text("totp_recovery_codes"),
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // Set for accounts created by a superior; cleared once the user picks their own password
+  mustChangePassword: boolean("must_change_password").default(false),
+  passwordChangedAt: timestamp("password_changed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -37,6 +48,17 @@ export const events = pgTable("events", {
   eventManagerId: varchar("event_manager_id").notNull(),
   capacityTierId: varchar("capacity_tier_id"),
   isActive: boolean("is_active").default(true),
+  status: eventStatusEnum("status").notNull().default("published"),
+  // Check-in window around the event's own start and end times
+  checkInOpensMinutesBefore: integer("check_in_opens_minutes_before").notNull().default(120),
+  checkInClosesMinutesAfter: integer("check_in_closes_minutes_after").notNull().default(120),
+  // When set, check-in refuses bare access codes and unsigned (legacy) QR payloads
+  requireSignedQr: boolean("require_signed_qr").default(false),
+  // Check-out / re-entry mode: guests can leave and come back on the same invitation
+  trackExits: boolean("track_exits").default(false),
+  // Venue limit for people inside at once; alerts start at occupancyAlertPercent of it
+  occupancyLimit: integer("occupancy_limit"),
+  occupancyAlertPercent: integer("occupancy_alert_percent").notNull().default(90),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -46,13 +68,25 @@ export const guests = pgTable("guests", {
   eventId: varchar("event_id").notNull(),
   name: text("name").notNull(),
   phone: text("phone"),
-  category: guestCategoryEnum("category").default("regular"),
+  // Key of one of the event's categories (event_categories.key), set when the guest is created
+  category: text("category"),
   companions: integer("companions").default(0),
+  // How many of the invited companions have actually entered (see shared/headcount.ts)
+  companionsCheckedIn: integer("companions_checked_in").notNull().default(0),
   notes: text("notes"),
   qrCode: text("qr_code").notNull().unique(),
   isCheckedIn: boolean("is_checked_in").default(false),
   checkedInAt: timestamp("checked_in_at"),
   checkedInBy: varchar("checked_in_by"),
+  // Whether the guest's party is in the venue right now. checkedInAt keeps the first
+  // admission; every entry and exit is in guest_movements.
+  isInside: boolean("is_inside").notNull().default(false),
+  // Set when a check-in is undone; cleared when the guest is admitted again
+  checkInRevertedAt: timestamp("check_in_reverted_at"),
+  checkInRevertedBy: varchar("check_in_reverted_by"),
+  checkInRevertReason: text("check_in_revert_reason"),
+  // Values of the event's custom guest fields, keyed by field id (see event_guest_fields)
+  customFields: json("custom_fields").$type<GuestCustomFieldValues>().notNull().default(sql`'{}'::json`),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -61,6 +95,8 @@ export const eventOrganizers = pgTable("event_organizers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").notNull(),
   organizerId: varchar("organizer_id").notNull(),
+  // Gate the organizer works at; null means any gate
+  gateId: varchar("gate_id"),
   assignedAt: timestamp("assigned_at").defaultNow(),
 });
 
@@ -83,6 +119,9 @@ export const siteSettings = pgTable("site_settings", {
   facebook: text("facebook"),
   twitter: text("twitter"),
   linkedin: text("linkedin"),
+  twoFactorRequiredRoles: text("two_factor_required_roles").array(),
+  // Role grants per permission key, see shared/permissions.ts
+  permissionMatrix: json("permission_matrix").$type<Record<string, string[]>>(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -108,6 +147,257 @@ export const userTierQuotas = pgTable("user_tier_quotas", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Login attempts per user, shown on the account page
+export const loginHistory = pgTable("login_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  success: boolean("success").notNull(),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use password reset links issued by super_admin. Only the sha256 of the token is stored.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdById: varchar("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Bearer-token API keys for integrations and kiosks. Only the sha256 of the key is stored;
+// a key acts as its creator, limited to the listed events and permissions.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  createdById: varchar("created_by_id").notNull(),
+  eventIds: text("event_ids").array().notNull(),
+  permissions: text("permissions").array().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  revokedById: varchar("revoked_by_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Check-ins recorded offline on organizer devices and replayed through /api/check-in/sync.
+// clientId is generated on the device, so a replayed batch returns the stored outcome.
+// duplicate: the guest was already admitted elsewhere (older rows recorded this as conflict).
+export const offlineCheckInStatusEnum = pgEnum("offline_check_in_status", ["synced", "conflict", "duplicate", "rejected"]);
+
+export const offlineCheckIns = pgTable("offline_check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: text("client_id").notNull().unique(),
+  deviceId: text("device_id").notNull(),
+  eventId: varchar("event_id").notNull(),
+  guestId: varchar("guest_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  clientCheckedInAt: timestamp("client_checked_in_at").notNull(),
+  status: offlineCheckInStatusEnum("status").notNull(),
+  message: text("message"),
+  syncedAt: timestamp("synced_at").defaultNow(),
+});
+
+export const movementDirectionEnum = pgEnum("movement_direction", ["entry", "exit"]);
+
+// Entry/exit history per guest. `people` is the party size that moved (guest + companions
+// inside at the time), which is what occupancy is counted in.
+export const guestMovements = pgTable(
+  "guest_movements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    eventId: varchar("event_id").notNull(),
+    guestId: varchar("guest_id").notNull(),
+    direction: movementDirectionEnum("direction").notNull(),
+    people: integer("people").notNull(),
+    userId: varchar("user_id"),
+    // Gate the movement went through (from the organizer's assignment), for per-gate counts
+    gateId: varchar("gate_id"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_guest_movements_guest").on(table.guestId)],
+);
+
+export const guestFieldTypeEnum = pgEnum("guest_field_type", ["text", "number", "select", "boolean"]);
+
+// Extra guest details an event manager defines for one event (table number, company, dietary
+// needs). `options` lists the choices of a select field.
+export const eventGuestFields = pgTable(
+  "event_guest_fields",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    eventId: varchar("event_id").notNull(),
+    label: text("label").notNull(),
+    type: guestFieldTypeEnum("type").notNull(),
+    options: text("options").array().notNull().default(sql`'{}'::text[]`),
+    required: boolean("required").notNull().default(false),
+    // Matched by the organizer's guest search
+    searchable: boolean("searchable").notNull().default(false),
+    // Shown on the organizer's check-in result card
+    showAtDoor: boolean("show_at_door").notNull().default(false),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_event_guest_fields_event").on(table.eventId)],
+);
+
+// Guest categories of an event, with the label and color its badges use. Guests and gate rules
+// refer to a category by `key`, which never changes: the four categories every event starts with
+// keep the keys guests had before categories were configurable (vip, regular, media, sponsor).
+export const eventCategories = pgTable(
+  "event_categories",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    eventId: varchar("event_id").notNull(),
+    key: text("key").notNull(),
+    label: text("label").notNull(),
+    color: text("color").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_event_categories_event_key").on(table.eventId, table.key)],
+);
+
+// Gates / zones of an event (main gate, VIP lounge, media pit). A gate with no allowed
+// categories admits every guest; per-guest overrides win over the category rule.
+export const eventGates = pgTable("event_gates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  name: text("name").notNull(),
+  allowedCategories: text("allowed_categories").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const gateAccessOverrides = pgTable(
+  "gate_access_overrides",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    gateId: varchar("gate_id").notNull(),
+    guestId: varchar("guest_id").notNull(),
+    allowed: boolean("allowed").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_gate_access_overrides_guest").on(table.gateId, table.guestId)],
+);
+
+// Sessions of a multi-day event (talks, workshops, days of a conference). Guests are admitted
+// to each session with their event invitation; capacity is counted in people.
+export const eventSessions = pgTable(
+  "event_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    eventId: varchar("event_id").notNull(),
+    name: text("name").notNull(),
+    date: timestamp("date").notNull(),
+    startTime: text("start_time"),
+    endTime: text("end_time"),
+    room: text("room"),
+    capacity: integer("capacity"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_event_sessions_event").on(table.eventId)],
+);
+
+// One row per guest admitted to a session; `people` is the guest plus companions who entered
+export const sessionAttendance = pgTable(
+  "session_attendance",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id").notNull(),
+    eventId: varchar("event_id").notNull(),
+    guestId: varchar("guest_id").notNull(),
+    people: integer("people").notNull(),
+    checkedInBy: varchar("checked_in_by"),
+    checkedInAt: timestamp("checked_in_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_session_attendance_guest").on(table.sessionId, table.guestId)],
+);
+
+export const guestImportStatusEnum = pgEnum("guest_import_status", ["pending", "committed"]);
+
+// Guest files uploaded for import, waiting for the manager to check the preview and commit.
+// The sheet is kept as text cells so the column mapping can change without a new upload.
+export const guestImports = pgTable(
+  "guest_imports",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    eventId: varchar("event_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    fileName: text("file_name").notNull(),
+    sheet: text("sheet").notNull(),
+    sheets: json("sheets").$type<string[]>().notNull(),
+    columns: json("columns").$type<string[]>().notNull(),
+    rows: json("rows").$type<GuestImportSourceRow[]>().notNull(),
+    mapping: json("mapping").$type<GuestImportMapping>().notNull(),
+    status: guestImportStatusEnum("status").notNull().default("pending"),
+    // Set on commit: the rows that were not imported and why
+    rejected: json("rejected").$type<GuestImportRejection[]>(),
+    createdAt: timestamp("created_at").defaultNow(),
+    committedAt: timestamp("committed_at"),
+  },
+  (table) => [index("IDX_guest_imports_event").on(table.eventId)],
+);
+
+// Invitation codes of guests merged into another guest. Scanning one explains which
+// invitation replaced it instead of reporting an unknown code.
+export const retiredAccessCodes = pgTable("retired_access_codes", {
+  code: text("code").primaryKey(),
+  eventId: varchar("event_id").notNull(),
+  // The guest the retired invitation was merged into
+  guestId: varchar("guest_id").notNull(),
+  retiredBy: varchar("retired_by"),
+  retiredAt: timestamp("retired_at").defaultNow(),
+});
+
+// Answers to check-in requests sent with an Idempotency-Key header. A retried request
+// (same user and key) gets the stored answer back instead of being checked in again.
+export const checkInRequests = pgTable(
+  "check_in_requests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    idempotencyKey: text("idempotency_key").notNull(),
+    requestHash: text("request_hash").notNull(),
+    guestId: varchar("guest_id"),
+    responseStatus: integer("response_status"),
+    // The JSON body the check-in was answered with, replayed on a retry
+    response: json("response").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_check_in_requests_user_key").on(table.userId, table.idempotencyKey)],
+);
+
+// Ed25519 keys that sign an event's invitation QR codes. Rotating retires the active key,
+// which invalidates every payload it signed.
+export const eventSigningKeys = pgTable("event_signing_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  kid: text("kid").notNull().unique(),
+  publicKey: text("public_key").notNull(),
+  privateKey: text("private_key").notNull(),
+  createdById: varchar("created_by_id"),
+  retiredAt: timestamp("retired_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Express sessions (rows are written by connect-pg-simple)
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_sessions_expire").on(table.expire)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   createdBy: one(users, {
@@ -183,6 +473,11 @@ export const insertGuestSchema = createInsertSchema(guests).omit({
   checkedInAt: true,
   checkedInBy: true,
   isCheckedIn: true,
+  isInside: true,
+  companionsCheckedIn: true,
+  checkInRevertedAt: true,
+  checkInRevertedBy: true,
+  checkInRevertReason: true,
 });
 
 export const insertEventOrganizerSchema = createInsertSchema(eventOrganizers).omit({
@@ -195,11 +490,74 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   timestamp: true,
 });
 
-export const insertSiteSettingsSchema = createInsertSchema(siteSettings).omit({
+export const insertSiteSettingsSchema = createInsertSchema(siteSettings, {
+  permissionMatrix: z.record(z.string(), z.array(z.string())).nullable().optional(),
+}).omit({
   id: true,
   updatedAt: true,
 });
 
+export const insertLoginHistorySchema = createInsertSchema(loginHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  revokedById: true,
+  createdAt: true,
+});
+
+export const insertOfflineCheckInSchema = createInsertSchema(offlineCheckIns).omit({
+  id: true,
+  syncedAt: true,
+});
+
+export const insertGuestMovementSchema = createInsertSchema(guestMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventGuestFieldSchema = createInsertSchema(eventGuestFields).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventCategorySchema = createInsertSchema(eventCategories).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventGateSchema = createInsertSchema(eventGates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventSessionSchema = createInsertSchema(eventSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionAttendanceSchema = createInsertSchema(sessionAttendance).omit({
+  id: true,
+  checkedInAt: true,
+});
+
+export const insertEventSigningKeySchema = createInsertSchema(eventSigningKeys).omit({
+  id: true,
+  retiredAt: true,
+  createdAt: true,
+});
+
 export const insertCapacityTierSchema = createInsertSchema(capacityTiers).omit({
   id: true,
   createdAt: true,
@@ -236,6 +594,163 @@ export type CapacityTier = typeof capacityTiers.$inferSelect;
 export type InsertUserTierQuota = z.infer<typeof insertUserTierQuotaSchema>;
 export type UserTierQuota = typeof userTierQuotas.$inferSelect;
 
+export type InsertLoginHistoryEntry = z.infer<typeof insertLoginHistorySchema>;
+export type LoginHistoryEntry = typeof loginHistory.$inferSelect;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export type InsertOfflineCheckIn = z.infer<typeof insertOfflineCheckInSchema>;
+export type OfflineCheckIn = typeof offlineCheckIns.$inferSelect;
+
+export type CheckInRequest = typeof checkInRequests.$inferSelect;
+
+export type GuestMovement = typeof guestMovements.$inferSelect;
+export type InsertGuestMovement = z.infer<typeof insertGuestMovementSchema>;
+
+export type OccupancyLevel = "ok" | "warning" | "full";
+
+export interface EventOccupancy {
+  trackExits: boolean;
+  inside: number;
+  limit: number | null;
+  alertPercent: number;
+  level: OccupancyLevel;
+}
+
+export type EventGuestField = typeof eventGuestFields.$inferSelect;
+export type InsertEventGuestField = z.infer<typeof insertEventGuestFieldSchema>;
+export type GuestFieldType = EventGuestField["type"];
+export type GuestCustomFieldValue = string | number | boolean;
+export type GuestCustomFieldValues = Record<string, GuestCustomFieldValue>;
+
+export type EventCategory = typeof eventCategories.$inferSelect;
+export type InsertEventCategory = z.infer<typeof insertEventCategorySchema>;
+
+// Category list entry with the number of guests in it
+export interface EventCategoryWithCount extends EventCategory {
+  guests: number;
+}
+
+// One line of a category breakdown in statistics and reports, in the event's category order
+export interface CategoryCount {
+  key: string;
+  label: string;
+  color: string;
+  count: number;
+}
+
+export type EventGate = typeof eventGates.$inferSelect;
+export type InsertEventGate = z.infer<typeof insertEventGateSchema>;
+export type GateAccessOverride = typeof gateAccessOverrides.$inferSelect;
+
+// Gate list entry with entries recorded through it (invitations and people)
+export interface EventGateWithCounts extends EventGate {
+  entries: number;
+  people: number;
+}
+
+// What an organizer's device needs to apply its gate's rules, also while offline
+export interface GateAccess {
+  gate: EventGate | null;
+  overrides: Pick<GateAccessOverride, "guestId" | "allowed">[];
+}
+
+export type EventSession = typeof eventSessions.$inferSelect;
+export type InsertEventSession = z.infer<typeof insertEventSessionSchema>;
+
+export type SessionAttendance = typeof sessionAttendance.$inferSelect;
+export type InsertSessionAttendance = z.infer<typeof insertSessionAttendanceSchema>;
+
+// Session list entry with how many guests (and people) have been admitted so far
+export interface EventSessionWithAttendance extends EventSession {
+  attendedGuests: number;
+  attendedPeople: number;
+}
+
+export type SessionAdmission =
+  | { status: "admitted" | "duplicate"; attendance: SessionAttendance }
+  | { status: "full" | "not_found" };
+
+// Guest fields an import column can be mapped to
+export const guestImportFields = ["name", "phone", "category", "companions", "notes"] as const;
+export type GuestImportField = (typeof guestImportFields)[number];
+
+// Column header chosen for each field; null leaves the field empty. `custom` does the same for
+// the event's custom guest fields, keyed by field id.
+export type GuestImportMapping = Record<GuestImportField, string | null> & {
+  custom?: Record<string, string | null>;
+};
+
+// One data row of the uploaded sheet; `row` is its row number in Excel
+export interface GuestImportSourceRow {
+  row: number;
+  cells: string[];
+}
+
+export interface GuestImportRejection {
+  row: number;
+  reason: string;
+}
+
+export type GuestImport = typeof guestImports.$inferSelect;
+export type InsertGuestImport = typeof guestImports.$inferInsert;
+
+export interface GuestImportValues {
+  name: string;
+  phone: string | null;
+  category: Guest["category"];
+  companions: number;
+  notes: string | null;
+  customFields: GuestCustomFieldValues;
+}
+
+export interface GuestImportRowPreview {
+  row: number;
+  values: GuestImportValues;
+  errors: string[];
+  // Set when the row looks like an existing guest or an earlier row of the file
+  duplicateOf: string | null;
+  // The existing guest it matches, which the "update" policy overwrites; null for a row
+  // repeating an earlier row of the same file
+  duplicateGuestId: string | null;
+}
+
+export interface GuestImportPreview {
+  id: string;
+  fileName: string;
+  sheet: string;
+  sheets: string[];
+  columns: string[];
+  mapping: GuestImportMapping;
+  status: GuestImport["status"];
+  rows: GuestImportRowPreview[];
+  summary: { total: number; valid: number; invalid: number; duplicates: number };
+  // Guests the event's capacity tier still allows; null when unlimited
+  remainingCapacity: number | null;
+}
+
+// What commit does with a row matching a guest already in the event: leave it out, write its
+// values over the existing guest, or add it anyway as a separate guest
+export const guestImportDuplicatePolicies = ["skip", "update", "duplicate"] as const;
+export type GuestImportDuplicatePolicy = (typeof guestImportDuplicatePolicies)[number];
+
+export interface GuestImportResult {
+  created: number;
+  updated: number;
+  rejected: number;
+}
+
+export type RetiredAccessCode = typeof retiredAccessCodes.$inferSelect;
+
+export type InsertEventSigningKey = z.infer<typeof insertEventSigningKeySchema>;
+export type EventSigningKey = typeof eventSigningKeys.$inferSelect;
+
+export type UserSession = typeof sessions.$inferSelect;
+
 // Login schema
 export const loginSchema = z.object({
   username: z.string().min(1, "اسم المستخدم مطلوب"),
@@ -243,3 +758,139 @@ export const loginSchema = z.object({
 });
 
 export type LoginInput = z.infer<typeof loginSchema>;
+
+// Roles that can enrol in TOTP two-factor authentication
+export const twoFactorRoles = ["super_admin", "admin"] as const;
+export type TwoFactorStage = "verify" | "setup";
+
+// Batch of check-ins recorded offline on one device
+export const checkInSyncSchema = z.object({
+  deviceId: z.string().min(1).max(100),
+  entries: z.array(z.object({
+    clientId: z.string().min(1).max(100),
+    eventId: z.string().min(1),
+    guestId: z.string().min(1),
+    checkedInAt: z.string().datetime(),
+  })).min(1).max(500),
+});
+
+export type CheckInSyncInput = z.infer<typeof checkInSyncSchema>;
+
+// Companions invited with one guest: the same rule for the guest forms, edits and the import
+export const MAX_COMPANIONS = 50;
+
+export const guestCompanionsSchema = z.coerce
+  .number()
+  .int("عدد المرافقين غير صالح")
+  .min(0, "عدد المرافقين غير صالح")
+  .max(MAX_COMPANIONS, `عدد المرافقين لا يتجاوز ${MAX_COMPANIONS}`);
+
+// Optional on every check-in route: how many companions enter with this scan. Omitted means
+// all companions on the guest's first admission; companions arriving later need the count.
+export const checkInCompanionsSchema = z.coerce.number().int().min(0).optional();
+
+export const companionsCountSchema = z.object({
+  companionsCheckedIn: z.number().int().min(0, "عدد المرافقين غير صالح"),
+});
+
+export const revertCheckInSchema = z.object({
+  reason: z.string().trim().min(3, "سبب التراجع مطلوب").max(500, "سبب التراجع طويل جداً"),
+});
+
+// Create / edit a session of an event; times are "HH:MM" like the event's own
+export const eventSessionSchema = z.object({
+  name: z.string().trim().min(1, "اسم الجلسة مطلوب").max(200, "اسم الجلسة طويل جداً"),
+  date: z.coerce.date({ errorMap: () => ({ message: "تاريخ الجلسة غير صالح" }) }),
+  startTime: z.string().trim().max(20).nullable().optional(),
+  endTime: z.string().trim().max(20).nullable().optional(),
+  room: z.string().trim().max(200, "اسم القاعة طويل جداً").nullable().optional(),
+  capacity: z.number().int().positive("سعة الجلسة يجب أن تكون رقماً موجباً").nullable().optional(),
+});
+
+export type EventSessionInput = z.infer<typeof eventSessionSchema>;
+
+export const eventStatusSchema = z.object({
+  status: z.enum(eventStatusEnum.enumValues, { errorMap: () => ({ message: "حالة المناسبة غير صالحة" }) }),
+});
+
+export const checkInWindowSchema = z.object({
+  checkInOpensMinutesBefore: z.number().int().min(0, "مدة فتح التسجيل غير صالحة").max(10080, "مدة فتح التسجيل طويلة جداً").optional(),
+  checkInClosesMinutesAfter: z.number().int().min(0, "مدة إغلاق التسجيل غير صالحة").max(10080, "مدة إغلاق التسجيل طويلة جداً").optional(),
+});
+
+// Edit an event. Status has its own route, and the manager, capacity tier and active flag are
+// not the editor's to change; unknown fields are dropped.
+export const updateEventSchema = insertEventSchema
+  .omit({ status: true, eventManagerId: true, capacityTierId: true, isActive: true })
+  .partial()
+  .extend({
+    name: z.string().trim().min(1, "اسم المناسبة مطلوب").optional(),
+    date: z.coerce.date({ errorMap: () => ({ message: "تاريخ المناسبة غير صالح" }) }).optional(),
+  })
+  .merge(checkInWindowSchema);
+
+export const guestImportMappingSchema = z.object({
+  mapping: z
+    .object(
+      Object.fromEntries(guestImportFields.map((field) => [field, z.string().nullable()])) as Record<
+        GuestImportField,
+        z.ZodNullable<z.ZodString>
+      >
+    )
+    .extend({ custom: z.record(z.string().nullable()).optional() }),
+});
+
+export const guestImportCommitSchema = z.object({
+  duplicates: z.enum(guestImportDuplicatePolicies).default("skip"),
+});
+
+// Merge the guest in the URL into `intoGuestId`, which is the record that stays
+export const mergeGuestsSchema = z.object({
+  intoGuestId: z.string().min(1, "حدد الضيف الذي يبقى"),
+});
+
+// Create / edit a custom guest field of an event
+export const eventGuestFieldSchema = z
+  .object({
+    label: z.string().trim().min(1, "اسم الحقل مطلوب").max(100, "اسم الحقل طويل جداً"),
+    type: z.enum(guestFieldTypeEnum.enumValues, { errorMap: () => ({ message: "نوع الحقل غير صالح" }) }),
+    options: z.array(z.string().trim().min(1).max(100, "الخيار طويل جداً")).max(50, "عدد الخيارات كبير جداً").default([]),
+    required: z.boolean().default(false),
+    searchable: z.boolean().default(false),
+    showAtDoor: z.boolean().default(false),
+    sortOrder: z.number().int().min(0).max(1000).default(0),
+  })
+  .refine((field) => field.type !== "select" || field.options.length > 0, {
+    message: "أضف خياراً واحداً على الأقل لقائمة الاختيار",
+  })
+  .transform((field) => ({ ...field, options: field.type === "select" ? Array.from(new Set(field.options)) : [] }));
+
+export type EventGuestFieldInput = z.infer<typeof eventGuestFieldSchema>;
+
+export const eventCategorySchema = z.object({
+  label: z.string().trim().min(1, "اسم الفئة مطلوب").max(50, "اسم الفئة طويل جداً"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "اللون غير صالح"),
+  sortOrder: z.number().int().min(0).max(1000).default(0),
+});
+
+export type EventCategoryInput = z.infer<typeof eventCategorySchema>;
+
+export const eventGateSchema = z.object({
+  name: z.string().trim().min(1, "اسم البوابة مطلوب").max(100, "اسم البوابة طويل جداً"),
+  allowedCategories: z.array(z.string().min(1)).default([]),
+});
+
+// null clears the guest's override so the gate's category rule applies again
+export const gateOverrideSchema = z.object({
+  allowed: z.boolean().nullable(),
+});
+
+export const organizerGateSchema = z.object({
+  gateId: z.string().min(1).nullable(),
+});
+
+export interface CheckInSyncResult {
+  clientId: string;
+  status: OfflineCheckIn["status"];
+  message: string | null;
+}
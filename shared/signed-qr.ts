@@ -0,0 +1,37 @@
+// Signed invitation QR payloads, shared by the server (signing/verification) and the
+// organizer dashboard (offline verification).
+//
+// Format: DW1.<kid>.<access code>.<base64url Ed25519 signature>
+// The signature covers "DW1.<kid>.<access code>"; kid identifies the event's signing key.
+export const SIGNED_QR_VERSION = "DW1";
+
+export interface SignedQrPayload {
+  kid: string;
+  code: string;
+  signature: string;
+  // The exact bytes that were signed
+  message: string;
+}
+
+export function isSignedQrPayload(text: string): boolean {
+  return text.startsWith(`${SIGNED_QR_VERSION}.`);
+}
+
+export function signedQrMessage(kid: string, code: string): string {
+  return `${SIGNED_QR_VERSION}.${kid}.${code}`;
+}
+
+export function parseSignedQrPayload(text: string): SignedQrPayload | null {
+  const parts = text.trim().split(".");
+  if (parts.length !== 4 || parts[0] !== SIGNED_QR_VERSION) return null;
+  const [, kid, code, signature] = parts;
+  if (!kid || !code || !signature) return null;
+  return { kid, code: code.toUpperCase(), signature, message: signedQrMessage(kid, code.toUpperCase()) };
+}
+
+// Public key material an organizer device downloads for offline verification
+export interface EventPublicKeys {
+  eventId: string;
+  requireSignedQr: boolean;
+  keys: { kid: string; publicKey: string; createdAt: string | null }[];
+}
@@ -8,6 +8,10 @@ const __dirname = path.dirname(__filename);
 
 export default defineConfig({
   plugins: [react()],
+  define: {
+    // Versions the service worker URL so each deploy triggers the update prompt
+    __APP_BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "client", "src"),